@@ -0,0 +1,76 @@
+/**
+ * @format
+ */
+
+import IdeaDatabase from '../src/utils/IdeaDatabase';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, validateArchive } from '../src/utils/BackupManager';
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/data/app/files',
+}));
+
+jest.mock('react-native-sqlite-storage', () => ({
+  enablePromise: jest.fn(),
+  openDatabase: jest.fn(),
+}));
+
+const manifest = (fields: Record<string, unknown> = {}) => ({
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  schemaVersion: IdeaDatabase.currentVersion,
+  createdAt: '2024-05-10T08:00:00.000Z',
+  counts: { ideas: 1, blocks: 0, images: 0, audio: 0 },
+  ...fields,
+});
+
+const archive = (fields: Record<string, unknown> = {}) => ({
+  manifest: manifest(),
+  data: { ideas: [{ id: 1, hint: 'a' }], blocks: [] },
+  images: { 'a.jpg': 'aW1hZ2U=' },
+  audio: { 'memo.m4a': 'YXVkaW8=' },
+  ...fields,
+});
+
+describe('validateArchive', () => {
+  test('returns a valid archive with its media', () => {
+    const result = validateArchive(archive());
+    expect(result.data.ideas).toHaveLength(1);
+    expect(result.images).toEqual({ 'a.jpg': 'aW1hZ2U=' });
+    expect(result.audio).toEqual({ 'memo.m4a': 'YXVkaW8=' });
+  });
+
+  test('accepts format version 1 archives without recordings', () => {
+    const result = validateArchive(archive({ manifest: manifest({ formatVersion: 1 }), audio: undefined }));
+    expect(result.audio).toEqual({});
+  });
+
+  test('accepts archives from before the blocks table existed', () => {
+    expect(() => validateArchive(archive({ manifest: manifest({ schemaVersion: 4 }), data: { ideas: [] } }))).not.toThrow();
+  });
+
+  test('rejects files that are not backups', () => {
+    expect(() => validateArchive(null)).toThrow('不是有效的InspiNote备份文件');
+    expect(() => validateArchive({ manifest: manifest({ format: 'other' }) })).toThrow('不是有效的InspiNote备份文件');
+  });
+
+  test('rejects newer format and schema versions', () => {
+    expect(() => validateArchive(archive({ manifest: manifest({ formatVersion: BACKUP_FORMAT_VERSION + 1 }) })))
+      .toThrow('不支持的备份格式版本');
+    expect(() => validateArchive(archive({ manifest: manifest({ schemaVersion: IdeaDatabase.currentVersion + 1 }) })))
+      .toThrow('备份来自更新版本的应用');
+    expect(() => validateArchive(archive({ manifest: manifest({ schemaVersion: 0 }) })))
+      .toThrow('备份文件缺少数据库版本');
+  });
+
+  test('rejects missing ideas, unknown tables and missing blocks', () => {
+    expect(() => validateArchive(archive({ data: { blocks: [] } }))).toThrow('备份文件缺少想法数据');
+    expect(() => validateArchive(archive({ data: { ideas: [], blocks: [], secrets: [] } })))
+      .toThrow('备份文件包含无效的数据表: secrets');
+    expect(() => validateArchive(archive({ data: { ideas: [] } }))).toThrow('备份文件缺少Block数据');
+  });
+
+  test('rejects media file names with paths and non-string contents', () => {
+    expect(() => validateArchive(archive({ images: { '../a.jpg': 'aW1hZ2U=' } }))).toThrow('备份文件中的图片文件名无效');
+    expect(() => validateArchive(archive({ audio: { 'memo.m4a': 42 } }))).toThrow('备份文件中的录音数据无效');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @format
+ */
+
+import { BlockHistory, classifyStep, diffBlocks } from '../src/utils/BlockHistory';
+import { Block, BlockType } from '../src/Types';
+
+const block = (id: string, content: string, extra: Partial<Block> = {}): Block => ({
+  id,
+  type: BlockType.MARKDOWN,
+  content,
+  isActive: false,
+  cursorPosition: 0,
+  isDirty: false,
+  ...extra,
+});
+
+const contents = (blocks: Block[] | null) => blocks?.map(item => `${item.id}:${item.content}`);
+
+describe('diffBlocks', () => {
+  test('ignores editing state', () => {
+    const prev = [block('1', 'a')];
+    expect(diffBlocks(prev, [block('1', 'a', { isActive: true, cursorPosition: 1, isDirty: true })]))
+      .toEqual({ commands: [], order: null });
+  });
+
+  test('classifies block level operations', () => {
+    const prev = [block('1', 'ab'), block('2', 'c')];
+    const kindOf = (next: Block[]) => {
+      const { commands, order } = diffBlocks(prev, next);
+      return classifyStep(commands, order);
+    };
+    expect(kindOf([block('1', 'a'), block('3', 'b'), block('2', 'c')])).toBe('split');
+    expect(kindOf([block('1', 'abc')])).toBe('merge');
+    expect(kindOf([block('1', 'ab')])).toBe('delete');
+    expect(kindOf([...prev, block('3', '')])).toBe('insert');
+    expect(kindOf([block('1', 'ab', { color: '#ff4444' }), prev[1]])).toBe('color');
+    expect(kindOf([block('1', '- [ ] ab', { type: BlockType.CHECKLIST }), prev[1]])).toBe('type');
+    expect(kindOf([prev[1], prev[0]])).toBe('move');
+  });
+});
+
+describe('BlockHistory', () => {
+  test('undoes and redoes inserts, deletes and moves', () => {
+    const history = new BlockHistory();
+    const v1 = [block('1', 'a'), block('2', 'b')];
+    const v2 = [block('2', 'b'), block('3', 'c'), block('1', 'a')];
+    history.record(v1, v2, 0);
+
+    const undone = history.undo(v2);
+    expect(contents(undone)).toEqual(['1:a', '2:b']);
+    expect(undone?.every(item => item.isDirty)).toBe(true);
+    expect(history.canRedo).toBe(true);
+    expect(contents(history.redo(undone!))).toEqual(['2:b', '3:c', '1:a']);
+  });
+
+  test('groups a typing burst into one step', () => {
+    const history = new BlockHistory();
+    history.record([block('1', '')], [block('1', 'h')], 0);
+    history.record([block('1', 'h')], [block('1', 'hi')], 500);
+    history.record([block('1', 'hi')], [block('1', 'hi!')], 3000);
+
+    expect(contents(history.undo([block('1', 'hi!')]))).toEqual(['1:hi']);
+    expect(contents(history.undo([block('1', 'hi')]))).toEqual(['1:']);
+    expect(history.canUndo).toBe(false);
+  });
+
+  test('a new edit clears the redo stack', () => {
+    const history = new BlockHistory();
+    history.record([block('1', 'a')], [block('1', 'a', { color: '#4488ff' })], 0);
+    history.undo([block('1', 'a', { color: '#4488ff' })]);
+    expect(history.record([block('1', 'a')], [block('1', 'a', { isActive: true })], 10)).toBe(false);
+    expect(history.canRedo).toBe(true);
+    history.record([block('1', 'a')], [block('1', 'b')], 20);
+    expect(history.canRedo).toBe(false);
+  });
+
+  test('does not bring back blocks that were moved to another idea', () => {
+    const history = new BlockHistory();
+    const v1 = [block('1', 'a'), block('2', 'b')];
+    const v2 = [block('1', 'a'), block('2', 'b!'), block('3', 'c')];
+    const v3 = [block('1', 'a!'), block('2', 'b!'), block('3', 'c')];
+    history.record(v1, v2, 0);
+    history.record(v2, v3, 5000);
+
+    // 2和3移到其他想法后不进入历史
+    history.forgetBlocks(new Set(['2', '3']));
+    const moved = [block('1', 'a!')];
+
+    const undone = history.undo(moved);
+    expect(contents(undone)).toEqual(['1:a']);
+    expect(history.canUndo).toBe(false);
+    expect(contents(history.redo(undone!))).toEqual(['1:a!']);
+  });
+
+  test('keeps reorders of the remaining blocks after forgetting moved ones', () => {
+    const history = new BlockHistory();
+    history.record([block('1', 'a'), block('2', 'b'), block('3', 'c')], [block('3', 'c'), block('2', 'b'), block('1', 'a')], 0);
+    history.record([block('3', 'c'), block('2', 'b'), block('1', 'a')], [block('2', 'b'), block('3', 'c'), block('1', 'a')], 5000);
+
+    history.forgetBlocks(new Set(['2']));
+    expect(contents(history.undo([block('3', 'c'), block('1', 'a')]))).toEqual(['1:a', '3:c']);
+    expect(history.canUndo).toBe(false);
+  });
+});
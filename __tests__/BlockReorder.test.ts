@@ -0,0 +1,39 @@
+/**
+ * @format
+ */
+
+import { getDropIndex, moveRange } from '../src/utils/BlockReorder';
+
+describe('moveRange', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'];
+
+  test('moves a single item down and up', () => {
+    expect(moveRange(items, 0, 1, 2)).toEqual(['b', 'c', 'a', 'd', 'e']);
+    expect(moveRange(items, 4, 1, 1)).toEqual(['a', 'e', 'b', 'c', 'd']);
+  });
+
+  test('moves a contiguous range as one piece', () => {
+    expect(moveRange(items, 1, 2, 3)).toEqual(['a', 'd', 'e', 'b', 'c']);
+    expect(moveRange(items, 3, 2, 0)).toEqual(['d', 'e', 'a', 'b', 'c']);
+    expect(moveRange(items, 1, 2, 1)).toEqual(items);
+  });
+});
+
+describe('getDropIndex', () => {
+  const heights = [40, 40, 80, 40];
+
+  test('stays in place for small offsets', () => {
+    expect(getDropIndex(heights, 1, 1, 0)).toBe(1);
+    expect(getDropIndex(heights, 1, 1, 15)).toBe(1);
+  });
+
+  test('passes a block once the dragged center crosses its middle', () => {
+    expect(getDropIndex(heights, 0, 1, 39)).toBe(0);
+    expect(getDropIndex(heights, 0, 1, 41)).toBe(1);
+    expect(getDropIndex(heights, 0, 1, 101)).toBe(2);
+    expect(getDropIndex(heights, 3, 1, -61)).toBe(2);
+    expect(getDropIndex(heights, 3, 1, -121)).toBe(1);
+    expect(getDropIndex(heights, 0, 2, 1000)).toBe(2);
+    expect(getDropIndex(heights, 2, 2, -1000)).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * @format
+ */
+
+import {
+  getChecklistProgress,
+  parseChecklist,
+  serializeChecklist,
+  startsWithTaskPrefix,
+  toggleChecklistItem,
+} from '../src/utils/Checklist';
+
+describe('parseChecklist', () => {
+  test('reads checked state from task list syntax', () => {
+    expect(parseChecklist('- [ ] buy milk\n* [X] call mom\nplain line')).toEqual([
+      { checked: false, text: 'buy milk' },
+      { checked: true, text: 'call mom' },
+      { checked: false, text: 'plain line' },
+    ]);
+  });
+
+  test('keeps a trailing empty item so typing can continue', () => {
+    expect(parseChecklist('- [x] done\n- [ ] ')).toEqual([
+      { checked: true, text: 'done' },
+      { checked: false, text: '' },
+    ]);
+    expect(parseChecklist('')).toEqual([{ checked: false, text: '' }]);
+  });
+});
+
+test('serializeChecklist normalizes the markers', () => {
+  expect(serializeChecklist(parseChecklist('* [X] a\n+ [ ] b'))).toBe('- [x] a\n- [ ] b');
+});
+
+test('toggleChecklistItem only changes the tapped item', () => {
+  expect(toggleChecklistItem('- [ ] a\n- [ ] b', 1)).toBe('- [ ] a\n- [x] b');
+});
+
+test('getChecklistProgress ignores empty items', () => {
+  expect(getChecklistProgress(parseChecklist('- [x] a\n- [ ] b\n- [x] c\n- [ ] '))).toEqual({ done: 2, total: 3 });
+});
+
+test('startsWithTaskPrefix detects typed task syntax', () => {
+  expect(startsWithTaskPrefix('- [ ] ')).toBe(true);
+  expect(startsWithTaskPrefix('- [x] done')).toBe(true);
+  expect(startsWithTaskPrefix('- [ ]')).toBe(false);
+  expect(startsWithTaskPrefix('- item')).toBe(false);
+});
@@ -0,0 +1,52 @@
+/**
+ * @format
+ */
+
+import { adaptColorForTheme, applyColorSpan, parseColorHref } from '../src/utils/ColorSpans';
+
+describe('applyColorSpan', () => {
+  test('wraps the selected text', () => {
+    expect(applyColorSpan('say **hi** now', 4, 10, '#ff4444')).toEqual({
+      text: 'say [**hi**](color:#ff4444) now',
+      cursor: 27,
+    });
+  });
+
+  test('recolors the overlap and keeps the rest of an existing span', () => {
+    const text = 'a [bcd](color:red) e';
+    expect(applyColorSpan(text, 4, 12, 'blue').text).toBe('a [b](color:red)[cd](color:blue) e');
+    expect(applyColorSpan(text, 0, text.length, 'red').text).toBe('[a bcd e](color:red)');
+  });
+
+  test('colors whole bold and italic spans when only part of them is selected', () => {
+    expect(applyColorSpan('say **hello** now', 7, 15, 'red')).toEqual({
+      text: 'say [**hello** n](color:red)ow',
+      cursor: 28,
+    });
+    expect(applyColorSpan('a *bc* d', 0, 4, 'red').text).toBe('[a *bc*](color:red) d');
+    expect(applyColorSpan('**a *b* c**', 5, 6, 'red').text).toBe('[**a *b* c**](color:red)');
+  });
+
+  test('recolors a whole bold span that already has a color', () => {
+    expect(applyColorSpan('[**hi**](color:red) x', 3, 4, 'blue').text).toBe('[**hi**](color:blue) x');
+  });
+
+  test('removes the color when no color is given', () => {
+    expect(applyColorSpan('a [bcd](color:red) e', 2, 18, null)).toEqual({ text: 'a bcd e', cursor: 5 });
+  });
+});
+
+describe('adaptColorForTheme', () => {
+  test('lightens dark colors in dark mode only', () => {
+    expect(adaptColorForTheme('#333333', true)).toBe('#cccccc');
+    expect(adaptColorForTheme('#333333', false)).toBe('#333333');
+    expect(adaptColorForTheme('#ff4444', true)).toBe('#ff4444');
+    expect(adaptColorForTheme('navy', true)).toBe('#7f7fff');
+    expect(adaptColorForTheme('not-a-color', true)).toBe('not-a-color');
+  });
+
+  test('parses color hrefs', () => {
+    expect(parseColorHref('color:#4488ff')).toBe('#4488ff');
+    expect(parseColorHref('wiki:Plan')).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @format
+ */
+
+import { ContentType } from '../src/Types';
+import { ClassifierCategory, KeywordClassifier, ScoringClassifier, tokenize } from '../src/utils/ContentClassifier';
+
+const CATEGORIES: ClassifierCategory[] = [
+  { id: ContentType.TODO, keywords: ['完成', '任务', 'todo'] },
+  { id: ContentType.IDEA, keywords: ['想法', '灵感', 'idea'] },
+  { id: ContentType.LEARNING, keywords: ['学会', '笔记'] },
+  { id: ContentType.NOTE, keywords: [] },
+];
+
+describe('tokenize', () => {
+  test('stems English words', () => {
+    expect(tokenize('Studying tasks learned')).toEqual(['study', 'task', 'learn']);
+  });
+
+  test('splits Chinese runs into single characters and adjacent pairs', () => {
+    expect(tokenize('学习')).toEqual(['学', '学习', '习']);
+  });
+
+  test('mixes both languages and ignores punctuation', () => {
+    expect(tokenize('Learn 读书!')).toEqual(['learn', '读', '读书', '书']);
+  });
+});
+
+describe('KeywordClassifier', () => {
+  test('returns the first category in priority order that has a keyword', () => {
+    const classifier = new KeywordClassifier(CATEGORIES);
+    const result = classifier.classify('有个想法：完成任务清单');
+    expect(result.type).toBe(ContentType.TODO);
+    expect(result.scores[ContentType.TODO]).toBe(2);
+    expect(result.scores[ContentType.IDEA]).toBe(1);
+    expect(result.confidence).toBeCloseTo(2 / 3);
+  });
+
+  test('falls back to the default category with no confidence', () => {
+    const classifier = new KeywordClassifier(CATEGORIES);
+    expect(classifier.classify('今天天气不错')).toMatchObject({ type: ContentType.NOTE, confidence: 0 });
+    expect(classifier.classify('   ')).toMatchObject({ type: ContentType.NOTE, confidence: 0 });
+  });
+});
+
+describe('ScoringClassifier', () => {
+  test('recognises phrase patterns beyond category keywords', () => {
+    const classifier = new ScoringClassifier(CATEGORIES);
+    expect(classifier.classify('Remember to submit the report by Friday').type).toBe(ContentType.TODO);
+    expect(classifier.classify('What if we could share notes offline?').type).toBe(ContentType.IDEA);
+    expect(classifier.classify('今天学到了闭包的原理').type).toBe(ContentType.LEARNING);
+  });
+
+  test('keeps weak signals in the default category', () => {
+    const classifier = new ScoringClassifier(CATEGORIES);
+    const result = classifier.classify('晚饭吃了面条');
+    expect(result.type).toBe(ContentType.NOTE);
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+  });
+
+  test('counts a repeated keyword only once', () => {
+    const classifier = new ScoringClassifier(CATEGORIES, {});
+    expect(classifier.classify('任务 任务 任务').scores[ContentType.TODO]).toBe(1);
+  });
+
+  test('learns from manual corrections and forgets them on reset', () => {
+    const classifier = new ScoringClassifier(CATEGORIES);
+    const text = '周末去爬山';
+    expect(classifier.classify(text).type).toBe(ContentType.NOTE);
+
+    classifier.learn(text, ContentType.IDEA);
+    expect(classifier.classify(text).type).toBe(ContentType.IDEA);
+    expect(classifier.classify('周末爬山去').type).toBe(ContentType.IDEA);
+
+    classifier.reset();
+    expect(classifier.classify(text).type).toBe(ContentType.NOTE);
+  });
+});
+
+describe('custom categories', () => {
+  const withTravel: ClassifierCategory[] = [
+    { id: 'travel', keywords: ['机票', 'hotel'] },
+    ...CATEGORIES,
+  ];
+
+  test('recognises user categories by their keywords', () => {
+    const classifier = new ScoringClassifier(withTravel);
+    const result = classifier.classify('订了机票，还要找hotel');
+    expect(result.type).toBe('travel');
+    expect(Object.keys(result.scores)).toEqual(expect.arrayContaining(['travel', ContentType.NOTE]));
+  });
+
+  test('stops recognising categories removed by setCategories', () => {
+    const classifier = new KeywordClassifier(withTravel);
+    expect(classifier.classify('订了机票').type).toBe('travel');
+
+    classifier.setCategories(CATEGORIES);
+    const result = classifier.classify('订了机票');
+    expect(result.type).toBe(ContentType.NOTE);
+    expect(result.scores.travel).toBeUndefined();
+  });
+
+  test('ignores learned feedback for categories that are no longer recognised', () => {
+    const classifier = new ScoringClassifier(withTravel);
+    classifier.learn('周末去海边', 'travel');
+    expect(classifier.classify('周末去海边').type).toBe('travel');
+
+    classifier.setCategories(CATEGORIES);
+    expect(classifier.classify('周末去海边').type).toBe(ContentType.NOTE);
+  });
+
+  test('always includes the default category in the scores', () => {
+    const classifier = new ScoringClassifier([{ id: 'travel', keywords: ['机票'] }]);
+    expect(classifier.classify('晚饭吃了面条')).toMatchObject({
+      type: ContentType.NOTE,
+      scores: { travel: 0, [ContentType.NOTE]: 1 },
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @format
+ */
+
+import { splitSearchTerms, needsLikeFallback, buildMatchQuery, containsAnyTerm } from '../src/utils/FullTextQuery';
+
+describe('splitSearchTerms', () => {
+  test('splits on any whitespace and drops empty terms', () => {
+    expect(splitSearchTerms('  react\tnative \n 笔记 ')).toEqual(['react', 'native', '笔记']);
+  });
+
+  test('returns no terms for a blank query', () => {
+    expect(splitSearchTerms('   ')).toEqual([]);
+  });
+});
+
+describe('needsLikeFallback', () => {
+  test('falls back when there is no full text index', () => {
+    expect(needsLikeFallback(['react'], null)).toBe(true);
+  });
+
+  test('falls back when the trigram tokenizer gets a term shorter than 3 characters', () => {
+    expect(needsLikeFallback(['react', '笔记'], 'trigram')).toBe(true);
+    expect(needsLikeFallback(['react', '读书笔记'], 'trigram')).toBe(false);
+  });
+
+  test('never falls back for short terms with the unicode61 tokenizer', () => {
+    expect(needsLikeFallback(['a', '笔'], 'unicode61')).toBe(false);
+  });
+});
+
+describe('buildMatchQuery', () => {
+  test('quotes every term and joins them so all must match', () => {
+    expect(buildMatchQuery(['react', '读书笔记'], 'trigram')).toBe('"react" "读书笔记"');
+  });
+
+  test('uses prefix matching with the unicode61 tokenizer', () => {
+    expect(buildMatchQuery(['reac', 'nat'], 'unicode61')).toBe('"reac"* "nat"*');
+  });
+
+  test('escapes double quotes inside a term', () => {
+    expect(buildMatchQuery(['say"hi'], 'trigram')).toBe('"say""hi"');
+  });
+});
+
+describe('containsAnyTerm', () => {
+  test('matches terms regardless of case like SQL LIKE does', () => {
+    expect(containsAnyTerm('React Native Notes', ['react'])).toBe(true);
+    expect(containsAnyTerm('读书笔记', ['NOTES', '笔记'])).toBe(true);
+  });
+
+  test('returns false when no term appears in the text', () => {
+    expect(containsAnyTerm('React Native Notes', ['vue', '笔记'])).toBe(false);
+  });
+});
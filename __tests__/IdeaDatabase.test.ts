@@ -0,0 +1,225 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import IdeaDatabase from '../src/utils/IdeaDatabase';
+import { BlockType } from '../src/Types';
+
+jest.mock('react-native-sqlite-storage', () => ({
+  enablePromise: jest.fn(),
+  openDatabase: jest.fn(),
+}));
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/data/app/files',
+  exists: jest.fn(),
+  unlink: jest.fn(),
+}));
+
+const mockedFS = RNFS as jest.Mocked<typeof RNFS>;
+
+interface FakeBlock {
+  idea_id: number;
+  block_id: string;
+  order_index: number;
+}
+
+const resultOf = (rows: any[], rowsAffected = 0) => [{
+  rows: { length: rows.length, item: (index: number) => rows[index] },
+  rowsAffected,
+}];
+
+/**
+ * 只支持moveBlocksToIdea用到的语句的内存数据库，事务回滚时恢复blocks表
+ * failOnUpdate为第几条UPDATE语句（从1开始）执行失败
+ */
+const createFakeDb = (initialBlocks: FakeBlock[], failOnUpdate?: number) => {
+  let blocks = initialBlocks.map(block => ({ ...block }));
+  let snapshot: FakeBlock[] | null = null;
+  let updates = 0;
+
+  const executeSql = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('BEGIN TRANSACTION')) {
+      snapshot = blocks.map(block => ({ ...block }));
+    } else if (sql.startsWith('COMMIT')) {
+      snapshot = null;
+    } else if (sql.startsWith('ROLLBACK')) {
+      blocks = snapshot ?? blocks;
+      snapshot = null;
+    } else if (sql.startsWith('SELECT block_id, order_index FROM blocks')) {
+      return resultOf(blocks.filter(block => block.idea_id === params[0]));
+    } else if (sql.startsWith('SELECT block_id FROM blocks')) {
+      const [ideaId, ...blockIds] = params;
+      return resultOf(blocks
+        .filter(block => block.idea_id === ideaId && blockIds.includes(block.block_id))
+        .sort((a, b) => a.order_index - b.order_index));
+    } else if (sql.startsWith('UPDATE blocks SET idea_id')) {
+      updates++;
+      if (updates === failOnUpdate) {
+        throw new Error('disk I/O error');
+      }
+      const [toIdeaId, newBlockId, orderIndex, fromIdeaId, blockId] = params;
+      const block = blocks.find(item => item.idea_id === fromIdeaId && item.block_id === blockId);
+      if (block) {
+        Object.assign(block, { idea_id: toIdeaId, block_id: newBlockId, order_index: orderIndex });
+      }
+      return resultOf([], block ? 1 : 0);
+    }
+    return resultOf([]);
+  });
+
+  return {
+    db: { executeSql },
+    blocksOf: (ideaId: number) => blocks
+      .filter(block => block.idea_id === ideaId)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(block => `${block.block_id}@${block.order_index}`),
+  };
+};
+
+const openWith = (db: any): IdeaDatabase => {
+  const database = new IdeaDatabase('Test.db');
+  Object.assign(database, { db, isInitialized: true });
+  return database;
+};
+
+const BLOCKS: FakeBlock[] = [
+  { idea_id: 1, block_id: 'a', order_index: 0 },
+  { idea_id: 1, block_id: 'b', order_index: 1 },
+  { idea_id: 1, block_id: 'c', order_index: 2 },
+  { idea_id: 1, block_id: 'x', order_index: 3 },
+  { idea_id: 2, block_id: 'x', order_index: 0 },
+  { idea_id: 2, block_id: 'y', order_index: 4 },
+];
+
+describe('moveBlocksToIdea', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('appends the moved blocks after the target blocks in source order', async () => {
+    const fake = createFakeDb(BLOCKS);
+    await openWith(fake.db).moveBlocksToIdea(1, 2, ['c', 'a']);
+
+    expect(fake.blocksOf(1)).toEqual(['b@1', 'x@3']);
+    expect(fake.blocksOf(2)).toEqual(['x@0', 'y@4', 'a@5', 'c@6']);
+    expect(fake.db.executeSql).toHaveBeenCalledWith('COMMIT;');
+  });
+
+  test('renames blocks whose id already exists in the target idea', async () => {
+    const fake = createFakeDb(BLOCKS);
+    await openWith(fake.db).moveBlocksToIdea(1, 2, ['x', 'b']);
+
+    expect(fake.blocksOf(2)).toEqual(['x@0', 'y@4', 'b@5', '1000_1@6']);
+  });
+
+  test('rolls back every block when one update fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fake = createFakeDb(BLOCKS, 2);
+
+    await expect(openWith(fake.db).moveBlocksToIdea(1, 2, ['a', 'b', 'c'])).rejects.toThrow('移动Block失败');
+
+    expect(fake.db.executeSql).toHaveBeenCalledWith('ROLLBACK;');
+    expect(fake.db.executeSql).not.toHaveBeenCalledWith('COMMIT;');
+    expect(fake.blocksOf(1)).toEqual(['a@0', 'b@1', 'c@2', 'x@3']);
+    expect(fake.blocksOf(2)).toEqual(['x@0', 'y@4']);
+  });
+
+  test('does nothing without blocks or when the target is the same idea', async () => {
+    const fake = createFakeDb(BLOCKS);
+    const database = openWith(fake.db);
+    await database.moveBlocksToIdea(1, 2, []);
+    await database.moveBlocksToIdea(1, 1, ['a']);
+
+    expect(fake.db.executeSql).not.toHaveBeenCalled();
+  });
+});
+
+describe('permanentlyDeleteIdea', () => {
+  const audio = (name: string) => `file:///data/app/files/audio/${name}.m4a`;
+  const revision = (...uris: string[]) => ({
+    blocks_json: JSON.stringify(uris.map((content, index) => ({ block_id: `r${index}`, type: BlockType.AUDIO, content }))),
+  });
+
+  /**
+   * 想法1在回收站中：当前有一个录音block和语音附件，历史版本中还有已删除的录音
+   * otherRevisions为其他想法的历史版本
+   */
+  const createPurgeDb = (otherRevisions: { blocks_json: string }[]) => {
+    const executeSql = jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.startsWith('SELECT id FROM ideas')) {
+        return resultOf([{ id: 1 }]);
+      }
+      if (sql.startsWith('SELECT content FROM blocks')) {
+        return resultOf([{ content: audio('current') }]);
+      }
+      if (sql.startsWith('SELECT audio_uri FROM ideas')) {
+        return resultOf([{ audio_uri: audio('voice') }]);
+      }
+      if (sql.startsWith('SELECT blocks_json FROM idea_revisions')) {
+        return resultOf([revision(audio('current'), audio('old'))]);
+      }
+      if (sql.startsWith('SELECT\n')) {
+        const count = otherRevisions.filter(row => row.blocks_json.includes(params[1])).length;
+        return resultOf([{ count }]);
+      }
+      return resultOf([]);
+    });
+    return { executeSql };
+  };
+
+  beforeEach(() => {
+    mockedFS.exists.mockResolvedValue(true);
+    mockedFS.unlink.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('removes audio files of blocks, attachments and revisions', async () => {
+    const db = createPurgeDb([]);
+    await openWith(db).permanentlyDeleteIdea(1);
+
+    expect(db.executeSql).toHaveBeenCalledWith('COMMIT;');
+    expect(mockedFS.unlink.mock.calls.map(([path]) => path)).toEqual([
+      '/data/app/files/audio/current.m4a',
+      '/data/app/files/audio/voice.m4a',
+      '/data/app/files/audio/old.m4a',
+    ]);
+  });
+
+  test('keeps audio files that a revision of another idea still references', async () => {
+    const db = createPurgeDb([revision(audio('old'))]);
+    await openWith(db).permanentlyDeleteIdea(1);
+
+    expect(mockedFS.unlink.mock.calls.map(([path]) => path)).toEqual([
+      '/data/app/files/audio/current.m4a',
+      '/data/app/files/audio/voice.m4a',
+    ]);
+  });
+
+  test('keeps every file when the references cannot be checked', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const db = createPurgeDb([]);
+    const execute = db.executeSql.getMockImplementation()!;
+    db.executeSql.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.startsWith('SELECT\n')) {
+        throw new Error('database is locked');
+      }
+      return execute(sql, params);
+    });
+
+    await openWith(db).permanentlyDeleteIdea(1);
+
+    expect(db.executeSql).toHaveBeenCalledWith('COMMIT;');
+    expect(mockedFS.unlink).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * @format
+ */
+
+import { shiftDate } from '../src/utils/JournalRules';
+
+describe('shiftDate', () => {
+  test('moves to the previous and next day', () => {
+    expect(shiftDate('2024-05-10', -1)).toBe('2024-05-09');
+    expect(shiftDate('2024-05-10', 1)).toBe('2024-05-11');
+  });
+
+  test('moves across month, leap day and year boundaries', () => {
+    expect(shiftDate('2024-03-01', -1)).toBe('2024-02-29');
+    expect(shiftDate('2023-03-01', -1)).toBe('2023-02-28');
+    expect(shiftDate('2024-12-31', 1)).toBe('2025-01-01');
+  });
+});
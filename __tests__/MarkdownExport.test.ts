@@ -0,0 +1,98 @@
+/**
+ * @format
+ */
+
+import { BlockRecord, BlockType, IdeaRecord } from '../src/Types';
+import { applyColorSyntax, blockToMarkdown, ideaToMarkdown } from '../src/utils/MarkdownExport';
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/data/app/files',
+}));
+
+jest.mock('../src/utils/IdeaDatabase', () => ({
+  ideaDB: {},
+}));
+
+const idea: IdeaRecord = {
+  id: 1,
+  hint: '周末计划',
+  detail: '',
+  date: '2024-05-10',
+  category: 'todo',
+  completed: true,
+  created_at: '2024-05-10T08:00:00.000Z',
+  updated_at: '2024-05-10T08:00:00.000Z',
+};
+
+const block = (fields: Partial<BlockRecord>): BlockRecord => ({
+  id: 1,
+  idea_id: 1,
+  block_id: 'b1',
+  type: BlockType.MARKDOWN,
+  content: '',
+  order_index: 0,
+  created_at: '2024-05-10T08:00:00.000Z',
+  updated_at: '2024-05-10T08:00:00.000Z',
+  ...fields,
+});
+
+describe('applyColorSyntax', () => {
+  test('leaves content without a color unchanged', () => {
+    expect(applyColorSyntax('# 标题\n- item')).toBe('# 标题\n- item');
+  });
+
+  test('wraps each line but keeps heading, list and quote markers outside', () => {
+    expect(applyColorSyntax('# 标题\n- item\n> quote\n\nplain', 'red')).toBe(
+      '# [标题](color:red)\n- [item](color:red)\n> [quote](color:red)\n\n[plain](color:red)'
+    );
+  });
+});
+
+describe('blockToMarkdown', () => {
+  test('exports code blocks as fenced code with their language', () => {
+    expect(blockToMarkdown(block({ type: BlockType.CODE, content: 'const a = 1;', attrs: { language: 'ts' } })))
+      .toBe('```ts\nconst a = 1;\n```');
+  });
+
+  test('exports image blocks through the image resolver', () => {
+    const resolve = (uri: string) => `images/${uri.split('/').pop()}`;
+    expect(blockToMarkdown(block({ type: BlockType.IMAGE, content: 'file:///data/app/files/images/a.jpg' }), resolve))
+      .toBe('![](images/a.jpg)');
+  });
+
+  test('exports audio blocks as a link to the recording', () => {
+    expect(blockToMarkdown(block({ type: BlockType.AUDIO, content: 'file:///data/app/files/audio/memo.m4a' })))
+      .toBe('[🎙️ memo.m4a](file:///data/app/files/audio/memo.m4a)');
+  });
+
+  test('exports table blocks as GFM tables', () => {
+    const content = JSON.stringify({ columns: ['名称', '数量'], rows: [['苹果', '3']] });
+    expect(blockToMarkdown(block({ type: BlockType.TABLE, content })))
+      .toBe('| 名称 | 数量 |\n| --- | --- |\n| 苹果 | 3 |');
+  });
+
+  test('applies the block color to markdown blocks', () => {
+    expect(blockToMarkdown(block({ content: 'hello', color: '#ff4444' }))).toBe('[hello](color:#ff4444)');
+  });
+});
+
+describe('ideaToMarkdown', () => {
+  test('writes front matter, the title and non-empty blocks', () => {
+    const markdown = ideaToMarkdown(idea, [
+      block({ content: '买菜' }),
+      block({ block_id: 'b2', content: '   ' }),
+      block({ block_id: 'b3', content: '打扫' }),
+    ]);
+    expect(markdown).toBe([
+      '---\ndate: 2024-05-10\ncategory: todo\ncompleted: true\ncreated_at: 2024-05-10T08:00:00.000Z\n---',
+      '# 周末计划',
+      '买菜',
+      '打扫',
+    ].join('\n\n') + '\n');
+  });
+
+  test('omits the category and completed fields when they are not set', () => {
+    const markdown = ideaToMarkdown({ ...idea, category: undefined, completed: false }, []);
+    expect(markdown).toBe('---\ndate: 2024-05-10\ncreated_at: 2024-05-10T08:00:00.000Z\n---\n\n# 周末计划\n');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @format
+ */
+
+import { BlockType } from '../src/Types';
+import { normalizeDate, parseMarkdownNote } from '../src/utils/MarkdownImport';
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/data/app/files',
+}));
+
+jest.mock('react-native-sqlite-storage', () => ({
+  enablePromise: jest.fn(),
+  openDatabase: jest.fn(),
+}));
+
+describe('normalizeDate', () => {
+  test('pads ISO-like dates and drops the time part', () => {
+    expect(normalizeDate('2024-5-3')).toBe('2024-05-03');
+    expect(normalizeDate('2024-05-10T08:00:00.000Z')).toBe('2024-05-10');
+  });
+
+  test('parses other date formats and rejects unreadable values', () => {
+    expect(normalizeDate('May 10, 2024 12:00 UTC')).toBe('2024-05-10');
+    expect(normalizeDate('someday')).toBeUndefined();
+    expect(normalizeDate(undefined)).toBeUndefined();
+  });
+});
+
+describe('parseMarkdownNote', () => {
+  test('reads front matter and uses the first heading as the title', () => {
+    const note = parseMarkdownNote(
+      '---\ndate: 2024-5-10\ncategory: TODO\ncompleted: true\n---\n# 周末计划\n\n买菜\n打扫',
+      'note.md'
+    );
+    expect(note).toEqual({
+      hint: '周末计划',
+      date: '2024-05-10',
+      category: 'todo',
+      completed: true,
+      blocks: [
+        { type: BlockType.MARKDOWN, content: '买菜' },
+        { type: BlockType.MARKDOWN, content: '打扫' },
+      ],
+    });
+  });
+
+  test('falls back to the file name and ignores unknown categories', () => {
+    const note = parseMarkdownNote('---\ncategory: unknown\n---\nhello', '读书笔记.md');
+    expect(note.hint).toBe('读书笔记');
+    expect(note.category).toBeUndefined();
+    expect(note.completed).toBe(false);
+  });
+
+  test('splits local images into their own blocks and keeps remote images as text', () => {
+    const note = parseMarkdownNote('before ![](images/a.png) after\n![[b.jpg|300]]\n![](https://example.com/c.png)', 'n.md');
+    expect(note.blocks).toEqual([
+      { type: BlockType.MARKDOWN, content: 'before' },
+      { type: BlockType.IMAGE, src: 'images/a.png' },
+      { type: BlockType.MARKDOWN, content: 'after' },
+      { type: BlockType.IMAGE, src: 'b.jpg' },
+      { type: BlockType.MARKDOWN, content: '![](https://example.com/c.png)' },
+    ]);
+  });
+
+  test('restores exported color syntax onto the block', () => {
+    const note = parseMarkdownNote('# T\n- [重要](color:#ff4444)', 'n.md');
+    expect(note.blocks).toEqual([{ type: BlockType.MARKDOWN, content: '- 重要', color: '#ff4444' }]);
+  });
+
+  test('merges consecutive task lines into one checklist block', () => {
+    const note = parseMarkdownNote('# T\n- [ ] 买菜\n- [x] 打扫\ntext', 'n.md');
+    expect(note.blocks).toEqual([
+      { type: BlockType.CHECKLIST, content: '- [ ] 买菜\n- [x] 打扫' },
+      { type: BlockType.MARKDOWN, content: 'text' },
+    ]);
+  });
+
+  test('keeps fenced code as one block and does not take comments in it as the title', () => {
+    const note = parseMarkdownNote('```python\n# not a title\nprint(1)\n```', 'script.md');
+    expect(note.hint).toBe('script');
+    expect(note.blocks).toEqual([
+      { type: BlockType.CODE, content: '# not a title\nprint(1)', language: 'python' },
+    ]);
+  });
+
+  test('converts GFM tables into table blocks', () => {
+    const note = parseMarkdownNote('# T\n| 名称 | 数量 |\n| --- | ---: |\n| 苹果 | 3 |', 'n.md');
+    expect(note.blocks).toEqual([
+      { type: BlockType.TABLE, table: { columns: ['名称', '数量'], rows: [['苹果', '3']] } },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @format
+ */
+
+import RNFS from 'react-native-fs';
+import { uriToPath, isLocalMediaUri, deleteLocalMediaFiles } from '../src/utils/MediaStorage';
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/data/app/files',
+  exists: jest.fn(),
+  unlink: jest.fn(),
+}));
+
+const mockedFS = RNFS as jest.Mocked<typeof RNFS>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('uriToPath', () => {
+  test('strips the file:// scheme and leaves plain paths alone', () => {
+    expect(uriToPath('file:///data/app/files/images/a.jpg')).toBe('/data/app/files/images/a.jpg');
+    expect(uriToPath('/data/app/files/audio/b.m4a')).toBe('/data/app/files/audio/b.m4a');
+  });
+});
+
+describe('isLocalMediaUri', () => {
+  test('accepts files inside the document directory only', () => {
+    expect(isLocalMediaUri('file:///data/app/files/images/a.jpg')).toBe(true);
+    expect(isLocalMediaUri('file:///storage/DCIM/photo.jpg')).toBe(false);
+    expect(isLocalMediaUri('https://example.com/a.jpg')).toBe(false);
+  });
+});
+
+describe('deleteLocalMediaFiles', () => {
+  test('deletes existing local files and skips external or missing ones', async () => {
+    mockedFS.exists.mockImplementation(async path => path.endsWith('a.jpg'));
+    mockedFS.unlink.mockResolvedValue(undefined);
+
+    await deleteLocalMediaFiles([
+      'file:///data/app/files/images/a.jpg',
+      'file:///data/app/files/images/missing.jpg',
+      'file:///storage/DCIM/photo.jpg',
+    ]);
+
+    expect(mockedFS.exists).toHaveBeenCalledTimes(2);
+    expect(mockedFS.unlink).toHaveBeenCalledTimes(1);
+    expect(mockedFS.unlink).toHaveBeenCalledWith('/data/app/files/images/a.jpg');
+  });
+
+  test('keeps deleting the remaining files when one deletion fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedFS.exists.mockResolvedValue(true);
+    mockedFS.unlink.mockRejectedValueOnce(new Error('busy')).mockResolvedValue(undefined);
+
+    await deleteLocalMediaFiles([
+      'file:///data/app/files/images/a.jpg',
+      'file:///data/app/files/audio/b.m4a',
+    ]);
+
+    expect(mockedFS.unlink).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @format
+ */
+
+import {
+  getNextOccurrence,
+  getNextOccurrenceFrom,
+  getOccurrencesInRange,
+  normalizeRecurrence,
+  shiftDateTime,
+} from '../src/utils/RecurrenceRules';
+
+// 2024-05-15 是星期三
+describe('getNextOccurrence', () => {
+  test('skips weekends for weekday recurrence', () => {
+    const rule = normalizeRecurrence({ frequency: 'weekdays' }, '2024-05-15');
+    expect(getNextOccurrence(rule, '2024-05-15')).toBe('2024-05-16');
+    expect(getNextOccurrence(rule, '2024-05-17')).toBe('2024-05-20');
+  });
+
+  test('moves through chosen weekdays and skips weeks by interval', () => {
+    const rule = normalizeRecurrence({ frequency: 'weekly', weekdays: [1, 3], interval: 2 }, '2024-05-15');
+    expect(getNextOccurrence(rule, '2024-05-13')).toBe('2024-05-15');
+    expect(getNextOccurrence(rule, '2024-05-15')).toBe('2024-05-27');
+  });
+
+  test('clamps monthly dates to the end of shorter months', () => {
+    const rule = normalizeRecurrence({ frequency: 'monthly', month_day: 31 }, '2024-01-31');
+    expect(getNextOccurrence(rule, '2024-01-31')).toBe('2024-02-29');
+    expect(getNextOccurrence(rule, '2024-02-29')).toBe('2024-03-31');
+  });
+
+  test('skips occurrences that are already in the past', () => {
+    const rule = normalizeRecurrence({ frequency: 'interval', interval: 3 }, '2024-05-01');
+    expect(getNextOccurrenceFrom(rule, '2024-05-01', '2024-05-15')).toBe('2024-05-16');
+  });
+});
+
+describe('getOccurrencesInRange', () => {
+  test('lists daily occurrences inside the range only', () => {
+    const rule = normalizeRecurrence({ frequency: 'daily' }, '2024-05-28');
+    expect(getOccurrencesInRange(rule, '2024-05-28', '2024-05-30', '2024-06-02')).toEqual([
+      '2024-05-30', '2024-05-31', '2024-06-01', '2024-06-02',
+    ]);
+  });
+});
+
+test('shiftDateTime keeps the time of day', () => {
+  const dueAt = new Date(2024, 4, 15, 18, 30).toISOString();
+  expect(new Date(shiftDateTime(dueAt, '2024-05-15', '2024-05-22'))).toEqual(new Date(2024, 4, 22, 18, 30));
+});
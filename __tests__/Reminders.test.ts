@@ -0,0 +1,216 @@
+/**
+ * @format
+ */
+
+import { parseDueDate } from '../src/utils/DueDateParser';
+import {
+  NotificationDriver,
+  Reminder,
+  ReminderClock,
+  ReminderScheduler,
+} from '../src/utils/ReminderScheduler';
+import { IdeaRecord } from '../src/Types';
+
+// 手动推进的假时钟
+class FakeClock implements ReminderClock {
+  private current: number;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now() {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, delayMs: number) {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.current + delayMs, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers.delete(handle as number);
+  }
+
+  advance(ms: number) {
+    const target = this.current + ms;
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) {
+        break;
+      }
+      this.timers.delete(due[0]);
+      this.current = due[1].at;
+      due[1].callback();
+    }
+    this.current = target;
+  }
+}
+
+class FakeDriver implements NotificationDriver {
+  scheduled = new Map<number, Reminder>();
+
+  async schedule(reminder: Reminder) {
+    this.scheduled.set(reminder.ideaId, reminder);
+  }
+
+  async cancel(ideaId: number) {
+    this.scheduled.delete(ideaId);
+  }
+
+  async cancelAll() {
+    this.scheduled.clear();
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const buildIdea = (overrides: Partial<IdeaRecord>): IdeaRecord => ({
+  id: 1,
+  hint: '交报告',
+  detail: '',
+  date: '2024-05-15',
+  created_at: '2024-05-15 00:00:00',
+  updated_at: '2024-05-15 00:00:00',
+  ...overrides,
+});
+
+describe('parseDueDate', () => {
+  // 2024-05-15 是星期三
+  const now = new Date(2024, 4, 15, 10, 0);
+
+  test('parses Chinese relative day with afternoon time', () => {
+    const result = parseDueDate('明天下午3点交报告', now);
+    expect(result?.dueAt).toEqual(new Date(2024, 4, 16, 15, 0));
+    expect(result?.hasTime).toBe(true);
+  });
+
+  test('parses next week weekday', () => {
+    expect(parseDueDate('下周五开会', now)?.dueAt).toEqual(new Date(2024, 4, 24, 9, 0));
+    expect(parseDueDate('submit the form next Friday', now)?.dueAt).toEqual(new Date(2024, 4, 24, 9, 0));
+  });
+
+  test('parses English time and upcoming weekday', () => {
+    expect(parseDueDate('call mom on Friday at 6:30 pm', now)?.dueAt).toEqual(new Date(2024, 4, 17, 18, 30));
+    expect(parseDueDate('pay rent tomorrow', now)?.dueAt).toEqual(new Date(2024, 4, 16, 9, 0));
+  });
+
+  test('moves a passed time-only due date to tomorrow', () => {
+    expect(parseDueDate('8点跑步', now)?.dueAt).toEqual(new Date(2024, 4, 16, 8, 0));
+    expect(parseDueDate('晚上8点半跑步', now)?.dueAt).toEqual(new Date(2024, 4, 15, 20, 30));
+  });
+
+  test('returns null without date or time', () => {
+    expect(parseDueDate('买牛奶', now)).toBeNull();
+  });
+
+  test('needs a time marker for Chinese numeral hours', () => {
+    expect(parseDueDate('早一点出发', now)).toBeNull();
+    expect(parseDueDate('一点一点整理房间', now)).toBeNull();
+    expect(parseDueDate('下午一点开会', now)?.dueAt).toEqual(new Date(2024, 4, 15, 13, 0));
+    expect(parseDueDate('三点钟开会', now)?.dueAt).toEqual(new Date(2024, 4, 15, 15, 0));
+    expect(parseDueDate('早一点出发，两点半到', now)?.dueAt).toEqual(new Date(2024, 4, 15, 14, 30));
+  });
+
+  test('ignores line and building numbers and weekly frequencies', () => {
+    expect(parseDueDate('坐一号线去公司', now)).toBeNull();
+    expect(parseDueDate('去3号楼取快递', now)).toBeNull();
+    expect(parseDueDate('一周一次打扫卫生', now)).toBeNull();
+    expect(parseDueDate('这周三次健身', now)).toBeNull();
+    expect(parseDueDate('周一交周报', now)?.dueAt).toEqual(new Date(2024, 4, 20, 9, 0));
+  });
+
+  test('only reads English weekday abbreviations after a preposition', () => {
+    expect(parseDueDate('sat in the sun', now)).toBeNull();
+    expect(parseDueDate('mon ami visits', now)).toBeNull();
+    expect(parseDueDate('buy a sundial', now)).toBeNull();
+    expect(parseDueDate('water plants on sat', now)?.dueAt).toEqual(new Date(2024, 4, 18, 9, 0));
+    expect(parseDueDate('send report by Mon', now)?.dueAt).toEqual(new Date(2024, 4, 20, 9, 0));
+  });
+
+  test('rejects dates that do not exist instead of rolling them over', () => {
+    expect(parseDueDate('2月30日交房租', now)).toBeNull();
+    expect(parseDueDate('13月5日出发', now)).toBeNull();
+    expect(parseDueDate('pay rent on Feb 30', now)).toBeNull();
+    expect(parseDueDate('meet on 31 Apr', now)).toBeNull();
+    expect(parseDueDate('0号交报告', now)).toBeNull();
+    expect(parseDueDate('13/45交报告', now)).toBeNull();
+  });
+
+  test('skips to the next year or month that has the day', () => {
+    // 2027年没有2月29日
+    expect(parseDueDate('2月29日续费', new Date(2027, 0, 10))?.dueAt).toEqual(new Date(2028, 1, 29, 9, 0));
+    // 6月没有31号
+    expect(parseDueDate('31号交报告', new Date(2024, 5, 10))?.dueAt).toEqual(new Date(2024, 6, 31, 9, 0));
+    expect(parseDueDate('12月31日跨年', now)?.dueAt).toEqual(new Date(2024, 11, 31, 9, 0));
+  });
+});
+
+describe('ReminderScheduler', () => {
+  test('schedules future reminders and fires them when the clock reaches them', async () => {
+    const clock = new FakeClock(new Date(2024, 4, 15, 10, 0));
+    const driver = new FakeDriver();
+    const scheduler = new ReminderScheduler(driver, clock);
+    const fired: number[] = [];
+    scheduler.onReminderDue(reminder => fired.push(reminder.ideaId));
+
+    const remindAt = new Date(clock.now() + 2 * HOUR).toISOString();
+    expect(await scheduler.syncIdea(buildIdea({ id: 1, remind_at: remindAt }))).toBe(true);
+    expect(driver.scheduled.get(1)?.fireAt).toBe(clock.now() + 2 * HOUR);
+
+    clock.advance(HOUR);
+    expect(fired).toEqual([]);
+
+    clock.advance(HOUR);
+    expect(fired).toEqual([1]);
+    expect(scheduler.getScheduled()).toEqual([]);
+  });
+
+  test('does not schedule past, completed or deleted ideas', async () => {
+    const clock = new FakeClock(new Date(2024, 4, 15, 10, 0));
+    const driver = new FakeDriver();
+    const scheduler = new ReminderScheduler(driver, clock);
+    const future = new Date(clock.now() + HOUR).toISOString();
+
+    expect(await scheduler.syncIdea(buildIdea({ id: 1, remind_at: new Date(clock.now() - HOUR).toISOString() }))).toBe(false);
+    expect(await scheduler.syncIdea(buildIdea({ id: 2, remind_at: future, completed: true }))).toBe(false);
+    expect(await scheduler.syncIdea(buildIdea({ id: 3, remind_at: future, deleted_at: '2024-05-15 10:00:00' }))).toBe(false);
+    expect(driver.scheduled.size).toBe(0);
+  });
+
+  test('cancels a reminder when the idea is completed', async () => {
+    const clock = new FakeClock(new Date(2024, 4, 15, 10, 0));
+    const driver = new FakeDriver();
+    const scheduler = new ReminderScheduler(driver, clock);
+    const fired: number[] = [];
+    scheduler.onReminderDue(reminder => fired.push(reminder.ideaId));
+    const remindAt = new Date(clock.now() + HOUR).toISOString();
+
+    await scheduler.syncIdea(buildIdea({ id: 1, remind_at: remindAt }));
+    await scheduler.syncIdea(buildIdea({ id: 1, remind_at: remindAt, completed: true }));
+
+    clock.advance(2 * HOUR);
+    expect(fired).toEqual([]);
+    expect(driver.scheduled.size).toBe(0);
+  });
+
+  test('waits in segments for reminders beyond the maximum timer delay', async () => {
+    const clock = new FakeClock(new Date(2024, 4, 15, 10, 0));
+    const scheduler = new ReminderScheduler(new FakeDriver(), clock);
+    const fired: number[] = [];
+    scheduler.onReminderDue(reminder => fired.push(reminder.ideaId));
+
+    await scheduler.schedule({ ideaId: 7, title: 'renew passport', fireAt: clock.now() + 60 * 24 * HOUR });
+
+    clock.advance(30 * 24 * HOUR);
+    expect(fired).toEqual([]);
+
+    clock.advance(30 * 24 * HOUR);
+    expect(fired).toEqual([7]);
+  });
+});
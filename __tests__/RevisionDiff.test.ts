@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import { BlockType, RevisionBlock } from '../src/Types';
+import { diffRevisionBlocks, summarizeDiff } from '../src/utils/RevisionDiff';
+
+const block = (block_id: string, content: string, color?: string): RevisionBlock => ({
+  block_id,
+  type: BlockType.MARKDOWN,
+  content,
+  color,
+});
+
+describe('diffRevisionBlocks', () => {
+  test('marks identical versions as unchanged', () => {
+    const blocks = [block('a', 'first'), block('b', 'second')];
+    const diffs = diffRevisionBlocks(blocks, blocks);
+    expect(diffs.map(diff => diff.status)).toEqual(['unchanged', 'unchanged']);
+  });
+
+  test('marks content or color changes of the same block as modified', () => {
+    const diffs = diffRevisionBlocks(
+      [block('a', 'first'), block('b', 'second')],
+      [block('a', 'first!'), block('b', 'second', 'red')]
+    );
+    expect(diffs.map(diff => diff.status)).toEqual(['modified', 'modified']);
+    expect(diffs[0].oldBlock?.content).toBe('first');
+    expect(diffs[0].newBlock?.content).toBe('first!');
+  });
+
+  test('keeps added and removed blocks in document order', () => {
+    const diffs = diffRevisionBlocks(
+      [block('a', 'first'), block('b', 'second'), block('c', 'third')],
+      [block('a', 'first'), block('d', 'inserted'), block('c', 'third')]
+    );
+    expect(diffs.map(diff => [diff.status, diff.oldBlock?.block_id ?? diff.newBlock?.block_id])).toEqual([
+      ['unchanged', 'a'],
+      ['removed', 'b'],
+      ['added', 'd'],
+      ['unchanged', 'c'],
+    ]);
+  });
+
+  test('shows a moved block as a removal plus an addition', () => {
+    const diffs = diffRevisionBlocks(
+      [block('a', 'first'), block('b', 'second')],
+      [block('b', 'second'), block('a', 'first')]
+    );
+    expect(summarizeDiff(diffs)).toEqual({ added: 1, removed: 1, modified: 0 });
+  });
+
+  test('handles empty versions', () => {
+    expect(diffRevisionBlocks([], [block('a', 'first')]).map(diff => diff.status)).toEqual(['added']);
+    expect(diffRevisionBlocks([block('a', 'first')], []).map(diff => diff.status)).toEqual(['removed']);
+    expect(diffRevisionBlocks([], [])).toEqual([]);
+  });
+});
+
+describe('summarizeDiff', () => {
+  test('counts each kind of change and ignores unchanged blocks', () => {
+    const diffs = diffRevisionBlocks(
+      [block('a', 'first'), block('b', 'second'), block('c', 'third')],
+      [block('a', 'first'), block('b', 'changed'), block('d', 'new'), block('e', 'new too')]
+    );
+    expect(summarizeDiff(diffs)).toEqual({ added: 2, removed: 1, modified: 1 });
+  });
+});
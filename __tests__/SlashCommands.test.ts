@@ -0,0 +1,98 @@
+/**
+ * @format
+ */
+
+import {
+  SlashCommandContext,
+  filterSlashCommands,
+  formatLocalDate,
+  getSlashCommands,
+  getSlashQuery,
+  registerSlashCommand,
+} from '../src/utils/SlashCommands';
+import { BlockType } from '../src/Types';
+
+const translate = (key: string) => ({ 'slash.quote': 'Quote', 'slash.divider': 'Divider' } as Record<string, string>)[key] ?? key;
+
+const createContext = () => {
+  const calls: string[] = [];
+  const context: SlashCommandContext = {
+    setText: (text, cursor) => calls.push(`setText:${text}:${cursor ?? ''}`),
+    addBlock: () => calls.push('addBlock'),
+    insertBlock: block => calls.push(`insertBlock:${block.type}`),
+    toggleChecklist: () => calls.push('toggleChecklist'),
+    pickImage: () => calls.push('pickImage'),
+    openColorPanel: () => calls.push('openColorPanel'),
+    linkIdea: () => calls.push('linkIdea'),
+  };
+  return { calls, context };
+};
+
+const runCommand = (id: string) => {
+  const { calls, context } = createContext();
+  getSlashCommands().find(command => command.id === id)!.run(context);
+  return calls;
+};
+
+describe('getSlashQuery', () => {
+  test('returns the keyword typed after a leading slash', () => {
+    expect(getSlashQuery('/', 1)).toBe('');
+    expect(getSlashQuery('/quo', 4)).toBe('quo');
+  });
+
+  test('returns null for ordinary text or a cursor before the end', () => {
+    expect(getSlashQuery('a /quo', 6)).toBeNull();
+    expect(getSlashQuery('/quo te', 7)).toBeNull();
+    expect(getSlashQuery('/usr/bin', 8)).toBeNull();
+    expect(getSlashQuery('/quo', 2)).toBeNull();
+  });
+});
+
+describe('filterSlashCommands', () => {
+  test('matches ids, keywords and titles with prefix matches first', () => {
+    const ids = (query: string) => filterSlashCommands(getSlashCommands(), query, translate).map(command => command.id);
+    expect(ids('')).toHaveLength(getSlashCommands().length);
+    expect(ids('quo')).toEqual(['quote']);
+    expect(ids('div')).toEqual(['divider']);
+    expect(ids('列表')).toEqual(['bullet', 'numbered']);
+    expect(ids('ist')[0]).toBe('bullet');
+  });
+});
+
+describe('built-in commands', () => {
+  test('turn the block through the editing context', () => {
+    expect(runCommand('h2')).toEqual(['setText:## :']);
+    expect(runCommand('numbered')).toEqual(['setText:1. :']);
+    expect(runCommand('quote')).toEqual(['setText:> :']);
+    expect(runCommand('divider')).toEqual(['setText:---:', 'addBlock']);
+    expect(runCommand('todo')).toEqual(['toggleChecklist']);
+    expect(runCommand('link')).toEqual(['linkIdea']);
+  });
+
+  test('formats the date stamp in local time', () => {
+    expect(formatLocalDate(new Date(2024, 0, 5, 23, 30))).toBe('2024-01-05');
+  });
+});
+
+describe('registerSlashCommand', () => {
+  test('appends extension commands and replaces ones with the same id', () => {
+    const count = getSlashCommands().length;
+    registerSlashCommand({
+      id: 'test-block',
+      titleKey: 'slash.test',
+      icon: 'box',
+      run: context => context.insertBlock({ type: BlockType.CODE, content: '' }),
+    });
+    registerSlashCommand({
+      id: 'test-block',
+      titleKey: 'slash.test',
+      icon: 'box',
+      run: context => context.insertBlock({ type: BlockType.TABLE, content: '' }),
+    });
+
+    const commands = getSlashCommands();
+    expect(commands).toHaveLength(count + 1);
+    expect(commands[commands.length - 1].id).toBe('test-block');
+    expect(runCommand('test-block')).toEqual(['insertBlock:table']);
+  });
+});
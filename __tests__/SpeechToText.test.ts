@@ -0,0 +1,70 @@
+/**
+ * @format
+ */
+
+import {
+  AudioRecorder,
+  StubSpeechToTextProvider,
+  VoiceRecognizer,
+  cleanTranscript,
+} from '../src/utils/SpeechToText';
+
+class FakeRecorder implements AudioRecorder {
+  recordings = 0;
+  discarded: string[] = [];
+
+  async start() {
+    this.recordings++;
+  }
+
+  async stop() {
+    return `/tmp/voice_${this.recordings}.wav`;
+  }
+
+  async discard(audioPath: string) {
+    this.discarded.push(audioPath);
+  }
+}
+
+const createRecognizer = (provider: StubSpeechToTextProvider) => {
+  let now = 0;
+  const recorder = new FakeRecorder();
+  const recognizer = new VoiceRecognizer(recorder, () => provider, () => now);
+  return { recorder, recognizer, advance: (ms: number) => { now += ms; } };
+};
+
+describe('VoiceRecognizer', () => {
+  test('passes the recording to the provider and returns the cleaned text', async () => {
+    const provider = new StubSpeechToTextProvider([' 明天下午3点交报告 [BLANK_AUDIO] ']);
+    const { recognizer, advance } = createRecognizer(provider);
+
+    await recognizer.start();
+    advance(2000);
+    const result = await recognizer.stop({ language: 'zh' });
+
+    expect(result).toEqual({ text: '明天下午3点交报告', audioPath: '/tmp/voice_1.wav', durationMs: 2000 });
+    expect(provider.requests).toEqual([{ audioPath: '/tmp/voice_1.wav', options: { language: 'zh' } }]);
+  });
+
+  test('discards accidental short recordings without transcribing', async () => {
+    const provider = new StubSpeechToTextProvider(['ignored']);
+    const { recognizer, recorder, advance } = createRecognizer(provider);
+
+    await recognizer.start();
+    advance(100);
+
+    expect(await recognizer.stop()).toBeNull();
+    expect(recorder.discarded).toEqual(['/tmp/voice_1.wav']);
+    expect(provider.requests).toEqual([]);
+  });
+
+  test('returns null when stopped without recording', async () => {
+    const { recognizer } = createRecognizer(new StubSpeechToTextProvider());
+    expect(await recognizer.stop()).toBeNull();
+  });
+});
+
+test('cleanTranscript removes non-speech markers', () => {
+  expect(cleanTranscript('[BLANK_AUDIO]')).toBe('');
+  expect(cleanTranscript(' buy  milk\n')).toBe('buy milk');
+});
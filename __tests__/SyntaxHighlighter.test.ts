@@ -0,0 +1,44 @@
+/**
+ * @format
+ */
+
+import { highlightCode, normalizeLanguage } from '../src/utils/SyntaxHighlighter';
+
+describe('highlightCode', () => {
+  test('colors keywords, calls, strings and comments', () => {
+    expect(highlightCode('const x = add(1, "a"); // sum', 'js')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' x = ' },
+      { type: 'function', text: 'add' },
+      { type: 'plain', text: '(' },
+      { type: 'number', text: '1' },
+      { type: 'plain', text: ', ' },
+      { type: 'string', text: '"a"' },
+      { type: 'plain', text: '); ' },
+      { type: 'comment', text: '// sum' },
+    ]);
+  });
+
+  test('keeps python triple-quoted strings and # comments apart', () => {
+    const tokens = highlightCode('s = """a # b"""\n# note\nreturn None', 'python');
+    expect(tokens).toContainEqual({ type: 'string', text: '"""a # b"""' });
+    expect(tokens).toContainEqual({ type: 'comment', text: '# note' });
+    expect(tokens).toContainEqual({ type: 'number', text: 'None' });
+  });
+
+  test('matches sql keywords case-insensitively', () => {
+    expect(highlightCode('SELECT id from t', 'sql').filter(token => token.type === 'keyword'))
+      .toEqual([{ type: 'keyword', text: 'SELECT' }, { type: 'keyword', text: 'from' }]);
+  });
+
+  test('returns unsupported languages as plain text', () => {
+    expect(highlightCode('if x then y', 'cobol')).toEqual([{ type: 'plain', text: 'if x then y' }]);
+    expect(highlightCode('', 'js')).toEqual([]);
+  });
+});
+
+test('normalizeLanguage resolves fence aliases', () => {
+  expect(normalizeLanguage('TS')).toBe('typescript');
+  expect(normalizeLanguage('py')).toBe('python');
+  expect(normalizeLanguage('text')).toBe('');
+});
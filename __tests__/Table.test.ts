@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import {
+  HEADER_ROW,
+  insertTableColumn,
+  insertTableRow,
+  parseGfmTable,
+  parseTable,
+  removeTableColumn,
+  removeTableRow,
+  serializeTable,
+  toGfmTable,
+  updateTableCell,
+} from '../src/utils/Table';
+
+const sample = { columns: ['Book', 'Rating'], rows: [['Dune', '5'], ['Emma', '4']] };
+
+describe('parseTable', () => {
+  test('round-trips serialized tables', () => {
+    expect(parseTable(serializeTable(sample))).toEqual(sample);
+  });
+
+  test('pads short rows and recovers from broken content', () => {
+    expect(parseTable('{"columns":["a","b"],"rows":[["1"]]}')).toEqual({ columns: ['a', 'b'], rows: [['1', '']] });
+    expect(parseTable('not json')).toEqual({ columns: ['', ''], rows: [['', '']] });
+  });
+});
+
+test('row and column editing keeps cells aligned', () => {
+  let table = insertTableColumn(sample, 1);
+  expect(table.columns).toEqual(['Book', '', 'Rating']);
+  expect(table.rows[0]).toEqual(['Dune', '', '5']);
+
+  table = updateTableCell(table, HEADER_ROW, 1, 'Author');
+  table = updateTableCell(table, 0, 1, 'Herbert\n');
+  expect(table.columns[1]).toBe('Author');
+  expect(table.rows[0][1]).toBe('Herbert ');
+
+  table = insertTableRow(table, 0);
+  expect(table.rows).toHaveLength(3);
+  expect(table.rows[0]).toEqual(['', '', '']);
+
+  table = removeTableRow(removeTableColumn(table, 1), 0);
+  expect(table).toEqual(sample);
+  expect(removeTableRow(sample, HEADER_ROW)).toBe(sample);
+  expect(removeTableColumn({ columns: ['a'], rows: [] }, 0).columns).toEqual(['a']);
+});
+
+test('toGfmTable escapes pipes in cells', () => {
+  expect(toGfmTable({ columns: ['a|b', 'c'], rows: [['1', '2']] })).toBe('| a\\|b | c |\n| --- | --- |\n| 1 | 2 |');
+});
+
+describe('parseGfmTable', () => {
+  test('reads a table and stops at the first non-row line', () => {
+    const lines = ['intro', 'Book | Rating', ':--- | ---:', '| Dune | 5 |', 'Emma | 4 | extra', '', 'after'];
+    expect(parseGfmTable(lines, 1)).toEqual({
+      table: { columns: ['Book', 'Rating'], rows: [['Dune', '5'], ['Emma', '4']] },
+      lineCount: 4,
+    });
+    expect(parseGfmTable(lines, 0)).toBeNull();
+  });
+
+  test('round-trips exported tables', () => {
+    const lines = toGfmTable({ columns: ['a|b', 'c'], rows: [['1', '']] }).split('\n');
+    expect(parseGfmTable(lines, 0)?.table).toEqual({ columns: ['a|b', 'c'], rows: [['1', '']] });
+  });
+
+  test('requires a matching delimiter row', () => {
+    expect(parseGfmTable(['a | b', '---'], 0)).toBeNull();
+    expect(parseGfmTable(['a | b', 'c | d'], 0)).toBeNull();
+  });
+});
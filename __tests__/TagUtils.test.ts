@@ -0,0 +1,38 @@
+/**
+ * @format
+ */
+
+import { extractHashtags, normalizeTagName } from '../src/utils/TagUtils';
+
+describe('extractHashtags', () => {
+  test('finds tags at the start of the text and after whitespace', () => {
+    expect(extractHashtags('#work meeting notes\nfollow up #读书 later')).toEqual(['work', '读书']);
+  });
+
+  test('ignores markdown headings, color syntax and hashes inside words', () => {
+    expect(extractHashtags('# 标题\n(color:#ff4444)红色(/color) issue#12')).toEqual([]);
+  });
+
+  test('strips trailing punctuation from tags', () => {
+    expect(extractHashtags('done #project, then #旅行。')).toEqual(['project', '旅行']);
+  });
+
+  test('keeps the first spelling of tags that differ only in case', () => {
+    expect(extractHashtags('#Work and #work and #WORK')).toEqual(['Work']);
+  });
+
+  test('returns no tags for empty text', () => {
+    expect(extractHashtags('')).toEqual([]);
+  });
+});
+
+describe('normalizeTagName', () => {
+  test('removes leading hashes, trailing punctuation and surrounding whitespace', () => {
+    expect(normalizeTagName('  ##idea!! ')).toBe('idea');
+    expect(normalizeTagName('笔记）】')).toBe('笔记');
+  });
+
+  test('returns an empty string when nothing but punctuation is left', () => {
+    expect(normalizeTagName('#?!')).toBe('');
+  });
+});
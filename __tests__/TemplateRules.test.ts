@@ -0,0 +1,38 @@
+/**
+ * @format
+ */
+
+import { TEMPLATE_VARIABLE_NAMES, fillTemplateText, getTemplateVariables, instantiateTemplate } from '../src/utils/TemplateRules';
+import { BlockType } from '../src/Types';
+
+describe('getTemplateVariables', () => {
+  test('uses the idea date for the weekday', () => {
+    const variables = getTemplateVariables('2024-03-04', 'Standup', 'en-US', new Date(2024, 2, 4, 9, 5));
+    expect(variables).toEqual({ date: '2024-03-04', weekday: 'Monday', title: 'Standup', time: '09:05' });
+    expect(Object.keys(variables)).toEqual(TEMPLATE_VARIABLE_NAMES);
+  });
+});
+
+describe('fillTemplateText', () => {
+  test('replaces known variables and keeps unknown ones', () => {
+    const variables = { date: '2024-03-04', weekday: 'Monday' };
+    expect(fillTemplateText('# {{weekday}} {{ date }}', variables)).toBe('# Monday 2024-03-04');
+    expect(fillTemplateText('{{owner}} {date}', variables)).toBe('{{owner}} {date}');
+  });
+});
+
+describe('instantiateTemplate', () => {
+  test('fills text and table blocks and assigns new block ids', () => {
+    const blocks = [
+      { block_id: 'a', type: BlockType.MARKDOWN, content: 'Notes for {{title}}', color: '#ff4444' },
+      { block_id: 'b', type: BlockType.TABLE, content: '{"header":["{{title}}"],"rows":[]}' },
+      { block_id: 'c', type: BlockType.IMAGE, content: 'file:///{{title}}.jpg' },
+    ];
+    const result = instantiateTemplate(blocks, { title: 'Say "hi"' }, '100');
+
+    expect(result.map(block => block.block_id)).toEqual(['100_0', '100_1', '100_2']);
+    expect(result[0]).toEqual({ block_id: '100_0', type: BlockType.MARKDOWN, content: 'Notes for Say "hi"', color: '#ff4444' });
+    expect(JSON.parse(result[1].content).header).toEqual(['Say "hi"']);
+    expect(result[2].content).toBe('file:///{{title}}.jpg');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * @format
+ */
+
+import { getActiveFormats, toggleHeading, toggleInlineFormat, toggleList, toggleQuote } from '../src/utils/TextFormatting';
+
+describe('toggleInlineFormat', () => {
+  test('wraps the selection and keeps it selected', () => {
+    expect(toggleInlineFormat('say hi now', 4, 6, 'bold')).toEqual({ text: 'say **hi** now', start: 6, end: 8 });
+    expect(toggleInlineFormat('say hi now', 4, 7, 'strikethrough')).toEqual({ text: 'say ~~hi~~ now', start: 6, end: 8 });
+    expect(toggleInlineFormat('say hi', 4, 6, 'code').text).toBe('say `hi`');
+  });
+
+  test('unwraps when the selection is inside or around a span', () => {
+    expect(toggleInlineFormat('say **hi** now', 6, 8, 'bold')).toEqual({ text: 'say hi now', start: 4, end: 6 });
+    expect(toggleInlineFormat('say **hi** now', 4, 10, 'bold')).toEqual({ text: 'say hi now', start: 4, end: 6 });
+    expect(toggleInlineFormat('a ***b*** c', 5, 5, 'italic').text).toBe('a **b** c');
+    expect(toggleInlineFormat('a ***b*** c', 5, 5, 'bold').text).toBe('a *b* c');
+  });
+
+  test('inserts and removes an empty pair at the cursor', () => {
+    expect(toggleInlineFormat('ab', 1, 1, 'italic')).toEqual({ text: 'a**b', start: 2, end: 2 });
+    expect(toggleInlineFormat('a**b', 2, 2, 'italic')).toEqual({ text: 'ab', start: 1, end: 1 });
+  });
+
+  test('creates and removes links', () => {
+    expect(toggleInlineFormat('see docs', 4, 8, 'link')).toEqual({ text: 'see [docs]()', start: 11, end: 11 });
+    expect(toggleInlineFormat('see [docs](https://x.y)', 6, 6, 'link').text).toBe('see docs');
+  });
+});
+
+describe('line formats', () => {
+  test('toggles heading levels', () => {
+    expect(toggleHeading('title', 2, 2, 2)).toEqual({ text: '## title', start: 5, end: 5 });
+    expect(toggleHeading('## title', 5, 5, 2)).toEqual({ text: 'title', start: 2, end: 2 });
+    expect(toggleHeading('## title', 5, 5, 1).text).toBe('# title');
+    expect(toggleHeading('- item', 3, 3, 3).text).toBe('### item');
+  });
+
+  test('toggles and converts lists across the selected lines', () => {
+    expect(toggleList('a\nb\nc', 0, 3, 'ordered').text).toBe('1. a\n2. b\nc');
+    expect(toggleList('1. a\n2. b', 0, 9, 'bullet').text).toBe('- a\n- b');
+    expect(toggleList('- a\n• b', 0, 7, 'bullet')).toEqual({ text: 'a\nb', start: 0, end: 3 });
+  });
+});
+
+describe('toggleQuote', () => {
+  test('quotes the selected lines and removes the quote again', () => {
+    expect(toggleQuote('- a\nb', 0, 5)).toEqual({ text: '> a\n> b', start: 2, end: 7 });
+    expect(toggleQuote('> a\n> b', 2, 7).text).toBe('a\nb');
+  });
+});
+
+describe('getActiveFormats', () => {
+  test('reports formats around the cursor', () => {
+    const text = '# **bold *both*** and [link](u) [red](color:red)';
+    const at = (position: number) => getActiveFormats(text, position);
+    expect([...at(5).inline]).toEqual(['bold']);
+    expect([...at(12).inline].sort()).toEqual(['bold', 'italic']);
+    expect([...at(25).inline]).toEqual(['link']);
+    expect([...at(35).inline]).toEqual([]);
+    expect(at(0).headingLevel).toBe(1);
+    expect(getActiveFormats('2. x', 3).list).toBe('ordered');
+  });
+});
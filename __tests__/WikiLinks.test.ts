@@ -0,0 +1,49 @@
+/**
+ * @format
+ */
+
+import {
+  completeWikiLink,
+  extractWikiLinks,
+  getWikiLinkQuery,
+  parseWikiLinkHref,
+  wikiLinksToMarkdown,
+} from '../src/utils/WikiLinks';
+
+describe('extractWikiLinks', () => {
+  test('collects unique targets and ignores image embeds', () => {
+    const text = 'See [[Plan]] and [[plan|the plan]][[ Trip ]]\n![[photo.png]] [[]]';
+    expect(extractWikiLinks(text)).toEqual(['Plan', 'Trip']);
+  });
+});
+
+describe('getWikiLinkQuery', () => {
+  test('finds an unclosed link before the cursor', () => {
+    expect(getWikiLinkQuery('go to [[Pla', 11)).toEqual({ start: 6, query: 'Pla' });
+    expect(getWikiLinkQuery('[[]]', 2)).toEqual({ start: 0, query: '' });
+  });
+
+  test('returns null outside of a link', () => {
+    expect(getWikiLinkQuery('[[Plan]] next', 13)).toBeNull();
+    expect(getWikiLinkQuery('![[pho', 6)).toBeNull();
+    expect(getWikiLinkQuery('no link', 7)).toBeNull();
+  });
+});
+
+describe('completeWikiLink', () => {
+  test('replaces the typed query and an auto-closed bracket', () => {
+    expect(completeWikiLink('go [[Pl', 3, 7, 'Plan')).toEqual({ text: 'go [[Plan]]', cursor: 11 });
+    expect(completeWikiLink('[[Pl]] end', 0, 4, 'Plan')).toEqual({ text: '[[Plan]] end', cursor: 8 });
+  });
+});
+
+describe('wikiLinksToMarkdown', () => {
+  test('renders links as markdown links that round-trip the title', () => {
+    const markdown = wikiLinksToMarkdown('[[读书 笔记]] and [[Plan|the plan]] ![[a.png]]');
+    expect(markdown).toBe(
+      `[读书 笔记](wiki:${encodeURIComponent('读书 笔记')}) and [the plan](wiki:Plan) ![[a.png]]`
+    );
+    expect(parseWikiLinkHref(`wiki:${encodeURIComponent('读书 笔记')}`)).toBe('读书 笔记');
+    expect(parseWikiLinkHref('https://example.com')).toBeNull();
+  });
+});
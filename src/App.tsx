@@ -12,6 +12,10 @@ import Home from './pages/Home';
 import Search from './pages/Search';
 import EditorPage from './pages/Editor';
 import ImageViewerPage from './pages/ImageViewer';
+import Trash from './pages/Trash';
+import History from './pages/History';
+import Backup from './pages/Backup';
+import Categories from './pages/Categories';
 
 import { KeyboardProvider } from 'react-native-keyboard-controller';
 
@@ -107,6 +111,26 @@ const App = () => {
                 animationTypeForReplace: 'pop',
               }}
             />
+            <Stack.Screen
+              name="Trash"
+              component={Trash}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="History"
+              component={History}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="Backup"
+              component={Backup}
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen
+              name="Categories"
+              component={Categories}
+              options={{ headerShown: false }}
+            />
           </Stack.Navigator>
         </NavigationContainer>
       </KeyboardProvider>
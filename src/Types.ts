@@ -7,8 +7,12 @@ export type RootStackParamList = {
   Search: undefined;
   BlockEditor: { ideaId?: number }; // 新增Block编辑器页面
   KeyboardTest: undefined; // 键盘焦点测试页面
-  Editor: { idea: IdeaRecord}; // 编辑器页面
+  Editor: { idea: IdeaRecord; restoredAt?: number }; // 编辑器页面，restoredAt变化时重新加载blocks
   ImageViewer: { imageUri: string }; // 全屏图片查看页面
+  Trash: undefined; // 回收站页面
+  History: { idea: IdeaRecord }; // 页面版本历史
+  Backup: undefined; // 备份与恢复页面
+  Categories: undefined; // 分类设置页面
 };
 
 export type NavigationProps<T extends keyof RootStackParamList> = {
@@ -31,10 +35,44 @@ export interface ContentTypeConfig {
   keywords: string[];
 }
 
+// 分类记录（内置分类的id与ContentType的值相同，自定义分类的id为custom_前缀）
+export interface CategoryRecord {
+  id: string;
+  name: string;
+  icon: string;
+  keywords: string[];
+  order_index: number;
+  archived: boolean; // 归档的分类不再出现在分类选择和自动识别中，已有记录仍正常显示
+  builtin: boolean;
+}
+
+export interface NewCategory {
+  name: string;
+  icon: string;
+  keywords?: string[];
+}
+
+export interface UpdateCategory {
+  name?: string;
+  icon?: string;
+  keywords?: string[];
+  archived?: boolean;
+}
+
 // Block类型枚举
 export enum BlockType {
   MARKDOWN = 'markdown', // 富文本
-  IMAGE = 'image'      // 图片
+  IMAGE = 'image',     // 图片
+  AUDIO = 'audio',     // 录音（content为录音文件的uri）
+  CHECKLIST = 'checklist', // 清单（content为每行一项的任务列表语法）
+  CODE = 'code',       // 代码（content为多行代码，语言保存在attrs.language）
+  TABLE = 'table'      // 表格（content为表头和行的JSON，见utils/Table）
+}
+
+// Block的附加属性，按block类型使用，保存在blocks表的attrs字段（JSON）
+export interface BlockAttrs {
+  durationMs?: number; // AUDIO：录音时长（毫秒）
+  language?: string; // CODE：代码语言ID，为空时按纯文本显示
 }
 
 // Block数据接口
@@ -44,10 +82,12 @@ export interface Block {
   content: string;
   isActive: boolean;
   cursorPosition?: number;
+  selectionEnd?: number; // 选中文字的结束位置，未选中文字时与cursorPosition相同
   created_at?: string;
   updated_at?: string;
   isDirty?: boolean; // 运行时标记，表示是否需要保存
   color?: string; // 添加颜色属性
+  attrs?: BlockAttrs;
 }
 
 // 数据库Block记录接口
@@ -61,6 +101,7 @@ export interface BlockRecord {
   created_at: string;
   updated_at: string;
   color?: string; // 添加颜色属性
+  attrs?: BlockAttrs;
 }
 
 // 新建Block接口
@@ -71,6 +112,7 @@ export interface NewBlock {
   content: string;
   order_index: number;
   color?: string; // 添加颜色属性
+  attrs?: BlockAttrs;
 }
 
 // 更新Block接口
@@ -79,6 +121,7 @@ export interface UpdateBlock {
   content?: string;
   order_index?: number;
   color?: string; // 添加颜色属性
+  attrs?: BlockAttrs;
 }
 
 // Block配置接口
@@ -97,6 +140,11 @@ export interface IdeaRecord {
   completed?: boolean;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null; // 移入回收站的时间，未删除时为NULL
+  due_at?: string | null; // 截止时间（ISO 8601）
+  remind_at?: string | null; // 提醒时间（ISO 8601）
+  audio_uri?: string | null; // 语音附件（语音输入时保留的录音）
+  is_journal?: boolean; // 每日日记页面，不显示在首页的想法列表中
 }
 
 export interface NewIdea {
@@ -105,6 +153,10 @@ export interface NewIdea {
   date: string;
   category?: string;
   completed?: boolean;
+  due_at?: string | null;
+  remind_at?: string | null;
+  audio_uri?: string | null;
+  is_journal?: boolean;
 }
 
 export interface UpdateIdea {
@@ -113,4 +165,91 @@ export interface UpdateIdea {
   date?: string;
   category?: string;
   completed?: boolean;
-}
\ No newline at end of file
+  due_at?: string | null; // 传入null清除
+  remind_at?: string | null; // 传入null清除
+  audio_uri?: string | null; // 传入null清除
+}
+
+// 重复频率：每天、工作日、每周指定几天、每月指定日期、每隔N天
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'interval';
+
+// 重复设置
+export interface RecurrenceSettings {
+  frequency: RecurrenceFrequency;
+  interval: number; // weekly为每N周、monthly为每N个月、interval为每N天，其他频率为1
+  weekdays: number[]; // weekly时重复的星期几（0为周日，与Date.getDay()一致）
+  month_day: number | null; // monthly时的日期（1~31，超过当月天数时取月末）
+}
+
+// 待办的重复规则，始终挂在最新一次的待办上，完成后移到新生成的待办
+export interface RecurrenceRule extends RecurrenceSettings {
+  id: number;
+  idea_id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// 标签记录
+export interface TagRecord {
+  id: number;
+  name: string;
+  color?: string;
+  created_at: string;
+  usage_count?: number; // 关联的想法数量（仅在getAllTags中返回）
+}
+
+// 版本历史中保存的block快照
+export interface RevisionBlock {
+  block_id: string;
+  type: BlockType;
+  content: string;
+  color?: string;
+  attrs?: BlockAttrs;
+}
+
+// 版本来源：编辑保存、首次打开时的初始内容、从历史版本恢复
+export type IdeaRevisionKind = 'edit' | 'initial' | 'restore';
+
+// 想法页面的一个历史版本（按顺序保存的完整block列表）
+export interface IdeaRevision {
+  id: number;
+  idea_id: number;
+  kind: IdeaRevisionKind;
+  blocks: RevisionBlock[];
+  created_at: string;
+  updated_at: string; // 时间窗口内的连续编辑合并到同一版本时更新
+}
+
+// 页面模板：按顺序保存的block列表，内容中可以使用{{date}}、{{weekday}}等变量（见utils/TemplateRules）
+export interface IdeaTemplate {
+  id: number;
+  name: string;
+  blocks: RevisionBlock[];
+  category_id: string | null; // 该分类的新想法自动使用此模板，每个分类最多一个模板
+  created_at: string;
+  updated_at: string;
+}
+
+// 用户手动修改分类的记录，用于分类器学习
+export interface CategoryFeedbackRecord {
+  id: number;
+  text: string;
+  category: string;
+  created_at: string;
+}
+
+// 标签来源：手动添加，或从#hashtag自动识别
+export type IdeaTagSource = 'manual' | 'auto';
+
+// 更新标签接口
+export interface UpdateTag {
+  name?: string;
+  color?: string;
+}
+
+// 全文搜索结果
+export interface FullTextSearchResult {
+  idea: IdeaRecord;
+  snippet: string; // 命中位置附近的片段，高亮区域由IdeaDatabase.SNIPPET_MARK_START/END包裹
+  rank: number;    // bm25相关度，越小越相关
+}
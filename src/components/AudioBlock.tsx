@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, TouchableOpacity, Text, StyleSheet } from 'react-native';
+import Slider from '@react-native-community/slider';
+import Sound from 'react-native-sound';
+import Feather from '@react-native-vector-icons/feather';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { uriToPath } from '../utils/MediaStorage';
+
+// 静音模式下也能播放录音
+Sound.setCategory('Playback');
+
+// 播放进度的刷新间隔
+const PROGRESS_INTERVAL_MS = 250;
+
+interface AudioBlockProps {
+  uri: string;
+  durationMs?: number; // 录音时保存的时长，文件加载完成前用于显示
+  onDelete: () => void;
+}
+
+// 将毫秒格式化为 m:ss
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const AudioBlock: React.FC<AudioBlockProps> = ({ uri, durationMs, onDelete }) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const soundRef = useRef<Sound | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const isSeekingRef = useRef(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0); // 秒
+  const [duration, setDuration] = useState((durationMs || 0) / 1000); // 秒
+
+  useEffect(() => {
+    setIsLoaded(false);
+    setHasError(false);
+    setPosition(0);
+
+    const sound = new Sound(uriToPath(uri), '', (error) => {
+      if (error) {
+        console.error('❌ 加载录音失败:', error);
+        setHasError(true);
+        return;
+      }
+      setIsLoaded(true);
+      const soundDuration = sound.getDuration();
+      if (soundDuration > 0) {
+        setDuration(soundDuration);
+      }
+    });
+    soundRef.current = sound;
+
+    return () => {
+      stopProgressTimer();
+      sound.stop();
+      sound.release();
+      soundRef.current = null;
+      setIsPlaying(false);
+    };
+  }, [uri]);
+
+  const startProgressTimer = () => {
+    stopProgressTimer();
+    timerRef.current = setInterval(() => {
+      soundRef.current?.getCurrentTime(seconds => {
+        if (!isSeekingRef.current) {
+          setPosition(seconds);
+        }
+      });
+    }, PROGRESS_INTERVAL_MS);
+  };
+
+  const stopProgressTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const handlePlayPause = () => {
+    const sound = soundRef.current;
+    if (!sound || !isLoaded) {
+      return;
+    }
+
+    if (isPlaying) {
+      sound.pause();
+      stopProgressTimer();
+      setIsPlaying(false);
+      return;
+    }
+
+    setIsPlaying(true);
+    startProgressTimer();
+    sound.play(() => {
+      // 播放结束后回到开头
+      stopProgressTimer();
+      sound.setCurrentTime(0);
+      setPosition(0);
+      setIsPlaying(false);
+    });
+  };
+
+  const handleSlidingStart = () => {
+    isSeekingRef.current = true;
+  };
+
+  const handleSlidingComplete = (value: number) => {
+    isSeekingRef.current = false;
+    soundRef.current?.setCurrentTime(value);
+    setPosition(value);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.player, {
+        backgroundColor: theme.backgrounds.secondary,
+        borderColor: theme.borders.primary,
+      }]}>
+        <TouchableOpacity
+          style={[styles.playButton, { backgroundColor: isLoaded ? theme.buttons.primary : theme.buttons.disabled }]}
+          onPress={handlePlayPause}
+          disabled={!isLoaded}
+        >
+          <Feather
+            name={isPlaying ? 'pause' : 'play'}
+            size={16}
+            color={isLoaded ? theme.buttons.primaryText : theme.buttons.disabledText}
+          />
+        </TouchableOpacity>
+
+        {hasError ? (
+          <Text style={[styles.errorText, { color: theme.texts.tertiary }]}>{t('audio.loadFailed')}</Text>
+        ) : (
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={duration > 0 ? duration : 1}
+            value={position}
+            disabled={!isLoaded}
+            onSlidingStart={handleSlidingStart}
+            onValueChange={setPosition}
+            onSlidingComplete={handleSlidingComplete}
+            minimumTrackTintColor={theme.buttons.primary}
+            maximumTrackTintColor={theme.borders.secondary}
+            thumbTintColor={theme.buttons.primary}
+          />
+        )}
+
+        <Text style={[styles.timeText, { color: theme.texts.secondary }]}>
+          {formatDuration(position * 1000)} / {formatDuration(duration * 1000)}
+        </Text>
+
+        <TouchableOpacity style={styles.deleteButton} onPress={onDelete} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Feather name="x" size={16} color={theme.texts.tertiary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginVertical: 4,
+  },
+  player: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  playButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  slider: {
+    flex: 1,
+    height: 32,
+    marginHorizontal: 6,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    marginHorizontal: 10,
+  },
+  timeText: {
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  deleteButton: {
+    marginLeft: 10,
+  },
+});
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef } from 'react';
+import { View, TextInput, TouchableOpacity, Text, StyleSheet } from 'react-native';
+import Feather from '@react-native-vector-icons/feather';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { ChecklistItem, getChecklistProgress, parseChecklist, serializeChecklist, toggleChecklistItem } from '../utils/Checklist';
+
+interface ChecklistBlockProps {
+  content: string;
+  color?: string;
+  autoFocus?: boolean; // 挂载时聚焦最后一项（例如刚从markdown block转换过来）
+  onChange: (content: string) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+  onExit: (content: string) => void; // 在最后一个空项上回车：去掉该项并在清单后新建文本block
+  onRemove: () => void; // 在唯一的空项上退格：清单变回空的文本block
+}
+
+export const ChecklistBlock: React.FC<ChecklistBlockProps> = ({
+  content,
+  color,
+  autoFocus,
+  onChange,
+  onFocus,
+  onBlur,
+  onExit,
+  onRemove,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const inputRefs = useRef<Map<number, TextInput>>(new Map());
+  const items = parseChecklist(content);
+  const progress = getChecklistProgress(items);
+
+  // 挂载时需要聚焦的项，之后的变化不再触发
+  const initialFocusIndexRef = useRef(autoFocus ? items.length - 1 : -1);
+
+  useEffect(() => {
+    const index = initialFocusIndexRef.current;
+    if (index < 0) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      inputRefs.current.get(index)?.focus();
+    }, 100);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const focusItem = (index: number) => {
+    setTimeout(() => {
+      inputRefs.current.get(index)?.focus();
+    }, 100);
+  };
+
+  const update = (newItems: ChecklistItem[]) => {
+    onChange(serializeChecklist(newItems));
+  };
+
+  const handleChangeText = (index: number, text: string) => {
+    // 每项只有一行，换行由回车新建下一项
+    const filteredText = text.replace(/\n/g, '');
+    update(items.map((item, i) => i === index ? { ...item, text: filteredText } : item));
+  };
+
+  const handleSubmit = (index: number) => {
+    const isLast = index === items.length - 1;
+    if (isLast && items.length > 1 && items[index].text === '') {
+      onExit(serializeChecklist(items.slice(0, -1)));
+      return;
+    }
+
+    const newItems = [...items];
+    newItems.splice(index + 1, 0, { checked: false, text: '' });
+    update(newItems);
+    focusItem(index + 1);
+  };
+
+  const handleBackspace = (index: number) => {
+    if (items[index].text !== '') {
+      return;
+    }
+
+    if (items.length === 1) {
+      onRemove();
+      return;
+    }
+
+    update(items.filter((_, i) => i !== index));
+    focusItem(Math.max(0, index - 1));
+  };
+
+  const textColor = color || theme.texts.primary;
+
+  return (
+    <View style={styles.container}>
+      {progress.total > 0 && (
+        <View style={styles.progressRow}>
+          <View style={[styles.progressTrack, { backgroundColor: theme.borders.secondary }]}>
+            <View style={[styles.progressFill, {
+              backgroundColor: theme.buttons.primary,
+              width: `${(progress.done / progress.total) * 100}%`,
+            }]} />
+          </View>
+          <Text style={[styles.progressText, { color: theme.texts.tertiary }]}>
+            {t('checklist.progress', { done: progress.done, total: progress.total })}
+          </Text>
+        </View>
+      )}
+      {items.map((item, index) => (
+        <View key={index} style={styles.itemRow}>
+          <TouchableOpacity
+            style={[styles.checkbox, {
+              borderColor: item.checked ? theme.buttons.primary : theme.borders.input,
+              backgroundColor: item.checked ? theme.buttons.primary : 'transparent',
+            }]}
+            onPress={() => onChange(toggleChecklistItem(content, index))}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            {item.checked && <Feather name="check" size={12} color={theme.buttons.primaryText} />}
+          </TouchableOpacity>
+          <TextInput
+            ref={ref => {
+              if (ref) {
+                inputRefs.current.set(index, ref);
+              } else {
+                inputRefs.current.delete(index);
+              }
+            }}
+            value={item.text}
+            onChangeText={text => handleChangeText(index, text)}
+            onSubmitEditing={() => handleSubmit(index)}
+            onKeyPress={(event) => {
+              if (event.nativeEvent.key === 'Backspace') {
+                handleBackspace(index);
+              }
+            }}
+            onFocus={onFocus}
+            onBlur={onBlur}
+            placeholder={t('checklist.placeholder')}
+            placeholderTextColor={theme.texts.tertiary}
+            returnKeyType="next"
+            submitBehavior="submit"
+            multiline={true}
+            selectionColor={theme.buttons.primary}
+            cursorColor={theme.buttons.primary}
+            style={[
+              styles.itemText,
+              { color: item.checked ? theme.texts.tertiary : textColor },
+              item.checked && styles.itemTextChecked,
+            ]}
+          />
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 3,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  progressText: {
+    fontSize: 12,
+    marginLeft: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 32,
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 16,
+    lineHeight: 22,
+    paddingVertical: 2,
+  },
+  itemTextChecked: {
+    textDecorationLine: 'line-through',
+  },
+});
@@ -0,0 +1,185 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, Platform, NativeSyntheticEvent, TextInputSelectionChangeEventData } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { CODE_LANGUAGES, CodeTokenType, getLanguageName, highlightCode } from '../utils/SyntaxHighlighter';
+import { SlashBlock, registerSlashCommand } from '../utils/SlashCommands';
+import { BlockType } from '../Types';
+
+// 等宽字体
+const MONOSPACE_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+// 新的空代码block，语言未选择时按纯文本显示
+export const createCodeBlock = (): SlashBlock => ({
+  type: BlockType.CODE,
+  content: '',
+  attrs: { language: '' },
+});
+
+registerSlashCommand({
+  id: 'code',
+  titleKey: 'slash.code',
+  icon: 'code',
+  keywords: ['snippet', '代码'],
+  run: context => context.insertBlock(createCodeBlock()),
+});
+
+interface CodeBlockProps {
+  content: string;
+  language?: string;
+  isActive: boolean;
+  inputRef: (ref: TextInput | null) => void;
+  onChange: (content: string) => void;
+  onLanguageChange: (language: string) => void;
+  onSelectionChange: (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => void;
+  onActivate: () => void; // 点击高亮视图进入编辑
+  onFocus: () => void;
+  onBlur: () => void;
+  onRemove: () => void; // 在空代码块上退格：变回空的文本block
+}
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({
+  content,
+  language,
+  isActive,
+  inputRef,
+  onChange,
+  onLanguageChange,
+  onSelectionChange,
+  onActivate,
+  onFocus,
+  onBlur,
+  onRemove,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const languageName = getLanguageName(language) || t('code.plainText');
+
+  const tokenColors: Record<CodeTokenType, string> = {
+    plain: theme.code.text,
+    keyword: theme.code.keyword,
+    string: theme.code.string,
+    comment: theme.code.comment,
+    number: theme.code.number,
+    function: theme.code.function,
+    type: theme.code.type,
+  };
+
+  const renderLanguagePicker = () => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      keyboardShouldPersistTaps="always"
+      contentContainerStyle={styles.languageRow}
+    >
+      {[{ id: '', name: t('code.plainText') }, ...CODE_LANGUAGES].map(option => {
+        const selected = (language || '') === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id || 'plain'}
+            style={[styles.languageChip, {
+              borderColor: selected ? theme.buttons.primary : theme.borders.secondary,
+              backgroundColor: selected ? theme.special.highlight : 'transparent',
+            }]}
+            onPress={() => onLanguageChange(option.id)}
+          >
+            <Text style={[styles.languageChipText, { color: selected ? theme.buttons.primary : theme.texts.secondary }]}>
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  if (isActive) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.code.background, borderColor: theme.buttons.primary }]}>
+        {renderLanguagePicker()}
+        <TextInput
+          ref={inputRef}
+          value={content}
+          onChangeText={onChange}
+          onSelectionChange={onSelectionChange}
+          onKeyPress={(event) => {
+            if (event.nativeEvent.key === 'Backspace' && content === '') {
+              onRemove();
+            }
+          }}
+          onFocus={onFocus}
+          onBlur={onBlur}
+          autoFocus
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          spellCheck={false}
+          placeholder={t('code.placeholder')}
+          placeholderTextColor={theme.texts.tertiary}
+          selectionColor={theme.buttons.primary}
+          cursorColor={theme.buttons.primary}
+          style={[styles.code, styles.input, { color: theme.code.text }]}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.8}
+      style={[styles.container, { backgroundColor: theme.code.background, borderColor: theme.borders.primary }]}
+      onPress={onActivate}
+    >
+      <Text style={[styles.languageLabel, { color: theme.texts.tertiary }]}>{languageName}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <Text style={[styles.code, { color: theme.code.text }]}>
+          {content === '' ? (
+            <Text style={{ color: theme.texts.tertiary }}>{t('code.placeholder')}</Text>
+          ) : (
+            highlightCode(content, language).map((token, index) => (
+              <Text key={index} style={{ color: tokenColors[token.type] }}>{token.text}</Text>
+            ))
+          )}
+        </Text>
+      </ScrollView>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  languageRow: {
+    paddingBottom: 6,
+  },
+  languageChip: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    marginRight: 6,
+  },
+  languageChipText: {
+    fontSize: 12,
+  },
+  languageLabel: {
+    fontSize: 11,
+    alignSelf: 'flex-end',
+    marginBottom: 2,
+  },
+  code: {
+    fontFamily: MONOSPACE_FONT,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  input: {
+    padding: 0,
+    minHeight: 40,
+    textAlignVertical: 'top',
+  },
+});
@@ -0,0 +1,121 @@
+import React, { createContext, useContext } from 'react';
+import { View, StyleSheet, CellRendererProps } from 'react-native';
+import Animated, { useAnimatedStyle, withTiming } from 'react-native-reanimated';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Feather from '@react-native-vector-icons/feather';
+import { useTheme } from '../hooks/useTheme';
+import { BlockDragState } from '../hooks/useBlockDrag';
+import { BlockRange } from '../utils/BlockReorder';
+
+// 长按拖动手柄多久后开始拖动
+const LONG_PRESS_MS = 250;
+
+// 正在拖动的范围，FlatList的cell据此提升层级，让拖动的block显示在其他block之上
+export const BlockDragContext = createContext<BlockRange | null>(null);
+
+export const DraggableCell: React.FC<CellRendererProps<unknown>> = ({ index, style, children, onLayout }) => {
+  const dragRange = useContext(BlockDragContext);
+  const isLifted = !!dragRange && index >= dragRange.start && index < dragRange.start + dragRange.count;
+  return (
+    <View style={[style, isLifted && styles.liftedCell]} onLayout={onLayout}>
+      {children}
+    </View>
+  );
+};
+
+interface DraggableBlockProps {
+  blockId: string;
+  index: number;
+  isSelected: boolean;
+  dragState: BlockDragState;
+  children: React.ReactNode;
+  onHeightChange: (blockId: string, height: number) => void;
+  onDragStart: (index: number) => void;
+  onDragMove: (offsetY: number) => void;
+  onDragEnd: () => void;
+  onHandlePress: (blockId: string) => void; // 点击手柄选中block（再点其他手柄扩展为连续选区）
+}
+
+export const DraggableBlock: React.FC<DraggableBlockProps> = ({
+  blockId,
+  index,
+  isSelected,
+  dragState,
+  children,
+  onHeightChange,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onHandlePress,
+}) => {
+  const { theme } = useTheme();
+
+  // 被拖动的blocks跟随手指，其他blocks为放下的位置让出空间
+  const animatedStyle = useAnimatedStyle(() => {
+    const start = dragState.start.value;
+    if (start < 0) {
+      return { transform: [{ translateY: 0 }], opacity: 1 };
+    }
+
+    const count = dragState.count.value;
+    if (index >= start && index < start + count) {
+      return { transform: [{ translateY: dragState.offsetY.value }], opacity: 0.85 };
+    }
+
+    const target = dragState.target.value;
+    let shift = 0;
+    if (target > start && index >= start + count && index < target + count) {
+      shift = -dragState.height.value;
+    } else if (target < start && index >= target && index < start) {
+      shift = dragState.height.value;
+    }
+    return { transform: [{ translateY: withTiming(shift, { duration: 150 }) }], opacity: 1 };
+  });
+
+  const gesture = Gesture.Exclusive(
+    Gesture.Pan()
+      .activateAfterLongPress(LONG_PRESS_MS)
+      .runOnJS(true)
+      .onStart(() => onDragStart(index))
+      .onUpdate(event => onDragMove(event.translationY))
+      .onFinalize(() => onDragEnd()),
+    Gesture.Tap()
+      .runOnJS(true)
+      .onEnd((_event, success) => {
+        if (success) {
+          onHandlePress(blockId);
+        }
+      }),
+  );
+
+  return (
+    <Animated.View
+      style={[animatedStyle, isSelected && { backgroundColor: theme.special.highlight }]}
+      onLayout={event => onHeightChange(blockId, event.nativeEvent.layout.height)}
+    >
+      {children}
+      <GestureDetector gesture={gesture}>
+        <View style={styles.handle} hitSlop={{ top: 4, bottom: 4, left: 4, right: 4 }}>
+          <Feather name="more-vertical" size={14} color={isSelected ? theme.buttons.primary : theme.texts.tertiary} />
+        </View>
+      </GestureDetector>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  liftedCell: {
+    zIndex: 1,
+    elevation: 4,
+  },
+  // 手柄放在block左侧的边距中
+  handle: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    width: 16,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { useTheme } from '../hooks/useTheme';
+import IdeaDatabase from '../utils/IdeaDatabase';
+
+interface HighlightedSnippetProps {
+  snippet: string;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+// 将带高亮标记的搜索片段拆分为普通文本和高亮文本
+const splitSnippet = (snippet: string) => {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  const pattern = new RegExp(
+    `${IdeaDatabase.SNIPPET_MARK_START}([\\s\\S]*?)${IdeaDatabase.SNIPPET_MARK_END}`,
+    'g'
+  );
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.substring(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.substring(lastIndex), highlighted: false });
+  }
+
+  return segments;
+};
+
+export const HighlightedSnippet: React.FC<HighlightedSnippetProps> = ({
+  snippet,
+  style,
+  numberOfLines = 2,
+}) => {
+  const { theme } = useTheme();
+
+  // 片段中可能包含换行（多个block拼接），展示时压缩为空格
+  const segments = splitSnippet(snippet.replace(/\n+/g, ' '));
+
+  return (
+    <Text
+      style={[styles.snippet, { color: theme.texts.secondary }, style]}
+      numberOfLines={numberOfLines}
+    >
+      {segments.map((segment, index) => (
+        <Text
+          key={index}
+          style={segment.highlighted ? [
+            styles.highlight,
+            { color: theme.texts.primary, backgroundColor: theme.special.highlight }
+          ] : undefined}
+        >
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  snippet: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  highlight: {
+    fontWeight: '600',
+  },
+});
+
+export default HighlightedSnippet;
@@ -9,17 +9,27 @@ import {
   TouchableOpacity,
   Pressable,
   Keyboard,
+  ScrollView,
 } from 'react-native';
 import ResizableInput from './ResizableInput';
+import HighlightedSnippet from './HighlightedSnippet';
+import TagEditorModal from './TagEditorModal';
+import RecurrenceModal, { formatRecurrence } from './RecurrenceModal';
 import Icon from '@react-native-vector-icons/fontawesome';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '../hooks/useTheme';
 import { ideaDB } from '../utils/IdeaDatabase';
-import { UpdateIdea } from '../Types'
+import { UpdateIdea, TagRecord, RecurrenceRule } from '../Types'
 import { ContentType } from '../Types';
+import { useCategories } from '../hooks/useCategories';
+import { reminderScheduler, syncIdeaReminder } from '../utils/Reminders';
+import { createNextRecurringIdea } from '../utils/Recurrence';
+import { DUE_SOON_HOURS } from '../utils/config';
 import { 
-  CONTENT_TYPES, 
+  getCategoryConfig, 
   getFinalContentType, 
+  classifyContent,
+  recordCategoryFeedback,
 } from '../utils/ContentTypeUtils';
 
 export interface IdeaItem {
@@ -28,6 +38,9 @@ export interface IdeaItem {
   dbId?: number; // 数据库中的真实ID
   manualCategory?: string; // 手动选择的分类
   completed?: boolean; // 完成状态
+  dueAt?: string; // 截止时间（ISO 8601）
+  audioUri?: string; // 语音附件
+  snippet?: string; // 全文搜索命中的片段（仅搜索结果中存在）
 }
 
 interface IdeaListProps {
@@ -42,6 +55,33 @@ interface IdeaListProps {
   onItemFocus?: (index: number) => void; // 新增：item获得焦点时的回调
 }
 
+// 截止时间的状态：已逾期、即将到期或尚早
+type DueStatus = 'overdue' | 'soon' | 'later';
+
+const getDueStatus = (dueAt: Date, now: number): DueStatus => {
+  const remaining = dueAt.getTime() - now;
+  if (remaining < 0) {
+    return 'overdue';
+  }
+  return remaining < DUE_SOON_HOURS * 60 * 60 * 1000 ? 'soon' : 'later';
+};
+
+// 格式化截止时间：当天只显示时间，其他日期显示月/日和时间
+const formatDueTime = (dueAt: Date, now: number, locale: string) => {
+  const time = dueAt.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+  if (dueAt.toDateString() === new Date(now).toDateString()) {
+    return time;
+  }
+  return `${dueAt.toLocaleDateString(locale, { month: 'numeric', day: 'numeric' })} ${time}`;
+};
+
+// 想法的提醒状态变化后重新预约或取消提醒（失败不影响操作）
+const syncReminderQuietly = (ideaId: number) => {
+  syncIdeaReminder(ideaId).catch(error => {
+    console.warn('⚠️ Failed to sync reminder:', error);
+  });
+};
+
 export const IdeaList: React.FC<IdeaListProps> = ({
   ideas,
   setIdeas,
@@ -49,11 +89,17 @@ export const IdeaList: React.FC<IdeaListProps> = ({
   onRef,
   onItemFocus,
 }) => {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { theme } = useTheme();
+  const categories = useCategories();
+  const [, setReminderTick] = useState(0);
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [selectedIdeaForCategory, setSelectedIdeaForCategory] = useState<string | null>(null);
   const [editingIdeaId, setEditingIdeaId] = useState<string | null>(null);
+  const [tagsByIdea, setTagsByIdea] = useState<Record<number, TagRecord[]>>({});
+  const [tagEditorIdeaId, setTagEditorIdeaId] = useState<number | null>(null);
+  const [recurrenceByIdea, setRecurrenceByIdea] = useState<Record<number, RecurrenceRule>>({});
+  const [recurrenceIdeaId, setRecurrenceIdeaId] = useState<number | null>(null);
   
   const inputRefs = useRef<{ [key: string]: TextInput | null }>({});
   const flatListRef = useRef<FlatList | null>(null);
@@ -95,6 +141,38 @@ export const IdeaList: React.FC<IdeaListProps> = ({
     };
   }, []);
 
+  // 提醒到期时刷新，更新逾期标记
+  useEffect(() => reminderScheduler.onReminderDue(() => setReminderTick(tick => tick + 1)), []);
+
+  // 加载列表中所有想法的标签和重复规则
+  const ideaDbIdsKey = ideas.map(idea => idea.dbId).filter(Boolean).join(',');
+  const loadTags = useCallback(async () => {
+    const dbIds = ideaDbIdsKey ? ideaDbIdsKey.split(',').map(Number) : [];
+    try {
+      setTagsByIdea(await ideaDB.getTagsByIdeaIds(dbIds));
+    } catch (error) {
+      console.error('❌ Failed to load tags:', error);
+    }
+    try {
+      setRecurrenceByIdea(await ideaDB.getRecurrencesByIdeaIds(dbIds));
+    } catch (error) {
+      console.error('❌ Failed to load recurrences:', error);
+    }
+  }, [ideaDbIdsKey]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // 从Editor返回时，页面内容中的#hashtag可能已变化，重新加载标签
+  useEffect(() => {
+    if (!navigation) {
+      return;
+    }
+    const unsubscribe = navigation.addListener('focus', loadTags);
+    return unsubscribe;
+  }, [navigation, loadTags]);
+
   // 暴露滚动方法给父组件
   useEffect(() => {
     if (onRef) {
@@ -158,6 +236,9 @@ export const IdeaList: React.FC<IdeaListProps> = ({
       if (idea.dbId) {
         try {
           await ideaDB.deleteIdea(idea.dbId);
+          if (idea.dueAt) {
+            syncReminderQuietly(idea.dbId);
+          }
         } catch (error) {
           console.error(`❌ Failed to delete idea ${idea.dbId}:`, error);
         }
@@ -171,6 +252,9 @@ export const IdeaList: React.FC<IdeaListProps> = ({
           hint: idea.hint.trim(),
         };
         await ideaDB.updateIdea(idea.dbId, updatedRecord);
+        // hint中的#hashtag可能已变化
+        const tags = await ideaDB.getTagsByIdeaId(idea.dbId);
+        setTagsByIdea(prev => ({ ...prev, [idea.dbId!]: tags }));
       }
     } catch (error) {
       console.error(`❌ Failed to update idea ${idea.dbId}:`, error);
@@ -206,6 +290,9 @@ export const IdeaList: React.FC<IdeaListProps> = ({
       
       // 更新数据库
       await ideaDB.updateIdea(idea.dbId, { completed: newCompleted });
+      if (idea.dueAt) {
+        syncReminderQuietly(idea.dbId);
+      }
     } catch (error) {
       console.error('❌ Failed to toggle todo status:', error);
       // 回滚本地状态
@@ -214,11 +301,27 @@ export const IdeaList: React.FC<IdeaListProps> = ({
           i.id === ideaId ? { ...i, completed: !newCompleted } : i
         )
       );
+      return;
+    }
+
+    // 重复待办完成后在下一次的日期生成新待办，重复规则随之移走
+    const dbId = idea.dbId;
+    if (newCompleted && recurrenceByIdea[dbId]) {
+      try {
+        await createNextRecurringIdea(dbId);
+        setRecurrenceByIdea(prev => {
+          const next = { ...prev };
+          delete next[dbId];
+          return next;
+        });
+      } catch (error) {
+        console.error('❌ Failed to create next occurrence:', error);
+      }
     }
   };
 
   // 处理分类选择
-  const handleCategorySelect = async (category: ContentType) => {
+  const handleCategorySelect = async (category: string) => {
     if (!selectedIdeaForCategory) return;
     
     const idea = ideas.find(i => i.id === selectedIdeaForCategory);
@@ -239,6 +342,11 @@ export const IdeaList: React.FC<IdeaListProps> = ({
     } catch (error) {
       console.error('❌ Failed to update category:', error);
     }
+
+    // 记录手动分类供分类器学习（失败不影响分类修改）
+    recordCategoryFeedback(idea.hint, category).catch(error => {
+      console.warn('⚠️ Failed to record category feedback:', error);
+    });
     
     setShowCategoryModal(false);
     setSelectedIdeaForCategory(null);
@@ -248,8 +356,18 @@ export const IdeaList: React.FC<IdeaListProps> = ({
     console.log('item: ', item);
     const isEditing = editingIdeaId === item.id;
     const finalCategory = getFinalContentType(item.hint, item.manualCategory);
-    const contentConfig = CONTENT_TYPES[finalCategory];
+    const contentConfig = getCategoryConfig(finalCategory);
     const showCheckbox = finalCategory === ContentType.TODO;
+    const ideaTags = item.dbId ? tagsByIdea[item.dbId] || [] : [];
+    const recurrence = item.dbId ? recurrenceByIdea[item.dbId] : undefined;
+    const now = Date.now();
+    const dueAt = item.dueAt && !item.completed ? new Date(item.dueAt) : null;
+    const dueStatus = dueAt ? getDueStatus(dueAt, now) : null;
+    const dueColors: Record<DueStatus, { text: string; background: string }> = {
+      overdue: { text: theme.buttons.dangerText, background: theme.buttons.danger },
+      soon: { text: theme.texts.link, background: theme.special.highlight },
+      later: { text: theme.texts.secondary, background: theme.backgrounds.tertiary },
+    };
 
     return (
       <View
@@ -302,6 +420,7 @@ export const IdeaList: React.FC<IdeaListProps> = ({
           <TouchableOpacity
             style={styles.ideaTextContainer}
             onPress={() => handleIdeaPress(item.id)}
+            onLongPress={() => item.dbId && setTagEditorIdeaId(item.dbId)}
             activeOpacity={0.7}
           >
             <Text style={[
@@ -314,6 +433,53 @@ export const IdeaList: React.FC<IdeaListProps> = ({
             ]}>
               {item.hint}
             </Text>
+            {item.snippet ? (
+              <HighlightedSnippet snippet={item.snippet} />
+            ) : null}
+            {((dueAt && dueStatus) || recurrence || item.audioUri) && (
+              <View style={styles.tagRow}>
+                {dueAt && dueStatus && (
+                  <View style={[styles.tagChip, { backgroundColor: dueColors[dueStatus].background }]}>
+                    <Text style={[styles.tagChipText, { color: dueColors[dueStatus].text }]}>
+                      {t(dueStatus === 'overdue' ? 'reminders.overdue' : dueStatus === 'soon' ? 'reminders.dueSoon' : 'reminders.due', {
+                        time: formatDueTime(dueAt, now, i18n.language === 'zh' ? 'zh-CN' : 'en-US'),
+                      })}
+                    </Text>
+                  </View>
+                )}
+                {recurrence && (
+                  <View style={[styles.tagChip, { backgroundColor: theme.backgrounds.tertiary }]}>
+                    <Text style={[styles.tagChipText, { color: theme.texts.secondary }]}>
+                      🔁 {formatRecurrence(recurrence, t)}
+                    </Text>
+                  </View>
+                )}
+                {item.audioUri && (
+                  <View style={[styles.tagChip, { backgroundColor: theme.backgrounds.tertiary }]}>
+                    <Text style={[styles.tagChipText, { color: theme.texts.secondary }]}>
+                      🎙 {t('voice.attachment')}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+            {ideaTags.length > 0 && (
+              <View style={styles.tagRow}>
+                {ideaTags.map(tag => (
+                  <View
+                    key={tag.id}
+                    style={[
+                      styles.tagChip,
+                      { backgroundColor: tag.color || theme.special.highlight }
+                    ]}
+                  >
+                    <Text style={[styles.tagChipText, { color: theme.texts.link }]}>
+                      #{tag.name}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </TouchableOpacity>
         )}
 
@@ -362,6 +528,22 @@ export const IdeaList: React.FC<IdeaListProps> = ({
     );
   };
 
+  // 当前选择分类的想法的自动识别结果
+  const categoryIdea = ideas.find(i => i.id === selectedIdeaForCategory);
+  const suggestion = showCategoryModal && categoryIdea ? classifyContent(categoryIdea.hint) : null;
+  const canRepeat = !!categoryIdea?.dbId &&
+    getFinalContentType(categoryIdea.hint, categoryIdea.manualCategory) === ContentType.TODO;
+
+  // 从分类选择中打开待办的重复设置
+  const handleOpenRecurrence = () => {
+    if (!categoryIdea?.dbId) {
+      return;
+    }
+    setShowCategoryModal(false);
+    setSelectedIdeaForCategory(null);
+    setRecurrenceIdeaId(categoryIdea.dbId);
+  };
+
   const renderCategoryModal = () => (
     <Modal
       visible={showCategoryModal}
@@ -386,30 +568,73 @@ export const IdeaList: React.FC<IdeaListProps> = ({
           ]}>
             选择分类
           </Text>
+
+          {suggestion && (
+            <Text style={[
+              styles.suggestionText,
+              { color: theme.texts.secondary }
+            ]}>
+              {t('classifier.suggestion', {
+                icon: getCategoryConfig(suggestion.type).icon,
+                name: getCategoryConfig(suggestion.type).name,
+                confidence: Math.round(suggestion.confidence * 100),
+              })}
+            </Text>
+          )}
           
-          {Object.entries(CONTENT_TYPES).map(([key, config]) => (
+          {/* 分类较多时可滚动 */}
+          <ScrollView style={styles.categoryScroll}>
+            {categories.filter(config => !config.archived).map(config => (
+              <TouchableOpacity
+                key={config.id}
+                style={[
+                  styles.categoryOption,
+                  { backgroundColor: theme.backgrounds.secondary },
+                  suggestion?.type === config.id && { borderWidth: 1, borderColor: theme.borders.primary }
+                ]}
+                onPress={() => handleCategorySelect(config.id)}
+              >
+                <Text style={[
+                  styles.categoryIcon,
+                  { color: theme.texts.secondary }
+                ]}>
+                  {config.icon}
+                </Text>
+                <Text style={[
+                  styles.categoryName,
+                  { color: theme.texts.primary }
+                ]}>
+                  {config.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {canRepeat && (
             <TouchableOpacity
-              key={key}
               style={[
                 styles.categoryOption,
-                { backgroundColor: theme.backgrounds.secondary }
+                styles.repeatOption,
+                { borderColor: theme.borders.secondary }
               ]}
-              onPress={() => handleCategorySelect(key as ContentType)}
+              onPress={handleOpenRecurrence}
             >
               <Text style={[
                 styles.categoryIcon,
                 { color: theme.texts.secondary }
               ]}>
-                {config.icon}
+                🔁
               </Text>
               <Text style={[
                 styles.categoryName,
                 { color: theme.texts.primary }
               ]}>
-                {config.name}
+                {categoryIdea?.dbId && recurrenceByIdea[categoryIdea.dbId]
+                  ? formatRecurrence(recurrenceByIdea[categoryIdea.dbId], t)
+                  : t('recurrence.entry')}
               </Text>
             </TouchableOpacity>
-          ))}
+          )}
           
           <TouchableOpacity
             style={styles.cancelButton}
@@ -460,6 +685,30 @@ export const IdeaList: React.FC<IdeaListProps> = ({
 
       {/* 分类选择模态框 */}
       {renderCategoryModal()}
+
+      {/* 标签编辑模态框（长按想法打开） */}
+      <TagEditorModal
+        visible={tagEditorIdeaId !== null}
+        ideaId={tagEditorIdeaId}
+        onClose={() => setTagEditorIdeaId(null)}
+        onTagsChange={(ideaId, tags) => setTagsByIdea(prev => ({ ...prev, [ideaId]: tags }))}
+      />
+
+      {/* 待办重复设置模态框（从分类选择中打开） */}
+      <RecurrenceModal
+        visible={recurrenceIdeaId !== null}
+        ideaId={recurrenceIdeaId}
+        onClose={() => setRecurrenceIdeaId(null)}
+        onRecurrenceChange={(ideaId, rule) => setRecurrenceByIdea(prev => {
+          const next = { ...prev };
+          if (rule) {
+            next[ideaId] = rule;
+          } else {
+            delete next[ideaId];
+          }
+          return next;
+        })}
+      />
     </View>
   );
 };
@@ -527,6 +776,15 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
+  suggestionText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  categoryScroll: {
+    maxHeight: 360,
+  },
   categoryOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -542,6 +800,12 @@ const styles = StyleSheet.create({
   categoryName: {
     fontSize: 16,
   },
+  repeatOption: {
+    marginTop: 4,
+    marginBottom: 0,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
   cancelButton: {
     marginTop: 12,
     paddingVertical: 12,
@@ -559,6 +823,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 20,
   },
+  // 标签相关样式
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 6,
+  },
+  tagChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  tagChipText: {
+    fontSize: 12,
+  },
   // 复选框相关样式
   checkboxContainer: {
     marginLeft: 12,
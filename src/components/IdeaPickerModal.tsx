@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Pressable,
+  FlatList,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { ideaDB } from '../utils/IdeaDatabase';
+import { IdeaRecord } from '../Types';
+
+interface IdeaPickerModalProps {
+  visible: boolean;
+  title: string;
+  excludeIdeaId?: number; // 不在列表中显示的想法（通常是当前想法）
+  onSelect: (idea: IdeaRecord) => void;
+  onClose: () => void;
+}
+
+/**
+ * 选择一个想法，可按标题筛选
+ */
+export const IdeaPickerModal: React.FC<IdeaPickerModalProps> = ({
+  visible,
+  title,
+  excludeIdeaId,
+  onSelect,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const [ideas, setIdeas] = useState<IdeaRecord[]>([]);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setQuery('');
+    ideaDB.getAllIdeas()
+      .then(setIdeas)
+      .catch(error => {
+        console.error('❌ Failed to load ideas:', error);
+      });
+  }, [visible]);
+
+  const keyword = query.trim().toLowerCase();
+  const filteredIdeas = ideas.filter(idea =>
+    idea.id !== excludeIdeaId && (!keyword || idea.hint.toLowerCase().includes(keyword))
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: theme.backgrounds.modal }]}
+        onPress={onClose}
+      >
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.backgrounds.primary }]}
+          onPress={() => {}} // 阻止事件冒泡
+        >
+          <Text style={[styles.modalTitle, { color: theme.texts.primary }]}>{title}</Text>
+          <TextInput
+            style={[
+              styles.searchInput,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+                color: theme.texts.primary,
+              }
+            ]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t('placeholders.searchIdeas')}
+            placeholderTextColor={theme.texts.tertiary}
+            autoCapitalize="none"
+          />
+          <FlatList
+            data={filteredIdeas}
+            keyExtractor={idea => idea.id.toString()}
+            keyboardShouldPersistTaps="handled"
+            style={styles.list}
+            ListEmptyComponent={
+              <Text style={[styles.emptyText, { color: theme.texts.tertiary }]}>{t('ideaPicker.empty')}</Text>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[styles.ideaRow, { borderBottomColor: theme.borders.separator }]}
+                onPress={() => onSelect(item)}
+              >
+                <Text style={[styles.ideaHint, { color: theme.texts.primary }]} numberOfLines={1}>
+                  {item.hint}
+                </Text>
+                <Text style={[styles.ideaDate, { color: theme.texts.tertiary }]}>{item.date}</Text>
+              </TouchableOpacity>
+            )}
+          />
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={[styles.cancelText, { color: theme.texts.secondary }]}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+    maxHeight: '70%',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  searchInput: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  ideaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  ideaHint: {
+    flex: 1,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  ideaDate: {
+    fontSize: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  footer: {
+    alignItems: 'flex-end',
+    marginTop: 12,
+  },
+  cancelText: {
+    fontSize: 15,
+  },
+});
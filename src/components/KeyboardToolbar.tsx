@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, Platform, PermissionsAndroid } from 'react-native';
 import FontAwesome5 from '@react-native-vector-icons/fontawesome5';
 import Feather from '@react-native-vector-icons/feather';
@@ -6,19 +6,40 @@ import { useTranslation } from 'react-i18next';
 import { launchImageLibrary, ImagePickerResponse, MediaType } from 'react-native-image-picker';
 import RNFS from 'react-native-fs';
 import { useTheme } from '../hooks/useTheme';
+import { wavRecorder, saveRecordingAsAttachment, discardRecording } from '../utils/VoiceInput';
+import { formatDuration } from './AudioBlock';
+import { MIN_RECORDING_MS } from '../utils/config';
+import { applyColorSpan } from '../utils/ColorSpans';
+import { FormattedText, InlineFormat, ListType, getActiveFormats, toggleHeading, toggleInlineFormat, toggleList } from '../utils/TextFormatting';
+import { SlashBlock, SlashCommand, SlashCommandContext, filterSlashCommands, getSlashCommands, getSlashQuery } from '../utils/SlashCommands';
+import { SlashCommandMenu } from './SlashCommandMenu';
 
 export interface KeyboardToolbarProps {
   textInputRef: TextInput | null; // TextInput 引用
   currentText?: string; // 当前文本内容
-  onTextChange?: (text: string, newCursorPosition?: number) => void; // 文本变化回调，包含新光标位置
+  onTextChange?: (text: string, newCursorPosition?: number, newSelectionEnd?: number) => void; // 文本变化回调，包含新的选区
   cursorPosition?: number; // 当前光标位置
+  selectionEnd?: number; // 选中文字的结束位置，格式和颜色应用到选中的文字
   onAddNewBlock?: () => void; // 添加新block的回调
   onImageSelect?: (imageUri: string) => void; // 图片选择回调
+  onAudioRecord?: (audioUri: string, durationMs: number) => void; // 录音完成回调
+  onChecklistToggle?: () => void; // 当前block与清单互相转换的回调
+  isChecklist?: boolean; // 当前block是否为清单
+  onInsertCodeBlock?: () => void; // 插入代码block的回调
+  onInsertTable?: () => void; // 插入表格block的回调
+  onInsertBlock?: (block: SlashBlock) => void; // 斜杠命令插入block的回调
+  onLinkIdea?: () => void; // 斜杠命令选择想法插入链接的回调
+  isMarkdown?: boolean; // 当前block是否为文本block，只有文本block支持斜杠命令
+  onUndo?: () => void; // 撤销
+  onRedo?: () => void; // 重做
+  canUndo?: boolean;
+  canRedo?: boolean;
   onBlockColorChange?: (color: string) => void; // 添加block颜色变化回调
   currentBlockColor?: string; // 当前block的颜色
 }
 
-const getColors = (t: any) => [
+// block颜色调色板，编辑器工具栏和多选工具栏共用
+export const getBlockColors = (t: any) => [
   { name: t('colors.default'), color: '#333333' },
   { name: t('colors.red'), color: '#ff4444' },
   { name: t('colors.orange'), color: '#ff8800' },
@@ -34,16 +55,44 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
   currentText = '',
   onTextChange,
   cursorPosition = 0,
+  selectionEnd = cursorPosition,
   onAddNewBlock,
   onImageSelect,
+  onAudioRecord,
+  onChecklistToggle,
+  isChecklist = false,
+  onInsertCodeBlock,
+  onInsertTable,
+  onInsertBlock,
+  onLinkIdea,
+  isMarkdown = false,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   onBlockColorChange,
   currentBlockColor,
 }) => {
   const { t } = useTranslation();
   const { theme } = useTheme();
   const [showColorPanel, setShowColorPanel] = useState(false);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const recordingStartedAtRef = useRef<number | null>(null);
+  const onAudioRecordRef = useRef(onAudioRecord);
+  onAudioRecordRef.current = onAudioRecord;
+
+  // 录音时刷新已录制的时长
+  useEffect(() => {
+    if (recordingStartedAt === null) {
+      return;
+    }
+    setRecordingElapsed(0);
+    const timer = setInterval(() => setRecordingElapsed(Date.now() - recordingStartedAt), 500);
+    return () => clearInterval(timer);
+  }, [recordingStartedAt]);
   
-  const COLORS = getColors(t);
+  const COLORS = getBlockColors(t);
   
   const getSelectedColor = () => {
     return COLORS.find(color => color.color === currentBlockColor) || COLORS[0];
@@ -51,67 +100,25 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
   
   const selectedColor = getSelectedColor();
 
-  const handleHeaderPress = (level: number) => {
-    if (!textInputRef || !onTextChange) return;
-    
-    const currentPosition = cursorPosition;
-    const textBefore = currentText.substring(0, currentPosition);
-    const textAfter = currentText.substring(currentPosition);
+  // 选区位置已有的格式，对应的按钮高亮显示
+  const activeFormats = getActiveFormats(currentText, cursorPosition, selectionEnd);
 
-    // 检查是否在行首
-    const isAtLineStart = currentPosition === 0 || currentText[currentPosition - 1] === '\n';
-    
-    let prefix = '';
-    if (isAtLineStart) {
-      prefix = '#'.repeat(level) + ' ';
-    } else {
-      // 如果不在行首，先换行
-      prefix = '\n' + '#'.repeat(level) + ' ';
-    }
-    
-    const newText = textBefore + prefix + textAfter;
-    const newPosition = currentPosition + prefix.length;
-    
-    if (onTextChange) {
-      onTextChange(newText, newPosition);
+  // 应用格式化后的文本，选区由Editor设置到TextInput
+  const applyFormatting = (result: FormattedText) => {
+    if (!textInputRef || !onTextChange) {
+      return;
     }
-    
-    // 手动设置光标位置
-    setTimeout(() => {
-      if (textInputRef && textInputRef.setNativeProps) {
-        textInputRef.setNativeProps({
-          selection: { start: newPosition, end: newPosition }
-        });
-      }
-    }, 0);
+    onTextChange(result.text, result.start, result.end);
   };
 
-  const handleBoldPress = () => {
-    if (!textInputRef || !onTextChange) return;
-    
-    const currentPosition = cursorPosition;
-    const textBefore = currentText.substring(0, currentPosition);
-    const textAfter = currentText.substring(currentPosition);
-    
-    const boldMarker = '**';
-    const newText = textBefore + boldMarker + boldMarker + textAfter;
-    const newPosition = currentPosition + boldMarker.length;
-    
-    onTextChange(newText, newPosition);
+  // 标题：当前行已是该级别时取消，否则切换到该级别
+  const handleHeaderPress = (level: number) => {
+    applyFormatting(toggleHeading(currentText, cursorPosition, selectionEnd, level));
   };
 
-  const handleItalicPress = () => {
-    if (!textInputRef || !onTextChange) return;
-    
-    const currentPosition = cursorPosition;
-    const textBefore = currentText.substring(0, currentPosition);
-    const textAfter = currentText.substring(currentPosition);
-    
-    const italicMarker = '*';
-    const newText = textBefore + italicMarker + italicMarker + textAfter;
-    const newPosition = currentPosition + italicMarker.length;
-    
-    onTextChange(newText, newPosition);
+  // 粗体、斜体等：包裹选中的文字，位于该格式中时取消
+  const handleInlineFormatPress = (format: InlineFormat) => {
+    applyFormatting(toggleInlineFormat(currentText, cursorPosition, selectionEnd, format));
   };
 
   const handleParagraphPress = () => {
@@ -148,39 +155,31 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
     }, 0);
   };
 
-  const handleListPress = () => {
-    if (!textInputRef || !onTextChange) return;
-    
-    const currentPosition = cursorPosition;
-    const textBefore = currentText.substring(0, currentPosition);
-    const textAfter = currentText.substring(currentPosition);
+  // 列表：所选各行已是该类型时取消，否则转换为该类型
+  const handleListPress = (type: ListType) => {
+    applyFormatting(toggleList(currentText, cursorPosition, selectionEnd, type));
+  };
 
-    // 检查是否在行首
-    const isAtLineStart = currentPosition === 0 || currentText[currentPosition - 1] === '\n';
-    
-    let prefix = '';
-    if (isAtLineStart) {
-      prefix = '• ';
-    } else {
-      // 如果不在行首，先换行
-      prefix = '\n• ';
-    }
-    
-    const newText = textBefore + prefix + textAfter;
-    const newPosition = currentPosition + prefix.length;
-    
-    if (onTextChange) {
-      onTextChange(newText, newPosition);
+  // 文本block开头输入/时显示的命令
+  const slashQuery = isMarkdown ? getSlashQuery(currentText, cursorPosition) : null;
+  const slashCommands = slashQuery === null ? [] : filterSlashCommands(getSlashCommands(), slashQuery, t);
+
+  // 执行斜杠命令：先清空输入的/命令，再通过与工具栏按钮相同的回调修改block
+  const handleSlashCommandSelect = (command: SlashCommand) => {
+    if (!onTextChange) {
+      return;
     }
-    
-    // 手动设置光标位置
-    setTimeout(() => {
-      if (textInputRef && textInputRef.setNativeProps) {
-        textInputRef.setNativeProps({
-          selection: { start: newPosition, end: newPosition }
-        });
-      }
-    }, 0);
+    const context: SlashCommandContext = {
+      setText: (text, cursor = text.length) => onTextChange(text, cursor),
+      addBlock: () => onAddNewBlock?.(),
+      insertBlock: block => onInsertBlock?.(block),
+      toggleChecklist: () => onChecklistToggle?.(),
+      pickImage: handleImageSelect,
+      openColorPanel: () => setShowColorPanel(true),
+      linkIdea: () => onLinkIdea?.(),
+    };
+    onTextChange('', 0);
+    command.run(context);
   };
 
   const handleColorButtonPress = () => {
@@ -188,7 +187,11 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
   };
 
   const handleColorSelect = (color: typeof COLORS[0]) => {
-    if (onBlockColorChange) {
+    if (selectionEnd !== cursorPosition && onTextChange) {
+      // 选中了文字：用[text](color:value)包裹选中部分，选择默认颜色时去掉颜色
+      const colored = applyColorSpan(currentText, cursorPosition, selectionEnd, color.color === COLORS[0].color ? null : color.color);
+      onTextChange(colored.text, colored.cursor);
+    } else if (onBlockColorChange) {
       onBlockColorChange(color.color);
     }
     setShowColorPanel(false);
@@ -295,6 +298,61 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
     }
   };
 
+  // 结束录音：过短的录音视为误触直接删除，否则移到录音目录并通知父组件
+  const finishRecording = async () => {
+    const startedAt = recordingStartedAtRef.current;
+    if (startedAt === null) {
+      return;
+    }
+    recordingStartedAtRef.current = null;
+    setRecordingStartedAt(null);
+
+    const durationMs = Date.now() - startedAt;
+    try {
+      const audioPath = await wavRecorder.stop();
+      if (durationMs < MIN_RECORDING_MS) {
+        await discardRecording(audioPath);
+        return;
+      }
+      const audioUri = await saveRecordingAsAttachment(audioPath);
+      onAudioRecordRef.current?.(audioUri, durationMs);
+    } catch (error) {
+      console.error('❌ Error saving audio block:', error);
+      Alert.alert(t('common.error'), t('errors.cannotSaveAudio'));
+    }
+  };
+
+  // 处理录音按钮：未录音时开始，录音中则结束
+  const handleRecordPress = async () => {
+    if (recordingStartedAtRef.current !== null) {
+      await finishRecording();
+      return;
+    }
+
+    try {
+      await wavRecorder.start();
+      const startedAt = Date.now();
+      recordingStartedAtRef.current = startedAt;
+      setRecordingStartedAt(startedAt);
+    } catch (error) {
+      console.error('❌ Error starting audio recording:', error);
+      Alert.alert(t('common.error'), t('errors.cannotRecord'));
+    }
+  };
+
+  // 键盘收起导致工具栏卸载时，结束录音并照常插入录音block
+  const finishRecordingRef = useRef(finishRecording);
+  finishRecordingRef.current = finishRecording;
+  useEffect(() => {
+    return () => {
+      if (recordingStartedAtRef.current !== null) {
+        finishRecordingRef.current();
+      }
+    };
+  }, []);
+
+  const isRecording = recordingStartedAt !== null;
+
   // 动态颜色定义
   const dynamicColors = {
     primary: theme.buttons.primary,
@@ -306,6 +364,12 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
     purple: '#6f42c1',
   };
 
+  // 当前已应用的格式按钮
+  const activeButtonStyle = {
+    backgroundColor: theme.backgrounds.tertiary,
+    borderColor: dynamicColors.primary,
+  };
+
   return (
     <View style={[
       styles.container,
@@ -314,6 +378,11 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
         borderTopColor: theme.borders.primary,
       }
     ]}>
+      {/* 斜杠命令菜单 */}
+      {slashCommands.length > 0 && (
+        <SlashCommandMenu commands={slashCommands} onSelect={handleSlashCommandSelect} />
+      )}
+
       {/* 颜色面板 */}
       {showColorPanel && (
         <View style={[
@@ -373,6 +442,35 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
           <FontAwesome5 name="plus" size={16} color={dynamicColors.primary} iconStyle="solid" />
         </TouchableOpacity>
 
+        {/* 撤销/重做按钮 */}
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            }
+          ]} 
+          onPress={onUndo}
+          disabled={!canUndo}
+        >
+          <Feather name="corner-up-left" size={16} color={canUndo ? dynamicColors.secondary : theme.texts.disabled} />
+        </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            }
+          ]} 
+          onPress={onRedo}
+          disabled={!canRedo}
+        >
+          <Feather name="corner-up-right" size={16} color={canRedo ? dynamicColors.secondary : theme.texts.disabled} />
+        </TouchableOpacity>
+
         {/* 分隔线 */}
         <View style={[styles.separator, { backgroundColor: theme.borders.secondary }]} />
 
@@ -383,7 +481,8 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.headingLevel === 1 && activeButtonStyle,
           ]} 
           onPress={() => handleHeaderPress(1)}
         >
@@ -396,7 +495,8 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.headingLevel === 2 && activeButtonStyle,
           ]} 
           onPress={() => handleHeaderPress(2)}
         >
@@ -409,7 +509,8 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.headingLevel === 3 && activeButtonStyle,
           ]} 
           onPress={() => handleHeaderPress(3)}
         >
@@ -422,7 +523,8 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.headingLevel === 4 && activeButtonStyle,
           ]} 
           onPress={() => handleHeaderPress(4)}
         >
@@ -435,7 +537,8 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.headingLevel === 5 && activeButtonStyle,
           ]} 
           onPress={() => handleHeaderPress(5)}
         >
@@ -461,13 +564,74 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.list === 'bullet' && activeButtonStyle,
           ]} 
-          onPress={handleListPress}
+          onPress={() => handleListPress('bullet')}
         >
           <Feather name="list" size={16} color={dynamicColors.success} />
         </TouchableOpacity>
 
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            },
+            activeFormats.list === 'ordered' && activeButtonStyle,
+          ]} 
+          onPress={() => handleListPress('ordered')}
+        >
+          <FontAwesome5 name="list-ol" size={15} color={dynamicColors.success} iconStyle="solid" />
+        </TouchableOpacity>
+
+        {/* 清单按钮 */}
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            },
+            isChecklist && {
+              backgroundColor: theme.backgrounds.tertiary,
+              borderColor: dynamicColors.primary,
+            }
+          ]} 
+          onPress={onChecklistToggle}
+        >
+          <Feather name="check-square" size={16} color={dynamicColors.success} />
+        </TouchableOpacity>
+
+        {/* 代码块按钮 */}
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            }
+          ]} 
+          onPress={onInsertCodeBlock}
+        >
+          <Feather name="code" size={16} color={dynamicColors.purple} />
+        </TouchableOpacity>
+
+        {/* 表格按钮 */}
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            }
+          ]} 
+          onPress={onInsertTable}
+        >
+          <Feather name="grid" size={16} color={dynamicColors.info} />
+        </TouchableOpacity>
+
         {/* 分隔线 */}
         <View style={[styles.separator, { backgroundColor: theme.borders.secondary }]} />
 
@@ -478,9 +642,10 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.inline.has('bold') && activeButtonStyle,
           ]} 
-          onPress={handleBoldPress}
+          onPress={() => handleInlineFormatPress('bold')}
         >
           <FontAwesome5 name="bold" size={14} color={dynamicColors.danger} iconStyle="solid" />
         </TouchableOpacity>
@@ -491,13 +656,56 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
             {
               backgroundColor: theme.backgrounds.secondary,
               borderColor: theme.borders.secondary,
-            }
+            },
+            activeFormats.inline.has('italic') && activeButtonStyle,
           ]} 
-          onPress={handleItalicPress}
+          onPress={() => handleInlineFormatPress('italic')}
         >
           <FontAwesome5 name="italic" size={14} color={dynamicColors.warning} iconStyle="solid" />
         </TouchableOpacity>
 
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            },
+            activeFormats.inline.has('strikethrough') && activeButtonStyle,
+          ]} 
+          onPress={() => handleInlineFormatPress('strikethrough')}
+        >
+          <FontAwesome5 name="strikethrough" size={14} color={dynamicColors.secondary} iconStyle="solid" />
+        </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            },
+            activeFormats.inline.has('code') && activeButtonStyle,
+          ]} 
+          onPress={() => handleInlineFormatPress('code')}
+        >
+          <FontAwesome5 name="terminal" size={13} color={dynamicColors.purple} iconStyle="solid" />
+        </TouchableOpacity>
+
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            },
+            activeFormats.inline.has('link') && activeButtonStyle,
+          ]} 
+          onPress={() => handleInlineFormatPress('link')}
+        >
+          <Feather name="link" size={16} color={dynamicColors.info} />
+        </TouchableOpacity>
+
         {/* 颜色按钮 */}
         <TouchableOpacity 
           style={[
@@ -538,6 +746,35 @@ export const KeyboardToolbar: React.FC<KeyboardToolbarProps> = ({
         >
           <FontAwesome5 name="image" size={16} color={dynamicColors.info} iconStyle="solid" />
         </TouchableOpacity>
+
+        {/* 录音按钮 */}
+        <TouchableOpacity 
+          style={[
+            styles.button,
+            {
+              backgroundColor: theme.backgrounds.secondary,
+              borderColor: theme.borders.secondary,
+            },
+            isRecording && {
+              backgroundColor: theme.buttons.danger,
+              borderColor: theme.buttons.danger,
+            }
+          ]} 
+          onPress={handleRecordPress}
+          accessibilityLabel={t('audio.record')}
+        >
+          <FontAwesome5
+            name={isRecording ? 'stop' : 'microphone'}
+            size={16}
+            color={isRecording ? theme.buttons.dangerText : dynamicColors.danger}
+            iconStyle="solid"
+          />
+        </TouchableOpacity>
+        {isRecording && (
+          <Text style={[styles.recordingText, { color: dynamicColors.danger }]}>
+            {t('audio.recording', { time: formatDuration(recordingElapsed) })}
+          </Text>
+        )}
       </ScrollView>
     </View>
   );
@@ -590,6 +827,11 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     borderWidth: 1,
   },
+  recordingText: {
+    fontSize: 13,
+    marginLeft: 4,
+    fontVariant: ['tabular-nums'],
+  },
   plusButton: {
     // 特殊样式将通过动态样式应用
   },
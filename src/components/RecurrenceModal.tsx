@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Pressable,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { ideaDB } from '../utils/IdeaDatabase';
+import { RECURRENCE_FREQUENCIES, normalizeRecurrence } from '../utils/RecurrenceRules';
+import { MAX_RECURRENCE_INTERVAL } from '../utils/config';
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceSettings } from '../Types';
+
+interface RecurrenceModalProps {
+  visible: boolean;
+  ideaId: number | null;
+  onClose: () => void;
+  onRecurrenceChange?: (ideaId: number, rule: RecurrenceRule | null) => void; // 保存后通知父组件刷新
+}
+
+// 重复规则的简短描述，例如"每周一、三"、"每月15号"
+export const formatRecurrence = (settings: RecurrenceSettings, t: TFunction): string => {
+  switch (settings.frequency) {
+    case 'weekly': {
+      const dayNames = t('calendar.dayNamesShort', { returnObjects: true }) as string[];
+      const days = settings.weekdays.map(day => dayNames[day]).join(t('recurrence.daySeparator'));
+      return settings.interval > 1
+        ? t('recurrence.everyWeeksOn', { count: settings.interval, days })
+        : t('recurrence.weeklyOn', { days });
+    }
+    case 'monthly':
+      return settings.interval > 1
+        ? t('recurrence.everyMonthsOn', { count: settings.interval, day: settings.month_day })
+        : t('recurrence.monthlyOn', { day: settings.month_day });
+    case 'interval':
+      return t('recurrence.everyDays', { count: settings.interval });
+    default:
+      return t(`recurrence.${settings.frequency}`);
+  }
+};
+
+export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({
+  visible,
+  ideaId,
+  onClose,
+  onRecurrenceChange,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const [ideaDate, setIdeaDate] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | null>(null);
+  const [intervalCount, setIntervalCount] = useState(1);
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [monthDay, setMonthDay] = useState(1);
+
+  // 加载想法当前的重复规则，没有时用想法的日期作为默认的星期和日期
+  const loadRecurrence = useCallback(async () => {
+    if (!ideaId) {
+      return;
+    }
+    try {
+      const [idea, rule] = await Promise.all([
+        ideaDB.getIdeaById(ideaId),
+        ideaDB.getRecurrence(ideaId),
+      ]);
+      if (!idea) {
+        return;
+      }
+      const defaults = normalizeRecurrence({ frequency: 'weekly' }, idea.date);
+      setIdeaDate(idea.date);
+      setFrequency(rule ? rule.frequency : null);
+      setIntervalCount(rule && rule.frequency !== 'daily' && rule.frequency !== 'weekdays' ? rule.interval : 1);
+      setWeekdays(rule?.weekdays.length ? rule.weekdays : defaults.weekdays);
+      setMonthDay(rule?.month_day ?? Number(idea.date.split('-')[2]));
+    } catch (error) {
+      console.error('❌ Failed to load recurrence:', error);
+    }
+  }, [ideaId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadRecurrence();
+    }
+  }, [visible, loadRecurrence]);
+
+  // 切换频率时重置间隔，自定义间隔默认每2天
+  const handleFrequencySelect = (value: RecurrenceFrequency | null) => {
+    setFrequency(value);
+    setIntervalCount(value === 'interval' ? 2 : 1);
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev => {
+      if (prev.includes(day)) {
+        // 至少保留一天
+        return prev.length > 1 ? prev.filter(d => d !== day) : prev;
+      }
+      return [...prev, day].sort((a, b) => a - b);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!ideaId || !ideaDate) {
+      return;
+    }
+    try {
+      if (frequency) {
+        const settings = normalizeRecurrence(
+          { frequency, interval: intervalCount, weekdays, month_day: monthDay },
+          ideaDate
+        );
+        await ideaDB.setRecurrence(ideaId, settings);
+      } else {
+        await ideaDB.deleteRecurrence(ideaId);
+      }
+      onRecurrenceChange?.(ideaId, await ideaDB.getRecurrence(ideaId));
+      onClose();
+    } catch (error) {
+      console.error('❌ Failed to save recurrence:', error);
+      Alert.alert(t('common.error'), t('errors.cannotSaveRecurrence'));
+    }
+  };
+
+  // 数字步进器（间隔、每月日期）
+  const renderStepper = (label: string, unit: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: theme.texts.secondary }]}>{label}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { backgroundColor: theme.backgrounds.secondary }]}
+        onPress={() => onChange(Math.max(min, value - 1))}
+      >
+        <Text style={[styles.stepperButtonText, { color: theme.texts.primary }]}>−</Text>
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: theme.texts.primary }]}>{value}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { backgroundColor: theme.backgrounds.secondary }]}
+        onPress={() => onChange(Math.min(max, value + 1))}
+      >
+        <Text style={[styles.stepperButtonText, { color: theme.texts.primary }]}>+</Text>
+      </TouchableOpacity>
+      <Text style={[styles.stepperLabel, { color: theme.texts.secondary }]}>{unit}</Text>
+    </View>
+  );
+
+  const dayNames = t('calendar.dayNamesShort', { returnObjects: true }) as string[];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: theme.backgrounds.modal }]}
+        onPress={onClose}
+      >
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.backgrounds.primary }]}
+          onPress={() => {}} // 阻止事件冒泡
+        >
+          <Text style={[styles.modalTitle, { color: theme.texts.primary }]}>
+            {t('recurrence.title')}
+          </Text>
+
+          <ScrollView style={styles.optionScroll}>
+            {[null, ...RECURRENCE_FREQUENCIES].map(value => {
+              const selected = frequency === value;
+              return (
+                <TouchableOpacity
+                  key={value || 'none'}
+                  style={[
+                    styles.option,
+                    { backgroundColor: selected ? theme.buttons.primary : theme.backgrounds.secondary }
+                  ]}
+                  onPress={() => handleFrequencySelect(value)}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    { color: selected ? theme.buttons.primaryText : theme.texts.primary }
+                  ]}>
+                    {t(value ? `recurrence.${value}` : 'recurrence.none')}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            {frequency === 'weekly' && (
+              <>
+                <View style={styles.weekdayRow}>
+                  {Array.isArray(dayNames) && dayNames.map((name, day) => {
+                    const selected = weekdays.includes(day);
+                    return (
+                      <TouchableOpacity
+                        key={day}
+                        style={[
+                          styles.weekdayChip,
+                          {
+                            backgroundColor: selected ? theme.buttons.primary : theme.backgrounds.secondary,
+                            borderColor: selected ? theme.buttons.primary : theme.borders.secondary,
+                          }
+                        ]}
+                        onPress={() => toggleWeekday(day)}
+                      >
+                        <Text style={[
+                          styles.weekdayText,
+                          { color: selected ? theme.buttons.primaryText : theme.texts.primary }
+                        ]}>
+                          {name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {renderStepper(t('recurrence.every'), t('recurrence.weeks'), intervalCount, 1, 52, setIntervalCount)}
+              </>
+            )}
+
+            {frequency === 'monthly' && (
+              <>
+                {renderStepper(t('recurrence.onDay'), '', monthDay, 1, 31, setMonthDay)}
+                {renderStepper(t('recurrence.every'), t('recurrence.months'), intervalCount, 1, 12, setIntervalCount)}
+              </>
+            )}
+
+            {frequency === 'interval' &&
+              renderStepper(t('recurrence.every'), t('recurrence.days'), intervalCount, 1, MAX_RECURRENCE_INTERVAL, setIntervalCount)}
+          </ScrollView>
+
+          <Text style={[styles.hintText, { color: theme.texts.tertiary }]}>
+            {t('recurrence.hint')}
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: theme.buttons.primary }]}
+            onPress={handleSave}
+          >
+            <Text style={[styles.saveButtonText, { color: theme.buttons.primaryText }]}>
+              {t('common.save')}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={[styles.closeButtonText, { color: theme.texts.secondary }]}>
+              {t('common.cancel')}
+            </Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+    maxHeight: '80%',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  optionScroll: {
+    flexGrow: 0,
+  },
+  option: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  weekdayChip: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  weekdayText: {
+    fontSize: 13,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  stepperLabel: {
+    fontSize: 15,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 12,
+    marginTop: 16,
+  },
+  saveButton: {
+    marginTop: 16,
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    marginTop: 4,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+});
+
+export default RecurrenceModal;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import Feather from '@react-native-vector-icons/feather';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { getBlockColors } from './KeyboardToolbar';
+
+interface SelectionToolbarProps {
+  count: number; // 选中的block数量
+  onCopy: () => void;
+  onCut: () => void;
+  onDelete: () => void;
+  onColorChange: (color: string) => void;
+  onMove: () => void; // 移动到其他想法
+  onClose: () => void; // 取消选中
+}
+
+type SelectionAction = {
+  icon: 'copy' | 'scissors' | 'trash-2' | 'droplet' | 'log-out';
+  label: string;
+  onPress: () => void;
+  color?: string;
+};
+
+/**
+ * Editor中选中多个block时代替KeyboardToolbar显示的操作栏
+ */
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count,
+  onCopy,
+  onCut,
+  onDelete,
+  onColorChange,
+  onMove,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const [showColorPanel, setShowColorPanel] = useState(false);
+
+  const actions: SelectionAction[] = [
+    { icon: 'copy', label: t('selection.copy'), onPress: onCopy },
+    { icon: 'scissors', label: t('selection.cut'), onPress: onCut },
+    { icon: 'droplet', label: t('selection.color'), onPress: () => setShowColorPanel(prev => !prev) },
+    { icon: 'log-out', label: t('selection.move'), onPress: onMove },
+    { icon: 'trash-2', label: t('selection.delete'), onPress: onDelete, color: theme.buttons.danger },
+  ];
+
+  return (
+    <View style={[
+      styles.container,
+      {
+        backgroundColor: theme.backgrounds.toolbar,
+        borderTopColor: theme.borders.primary,
+      }
+    ]}>
+      {showColorPanel && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.colorPanelContent}
+          style={[styles.colorPanel, { borderBottomColor: theme.borders.secondary }]}
+        >
+          {getBlockColors(t).map((color, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[styles.colorButton, { backgroundColor: color.color, borderColor: theme.backgrounds.secondary }]}
+              onPress={() => {
+                onColorChange(color.color);
+                setShowColorPanel(false);
+              }}
+            />
+          ))}
+        </ScrollView>
+      )}
+      <View style={styles.row}>
+        <Text style={[styles.countText, { color: theme.texts.secondary }]}>
+          {t('selection.count', { count })}
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.actionsScroll} contentContainerStyle={styles.actions}>
+          {actions.map(action => (
+            <TouchableOpacity key={action.icon} style={styles.actionButton} onPress={action.onPress}>
+              <Feather name={action.icon} size={18} color={action.color || theme.texts.primary} />
+              <Text style={[styles.actionText, { color: action.color || theme.texts.secondary }]}>{action.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Feather name="x" size={20} color={theme.texts.secondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+  },
+  colorPanel: {
+    borderBottomWidth: 1,
+  },
+  colorPanelContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  colorButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    marginHorizontal: 4,
+    borderWidth: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  countText: {
+    fontSize: 13,
+    marginRight: 8,
+  },
+  actionsScroll: {
+    flex: 1,
+  },
+  actions: {
+    alignItems: 'center',
+  },
+  actionButton: {
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+  },
+  actionText: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  closeButton: {
+    paddingLeft: 8,
+  },
+});
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import Feather from '@react-native-vector-icons/feather';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { SlashCommand } from '../utils/SlashCommands';
+
+type FeatherIconName = React.ComponentProps<typeof Feather>['name'];
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[]; // 按输入的关键词筛选后的命令
+  onSelect: (command: SlashCommand) => void;
+}
+
+/**
+ * 在文本block开头输入/时显示在键盘工具栏上方的命令菜单
+ */
+export const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ commands, onSelect }) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+
+  return (
+    <ScrollView
+      keyboardShouldPersistTaps="always"
+      style={[styles.container, { borderBottomColor: theme.borders.secondary }]}
+    >
+      {commands.map(command => (
+        <TouchableOpacity key={command.id} style={styles.item} onPress={() => onSelect(command)}>
+          <Feather name={command.icon as FeatherIconName} size={16} color={theme.texts.secondary} />
+          <Text style={[styles.title, { color: theme.texts.primary }]} numberOfLines={1}>
+            {t(command.titleKey)}
+          </Text>
+          <Text style={[styles.id, { color: theme.texts.tertiary }]}>/{command.id}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxHeight: 220,
+    borderBottomWidth: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 12,
+  },
+  id: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+});
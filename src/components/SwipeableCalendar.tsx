@@ -12,6 +12,7 @@ import { Calendar, CalendarList, DateData, LocaleConfig } from 'react-native-cal
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '../hooks/useTheme';
 import { ideaDB } from '../utils/IdeaDatabase';
+import { getOccurrencesInRange } from '../utils/RecurrenceRules';
 
 // 配置本地化，确保周日是第一天
 const configureLocale = (language: string, t: any) => {
@@ -55,19 +56,33 @@ interface SwipeableCalendarProps {
   currentDateString: string;
   onClose: () => void;
   onDateSelect: (dateString: string) => void;
+  onJournalSelect?: (dateString: string) => void; // 提供时可切换到日记模式，点击日期打开当天的日记
 }
 
+// 点击日期的作用：跳转到该日期的想法，或打开该日期的日记
+type DayPressAction = 'ideas' | 'journal';
+
 const SwipeableCalendar: React.FC<SwipeableCalendarProps> = ({
   visible,
   currentDateString,
   onClose,
   onDateSelect,
+  onJournalSelect,
 }) => {
   const { t, i18n } = useTranslation();
   const { theme } = useTheme();
   const [datesWithIdeas, setDatesWithIdeas] = useState<{ [key: string]: string[] }>({});
+  const [recurringDates, setRecurringDates] = useState<{ [key: string]: string[] }>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [dayPressAction, setDayPressAction] = useState<DayPressAction>('ideas');
   
+  // 每次打开日历时默认跳转到日期
+  useEffect(() => {
+    if (visible) {
+      setDayPressAction('ideas');
+    }
+  }, [visible]);
+
   // 配置本地化
   useEffect(() => {
     configureLocale(i18n.language, t);
@@ -77,15 +92,31 @@ const SwipeableCalendar: React.FC<SwipeableCalendarProps> = ({
   const screenWidth = Dimensions.get('window').width;
   const calendarWidth = Math.floor(screenWidth * 0.95 - 40); // 95%宽度减去padding
 
-  // 加载指定月份的想法日期
+  // 加载指定月份的想法日期，以及重复待办在该月以后的日期
   const loadMonthIdeas = useCallback(async (year: number, month: number) => {
     try {
-      const dates = await ideaDB.getDatesWithIdeasByMonth(year, month);
+      const [dates, recurrences] = await Promise.all([
+        ideaDB.getDatesWithIdeasByMonth(year, month),
+        ideaDB.getActiveRecurrences(),
+      ]);
       const monthKey = `${year}-${month}`;
       setDatesWithIdeas(prev => ({
         ...prev,
         [monthKey]: dates,
       }));
+
+      const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
+      const todayString = new Date().toISOString().split('T')[0];
+      const monthStart = `${monthPrefix}-01`;
+      const rangeStart = monthStart > todayString ? monthStart : todayString;
+      const occurrences = recurrences.flatMap(rule =>
+        getOccurrencesInRange(rule, rule.date, rangeStart, `${monthPrefix}-31`)
+          .filter(date => date > todayString)
+      );
+      setRecurringDates(prev => ({
+        ...prev,
+        [monthKey]: occurrences,
+      }));
     } catch (error) {
       console.error('Failed to load month ideas:', error);
     }
@@ -161,9 +192,19 @@ const SwipeableCalendar: React.FC<SwipeableCalendarProps> = ({
         };
       }
     });
+
+    // 标记重复待办以后的日期（只显示圆点，未来日期不可选择）
+    Object.values(recurringDates).flat().forEach(dateString => {
+      if (!marks[dateString]) {
+        marks[dateString] = {
+          marked: true,
+          dotColor: theme.texts.link,
+        };
+      }
+    });
     
     return marks;
-  }, [datesWithIdeas, currentDateString, theme]);
+  }, [datesWithIdeas, recurringDates, currentDateString, theme]);
 
   // 处理日期点击
   const onDayPress = useCallback((day: DateData) => {
@@ -176,8 +217,13 @@ const SwipeableCalendar: React.FC<SwipeableCalendarProps> = ({
       return; // 不允许选择未来日期
     }
     
+    if (dayPressAction === 'journal' && onJournalSelect) {
+      onJournalSelect(selectedDate);
+      return;
+    }
+
     onDateSelect(day.dateString);
-  }, [onDateSelect]);
+  }, [onDateSelect, onJournalSelect, dayPressAction]);
 
   if (!visible) {
     return null;
@@ -241,6 +287,31 @@ const SwipeableCalendar: React.FC<SwipeableCalendarProps> = ({
           ]}>
             {t('calendar.title')}
           </Text>
+
+          {onJournalSelect && (
+            <View style={[
+              styles.actionToggle,
+              { backgroundColor: theme.backgrounds.tertiary }
+            ]}>
+              {(['ideas', 'journal'] as DayPressAction[]).map(action => (
+                <TouchableOpacity
+                  key={action}
+                  style={[
+                    styles.actionOption,
+                    dayPressAction === action && { backgroundColor: theme.buttons.primary }
+                  ]}
+                  onPress={() => setDayPressAction(action)}
+                >
+                  <Text style={[
+                    styles.actionOptionText,
+                    { color: dayPressAction === action ? theme.buttons.primaryText : theme.texts.secondary }
+                  ]}>
+                    {action === 'journal' ? `📓 ${t('journal.open')}` : t('journal.showIdeas')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
           
           <Calendar
             current={currentDateString}
@@ -255,6 +326,7 @@ const SwipeableCalendar: React.FC<SwipeableCalendarProps> = ({
             hideExtraDays={false}
             style={styles.calendar}
           />
+
           
           <TouchableOpacity 
             style={[
@@ -316,6 +388,23 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginBottom: 20,
   },
+  actionToggle: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    padding: 3,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  actionOption: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  actionOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   closeButton: {
     borderRadius: 10,
     paddingVertical: 12,
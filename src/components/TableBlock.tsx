@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, Alert } from 'react-native';
+import Markdown from 'react-native-markdown-display';
+import Feather from '@react-native-vector-icons/feather';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { SlashBlock, registerSlashCommand } from '../utils/SlashCommands';
+import { BlockType } from '../Types';
+import {
+  HEADER_ROW,
+  TableData,
+  createTable,
+  insertTableColumn,
+  insertTableRow,
+  parseTable,
+  removeTableColumn,
+  removeTableRow,
+  serializeTable,
+  updateTableCell,
+} from '../utils/Table';
+
+// 单元格宽度，列多时横向滚动
+const CELL_WIDTH = 120;
+
+// 新的默认大小的表格block
+export const createTableBlock = (): SlashBlock => ({
+  type: BlockType.TABLE,
+  content: serializeTable(createTable()),
+});
+
+registerSlashCommand({
+  id: 'table',
+  titleKey: 'slash.table',
+  icon: 'grid',
+  keywords: ['grid', '表格'],
+  run: context => context.insertBlock(createTableBlock()),
+});
+
+interface TableBlockProps {
+  content: string;
+  isActive: boolean;
+  onChange: (content: string) => void;
+  onActivate: () => void; // 点击表格进入编辑
+  onDone: () => void; // 点击完成回到只读视图
+  onDelete: () => void;
+}
+
+interface CellPosition {
+  row: number; // HEADER_ROW表示表头
+  column: number;
+}
+
+export const TableBlock: React.FC<TableBlockProps> = ({
+  content,
+  isActive,
+  onChange,
+  onActivate,
+  onDone,
+  onDelete,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const [focusedCell, setFocusedCell] = useState<CellPosition>({ row: HEADER_ROW, column: 0 });
+  const table = parseTable(content);
+
+  // 行列增删后焦点单元格可能已不存在，按当前表格收敛
+  const current: CellPosition = {
+    row: Math.min(focusedCell.row, table.rows.length - 1),
+    column: Math.min(focusedCell.column, table.columns.length - 1),
+  };
+
+  const update = (data: TableData) => {
+    onChange(serializeTable(data));
+  };
+
+  const handleDelete = () => {
+    Alert.alert(t('table.delete'), t('table.deleteConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('common.delete'), style: 'destructive', onPress: onDelete },
+    ]);
+  };
+
+  const markdownStyles = {
+    body: { fontSize: 14, lineHeight: 20, color: theme.texts.primary },
+    paragraph: { marginTop: 0, marginBottom: 0 },
+    strong: { fontWeight: 'bold' as const, color: theme.texts.primary },
+    em: { fontStyle: 'italic' as const, color: theme.texts.primary },
+    link: { color: theme.texts.link },
+  };
+  const headerMarkdownStyles = {
+    ...markdownStyles,
+    body: { ...markdownStyles.body, fontWeight: 'bold' as const },
+  };
+
+  const renderActionButton = (icon: 'plus' | 'minus' | 'check' | 'trash-2', label: string, onPress: () => void, disabled = false) => (
+    <TouchableOpacity
+      style={[styles.actionButton, { borderColor: theme.borders.secondary, opacity: disabled ? 0.4 : 1 }]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Feather name={icon} size={12} color={theme.texts.secondary} />
+      <Text style={[styles.actionText, { color: theme.texts.secondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRow = (cells: string[], row: number) => (
+    <View key={row} style={styles.row}>
+      {cells.map((cell, column) => {
+        const isHeader = row === HEADER_ROW;
+        const isFocused = isActive && current.row === row && current.column === column;
+        return (
+          <View
+            key={column}
+            style={[styles.cell, {
+              borderColor: isFocused ? theme.buttons.primary : theme.borders.primary,
+              backgroundColor: isHeader ? theme.backgrounds.secondary : 'transparent',
+            }]}
+          >
+            {isActive ? (
+              <TextInput
+                value={cell}
+                onChangeText={text => update(updateTableCell(table, row, column, text))}
+                onFocus={() => setFocusedCell({ row, column })}
+                placeholder={t('table.cellPlaceholder')}
+                placeholderTextColor={theme.texts.tertiary}
+                selectionColor={theme.buttons.primary}
+                cursorColor={theme.buttons.primary}
+                style={[styles.cellInput, { color: theme.texts.primary }, isHeader && styles.headerText]}
+              />
+            ) : (
+              <Markdown style={isHeader ? headerMarkdownStyles : markdownStyles}>{cell}</Markdown>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const grid = (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="always">
+      <View>
+        {renderRow(table.columns, HEADER_ROW)}
+        {table.rows.map((cells, row) => renderRow(cells, row))}
+      </View>
+    </ScrollView>
+  );
+
+  if (!isActive) {
+    return (
+      <TouchableOpacity activeOpacity={0.8} style={styles.container} onPress={onActivate}>
+        {grid}
+      </TouchableOpacity>
+    );
+  }
+
+  // 行列操作作用于当前聚焦的单元格：在其后插入、删除其所在行/列
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="always"
+        contentContainerStyle={styles.actionRow}
+      >
+        {renderActionButton('plus', t('table.addRow'), () => update(insertTableRow(table, current.row + 1)))}
+        {renderActionButton('plus', t('table.addColumn'), () => update(insertTableColumn(table, current.column + 1)))}
+        {renderActionButton('minus', t('table.deleteRow'), () => update(removeTableRow(table, current.row)), current.row === HEADER_ROW)}
+        {renderActionButton('minus', t('table.deleteColumn'), () => update(removeTableColumn(table, current.column)), table.columns.length <= 1)}
+        {renderActionButton('trash-2', t('table.delete'), handleDelete)}
+        {renderActionButton('check', t('table.done'), onDone)}
+      </ScrollView>
+      {grid}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginVertical: 4,
+  },
+  actionRow: {
+    paddingBottom: 6,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginRight: 6,
+  },
+  actionText: {
+    fontSize: 12,
+    marginLeft: 3,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  cell: {
+    width: CELL_WIDTH,
+    minHeight: 34,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 6,
+    paddingVertical: 6,
+    justifyContent: 'center',
+  },
+  cellInput: {
+    fontSize: 14,
+    lineHeight: 20,
+    padding: 0,
+  },
+  headerText: {
+    fontWeight: 'bold',
+  },
+});
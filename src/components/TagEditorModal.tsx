@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Pressable,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { ideaDB } from '../utils/IdeaDatabase';
+import { normalizeTagName } from '../utils/TagUtils';
+import { TagRecord } from '../Types';
+
+interface TagEditorModalProps {
+  visible: boolean;
+  ideaId: number | null;
+  onClose: () => void;
+  onTagsChange?: (ideaId: number, tags: TagRecord[]) => void; // 标签变化后通知父组件刷新
+}
+
+export const TagEditorModal: React.FC<TagEditorModalProps> = ({
+  visible,
+  ideaId,
+  onClose,
+  onTagsChange,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const [allTags, setAllTags] = useState<TagRecord[]>([]);
+  const [ideaTags, setIdeaTags] = useState<TagRecord[]>([]);
+  const [newTagName, setNewTagName] = useState('');
+
+  const loadTags = useCallback(async () => {
+    if (!ideaId) {
+      return;
+    }
+    try {
+      const [tags, selected] = await Promise.all([
+        ideaDB.getAllTags(),
+        ideaDB.getTagsByIdeaId(ideaId),
+      ]);
+      setAllTags(tags);
+      setIdeaTags(selected);
+    } catch (error) {
+      console.error('❌ Failed to load tags:', error);
+    }
+  }, [ideaId]);
+
+  useEffect(() => {
+    if (visible) {
+      setNewTagName('');
+      loadTags();
+    }
+  }, [visible, loadTags]);
+
+  // 标签变化后重新加载并通知父组件
+  const refreshAfterChange = async () => {
+    if (!ideaId) {
+      return;
+    }
+    const [tags, selected] = await Promise.all([
+      ideaDB.getAllTags(),
+      ideaDB.getTagsByIdeaId(ideaId),
+    ]);
+    setAllTags(tags);
+    setIdeaTags(selected);
+    onTagsChange?.(ideaId, selected);
+  };
+
+  // 切换idea与标签的关联
+  const toggleTag = async (tag: TagRecord) => {
+    if (!ideaId) {
+      return;
+    }
+    try {
+      if (ideaTags.some(selected => selected.id === tag.id)) {
+        await ideaDB.removeTagFromIdea(ideaId, tag.id);
+      } else {
+        await ideaDB.addTagToIdea(ideaId, tag.id);
+      }
+      await refreshAfterChange();
+    } catch (error) {
+      console.error('❌ Failed to toggle tag:', error);
+      Alert.alert(t('common.error'), t('errors.cannotUpdateTags'));
+    }
+  };
+
+  // 新建标签并关联到当前idea
+  const handleCreateTag = async () => {
+    if (!ideaId || !normalizeTagName(newTagName)) {
+      return;
+    }
+    try {
+      const tag = await ideaDB.getOrCreateTag(newTagName);
+      await ideaDB.addTagToIdea(ideaId, tag.id);
+      setNewTagName('');
+      await refreshAfterChange();
+    } catch (error) {
+      console.error('❌ Failed to create tag:', error);
+      Alert.alert(t('common.error'), t('errors.cannotUpdateTags'));
+    }
+  };
+
+  // 长按标签：全局删除该标签
+  const handleDeleteTag = (tag: TagRecord) => {
+    Alert.alert(
+      t('tags.deleteTitle'),
+      t('tags.deleteMessage', { name: tag.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ideaDB.deleteTag(tag.id);
+              await refreshAfterChange();
+            } catch (error) {
+              console.error('❌ Failed to delete tag:', error);
+              Alert.alert(t('common.error'), t('errors.cannotUpdateTags'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: theme.backgrounds.modal }]}
+        onPress={onClose}
+      >
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.backgrounds.primary }]}
+          onPress={() => {}} // 阻止事件冒泡
+        >
+          <Text style={[styles.modalTitle, { color: theme.texts.primary }]}>
+            {t('tags.title')}
+          </Text>
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[
+                styles.tagInput,
+                {
+                  backgroundColor: theme.backgrounds.secondary,
+                  borderColor: theme.borders.input,
+                  color: theme.texts.primary,
+                }
+              ]}
+              value={newTagName}
+              onChangeText={setNewTagName}
+              placeholder={t('tags.newTagPlaceholder')}
+              placeholderTextColor={theme.texts.tertiary}
+              returnKeyType="done"
+              onSubmitEditing={handleCreateTag}
+              autoCapitalize="none"
+            />
+            <TouchableOpacity
+              style={[styles.addButton, { backgroundColor: theme.buttons.primary }]}
+              onPress={handleCreateTag}
+            >
+              <Text style={[styles.addButtonText, { color: theme.buttons.primaryText }]}>
+                {t('buttons.add')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.tagScroll} contentContainerStyle={styles.tagGrid}>
+            {allTags.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.texts.tertiary }]}>
+                {t('tags.empty')}
+              </Text>
+            )}
+            {allTags.map(tag => {
+              const selected = ideaTags.some(ideaTag => ideaTag.id === tag.id);
+              return (
+                <TouchableOpacity
+                  key={tag.id}
+                  style={[
+                    styles.tagChip,
+                    {
+                      backgroundColor: selected ? theme.buttons.primary : theme.backgrounds.secondary,
+                      borderColor: selected ? theme.buttons.primary : theme.borders.secondary,
+                    }
+                  ]}
+                  onPress={() => toggleTag(tag)}
+                  onLongPress={() => handleDeleteTag(tag)}
+                >
+                  <Text style={[
+                    styles.tagChipText,
+                    { color: selected ? theme.buttons.primaryText : theme.texts.primary }
+                  ]}>
+                    #{tag.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <Text style={[styles.hintText, { color: theme.texts.tertiary }]}>
+            {t('tags.hint')}
+          </Text>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={[styles.closeButtonText, { color: theme.texts.secondary }]}>
+              {t('common.close')}
+            </Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+    maxHeight: '70%',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  tagInput: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  addButton: {
+    height: 40,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  tagScroll: {
+    flexGrow: 0,
+  },
+  tagGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tagChipText: {
+    fontSize: 14,
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  hintText: {
+    fontSize: 12,
+    marginTop: 16,
+  },
+  closeButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+  },
+});
+
+export default TagEditorModal;
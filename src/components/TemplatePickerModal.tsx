@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Pressable,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { useCategories } from '../hooks/useCategories';
+import { ideaDB } from '../utils/IdeaDatabase';
+import { IdeaTemplate } from '../Types';
+
+interface TemplatePickerModalProps {
+  visible: boolean;
+  onSelect: (template: IdeaTemplate) => void;
+  onClose: () => void;
+  title?: string; // 默认为用模板新建想法
+  selectedId?: number | null; // 高亮当前使用的模板
+  onSelectNone?: () => void; // 提供时在列表开头显示"不使用模板"
+  noneLabel?: string;
+}
+
+/**
+ * 选择一个页面模板，长按模板可以删除
+ */
+export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
+  visible,
+  onSelect,
+  onClose,
+  title,
+  selectedId,
+  onSelectNone,
+  noneLabel,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const categories = useCategories();
+  const [templates, setTemplates] = useState<IdeaTemplate[]>([]);
+
+  const loadTemplates = () => {
+    ideaDB.getTemplates()
+      .then(setTemplates)
+      .catch(error => {
+        console.error('❌ Failed to load templates:', error);
+      });
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadTemplates();
+    }
+  }, [visible]);
+
+  const handleDelete = (template: IdeaTemplate) => {
+    Alert.alert(
+      t('templates.deleteTitle'),
+      t('templates.deleteMessage', { name: template.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ideaDB.deleteTemplate(template.id);
+              loadTemplates();
+            } catch (error) {
+              console.error('❌ Failed to delete template:', error);
+              Alert.alert(t('common.error'), t('errors.cannotDeleteTemplate'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // 分配了分类的模板显示分类图标和名称
+  const getCategoryLabel = (template: IdeaTemplate) => {
+    const category = categories.find(item => item.id === template.category_id);
+    return category ? `${category.icon} ${category.name}` : '';
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: theme.backgrounds.modal }]}
+        onPress={onClose}
+      >
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.backgrounds.primary }]}
+          onPress={() => {}} // 阻止事件冒泡
+        >
+          <Text style={[styles.modalTitle, { color: theme.texts.primary }]}>{title ?? t('templates.pickTitle')}</Text>
+          <FlatList
+            data={templates}
+            keyExtractor={template => template.id.toString()}
+            style={styles.list}
+            ListHeaderComponent={onSelectNone && (
+              <TouchableOpacity
+                style={[
+                  styles.templateRow,
+                  { borderBottomColor: theme.borders.separator },
+                  !selectedId && { backgroundColor: theme.special.selected },
+                ]}
+                onPress={onSelectNone}
+              >
+                <Text style={[styles.templateName, { color: theme.texts.secondary }]} numberOfLines={1}>
+                  {noneLabel}
+                </Text>
+              </TouchableOpacity>
+            )}
+            ListEmptyComponent={
+              <Text style={[styles.emptyText, { color: theme.texts.tertiary }]}>{t('templates.empty')}</Text>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[
+                  styles.templateRow,
+                  { borderBottomColor: theme.borders.separator },
+                  item.id === selectedId && { backgroundColor: theme.special.selected },
+                ]}
+                onPress={() => onSelect(item)}
+                onLongPress={() => handleDelete(item)}
+              >
+                <Text style={[styles.templateName, { color: theme.texts.primary }]} numberOfLines={1}>
+                  {item.name}
+                </Text>
+                <Text style={[styles.templateMeta, { color: theme.texts.tertiary }]} numberOfLines={1}>
+                  {getCategoryLabel(item)}
+                </Text>
+              </TouchableOpacity>
+            )}
+          />
+          {templates.length > 0 && (
+            <Text style={[styles.hintText, { color: theme.texts.tertiary }]}>{t('templates.deleteHint')}</Text>
+          )}
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={[styles.cancelText, { color: theme.texts.secondary }]}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+    maxHeight: '70%',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  templateMeta: {
+    fontSize: 12,
+    maxWidth: '40%',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  hintText: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  footer: {
+    alignItems: 'flex-end',
+    marginTop: 12,
+  },
+  cancelText: {
+    fontSize: 15,
+  },
+});
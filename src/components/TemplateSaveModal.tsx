@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Pressable,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useTheme } from '../hooks/useTheme';
+import { useCategories } from '../hooks/useCategories';
+import { TEMPLATE_VARIABLE_NAMES } from '../utils/TemplateRules';
+
+interface TemplateSaveModalProps {
+  visible: boolean;
+  defaultName: string; // 通常为当前想法的标题
+  onSave: (name: string, categoryId: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * 将页面保存为模板：输入模板名称，并可选择自动使用该模板的分类
+ */
+export const TemplateSaveModal: React.FC<TemplateSaveModalProps> = ({
+  visible,
+  defaultName,
+  onSave,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const categories = useCategories().filter(category => !category.archived);
+  const [name, setName] = useState('');
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setName(defaultName);
+    setCategoryId(null);
+  }, [visible, defaultName]);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert(t('common.error'), t('templates.nameRequired'));
+      return;
+    }
+    onSave(name.trim(), categoryId);
+  };
+
+  // 支持的变量，例如 {{date}} {{weekday}}
+  const variableList = TEMPLATE_VARIABLE_NAMES.map(variable => `{{${variable}}}`).join(' ');
+
+  // 分类选项，第一项为不自动使用
+  const options = [
+    { id: null, label: t('templates.noCategory') },
+    ...categories.map(category => ({ id: category.id, label: `${category.icon} ${category.name}` })),
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: theme.backgrounds.modal }]}
+        onPress={onClose}
+      >
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.backgrounds.primary }]}
+          onPress={() => {}} // 阻止事件冒泡
+        >
+          <Text style={[styles.modalTitle, { color: theme.texts.primary }]}>{t('templates.saveTitle')}</Text>
+
+          <Text style={[styles.fieldLabel, { color: theme.texts.secondary }]}>{t('templates.name')}</Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+                color: theme.texts.primary,
+              }
+            ]}
+            value={name}
+            onChangeText={setName}
+            placeholder={t('templates.namePlaceholder')}
+            placeholderTextColor={theme.texts.tertiary}
+            maxLength={40}
+          />
+
+          <Text style={[styles.fieldLabel, { color: theme.texts.secondary }]}>{t('templates.category')}</Text>
+          <View style={styles.optionGrid}>
+            {options.map(option => (
+              <TouchableOpacity
+                key={option.id ?? 'none'}
+                style={[
+                  styles.option,
+                  {
+                    backgroundColor: categoryId === option.id ? theme.special.selected : theme.backgrounds.secondary,
+                    borderColor: categoryId === option.id ? theme.buttons.primary : theme.borders.secondary,
+                  }
+                ]}
+                onPress={() => setCategoryId(option.id)}
+              >
+                <Text style={[styles.optionText, { color: theme.texts.primary }]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={[styles.hintText, { color: theme.texts.tertiary }]}>
+            {t('templates.variablesHint', { variables: variableList })}
+          </Text>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.modalButton} onPress={onClose}>
+              <Text style={[styles.modalButtonText, { color: theme.texts.secondary }]}>
+                {t('common.cancel')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, { backgroundColor: theme.buttons.primary }]}
+              onPress={handleSave}
+            >
+              <Text style={[styles.modalButtonText, { color: theme.buttons.primaryText }]}>
+                {t('templates.save')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginBottom: 6,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+  hintText: {
+    fontSize: 12,
+    marginTop: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+    gap: 12,
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  modalButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
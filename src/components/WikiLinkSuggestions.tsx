@@ -0,0 +1,72 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import Feather from '@react-native-vector-icons/feather';
+import { useTheme } from '../hooks/useTheme';
+import { IdeaRecord } from '../Types';
+
+interface WikiLinkSuggestionsProps {
+  ideas: IdeaRecord[]; // 与正在输入的[[标题匹配的想法
+  onSelect: (idea: IdeaRecord) => void;
+}
+
+/**
+ * 输入[[时显示在键盘工具栏上方的想法标题补全
+ */
+export const WikiLinkSuggestions: React.FC<WikiLinkSuggestionsProps> = ({ ideas, onSelect }) => {
+  const { theme } = useTheme();
+
+  return (
+    <ScrollView
+      horizontal
+      keyboardShouldPersistTaps="always"
+      showsHorizontalScrollIndicator={false}
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.backgrounds.toolbar,
+          borderTopColor: theme.borders.primary,
+        }
+      ]}
+      contentContainerStyle={styles.content}
+    >
+      {ideas.map(idea => (
+        <TouchableOpacity
+          key={idea.id}
+          style={[styles.chip, { backgroundColor: theme.backgrounds.secondary, borderColor: theme.borders.secondary }]}
+          onPress={() => onSelect(idea)}
+        >
+          <Feather name="link" size={12} color={theme.texts.secondary} />
+          <Text style={[styles.chipText, { color: theme.texts.primary }]} numberOfLines={1}>
+            {idea.hint}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    borderTopWidth: 1,
+  },
+  content: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 200,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginRight: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,101 @@
+import { useRef, useState } from 'react';
+import { SharedValue, useSharedValue } from 'react-native-reanimated';
+import { BlockRange, getDropIndex } from '../utils/BlockReorder';
+
+// 还没有测量到高度的block（例如在FlatList可视范围外）按此高度估算
+const DEFAULT_BLOCK_HEIGHT = 40;
+
+// 拖动状态，供各block在UI线程中计算位移动画
+export interface BlockDragState {
+  start: SharedValue<number>; // 被拖动的第一个block的位置，-1表示没有拖动
+  count: SharedValue<number>;
+  target: SharedValue<number>; // 当前放下的位置
+  offsetY: SharedValue<number>; // 手指的拖动距离
+  height: SharedValue<number>; // 被拖动的blocks的总高度
+}
+
+export interface UseBlockDragReturn {
+  dragState: BlockDragState;
+  dragRange: BlockRange | null; // 正在拖动的范围，用于禁用滚动和提升层级
+  setBlockHeight: (blockId: string, height: number) => void;
+  beginDrag: (index: number) => void;
+  updateDrag: (offsetY: number) => void;
+  endDrag: () => void;
+}
+
+/**
+ * Editor中blocks的拖动排序
+ * - getRange：从某个block开始拖动时实际移动的范围（单个block或包含它的连续选区）
+ * - onDrop：松手且位置变化时回调，target为移动后第一个block的位置
+ */
+export const useBlockDrag = (
+  blockIds: string[],
+  getRange: (index: number) => BlockRange,
+  onDrop: (range: BlockRange, target: number) => void,
+): UseBlockDragReturn => {
+  const start = useSharedValue(-1);
+  const count = useSharedValue(0);
+  const target = useSharedValue(-1);
+  const offsetY = useSharedValue(0);
+  const height = useSharedValue(0);
+  const [dragRange, setDragRange] = useState<BlockRange | null>(null);
+
+  const blockHeightsRef = useRef<Map<string, number>>(new Map());
+  // 开始拖动时的快照，拖动过程中不受重新渲染影响
+  const dragRef = useRef<{ range: BlockRange; heights: number[]; target: number } | null>(null);
+
+  const setBlockHeight = (blockId: string, blockHeight: number) => {
+    blockHeightsRef.current.set(blockId, blockHeight);
+  };
+
+  const beginDrag = (index: number) => {
+    const range = getRange(index);
+    const heights = blockIds.map(id => blockHeightsRef.current.get(id) ?? DEFAULT_BLOCK_HEIGHT);
+    dragRef.current = { range, heights, target: range.start };
+
+    count.value = range.count;
+    target.value = range.start;
+    offsetY.value = 0;
+    height.value = heights.slice(range.start, range.start + range.count).reduce((total, value) => total + value, 0);
+    start.value = range.start;
+    setDragRange(range);
+  };
+
+  const updateDrag = (dragOffsetY: number) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+
+    offsetY.value = dragOffsetY;
+    const dropIndex = getDropIndex(drag.heights, drag.range.start, drag.range.count, dragOffsetY);
+    if (dropIndex !== drag.target) {
+      drag.target = dropIndex;
+      target.value = dropIndex;
+    }
+  };
+
+  const endDrag = () => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    dragRef.current = null;
+
+    start.value = -1;
+    offsetY.value = 0;
+    setDragRange(null);
+    if (drag.target !== drag.range.start) {
+      onDrop(drag.range, drag.target);
+    }
+  };
+
+  return {
+    dragState: { start, count, target, offsetY, height },
+    dragRange,
+    setBlockHeight,
+    beginDrag,
+    updateDrag,
+    endDrag,
+  };
+};
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getCategories, subscribeCategories } from '../utils/ContentTypeUtils';
+import { CategoryRecord } from '../Types';
+
+/**
+ * 获取所有分类（包括已归档的），分类修改后自动刷新
+ * 需要只显示可选分类时过滤掉archived
+ */
+export const useCategories = (): CategoryRecord[] =>
+  useSyncExternalStore(subscribeCategories, getCategories);
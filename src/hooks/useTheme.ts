@@ -57,6 +57,16 @@ export interface Theme {
       markedDot: string;
     };
   };
+  code: {
+    background: string;
+    text: string;
+    keyword: string;
+    string: string;
+    comment: string;
+    number: string;
+    function: string;
+    type: string;
+  };
 }
 
 export interface UseThemeReturn {
@@ -9,7 +9,10 @@ const resources = {
         loading: 'Loading...',
         close: 'Close',
         error: 'Error',
-        today: 'Today'
+        today: 'Today',
+        cancel: 'Cancel',
+        save: 'Save',
+        delete: 'Delete'
       },
 
       // Placeholders
@@ -44,6 +47,245 @@ const resources = {
         lightGray: 'Light Gray'
       },
 
+      // Tags
+      tags: {
+        title: 'Tags',
+        newTagPlaceholder: 'New tag',
+        empty: 'No tags yet',
+        hint: 'Tap to toggle, long press to delete. #hashtags in text are tagged automatically.',
+        deleteTitle: 'Delete Tag',
+        deleteMessage: 'Delete tag "{{name}}" from all ideas?'
+      },
+
+      trash: {
+        title: 'Trash',
+        empty: 'Empty',
+        emptyList: 'Trash is empty',
+        untitled: 'Untitled idea',
+        deletedAt: 'Deleted {{time}}',
+        retention: 'Keep for',
+        days: '{{count}} days',
+        deleteForeverTitle: 'Delete Forever',
+        deleteForeverMessage: 'This idea and its content will be permanently deleted and cannot be recovered.',
+        emptyTitle: 'Empty Trash',
+        emptyMessage: 'Permanently delete {{count}} ideas in trash?'
+      },
+
+      history: {
+        title: 'History',
+        empty: 'No history yet',
+        current: 'Current',
+        selectHint: 'Tap one version to see its changes, or two versions to compare them.',
+        kindEdit: 'Edited',
+        kindInitial: 'Original',
+        kindRestore: 'Restored',
+        blockCount: '{{count}} blocks',
+        compareTitle: '{{from}} → {{to}}',
+        firstRevision: 'Earliest version',
+        summary: '{{added}} added, {{removed}} removed, {{modified}} modified',
+        imageBlock: 'Image',
+        audioBlock: 'Recording',
+        emptyBlock: '(empty)',
+        restore: 'Restore',
+        restoreTitle: 'Restore Version',
+        restoreMessage: 'Restore the page to the version from {{time}}? The current content stays in history.'
+      },
+
+      export: {
+        title: 'Export Markdown',
+        day: 'Export this day',
+        month: 'Export this month',
+        share: 'Export',
+        resultCount: '{{count}} results',
+        searchResultsTitle: '{{count}} ideas',
+        nothingToExport: 'No ideas to export'
+      },
+
+      backup: {
+        title: 'Backup & Restore',
+        create: 'Create Backup',
+        hint: 'A backup contains all ideas, page content, tags, history, images and recordings in a single file.',
+        empty: 'No backups yet',
+        restoreTitle: 'Restore Backup',
+        restoreMessage: 'Restore from "{{name}}"? Merge keeps current data and adds missing ideas; Replace discards all current data.',
+        merge: 'Merge',
+        replace: 'Replace',
+        replaceTitle: 'Replace All Data',
+        replaceMessage: 'All current ideas, images and recordings will be replaced by the backup. This cannot be undone.',
+        restoreDoneTitle: 'Restore Complete',
+        replaceDone: 'Restored {{count}} ideas',
+        mergeDone: 'Added {{count}} ideas, skipped {{skipped}} existing ones',
+        deleteTitle: 'Delete Backup',
+        deleteMessage: 'Delete backup "{{name}}"?'
+      },
+
+      import: {
+        title: 'Import Markdown',
+        hint: 'Put folders of .md or .txt files into the app\'s "import" folder. Each file becomes one idea; local images are copied into the app.',
+        import: 'Import',
+        confirmMessage: 'Import all notes in "{{name}}"?',
+        doneTitle: 'Import Complete',
+        done: 'Imported {{count}} ideas',
+        doneWithFailures: 'Imported {{count}} ideas, {{failed}} files failed: {{files}}'
+      },
+
+      classifier: {
+        suggestion: 'Suggested: {{icon}} {{name}} · {{confidence}}% confidence'
+      },
+
+      categories: {
+        title: 'Categories',
+        add: 'New Category',
+        edit: 'Edit Category',
+        name: 'Name',
+        namePlaceholder: 'Category name',
+        icon: 'Icon',
+        keywords: 'Keywords',
+        keywordsPlaceholder: 'Separate keywords with commas',
+        keywordCount: '{{count}} keywords',
+        builtin: 'Built-in',
+        archived: 'Archived',
+        archiveTitle: 'Archive Category',
+        archiveMessage: 'Archive "{{name}}"? It will no longer be suggested or offered when choosing a category. Existing ideas keep it.',
+        archive: 'Archive',
+        save: 'Save',
+        nameRequired: 'Please enter a category name'
+      },
+
+      reminders: {
+        channelName: 'Reminders',
+        body: 'To-do reminder',
+        overdue: 'Overdue · {{time}}',
+        dueSoon: 'Due {{time}}',
+        due: 'Due {{time}}'
+      },
+
+      recurrence: {
+        title: 'Repeat',
+        entry: 'Repeat…',
+        none: 'Does not repeat',
+        daily: 'Every day',
+        weekdays: 'Every weekday',
+        weekly: 'Weekly',
+        monthly: 'Monthly',
+        interval: 'Custom interval',
+        weeklyOn: 'Weekly on {{days}}',
+        everyWeeksOn: 'Every {{count}} weeks on {{days}}',
+        monthlyOn: 'Monthly on day {{day}}',
+        everyMonthsOn: 'Every {{count}} months on day {{day}}',
+        everyDays: 'Every {{count}} days',
+        every: 'Every',
+        weeks: 'week(s)',
+        months: 'month(s)',
+        days: 'days',
+        onDay: 'On day',
+        daySeparator: ', ',
+        hint: 'When completed, the next to-do is created on its date'
+      },
+
+      voice: {
+        transcribing: 'Recognizing...',
+        noSpeech: 'No speech was recognized, please try again',
+        modelTitle: 'Download Speech Model',
+        modelMessage: 'Voice input recognizes speech offline on this device. The speech model (about 140 MB) needs to be downloaded once.',
+        download: 'Download',
+        downloading: 'Downloading model {{progress}}%',
+        keepRecording: 'Keep recording',
+        attachment: 'Voice memo'
+      },
+
+      audio: {
+        record: 'Record',
+        recording: 'Recording {{time}}',
+        loadFailed: 'Cannot play this recording'
+      },
+
+      checklist: {
+        progress: '{{done}}/{{total}}',
+        placeholder: 'To-do'
+      },
+
+      code: {
+        plainText: 'Plain text',
+        placeholder: 'Code'
+      },
+
+      selection: {
+        count: '{{count}} selected',
+        copy: 'Copy',
+        cut: 'Cut',
+        delete: 'Delete',
+        color: 'Color',
+        move: 'Move',
+        moveTitle: 'Move to idea'
+      },
+
+      ideaPicker: {
+        empty: 'No ideas found'
+      },
+
+      links: {
+        linkedFrom: 'Linked from',
+        notFound: 'No other idea is titled "{{title}}"'
+      },
+
+      slash: {
+        heading1: 'Heading 1',
+        heading2: 'Heading 2',
+        heading3: 'Heading 3',
+        bulletList: 'Bulleted list',
+        numberedList: 'Numbered list',
+        taskList: 'Task list',
+        quote: 'Quote',
+        divider: 'Divider',
+        image: 'Image',
+        date: "Today's date",
+        color: 'Text color',
+        link: 'Link to idea',
+        linkTitle: 'Choose an idea to link',
+        code: 'Code block',
+        table: 'Table'
+      },
+
+      templates: {
+        pickTitle: 'New idea from template',
+        empty: 'No templates yet. Save a page as a template from the editor.',
+        deleteHint: 'Long press a template to delete it',
+        deleteTitle: 'Delete Template',
+        deleteMessage: 'Delete template "{{name}}"? Ideas created from it are not affected.',
+        saveTitle: 'Save as Template',
+        name: 'Name',
+        namePlaceholder: 'e.g. Meeting notes',
+        nameRequired: 'Please enter a template name',
+        category: 'Use automatically for new ideas in',
+        noCategory: 'None',
+        variablesHint: 'Images and recordings are not saved. These variables are filled in when the template is used: {{variables}}',
+        save: 'Save',
+        savedTitle: 'Template Saved',
+        savedMessage: 'Saved as template "{{name}}"'
+      },
+
+      journal: {
+        title: 'Journal {{date}}',
+        open: 'Open journal',
+        previous: 'Previous day',
+        next: 'Next day',
+        templateTitle: 'Template for new journals',
+        noTemplate: 'No template',
+        showIdeas: 'Go to date'
+      },
+
+      table: {
+        addRow: 'Row',
+        addColumn: 'Column',
+        deleteRow: 'Row',
+        deleteColumn: 'Column',
+        done: 'Done',
+        delete: 'Delete table',
+        deleteConfirm: 'Delete this table?',
+        cellPlaceholder: 'Cell'
+      },
+
       // Calendar
       calendar: {
         title: '📅 Calendar',
@@ -78,6 +320,28 @@ const resources = {
         cannotUpdateTodo: 'Update TODO status failed',
         cannotUpdateCategory: 'Update category failed',
         cannotCreateIdea: 'Create idea failed',
+        cannotUpdateTags: 'Update tags failed',
+        cannotLoadTrash: 'Load trash failed',
+        cannotRestoreIdea: 'Restore idea failed',
+        cannotDeleteIdea: 'Delete idea failed',
+        cannotLoadHistory: 'Load history failed',
+        cannotRestoreRevision: 'Restore version failed',
+        cannotExport: 'Export failed',
+        cannotCreateBackup: 'Create backup failed',
+        cannotImport: 'Import failed',
+        cannotRestoreBackup: 'Restore backup failed, please check the backup file',
+        cannotLoadCategories: 'Load categories failed',
+        cannotSaveCategory: 'Save category failed',
+        cannotSaveRecurrence: 'Save repeat settings failed',
+        cannotRecord: 'Recording failed, please check the microphone permission',
+        cannotRecognize: 'Speech recognition failed',
+        cannotDownloadModel: 'Download speech model failed, please check the network',
+        cannotSaveAudio: 'Save recording failed',
+        cannotMoveBlocks: 'Move blocks failed',
+        cannotOpenLink: 'Failed to open link',
+        cannotSaveTemplate: 'Failed to save template',
+        cannotDeleteTemplate: 'Failed to delete template',
+        cannotOpenJournal: 'Failed to open journal',
         needCameraPermission: 'Camera roll access permission is required to select images',
         imageSelectionFailedRetry: 'Image selection failed, please try again',
         imageProcessingFailedRetry: 'Image processing failed, please try again',
@@ -93,7 +357,10 @@ const resources = {
         loading: '加载中...',
         close: '关闭',
         error: '错误',
-        today: '今天'
+        today: '今天',
+        cancel: '取消',
+        save: '保存',
+        delete: '删除'
       },
 
       // Placeholders
@@ -128,6 +395,245 @@ const resources = {
         lightGray: '浅灰'
       },
 
+      // Tags
+      tags: {
+        title: '标签',
+        newTagPlaceholder: '新标签',
+        empty: '还没有标签',
+        hint: '点击切换，长按删除。文本中的#标签会被自动识别。',
+        deleteTitle: '删除标签',
+        deleteMessage: '确定从所有想法中删除标签"{{name}}"吗？'
+      },
+
+      trash: {
+        title: '回收站',
+        empty: '清空',
+        emptyList: '回收站是空的',
+        untitled: '未命名想法',
+        deletedAt: '删除于 {{time}}',
+        retention: '保留',
+        days: '{{count}}天',
+        deleteForeverTitle: '永久删除',
+        deleteForeverMessage: '该想法及其内容将被永久删除，无法恢复。',
+        emptyTitle: '清空回收站',
+        emptyMessage: '确定永久删除回收站中的{{count}}个想法吗？'
+      },
+
+      history: {
+        title: '版本历史',
+        empty: '暂无历史版本',
+        current: '当前',
+        selectHint: '选择一个版本查看它的改动，或选择两个版本进行对比。',
+        kindEdit: '编辑',
+        kindInitial: '初始内容',
+        kindRestore: '恢复',
+        blockCount: '{{count}}个块',
+        compareTitle: '{{from}} → {{to}}',
+        firstRevision: '最早的版本',
+        summary: '新增{{added}}，删除{{removed}}，修改{{modified}}',
+        imageBlock: '图片',
+        audioBlock: '录音',
+        emptyBlock: '（空）',
+        restore: '恢复',
+        restoreTitle: '恢复版本',
+        restoreMessage: '确定将页面恢复到{{time}}的版本吗？当前内容会保留在历史中。'
+      },
+
+      export: {
+        title: '导出Markdown',
+        day: '导出当天',
+        month: '导出本月',
+        share: '导出',
+        resultCount: '共{{count}}条结果',
+        searchResultsTitle: '{{count}}条想法',
+        nothingToExport: '没有可导出的想法'
+      },
+
+      backup: {
+        title: '备份与恢复',
+        create: '创建备份',
+        hint: '备份文件包含所有想法、页面内容、标签、版本历史、图片和录音。',
+        empty: '还没有备份',
+        restoreTitle: '恢复备份',
+        restoreMessage: '从"{{name}}"恢复？合并会保留现有数据并添加缺少的想法；替换会丢弃所有现有数据。',
+        merge: '合并',
+        replace: '替换',
+        replaceTitle: '替换全部数据',
+        replaceMessage: '当前所有想法、图片和录音将被备份内容替换，此操作无法撤销。',
+        restoreDoneTitle: '恢复完成',
+        replaceDone: '已恢复{{count}}条想法',
+        mergeDone: '新增{{count}}条想法，跳过{{skipped}}条已存在的想法',
+        deleteTitle: '删除备份',
+        deleteMessage: '确定删除备份"{{name}}"吗？'
+      },
+
+      import: {
+        title: '从Markdown导入',
+        hint: '将包含.md或.txt文件的文件夹放入应用的import目录。每个文件导入为一条想法，本地图片会被复制到应用中。',
+        import: '导入',
+        confirmMessage: '导入"{{name}}"中的所有笔记？',
+        doneTitle: '导入完成',
+        done: '已导入{{count}}条想法',
+        doneWithFailures: '已导入{{count}}条想法，{{failed}}个文件失败：{{files}}'
+      },
+
+      classifier: {
+        suggestion: '自动识别：{{icon}} {{name}} · 置信度{{confidence}}%'
+      },
+
+      categories: {
+        title: '分类设置',
+        add: '新建分类',
+        edit: '编辑分类',
+        name: '名称',
+        namePlaceholder: '分类名称',
+        icon: '图标',
+        keywords: '关键词',
+        keywordsPlaceholder: '多个关键词用逗号分隔',
+        keywordCount: '{{count}}个关键词',
+        builtin: '内置',
+        archived: '已归档',
+        archiveTitle: '归档分类',
+        archiveMessage: '归档"{{name}}"？归档后不再自动识别为该分类，也不会出现在分类选择中，已有记录保持不变。',
+        archive: '归档',
+        save: '保存',
+        nameRequired: '请输入分类名称'
+      },
+
+      reminders: {
+        channelName: '提醒',
+        body: '待办提醒',
+        overdue: '已逾期 · {{time}}',
+        dueSoon: '即将到期 · {{time}}',
+        due: '截止 {{time}}'
+      },
+
+      recurrence: {
+        title: '重复',
+        entry: '重复…',
+        none: '不重复',
+        daily: '每天',
+        weekdays: '每个工作日',
+        weekly: '每周',
+        monthly: '每月',
+        interval: '自定义间隔',
+        weeklyOn: '每周{{days}}',
+        everyWeeksOn: '每{{count}}周的周{{days}}',
+        monthlyOn: '每月{{day}}号',
+        everyMonthsOn: '每{{count}}个月的{{day}}号',
+        everyDays: '每{{count}}天',
+        every: '每',
+        weeks: '周',
+        months: '个月',
+        days: '天',
+        onDay: '日期',
+        daySeparator: '、',
+        hint: '完成后会在下一次的日期自动生成新的待办'
+      },
+
+      voice: {
+        transcribing: '识别中...',
+        noSpeech: '没有识别到语音，请重试',
+        modelTitle: '下载语音识别模型',
+        modelMessage: '语音输入在设备上离线识别，首次使用需要下载语音识别模型（约140MB）。',
+        download: '下载',
+        downloading: '正在下载模型 {{progress}}%',
+        keepRecording: '保留录音',
+        attachment: '语音备忘'
+      },
+
+      audio: {
+        record: '录音',
+        recording: '录音中 {{time}}',
+        loadFailed: '无法播放该录音'
+      },
+
+      checklist: {
+        progress: '{{done}}/{{total}}',
+        placeholder: '待办项'
+      },
+
+      code: {
+        plainText: '纯文本',
+        placeholder: '代码'
+      },
+
+      selection: {
+        count: '已选{{count}}项',
+        copy: '复制',
+        cut: '剪切',
+        delete: '删除',
+        color: '颜色',
+        move: '移动',
+        moveTitle: '移动到想法'
+      },
+
+      ideaPicker: {
+        empty: '没有找到想法'
+      },
+
+      links: {
+        linkedFrom: '链接到此处',
+        notFound: '没有标题为"{{title}}"的其他想法'
+      },
+
+      slash: {
+        heading1: '一级标题',
+        heading2: '二级标题',
+        heading3: '三级标题',
+        bulletList: '无序列表',
+        numberedList: '有序列表',
+        taskList: '待办清单',
+        quote: '引用',
+        divider: '分隔线',
+        image: '图片',
+        date: '今天的日期',
+        color: '文字颜色',
+        link: '链接到想法',
+        linkTitle: '选择要链接的想法',
+        code: '代码块',
+        table: '表格'
+      },
+
+      templates: {
+        pickTitle: '用模板新建想法',
+        empty: '还没有模板，可以在编辑页面将页面保存为模板',
+        deleteHint: '长按模板可删除',
+        deleteTitle: '删除模板',
+        deleteMessage: '确定删除模板"{{name}}"吗？已用它创建的想法不受影响。',
+        saveTitle: '保存为模板',
+        name: '名称',
+        namePlaceholder: '例如：会议记录',
+        nameRequired: '请输入模板名称',
+        category: '自动用于以下分类的新想法',
+        noCategory: '不自动使用',
+        variablesHint: '图片和录音不会保存到模板。使用模板时会填入这些变量：{{variables}}',
+        save: '保存',
+        savedTitle: '模板已保存',
+        savedMessage: '已保存为模板"{{name}}"'
+      },
+
+      journal: {
+        title: '日记 {{date}}',
+        open: '打开日记',
+        previous: '前一天',
+        next: '后一天',
+        templateTitle: '新日记使用的模板',
+        noTemplate: '不使用模板',
+        showIdeas: '跳转到日期'
+      },
+
+      table: {
+        addRow: '行',
+        addColumn: '列',
+        deleteRow: '行',
+        deleteColumn: '列',
+        done: '完成',
+        delete: '删除表格',
+        deleteConfirm: '确定删除这个表格吗？',
+        cellPlaceholder: '单元格'
+      },
+
       // Calendar
       calendar: {
         title: '📅 日历',
@@ -162,6 +668,28 @@ const resources = {
         cannotUpdateTodo: '更新待办状态失败',
         cannotUpdateCategory: '更新分类失败',
         cannotCreateIdea: '创建想法失败',
+        cannotUpdateTags: '更新标签失败',
+        cannotLoadTrash: '加载回收站失败',
+        cannotRestoreIdea: '恢复想法失败',
+        cannotDeleteIdea: '删除想法失败',
+        cannotLoadHistory: '加载版本历史失败',
+        cannotRestoreRevision: '恢复版本失败',
+        cannotExport: '导出失败',
+        cannotCreateBackup: '创建备份失败',
+        cannotImport: '导入失败',
+        cannotRestoreBackup: '恢复备份失败，请检查备份文件',
+        cannotLoadCategories: '加载分类失败',
+        cannotSaveCategory: '保存分类失败',
+        cannotSaveRecurrence: '保存重复设置失败',
+        cannotRecord: '录音失败，请检查麦克风权限',
+        cannotRecognize: '语音识别失败',
+        cannotDownloadModel: '下载语音识别模型失败，请检查网络',
+        cannotSaveAudio: '保存录音失败',
+        cannotMoveBlocks: '移动失败',
+        cannotOpenLink: '打开链接失败',
+        cannotSaveTemplate: '保存模板失败',
+        cannotDeleteTemplate: '删除模板失败',
+        cannotOpenJournal: '打开日记失败',
         needCameraPermission: '需要相册访问权限才能选择图片',
         imageSelectionFailedRetry: '图片选择失败，请重试',
         imageProcessingFailedRetry: '图片处理失败，请重试',
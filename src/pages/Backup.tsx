@@ -0,0 +1,429 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  Share,
+  ActivityIndicator,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Feather from '@react-native-vector-icons/feather';
+import { useTheme } from '../hooks/useTheme';
+import {
+  BackupFileInfo,
+  RestoreMode,
+  createBackup,
+  deleteBackup,
+  listBackups,
+  restoreBackup,
+} from '../utils/BackupManager';
+import { importMarkdownFolder, listImportFolders } from '../utils/MarkdownImport';
+import { NavigationProps } from '../Types';
+
+type BackupProps = NavigationProps<'Backup'>;
+
+// 格式化文件大小
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export default function Backup({ navigation }: BackupProps) {
+  const { t, i18n } = useTranslation();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [backups, setBackups] = useState<BackupFileInfo[]>([]);
+  const [importFolders, setImportFolders] = useState<{ name: string; path: string }[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const locale = i18n.language === 'zh' ? 'zh-CN' : 'en-US';
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      console.error('❌ Failed to list backups:', error);
+    }
+  }, []);
+
+  const loadImportFolders = useCallback(async () => {
+    try {
+      setImportFolders(await listImportFolders());
+    } catch (error) {
+      console.error('❌ Failed to list import folders:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+    loadImportFolders();
+  }, [loadBackups, loadImportFolders]);
+
+  // 创建备份
+  const handleCreateBackup = async () => {
+    setIsWorking(true);
+    try {
+      await createBackup();
+      await loadBackups();
+    } catch (error) {
+      console.error('❌ Failed to create backup:', error);
+      Alert.alert(t('common.error'), t('errors.cannotCreateBackup'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runRestore = async (backup: BackupFileInfo, mode: RestoreMode) => {
+    setIsWorking(true);
+    try {
+      const result = await restoreBackup(backup.path, mode);
+      Alert.alert(
+        t('backup.restoreDoneTitle'),
+        mode === 'replace'
+          ? t('backup.replaceDone', { count: result.ideas })
+          : t('backup.mergeDone', { count: result.ideas, skipped: result.skipped })
+      );
+    } catch (error) {
+      console.error('❌ Failed to restore backup:', error);
+      Alert.alert(t('common.error'), t('errors.cannotRestoreBackup'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // 恢复备份：选择合并或替换
+  const handleRestore = (backup: BackupFileInfo) => {
+    Alert.alert(
+      t('backup.restoreTitle'),
+      t('backup.restoreMessage', { name: backup.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('backup.merge'), onPress: () => runRestore(backup, 'merge') },
+        {
+          text: t('backup.replace'),
+          style: 'destructive',
+          onPress: () => {
+            Alert.alert(
+              t('backup.replaceTitle'),
+              t('backup.replaceMessage'),
+              [
+                { text: t('common.cancel'), style: 'cancel' },
+                { text: t('backup.replace'), style: 'destructive', onPress: () => runRestore(backup, 'replace') },
+              ]
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = (backup: BackupFileInfo) => {
+    Alert.alert(
+      t('backup.deleteTitle'),
+      t('backup.deleteMessage', { name: backup.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteBackup(backup.path);
+              await loadBackups();
+            } catch (error) {
+              console.error('❌ Failed to delete backup:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // 导入文件夹中的markdown/纯文本文件
+  const handleImport = (folder: { name: string; path: string }) => {
+    Alert.alert(
+      t('import.title'),
+      t('import.confirmMessage', { name: folder.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('import.import'),
+          onPress: async () => {
+            setIsWorking(true);
+            try {
+              const result = await importMarkdownFolder(folder.path);
+              Alert.alert(
+                t('import.doneTitle'),
+                result.failed.length > 0
+                  ? t('import.doneWithFailures', {
+                    count: result.imported,
+                    failed: result.failed.length,
+                    files: result.failed.map(item => item.file).join(', '),
+                  })
+                  : t('import.done', { count: result.imported })
+              );
+            } catch (error) {
+              console.error('❌ Failed to import folder:', error);
+              Alert.alert(t('common.error'), t('errors.cannotImport'));
+            } finally {
+              setIsWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Android的Share只支持文本，备份文件仅在iOS上通过分享面板导出
+  const handleShare = async (backup: BackupFileInfo) => {
+    try {
+      await Share.share({ url: `file://${backup.path}`, title: backup.name });
+    } catch (error) {
+      console.error('❌ Failed to share backup:', error);
+    }
+  };
+
+  const renderItem = ({ item }: { item: BackupFileInfo }) => (
+    <View style={[
+      styles.itemContainer,
+      {
+        backgroundColor: theme.backgrounds.secondary,
+        borderColor: theme.borders.secondary,
+      }
+    ]}>
+      <View style={styles.itemContent}>
+        <Text style={[styles.itemName, { color: theme.texts.primary }]} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text style={[styles.itemMeta, { color: theme.texts.tertiary }]}>
+          {item.modifiedAt ? `${item.modifiedAt.toLocaleString(locale)} · ` : ''}{formatSize(item.size)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+        onPress={() => handleRestore(item)}
+        disabled={isWorking}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Feather name="rotate-ccw" size={16} color={theme.buttons.primary} />
+      </TouchableOpacity>
+      {Platform.OS === 'ios' && (
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+          onPress={() => handleShare(item)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Feather name="share" size={16} color={theme.texts.secondary} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+        onPress={() => handleDelete(item)}
+        disabled={isWorking}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Feather name="trash-2" size={16} color={theme.buttons.danger} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgrounds.primary }]}>
+      {/* 头部 */}
+      <View style={[
+        styles.header,
+        {
+          backgroundColor: theme.backgrounds.primary,
+          borderBottomColor: theme.borders.primary,
+          paddingTop: insets.top + 20,
+        }
+      ]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Feather name="chevron-left" size={24} color={theme.texts.secondary} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.texts.primary }]}>
+          {t('backup.title')}
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <View style={styles.createSection}>
+        <TouchableOpacity
+          style={[
+            styles.createButton,
+            { backgroundColor: isWorking ? theme.buttons.disabled : theme.buttons.primary }
+          ]}
+          onPress={handleCreateBackup}
+          disabled={isWorking}
+        >
+          {isWorking ? (
+            <ActivityIndicator color={theme.buttons.primaryText} />
+          ) : (
+            <Text style={[styles.createButtonText, { color: theme.buttons.primaryText }]}>
+              {t('backup.create')}
+            </Text>
+          )}
+        </TouchableOpacity>
+        <Text style={[styles.hintText, { color: theme.texts.tertiary }]}>
+          {t('backup.hint')}
+        </Text>
+      </View>
+
+      <FlatList
+        data={backups}
+        renderItem={renderItem}
+        keyExtractor={item => item.path}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+        ListEmptyComponent={
+          <View style={styles.centerContainer}>
+            <Text style={[styles.placeholderText, { color: theme.texts.tertiary }]}>
+              {t('backup.empty')}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          <View style={styles.importSection}>
+            <Text style={[styles.sectionTitle, { color: theme.texts.primary }]}>
+              {t('import.title')}
+            </Text>
+            <Text style={[styles.hintText, { color: theme.texts.tertiary }]}>
+              {t('import.hint')}
+            </Text>
+            {importFolders.map(folder => (
+              <TouchableOpacity
+                key={folder.path}
+                style={[
+                  styles.itemContainer,
+                  styles.importFolderItem,
+                  {
+                    backgroundColor: theme.backgrounds.secondary,
+                    borderColor: theme.borders.secondary,
+                  }
+                ]}
+                onPress={() => handleImport(folder)}
+                disabled={isWorking}
+              >
+                <Feather name="folder" size={18} color={theme.texts.secondary} />
+                <Text style={[styles.itemName, styles.importFolderName, { color: theme.texts.primary }]} numberOfLines={1}>
+                  {folder.name}
+                </Text>
+                <Feather name="download" size={16} color={theme.buttons.primary} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  createSection: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+  },
+  createButton: {
+    height: 48,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  createButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  listContent: {
+    padding: 24,
+    flexGrow: 1,
+  },
+  itemContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 15,
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  importSection: {
+    marginTop: 32,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  importFolderItem: {
+    marginTop: 12,
+  },
+  importFolderName: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  placeholderText: {
+    fontSize: 16,
+  },
+});
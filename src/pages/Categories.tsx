@@ -0,0 +1,459 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  Modal,
+  Pressable,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Feather from '@react-native-vector-icons/feather';
+import { useTheme } from '../hooks/useTheme';
+import { useCategories } from '../hooks/useCategories';
+import { ideaDB } from '../utils/IdeaDatabase';
+import { DEFAULT_CATEGORY_ID, loadCategories } from '../utils/ContentTypeUtils';
+import { CATEGORY_ICON_OPTIONS } from '../utils/config';
+import { CategoryRecord, NavigationProps } from '../Types';
+
+type CategoriesProps = NavigationProps<'Categories'>;
+
+// 编辑中的分类：id为null表示新建
+interface CategoryDraft {
+  id: string | null;
+  name: string;
+  icon: string;
+  keywords: string;
+}
+
+// 将输入的关键词文本拆分为列表（支持中英文逗号和换行）
+const parseKeywords = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,，、\n]/).map(keyword => keyword.trim()).filter(Boolean)));
+
+export default function Categories({ navigation }: CategoriesProps) {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const categories = useCategories();
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+
+  const activeCategories = categories.filter(category => !category.archived);
+  const archivedCategories = categories.filter(category => category.archived);
+
+  // 修改数据库后重新加载分类，所有使用分类的页面随之刷新
+  const runAndReload = async (operation: () => Promise<void>) => {
+    try {
+      await operation();
+      await loadCategories();
+    } catch (error) {
+      console.error('❌ Failed to update categories:', error);
+      Alert.alert(t('common.error'), t('errors.cannotSaveCategory'));
+    }
+  };
+
+  const openEditor = (category?: CategoryRecord) => {
+    setDraft(category
+      ? { id: category.id, name: category.name, icon: category.icon, keywords: category.keywords.join(', ') }
+      : { id: null, name: '', icon: CATEGORY_ICON_OPTIONS[0], keywords: '' });
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    if (!draft.name.trim()) {
+      Alert.alert(t('common.error'), t('categories.nameRequired'));
+      return;
+    }
+
+    const keywords = parseKeywords(draft.keywords);
+    await runAndReload(async () => {
+      if (draft.id) {
+        await ideaDB.updateCategory(draft.id, { name: draft.name, icon: draft.icon, keywords });
+      } else {
+        await ideaDB.addCategory({ name: draft.name, icon: draft.icon, keywords });
+      }
+    });
+    setDraft(null);
+  };
+
+  // 上移或下移一个未归档的分类，已归档的分类保持在最后
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= activeCategories.length) {
+      return;
+    }
+
+    const ordered = [...activeCategories];
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    runAndReload(() =>
+      ideaDB.reorderCategories([...ordered, ...archivedCategories].map(category => category.id))
+    );
+  };
+
+  const handleArchive = (category: CategoryRecord) => {
+    Alert.alert(
+      t('categories.archiveTitle'),
+      t('categories.archiveMessage', { name: category.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('categories.archive'),
+          style: 'destructive',
+          onPress: () => runAndReload(() => ideaDB.updateCategory(category.id, { archived: true })),
+        },
+      ]
+    );
+  };
+
+  const handleUnarchive = (category: CategoryRecord) => {
+    runAndReload(() => ideaDB.updateCategory(category.id, { archived: false }));
+  };
+
+  const renderItem = ({ item, index }: { item: CategoryRecord; index: number }) => {
+    const activeIndex = item.archived ? -1 : index;
+    const meta = [
+      item.builtin ? t('categories.builtin') : null,
+      item.archived ? t('categories.archived') : null,
+      t('categories.keywordCount', { count: item.keywords.length }),
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <View style={[
+        styles.itemContainer,
+        {
+          backgroundColor: theme.backgrounds.secondary,
+          borderColor: theme.borders.secondary,
+          opacity: item.archived ? 0.6 : 1,
+        }
+      ]}>
+        <Text style={styles.itemIcon}>{item.icon}</Text>
+        <TouchableOpacity style={styles.itemContent} onPress={() => openEditor(item)}>
+          <Text style={[styles.itemName, { color: theme.texts.primary }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={[styles.itemMeta, { color: theme.texts.tertiary }]}>
+            {meta}
+          </Text>
+        </TouchableOpacity>
+        {!item.archived && (
+          <>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+              onPress={() => handleMove(activeIndex, -1)}
+              disabled={activeIndex === 0}
+              hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+            >
+              <Feather
+                name="chevron-up"
+                size={16}
+                color={activeIndex === 0 ? theme.texts.disabled : theme.texts.secondary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+              onPress={() => handleMove(activeIndex, 1)}
+              disabled={activeIndex === activeCategories.length - 1}
+              hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+            >
+              <Feather
+                name="chevron-down"
+                size={16}
+                color={activeIndex === activeCategories.length - 1 ? theme.texts.disabled : theme.texts.secondary}
+              />
+            </TouchableOpacity>
+          </>
+        )}
+        {/* 默认分类不能归档 */}
+        {item.id !== DEFAULT_CATEGORY_ID && (
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+            onPress={() => (item.archived ? handleUnarchive(item) : handleArchive(item))}
+            hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+          >
+            <Feather
+              name={item.archived ? 'rotate-ccw' : 'archive'}
+              size={16}
+              color={item.archived ? theme.buttons.primary : theme.texts.secondary}
+            />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderEditor = () => (
+    <Modal
+      visible={draft !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setDraft(null)}
+    >
+      <Pressable
+        style={[styles.modalOverlay, { backgroundColor: theme.backgrounds.modal }]}
+        onPress={() => setDraft(null)}
+      >
+        <Pressable
+          style={[styles.modalContent, { backgroundColor: theme.backgrounds.primary }]}
+          onPress={() => {}} // 阻止事件冒泡
+        >
+          <Text style={[styles.modalTitle, { color: theme.texts.primary }]}>
+            {draft?.id ? t('categories.edit') : t('categories.add')}
+          </Text>
+
+          <Text style={[styles.fieldLabel, { color: theme.texts.secondary }]}>
+            {t('categories.name')}
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+                color: theme.texts.primary,
+              }
+            ]}
+            value={draft?.name ?? ''}
+            onChangeText={name => setDraft(prev => (prev ? { ...prev, name } : prev))}
+            placeholder={t('categories.namePlaceholder')}
+            placeholderTextColor={theme.texts.tertiary}
+            maxLength={20}
+          />
+
+          <Text style={[styles.fieldLabel, { color: theme.texts.secondary }]}>
+            {t('categories.icon')}
+          </Text>
+          <View style={styles.iconGrid}>
+            {CATEGORY_ICON_OPTIONS.map(icon => (
+              <TouchableOpacity
+                key={icon}
+                style={[
+                  styles.iconOption,
+                  {
+                    backgroundColor: draft?.icon === icon ? theme.special.selected : theme.backgrounds.secondary,
+                    borderColor: draft?.icon === icon ? theme.buttons.primary : theme.borders.secondary,
+                  }
+                ]}
+                onPress={() => setDraft(prev => (prev ? { ...prev, icon } : prev))}
+              >
+                <Text style={styles.iconOptionText}>{icon}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.texts.secondary }]}>
+            {t('categories.keywords')}
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              styles.keywordsInput,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+                color: theme.texts.primary,
+              }
+            ]}
+            value={draft?.keywords ?? ''}
+            onChangeText={keywords => setDraft(prev => (prev ? { ...prev, keywords } : prev))}
+            placeholder={t('categories.keywordsPlaceholder')}
+            placeholderTextColor={theme.texts.tertiary}
+            autoCapitalize="none"
+            multiline
+          />
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.modalButton} onPress={() => setDraft(null)}>
+              <Text style={[styles.modalButtonText, { color: theme.texts.secondary }]}>
+                {t('common.cancel')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, { backgroundColor: theme.buttons.primary }]}
+              onPress={handleSave}
+            >
+              <Text style={[styles.modalButtonText, { color: theme.buttons.primaryText }]}>
+                {t('categories.save')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgrounds.primary }]}>
+      {/* 头部 */}
+      <View style={[
+        styles.header,
+        {
+          backgroundColor: theme.backgrounds.primary,
+          borderBottomColor: theme.borders.primary,
+          paddingTop: insets.top + 20,
+        }
+      ]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Feather name="chevron-left" size={24} color={theme.texts.secondary} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.texts.primary }]}>
+          {t('categories.title')}
+        </Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => openEditor()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Feather name="plus" size={24} color={theme.buttons.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={[...activeCategories, ...archivedCategories]}
+        renderItem={renderItem}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.listContent}
+        ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+      />
+
+      {renderEditor()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 24,
+  },
+  itemContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  itemIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxWidth: 360,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginBottom: 6,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  keywordsInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  iconGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconOptionText: {
+    fontSize: 20,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+    gap: 12,
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  modalButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
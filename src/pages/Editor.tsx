@@ -1,25 +1,57 @@
-import { Block, BlockType, NavigationProps, RootStackParamList, BlockRecord } from "../Types";
-import { useState, useEffect, useRef } from "react";
+import { Block, BlockType, NavigationProps, RootStackParamList, BlockRecord, IdeaRecord } from "../Types";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { FlatList, StyleSheet, Text, TouchableWithoutFeedback, View, Dimensions, StatusBar, Platform, TouchableOpacity, KeyboardAvoidingView, Keyboard, Alert, TextInput, Image } from "react-native";
-import Markdown from "react-native-markdown-display";
+import Markdown, { renderRules, RenderRules } from "react-native-markdown-display";
+import Clipboard from '@react-native-clipboard/clipboard';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '../hooks/useTheme';
 import { KeyboardToolbar } from '../components/KeyboardToolbar'
 import { ImageBlock } from '../components/ImageBlock'
+import { AudioBlock } from '../components/AudioBlock'
+import { ChecklistBlock } from '../components/ChecklistBlock'
+import { CodeBlock, createCodeBlock } from '../components/CodeBlock'
+import { TableBlock, createTableBlock } from '../components/TableBlock'
+import { BlockDragContext, DraggableBlock, DraggableCell } from '../components/DraggableBlock'
+import { SelectionToolbar } from '../components/SelectionToolbar'
+import { IdeaPickerModal } from '../components/IdeaPickerModal'
+import { WikiLinkSuggestions } from '../components/WikiLinkSuggestions'
+import { TemplateSaveModal } from '../components/TemplateSaveModal'
+import { useBlockDrag } from '../hooks/useBlockDrag';
+import { BlockRange, moveRange } from '../utils/BlockReorder';
+import { BlockHistory } from '../utils/BlockHistory';
+import { parseChecklist, serializeChecklist, startsWithTaskPrefix } from '../utils/Checklist';
+import { normalizeLanguage } from '../utils/SyntaxHighlighter';
+import { completeWikiLink, getWikiLinkQuery, parseWikiLinkHref, wikiLinksToMarkdown } from '../utils/WikiLinks';
+import { adaptColorForTheme, parseColorHref } from '../utils/ColorSpans';
+import { SlashBlock } from '../utils/SlashCommands';
 import { ideaDB } from '../utils/IdeaDatabase';
+import { openJournal } from '../utils/Journal';
+import { shiftDate } from '../utils/JournalRules';
+import Feather from '@react-native-vector-icons/feather';
+import { blockToMarkdown, exportIdea, shareExport } from '../utils/MarkdownExport';
 import React from "react";
 
 type EditorProps = NavigationProps<'Editor'>;
 
 export default function Editor({ navigation, route }: EditorProps) {
   const { t } = useTranslation();
-  const { theme, getThemedStyle } = useTheme();
-  const { idea } = route.params;
+  const { theme, isDark, getThemedStyle } = useTheme();
+  const markdownRules = useMemo(() => createMarkdownRules(isDark), [isDark]);
+  const { idea, restoredAt } = route.params;
   const [blocks, setBlocks] = useState<Block[]>([]);
   const [originalBlockIds, setOriginalBlockIds] = useState<Set<string>>(new Set()); // 跟踪从数据库加载的原始block IDs
   const [screenHeight, setScreenHeight] = useState(Dimensions.get('window').height);
   const [showKeyboardToolbar, setShowKeyboardToolbar] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  // 通过拖动手柄选中的连续blocks（从anchor到focus）
+  const [selection, setSelection] = useState<{ anchorId: string; focusId: string } | null>(null);
+  const [showMovePicker, setShowMovePicker] = useState(false);
+  // 斜杠命令插入链接时选择想法，记录插入链接的block
+  const [linkPickerBlockId, setLinkPickerBlockId] = useState<string | null>(null);
+  const [showTemplateSave, setShowTemplateSave] = useState(false);
+  // 通过[[标题]]链接到当前想法的其他想法，以及输入[[时补全用的想法列表
+  const [backlinks, setBacklinks] = useState<IdeaRecord[]>([]);
+  const [linkCandidates, setLinkCandidates] = useState<IdeaRecord[]>([]);
   
   // 创建 ref map 来持有所有 TextInput 的 ref
   const textInputRefs = useRef<Map<string, any>>(new Map());
@@ -28,16 +60,116 @@ export default function Editor({ navigation, route }: EditorProps) {
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedBlocksRef = useRef<string>('');
   
+  // 撤销/重做历史：记录blocks的每次变化，historyBaseRef为上一次记录时的blocks
+  const historyRef = useRef(new BlockHistory());
+  const historyBaseRef = useRef<Block[] | null>(null);
+  const skipHistoryRef = useRef(false); // 撤销/重做引起的变化不再记录
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  
   // 使用ref保存最新的blocks和originalBlockIds，确保卸载时能访问到最新状态
   const currentBlocksRef = useRef<Block[]>([]);
   const currentOriginalBlockIdsRef = useRef<Set<string>>(new Set());
 
+  // 从数据库加载blocks
+  const loadBlocks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const blockRecords = await ideaDB.getBlocksByIdeaId(idea.id);
+      
+      if (blockRecords.length === 0) {
+        // 如果没有数据，创建一个空的paragraph block
+        const defaultBlocks = [{
+          id: Date.now().toString(),
+          type: BlockType.MARKDOWN,
+          content: '',
+          isActive: true,
+          cursorPosition: 0,
+          isDirty: false,
+        }];
+        setBlocks(defaultBlocks);
+        setOriginalBlockIds(new Set());
+        
+        // 初始化快照
+        lastSavedBlocksRef.current = JSON.stringify(defaultBlocks.map(b => ({ id: b.id, content: b.content, isDirty: b.isDirty })));
+      } else {
+        // 转换数据库记录为UI Block
+        const uiBlocks: Block[] = blockRecords.map((record, index) => ({
+          id: record.block_id,
+          type: record.type,
+          content: record.content,
+          isActive: false,
+          cursorPosition: 0,
+          isDirty: false,
+          color: record.color,
+          attrs: record.attrs,
+        }));
+        
+        setBlocks(uiBlocks);
+        const originalIds = new Set(blockRecords.map(record => record.block_id));
+        setOriginalBlockIds(originalIds);
+        
+        // 初始化快照
+        lastSavedBlocksRef.current = JSON.stringify(uiBlocks.map(b => ({ id: b.id, content: b.content, isDirty: b.isDirty })));
+
+        // 记录打开时的内容作为初始版本（与最新版本相同时不会重复保存）
+        ideaDB.saveRevision(idea.id, 'initial').catch(error => {
+          console.warn('⚠️ Failed to save initial revision:', error);
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error loading blocks:', error);
+      Alert.alert(t('errors.loadFailed'), t('errors.cannotLoadEditor'));
+      // 创建一个空的block作为备选
+      const fallbackBlocks = [{
+        id: Date.now().toString(),
+        type: BlockType.MARKDOWN,
+        content: '',
+        isActive: true,
+        cursorPosition: 0,
+        isDirty: false,
+      }];
+      setBlocks(fallbackBlocks);
+      lastSavedBlocksRef.current = JSON.stringify(fallbackBlocks.map(b => ({ id: b.id, content: b.content, isDirty: b.isDirty })));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [idea.id, t]);
+
   // 加载数据
   useEffect(() => {
     console.log('idea: ', idea);
     loadBlocks();
   }, [idea.id]);
 
+  // 从版本历史页面恢复后重新加载blocks
+  useEffect(() => {
+    if (!restoredAt) {
+      return;
+    }
+    if (autoSaveTimerRef.current) {
+      clearTimeout(autoSaveTimerRef.current);
+      autoSaveTimerRef.current = null;
+    }
+    loadBlocks();
+  }, [restoredAt, loadBlocks]);
+
+  // 每次回到页面时刷新反向链接和补全列表（在其他页面可能新增了链接或想法）
+  useEffect(() => {
+    return navigation.addListener('focus', () => {
+      ideaDB.getBacklinks(idea.id)
+        .then(setBacklinks)
+        .catch(error => {
+          console.error('❌ Failed to load backlinks:', error);
+        });
+      ideaDB.getAllIdeas()
+        .then(setLinkCandidates)
+        .catch(error => {
+          console.error('❌ Failed to load ideas:', error);
+        });
+    });
+  }, [navigation, idea.id]);
+
   // 页面卸载时清理和保存
   useEffect(() => {
     return () => {
@@ -62,6 +194,23 @@ export default function Editor({ navigation, route }: EditorProps) {
     currentOriginalBlockIdsRef.current = originalBlockIds;
   }, [blocks, originalBlockIds]);
 
+  // 记录撤销历史，加载（包括从版本历史恢复）时清空
+  useEffect(() => {
+    if (isLoading) {
+      historyRef.current.clear();
+      historyBaseRef.current = null;
+    } else {
+      const previous = historyBaseRef.current;
+      historyBaseRef.current = blocks;
+      if (previous && !skipHistoryRef.current) {
+        historyRef.current.record(previous, blocks);
+      }
+      skipHistoryRef.current = false;
+    }
+    setCanUndo(historyRef.current.canUndo);
+    setCanRedo(historyRef.current.canRedo);
+  }, [blocks, isLoading]);
+
   // 智能自动保存逻辑
   useEffect(() => {
     if (isLoading) return;
@@ -123,6 +272,13 @@ export default function Editor({ navigation, route }: EditorProps) {
     }
   }, [blocks]);
 
+  // 开始编辑某个block时取消选中
+  useEffect(() => {
+    if (selection && blocks.some(block => block.isActive)) {
+      setSelection(null);
+    }
+  }, [blocks, selection]);
+
   // 获取 TextInput ref 的辅助函数
   const getTextInputRef = (blockId: string) => {
     return textInputRefs.current.get(blockId);
@@ -289,6 +445,142 @@ export default function Editor({ navigation, route }: EditorProps) {
     }
   };
 
+  // 处理录音完成：当前block为空时替换为录音block，否则插入到当前block之后
+  const handleAudioRecord = (audioUri: string, durationMs: number) => {
+    const audioBlock: Block = {
+      id: Date.now().toString(),
+      type: BlockType.AUDIO,
+      content: audioUri,
+      isActive: false,
+      cursorPosition: 0,
+      isDirty: true,
+      attrs: { durationMs },
+    };
+
+    // 工具栏可能在录音中途卸载，使用函数式更新基于最新的blocks
+    setBlocks(prev => {
+      const activeIndex = prev.findIndex(block => block.isActive);
+      if (activeIndex === -1) {
+        return [...prev, audioBlock];
+      }
+      const newBlocks = [...prev];
+      if (isEmptyBlock(prev[activeIndex])) {
+        newBlocks[activeIndex] = { ...audioBlock, id: prev[activeIndex].id };
+      } else {
+        newBlocks[activeIndex] = { ...newBlocks[activeIndex], isActive: false };
+        newBlocks.splice(activeIndex + 1, 0, audioBlock);
+      }
+      return newBlocks;
+    });
+  };
+
+  // 工具栏清单按钮：文本block转换为清单，清单则拆回每项一个文本block
+  const handleChecklistToggle = () => {
+    const activeBlock = getActiveBlock();
+    if (!activeBlock) {
+      return;
+    }
+
+    if (activeBlock.type === BlockType.MARKDOWN) {
+      // 去掉已有的列表标记，保留文字作为第一项；基于最新的内容，斜杠命令会先清空输入的命令
+      setBlocks(prev => prev.map(block => block.id === activeBlock.id ? {
+        ...block,
+        type: BlockType.CHECKLIST,
+        content: serializeChecklist([{ checked: false, text: block.content.replace(/^\s*(?:[-*+•]|\d+\.)\s+/, '') }]),
+        isDirty: true,
+      } : block));
+      return;
+    }
+
+    if (activeBlock.type === BlockType.CHECKLIST) {
+      const texts = parseChecklist(activeBlock.content).map(item => item.text).filter(text => text.trim() !== '');
+      const baseId = Date.now();
+      const textBlocks: Block[] = (texts.length > 0 ? texts : ['']).map((text, index) => ({
+        id: index === 0 ? activeBlock.id : `${baseId}_${index}`,
+        type: BlockType.MARKDOWN,
+        content: text,
+        isActive: index === 0,
+        cursorPosition: text.length,
+        isDirty: true,
+        color: activeBlock.color,
+      }));
+      setBlocks(prev => {
+        const index = prev.findIndex(block => block.id === activeBlock.id);
+        if (index === -1) {
+          return prev;
+        }
+        const newBlocks = [...prev];
+        newBlocks.splice(index, 1, ...textBlocks);
+        return newBlocks;
+      });
+      setTimeout(() => {
+        focusBlock(activeBlock.id);
+      }, 100);
+    }
+  };
+
+  // 插入新block：当前block为空的文本block时替换它，否则插入到当前block之后
+  const handleInsertBlock = (block: SlashBlock) => {
+    const newBlock: Block = {
+      ...block,
+      id: Date.now().toString(),
+      isActive: true,
+      cursorPosition: 0,
+      isDirty: true,
+    };
+
+    setBlocks(prev => {
+      const activeIndex = prev.findIndex(item => item.isActive);
+      const newBlocks = prev.map(item => ({ ...item, isActive: false }));
+      if (activeIndex !== -1 && isEmptyBlock(prev[activeIndex])) {
+        newBlocks[activeIndex] = { ...newBlock, id: prev[activeIndex].id };
+      } else {
+        newBlocks.splice(activeIndex === -1 ? newBlocks.length : activeIndex + 1, 0, newBlock);
+      }
+      return newBlocks;
+    });
+  };
+
+  // 工具栏代码按钮：空的文本block转换为代码block，否则在当前block后插入代码block
+  const handleInsertCodeBlock = () => {
+    if (getActiveBlock()?.type === BlockType.CODE) {
+      return;
+    }
+    handleInsertBlock(createCodeBlock());
+  };
+
+  // 工具栏表格按钮：空的文本block转换为表格，否则在当前block后插入表格
+  const handleInsertTable = () => {
+    handleInsertBlock(createTableBlock());
+  };
+
+  // 在清单最后一个空项上回车：保存去掉空项后的清单，并在其后新建文本block
+  const handleChecklistExit = (blockId: string, content: string) => {
+    const newBlock: Block = {
+      id: Date.now().toString(),
+      type: BlockType.MARKDOWN,
+      content: '',
+      isActive: true,
+      cursorPosition: 0,
+      isDirty: true,
+    };
+
+    setBlocks(prev => {
+      const index = prev.findIndex(block => block.id === blockId);
+      if (index === -1) {
+        return prev;
+      }
+      const newBlocks = prev.map(block => ({ ...block, isActive: false }));
+      newBlocks[index] = { ...newBlocks[index], content, isDirty: true };
+      newBlocks.splice(index + 1, 0, newBlock);
+      return newBlocks;
+    });
+
+    setTimeout(() => {
+      focusBlock(newBlock.id);
+    }, 100);
+  };
+
   // 立即保存函数 - 用于关键操作
   const saveImmediately = async () => {
     // 清除任何待执行的自动保存
@@ -301,65 +593,84 @@ export default function Editor({ navigation, route }: EditorProps) {
     await saveDirtyBlocks();
   };
 
-  // 从数据库加载blocks
-  const loadBlocks = async () => {
+  // 导出为markdown并分享
+  const handleShare = async () => {
     try {
-      setIsLoading(true);
-      const blockRecords = await ideaDB.getBlocksByIdeaId(idea.id);
-      
-      if (blockRecords.length === 0) {
-        // 如果没有数据，创建一个空的paragraph block
-        const defaultBlocks = [{
-          id: Date.now().toString(),
-          type: BlockType.MARKDOWN,
-          content: '',
-          isActive: true,
-          cursorPosition: 0,
-          isDirty: false,
-        }];
-        setBlocks(defaultBlocks);
-        setOriginalBlockIds(new Set());
-        
-        // 初始化快照
-        lastSavedBlocksRef.current = JSON.stringify(defaultBlocks.map(b => ({ id: b.id, content: b.content, isDirty: b.isDirty })));
-      } else {
-        // 转换数据库记录为UI Block
-        const uiBlocks: Block[] = blockRecords.map((record, index) => ({
-          id: record.block_id,
-          type: record.type,
-          content: record.content,
-          isActive: false,
-          cursorPosition: 0,
-          isDirty: false,
-          color: record.color,
-        }));
-        
-        setBlocks(uiBlocks);
-        const originalIds = new Set(blockRecords.map(record => record.block_id));
-        setOriginalBlockIds(originalIds);
-        
-        // 初始化快照
-        lastSavedBlocksRef.current = JSON.stringify(uiBlocks.map(b => ({ id: b.id, content: b.content, isDirty: b.isDirty })));
+      await saveImmediately();
+      const result = await exportIdea(idea);
+      await shareExport(result, idea.hint);
+    } catch (error) {
+      console.error('❌ Error exporting idea:', error);
+      Alert.alert(t('common.error'), t('errors.cannotExport'));
+    }
+  };
+
+  // 打开另一个想法前先保存，确保刚输入的链接已写入并出现在对方的反向链接中
+  const openLinkedIdea = async (target: IdeaRecord) => {
+    await saveImmediately();
+    navigation.push('Editor', { idea: target });
+  };
+
+  // 点击wiki链接时按标题打开对应的想法
+  const openWikiLink = async (hint: string) => {
+    try {
+      const target = await ideaDB.findIdeaByHint(hint, idea.id);
+      if (!target) {
+        Alert.alert(t('common.error'), t('links.notFound', { title: hint }));
+        return;
       }
+      await openLinkedIdea(target);
     } catch (error) {
-      console.error('❌ Error loading blocks:', error);
-      Alert.alert(t('errors.loadFailed'), t('errors.cannotLoadEditor'));
-      // 创建一个空的block作为备选
-      const fallbackBlocks = [{
-        id: Date.now().toString(),
-        type: BlockType.MARKDOWN,
-        content: '',
-        isActive: true,
-        cursorPosition: 0,
-        isDirty: false,
-      }];
-      setBlocks(fallbackBlocks);
-      lastSavedBlocksRef.current = JSON.stringify(fallbackBlocks.map(b => ({ id: b.id, content: b.content, isDirty: b.isDirty })));
-    } finally {
-      setIsLoading(false);
+      console.error('❌ Error opening wiki link:', error);
+      Alert.alert(t('common.error'), t('errors.cannotOpenLink'));
     }
   };
 
+  // 渲染后的链接被点击：wiki链接在应用内打开，返回true时由系统打开其他链接
+  const handleLinkPress = (url: string) => {
+    const hint = parseWikiLinkHref(url);
+    if (hint === null) {
+      return true;
+    }
+    openWikiLink(hint);
+    return false;
+  };
+
+  // 保存为模板前先保存，确保模板包含最新内容
+  const openTemplateSave = async () => {
+    await saveImmediately();
+    setShowTemplateSave(true);
+  };
+
+  const handleTemplateSave = async (name: string, categoryId: string | null) => {
+    setShowTemplateSave(false);
+    try {
+      await ideaDB.saveIdeaAsTemplate(idea.id, name, categoryId);
+      Alert.alert(t('templates.savedTitle'), t('templates.savedMessage', { name }));
+    } catch (error) {
+      console.error('❌ Error saving template:', error);
+      Alert.alert(t('common.error'), t('errors.cannotSaveTemplate'));
+    }
+  };
+
+  // 日记页面：保存后打开前一天或后一天的日记（第一次打开时创建），替换当前页面
+  const openAdjacentJournal = async (days: number) => {
+    try {
+      await saveImmediately();
+      const journal = await openJournal(shiftDate(idea.date, days));
+      navigation.replace('Editor', { idea: journal });
+    } catch (error) {
+      console.error('❌ Error opening journal:', error);
+      Alert.alert(t('common.error'), t('errors.cannotOpenJournal'));
+    }
+  };
+
+  // 打开版本历史前先保存，确保最新内容已记录
+  const openHistory = async () => {
+    await saveImmediately();
+    navigation.navigate('History', { idea });
+  };
+
   // 统一的保存逻辑核心函数
   const performSave = async (blocksData: Block[], originalIds: Set<string>, updateState = true) => {
     
@@ -378,6 +689,7 @@ export default function Editor({ navigation, route }: EditorProps) {
           content: block.content,
           orderIndex: blocksData.indexOf(block),
           color: block.color,
+          attrs: block.attrs,
         }));
       
       // 如果没有变更，直接返回
@@ -385,13 +697,14 @@ export default function Editor({ navigation, route }: EditorProps) {
         return;
       }
 
-      // 3. 执行数据库操作
-      for (const blockId of blocksToDelete) {
-        await ideaDB.deleteBlock(idea.id, blockId);
-      }
+      // 3. 执行数据库操作（删除、修改和顺序变化在同一个事务中保存）
+      await ideaDB.saveDirtyBlocks(idea.id, blocksToSave, blocksToDelete);
 
-      if (blocksToSave.length > 0) {
-        await ideaDB.saveDirtyBlocks(idea.id, blocksToSave);
+      // 保存成功后记录版本历史，失败不影响本次保存
+      try {
+        await ideaDB.saveRevision(idea.id);
+      } catch (revisionError) {
+        console.warn('⚠️ Failed to save revision:', revisionError);
       }
       
       // 4. 更新状态（仅在非卸载时执行）
@@ -417,8 +730,8 @@ export default function Editor({ navigation, route }: EditorProps) {
   const saveDirtyBlocksWithData = (blocksData: Block[], originalIds: Set<string>) => 
     performSave(blocksData, originalIds, false);
 
-  // 更新当前活跃 block 的文本内容
-  const updateActiveBlockText = (text: string, newCursorPosition?: number) => {
+  // 更新当前活跃 block 的文本内容，newSelectionEnd为空时选区收起到新光标位置
+  const updateActiveBlockText = (text: string, newCursorPosition?: number, newSelectionEnd?: number) => {
     const activeBlock = getActiveBlock();
     if (activeBlock) {
       setBlocks(prev => prev.map(block => 
@@ -426,6 +739,7 @@ export default function Editor({ navigation, route }: EditorProps) {
           ...block, 
           content: text,
           cursorPosition: newCursorPosition !== undefined ? newCursorPosition : block.cursorPosition,
+          selectionEnd: newCursorPosition !== undefined ? newSelectionEnd ?? newCursorPosition : block.selectionEnd,
           isDirty: true
         } : block
       ));
@@ -436,7 +750,7 @@ export default function Editor({ navigation, route }: EditorProps) {
         if (textInputRef) {
           setTimeout(() => {
             textInputRef.setNativeProps({
-              selection: { start: newCursorPosition, end: newCursorPosition }
+              selection: { start: newCursorPosition, end: newSelectionEnd ?? newCursorPosition }
             });
           }, 50);
         }
@@ -498,13 +812,40 @@ export default function Editor({ navigation, route }: EditorProps) {
       <TextInput
         ref={(ref) => setTextInputRef(item.id, ref)}
         value={item.content}
-        selection={item.cursorPosition ? { start: item.cursorPosition, end: item.cursorPosition } : undefined}
+        selection={item.cursorPosition ? {
+          start: item.cursorPosition,
+          end: Math.min(Math.max(item.selectionEnd ?? item.cursorPosition, item.cursorPosition), item.content.length),
+        } : undefined}
         onChangeText={text => {
           // Filter out newline characters to prevent unwanted line breaks from Enter key
           const filteredText = text.replace(/\n/g, '');
-          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, content: filteredText, isDirty: true } : block));
+          // 行首输入"- [ ] "时转换为清单block
+          if (startsWithTaskPrefix(filteredText)) {
+            setBlocks(prev => prev.map(block => block.id === item.id ? {
+              ...block,
+              type: BlockType.CHECKLIST,
+              content: serializeChecklist(parseChecklist(filteredText)),
+              isDirty: true,
+            } : block));
+            return;
+          }
+          // 输入会替换选中的文字，选区以随后的onSelectionChange为准
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, content: filteredText, selectionEnd: undefined, isDirty: true } : block));
         }}
         onSubmitEditing={() => {
+          // 输入```（可带语言）后回车：转换为代码block
+          const fenceMatch = item.content.match(CODE_FENCE_PATTERN);
+          if (fenceMatch) {
+            setBlocks(prev => prev.map(block => block.id === item.id ? {
+              ...block,
+              type: BlockType.CODE,
+              content: '',
+              cursorPosition: 0,
+              attrs: { language: normalizeLanguage(fenceMatch[1]) },
+              isDirty: true,
+            } : block));
+            return;
+          }
           // 使用通用的创建新block函数
           createNewBlockAfterCurrent(item.content);
         }}
@@ -517,9 +858,9 @@ export default function Editor({ navigation, route }: EditorProps) {
         returnKeyType="done"
         submitBehavior="submit"
         onSelectionChange={(event) => {
-          const { start } = event.nativeEvent.selection;
+          const { start, end } = event.nativeEvent.selection;
           setBlocks(prev => prev.map(block => 
-            block.id === item.id ? { ...block, cursorPosition: start } : block
+            block.id === item.id ? { ...block, cursorPosition: start, selectionEnd: end } : block
           ));
         }}
         onFocus={() => {
@@ -552,8 +893,8 @@ export default function Editor({ navigation, route }: EditorProps) {
           focusBlock(item.id);
         }}
       >
-        <Markdown style={dynamicMarkdownStyles} >
-          {item.content}
+        <Markdown style={dynamicMarkdownStyles} rules={markdownRules} onLinkPress={handleLinkPress}>
+          {wikiLinksToMarkdown(item.content)}
         </Markdown>
       </TouchableOpacity>
     );
@@ -580,6 +921,309 @@ export default function Editor({ navigation, route }: EditorProps) {
     );
   };
 
+  // 渲染AUDIO类型的block
+  const renderAudioBlock = (item: Block) => {
+    const handleDeleteAudio = () => {
+      // 录音文件仍可能被历史版本引用，在永久删除想法时统一清理
+      setBlocks(prev => prev.map(block => 
+        block.id === item.id ? { 
+          ...block, 
+          type: BlockType.MARKDOWN, 
+          content: '', 
+          attrs: undefined,
+          isDirty: true 
+        } : block
+      ));
+    };
+
+    return (
+      <AudioBlock 
+        uri={item.content} 
+        durationMs={item.attrs?.durationMs}
+        onDelete={handleDeleteAudio} 
+      />
+    );
+  };
+
+  // 渲染CHECKLIST类型的block
+  const renderChecklistBlock = (item: Block) => {
+    const handleRemoveChecklist = () => {
+      // 唯一的空项上退格：变回空的文本block
+      setBlocks(prev => prev.map(block => 
+        block.id === item.id ? { 
+          ...block, 
+          type: BlockType.MARKDOWN, 
+          content: '', 
+          isActive: true,
+          cursorPosition: 0,
+          isDirty: true 
+        } : block
+      ));
+      setTimeout(() => {
+        focusBlock(item.id);
+      }, 100);
+    };
+
+    return (
+      <ChecklistBlock
+        content={item.content}
+        color={item.color}
+        autoFocus={item.isActive}
+        onChange={content => {
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, content, isDirty: true } : block));
+        }}
+        onFocus={() => {
+          setBlocks(prev => prev.map(block => ({ ...block, isActive: block.id === item.id })));
+        }}
+        onBlur={() => {
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, isActive: false } : block));
+        }}
+        onExit={content => handleChecklistExit(item.id, content)}
+        onRemove={handleRemoveChecklist}
+      />
+    );
+  };
+
+  // 渲染CODE类型的block
+  const renderCodeBlock = (item: Block) => {
+    const activate = () => {
+      setBlocks(prev => prev.map(block => ({ ...block, isActive: block.id === item.id })));
+    };
+
+    const handleRemoveCode = () => {
+      // 空代码块上退格：变回空的文本block
+      setBlocks(prev => prev.map(block => 
+        block.id === item.id ? { 
+          ...block, 
+          type: BlockType.MARKDOWN, 
+          content: '', 
+          attrs: undefined,
+          isActive: true,
+          isDirty: true 
+        } : block
+      ));
+    };
+
+    return (
+      <CodeBlock
+        content={item.content}
+        language={item.attrs?.language}
+        isActive={item.isActive}
+        inputRef={ref => setTextInputRef(item.id, ref)}
+        onChange={content => {
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, content, isDirty: true } : block));
+        }}
+        onLanguageChange={language => {
+          setBlocks(prev => prev.map(block => block.id === item.id ? {
+            ...block,
+            attrs: { ...block.attrs, language },
+            isDirty: true,
+          } : block));
+        }}
+        onSelectionChange={(event) => {
+          const { start } = event.nativeEvent.selection;
+          setBlocks(prev => prev.map(block => 
+            block.id === item.id ? { ...block, cursorPosition: start } : block
+          ));
+        }}
+        onActivate={activate}
+        onFocus={activate}
+        onBlur={() => {
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, isActive: false } : block));
+        }}
+        onRemove={handleRemoveCode}
+      />
+    );
+  };
+
+  // 渲染TABLE类型的block
+  const renderTableBlock = (item: Block) => {
+    const handleDeleteTable = () => {
+      setBlocks(prev => prev.map(block => 
+        block.id === item.id ? { 
+          ...block, 
+          type: BlockType.MARKDOWN, 
+          content: '', 
+          isActive: false,
+          isDirty: true 
+        } : block
+      ));
+    };
+
+    return (
+      <TableBlock
+        content={item.content}
+        isActive={item.isActive}
+        onChange={content => {
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, content, isDirty: true } : block));
+        }}
+        onActivate={() => {
+          setBlocks(prev => prev.map(block => ({ ...block, isActive: block.id === item.id })));
+        }}
+        onDone={() => {
+          Keyboard.dismiss();
+          setBlocks(prev => prev.map(block => block.id === item.id ? { ...block, isActive: false } : block));
+        }}
+        onDelete={handleDeleteTable}
+      />
+    );
+  };
+
+  const handleUndo = () => {
+    const restored = historyRef.current.undo(blocks);
+    if (!restored) {
+      return;
+    }
+    skipHistoryRef.current = true;
+    setBlocks(restored);
+  };
+
+  const handleRedo = () => {
+    const restored = historyRef.current.redo(blocks);
+    if (!restored) {
+      return;
+    }
+    skipHistoryRef.current = true;
+    setBlocks(restored);
+  };
+
+  // 当前选中的连续blocks的范围
+  const getSelectedRange = (): BlockRange | null => {
+    if (!selection) {
+      return null;
+    }
+    const anchorIndex = blocks.findIndex(block => block.id === selection.anchorId);
+    const focusIndex = blocks.findIndex(block => block.id === selection.focusId);
+    if (anchorIndex === -1 || focusIndex === -1) {
+      return null;
+    }
+    return { start: Math.min(anchorIndex, focusIndex), count: Math.abs(anchorIndex - focusIndex) + 1 };
+  };
+
+  // 点击拖动手柄：选中该block，已有选区时扩展到该block，再次点击唯一选中的block取消选中
+  const handleBlockHandlePress = (blockId: string) => {
+    Keyboard.dismiss();
+    setBlocks(prev => prev.some(block => block.isActive) ? prev.map(block => ({ ...block, isActive: false })) : prev);
+    setSelection(prev => {
+      if (!prev) {
+        return { anchorId: blockId, focusId: blockId };
+      }
+      if (prev.anchorId === blockId && prev.focusId === blockId) {
+        return null;
+      }
+      return { anchorId: prev.anchorId, focusId: blockId };
+    });
+  };
+
+  const getSelectedBlocks = (): Block[] => {
+    const range = getSelectedRange();
+    return range ? blocks.slice(range.start, range.start + range.count) : [];
+  };
+
+  // 从页面中移除blocks，全部移除时保留一个空的文本block
+  const removeBlocks = (blockIds: Set<string>) => {
+    setBlocks(prev => {
+      const remaining = prev.filter(block => !blockIds.has(block.id));
+      return remaining.length > 0 ? remaining : [{
+        id: Date.now().toString(),
+        type: BlockType.MARKDOWN,
+        content: '',
+        isActive: false,
+        cursorPosition: 0,
+        isDirty: true,
+      }];
+    });
+  };
+
+  // 以markdown格式复制到剪贴板
+  const copyBlocksToClipboard = (selectedBlocks: Block[]) => {
+    Clipboard.setString(selectedBlocks
+      .map(block => blockToMarkdown(block))
+      .filter(content => content.trim() !== '')
+      .join('\n\n'));
+  };
+
+  const handleCopySelection = () => {
+    copyBlocksToClipboard(getSelectedBlocks());
+    setSelection(null);
+  };
+
+  const handleCutSelection = () => {
+    const selectedBlocks = getSelectedBlocks();
+    copyBlocksToClipboard(selectedBlocks);
+    removeBlocks(new Set(selectedBlocks.map(block => block.id)));
+    setSelection(null);
+  };
+
+  const handleDeleteSelection = () => {
+    removeBlocks(new Set(getSelectedBlocks().map(block => block.id)));
+    setSelection(null);
+  };
+
+  const handleSelectionColorChange = (color: string) => {
+    const selectedIds = new Set(getSelectedBlocks().map(block => block.id));
+    setBlocks(prev => prev.map(block => selectedIds.has(block.id) ? {
+      ...block,
+      color: color === '#000000' ? undefined : color, // 黑色使用默认值
+      isDirty: true,
+    } : block));
+  };
+
+  // 将选中的blocks移动到另一个想法：先保存当前修改，再在数据库中整体移动
+  const handleMoveSelection = async (target: IdeaRecord) => {
+    setShowMovePicker(false);
+    const selectedIds = getSelectedBlocks().map(block => block.id);
+    if (selectedIds.length === 0) {
+      return;
+    }
+
+    try {
+      await saveImmediately();
+      await ideaDB.moveBlocksToIdea(idea.id, target.id, selectedIds);
+    } catch (error) {
+      console.error('❌ Error moving blocks:', error);
+      Alert.alert(t('common.error'), t('errors.cannotMoveBlocks'));
+      return;
+    }
+
+    for (const ideaId of [idea.id, target.id]) {
+      ideaDB.saveRevision(ideaId).catch(revisionError => {
+        console.warn('⚠️ Failed to save revision:', revisionError);
+      });
+    }
+
+    // 已移走的blocks不属于当前想法，不能再作为删除记录保存，也不进入撤销历史
+    const movedIds = new Set(selectedIds);
+    setOriginalBlockIds(prev => new Set([...prev].filter(id => !movedIds.has(id))));
+    historyRef.current.forgetBlocks(movedIds);
+    skipHistoryRef.current = true;
+    removeBlocks(movedIds);
+    setSelection(null);
+  };
+
+  // 拖动选区内的block时移动整个选区，否则只移动该block
+  const getDragRange = (index: number): BlockRange => {
+    const range = getSelectedRange();
+    if (range && index >= range.start && index < range.start + range.count) {
+      return range;
+    }
+    return { start: index, count: 1 };
+  };
+
+  // 放下后调整顺序，位置变化的blocks标记为dirty，由自动保存写入新的order_index
+  const handleBlockDrop = (range: BlockRange, target: number) => {
+    setBlocks(prev => {
+      const moved = moveRange(prev, range.start, range.count, target);
+      return moved.map((block, index) => block.id === prev[index].id ? block : { ...block, isDirty: true });
+    });
+  };
+
+  const { dragState, dragRange, setBlockHeight, beginDrag, updateDrag, endDrag } = useBlockDrag(
+    blocks.map(block => block.id),
+    getDragRange,
+    handleBlockDrop,
+  );
+
   // 主渲染函数，根据BlockType分发到不同的渲染函数
   const renderBlock = ({ item }: { item: Block }) => {
     switch (item.type) {
@@ -587,21 +1231,128 @@ export default function Editor({ navigation, route }: EditorProps) {
         return renderMarkdownBlock(item);
       case BlockType.IMAGE:
         return renderImageBlock(item);
+      case BlockType.AUDIO:
+        return renderAudioBlock(item);
+      case BlockType.CHECKLIST:
+        return renderChecklistBlock(item);
+      case BlockType.CODE:
+        return renderCodeBlock(item);
+      case BlockType.TABLE:
+        return renderTableBlock(item);
       default:
         return renderMarkdownBlock(item); // 默认使用markdown渲染
     }
   };
 
 
+  // 为每个block加上拖动手柄
+  const renderDraggableBlock = ({ item, index }: { item: Block; index: number }) => {
+    const selectedRange = getSelectedRange();
+    return (
+      <DraggableBlock
+        blockId={item.id}
+        index={index}
+        isSelected={!!selectedRange && index >= selectedRange.start && index < selectedRange.start + selectedRange.count}
+        dragState={dragState}
+        onHeightChange={setBlockHeight}
+        onDragStart={beginDrag}
+        onDragMove={updateDrag}
+        onDragEnd={endDrag}
+        onHandlePress={handleBlockHandlePress}
+      >
+        {renderBlock({ item })}
+      </DraggableBlock>
+    );
+  };
+
   // 渲染列表底部的空白区域 - 占据剩余所有空间
   const renderFooterComponent = () => {
     return (
-      <TouchableWithoutFeedback onPress={handleEmptyAreaPress}>
-        <View style={[styles.footerSpace, { height: screenHeight }]} />
-      </TouchableWithoutFeedback>
+      <View>
+        {backlinks.length > 0 && (
+          <View style={[styles.backlinks, { borderTopColor: theme.borders.secondary }]}>
+            <Text style={[styles.backlinksTitle, { color: theme.texts.secondary }]}>{t('links.linkedFrom')}</Text>
+            {backlinks.map(source => (
+              <TouchableOpacity key={source.id} style={styles.backlinkRow} onPress={() => openLinkedIdea(source)}>
+                <Feather name="corner-down-right" size={14} color={theme.texts.tertiary} />
+                <Text style={[styles.backlinkHint, { color: theme.buttons.primary }]} numberOfLines={1}>
+                  {source.hint}
+                </Text>
+                <Text style={[styles.backlinkDate, { color: theme.texts.tertiary }]}>{source.date}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TouchableWithoutFeedback onPress={handleEmptyAreaPress}>
+          <View style={[styles.footerSpace, { height: screenHeight }]} />
+        </TouchableWithoutFeedback>
+      </View>
     );
   };
+
+  // 光标位于未闭合的[[之后时，返回标题匹配的想法
+  const getWikiLinkSuggestions = (): IdeaRecord[] => {
+    const activeBlock = getActiveBlock();
+    if (!activeBlock || activeBlock.type !== BlockType.MARKDOWN) {
+      return [];
+    }
+
+    const linkQuery = getWikiLinkQuery(activeBlock.content, activeBlock.cursorPosition || 0);
+    if (!linkQuery) {
+      return [];
+    }
+
+    const keyword = linkQuery.query.trim().toLowerCase();
+    return linkCandidates
+      .filter(candidate => candidate.id !== idea.id && candidate.hint && candidate.hint.toLowerCase().includes(keyword))
+      .slice(0, MAX_WIKI_LINK_SUGGESTIONS);
+  };
+
+  // 选中补全项：用完整的[[标题]]替换已输入的部分
+  const handleWikiLinkSelect = (target: IdeaRecord) => {
+    const activeBlock = getActiveBlock();
+    if (!activeBlock) {
+      return;
+    }
+
+    const cursor = activeBlock.cursorPosition || 0;
+    const linkQuery = getWikiLinkQuery(activeBlock.content, cursor);
+    if (!linkQuery) {
+      return;
+    }
+
+    const completed = completeWikiLink(activeBlock.content, linkQuery.start, cursor, target.hint);
+    updateActiveBlockText(completed.text, completed.cursor);
+  };
   
+  // 斜杠命令选中想法：在发起命令的block光标处插入[[标题]]
+  const handleLinkIdeaSelect = (target: IdeaRecord) => {
+    const blockId = linkPickerBlockId;
+    setLinkPickerBlockId(null);
+    if (!blockId) {
+      return;
+    }
+
+    setBlocks(prev => prev.map(block => {
+      if (block.id !== blockId) {
+        return { ...block, isActive: false };
+      }
+      const cursor = Math.min(block.cursorPosition || 0, block.content.length);
+      const link = `[[${target.hint}]]`;
+      return {
+        ...block,
+        content: block.content.slice(0, cursor) + link + block.content.slice(cursor),
+        cursorPosition: cursor + link.length,
+        selectionEnd: undefined,
+        isActive: true,
+        isDirty: true,
+      };
+    }));
+    setTimeout(() => {
+      focusBlock(blockId);
+    }, 100);
+  };
+
   const isEmptyBlock = (block: Block) => {
     return block.type === BlockType.MARKDOWN && block.content === '';
   }
@@ -712,7 +1463,8 @@ export default function Editor({ navigation, route }: EditorProps) {
       // 找出所有非空blocks和最后一个空block的位置
       for (let i = 0; i < prev.length; i++) {
         const block = prev[i];
-        if (block.content.trim() === '') {
+        // 只清理空的文本block，刚插入的空代码块等保留
+        if (block.type === BlockType.MARKDOWN && block.content.trim() === '') {
           lastEmptyIndex = i;
         } else {
           nonEmptyBlocks.push(block);
@@ -731,7 +1483,7 @@ export default function Editor({ navigation, route }: EditorProps) {
         nonEmptyBlocks.push(prev[lastEmptyIndex]);
       } else if (nonEmptyBlocks.length > 0) {
         const lastBlock = nonEmptyBlocks[nonEmptyBlocks.length - 1];
-        if (lastBlock.content.trim() !== '') {
+        if (!isEmptyBlock(lastBlock)) {
           nonEmptyBlocks.push({
             id: Date.now().toString(),
             type: BlockType.MARKDOWN,
@@ -773,6 +1525,11 @@ export default function Editor({ navigation, route }: EditorProps) {
     );
   }
 
+  const selectedRange = getSelectedRange();
+  const wikiLinkSuggestions = showKeyboardToolbar ? getWikiLinkSuggestions() : [];
+  // 和日历一样不能打开未来日期的日记
+  const hasNextJournal = idea.date < new Date().toISOString().split('T')[0];
+
   return (
     <View style={[styles.container, { backgroundColor: theme.backgrounds.primary }]}>
       {/* <StatusBar barStyle={theme.statusBar.barStyle} backgroundColor={theme.statusBar.backgroundColor} /> */}
@@ -781,36 +1538,128 @@ export default function Editor({ navigation, route }: EditorProps) {
         borderBottomColor: theme.borders.primary 
       }]}>
         <Text style={[styles.headerText, { color: theme.texts.primary }]}>{idea.hint}</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerActionButton}
+            onPress={handleShare}
+            hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+          >
+            <Feather name="share" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerActionButton}
+            onPress={openTemplateSave}
+            hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+          >
+            <Feather name="layout" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerActionButton}
+            onPress={openHistory}
+            hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+          >
+            <Feather name="clock" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
+        </View>
       </View>
+      {!!idea.is_journal && (
+        <View style={[styles.journalNav, { borderBottomColor: theme.borders.separator }]}>
+          <TouchableOpacity style={styles.journalNavButton} onPress={() => openAdjacentJournal(-1)}>
+            <Feather name="chevron-left" size={18} color={theme.texts.secondary} />
+            <Text style={[styles.journalNavText, { color: theme.texts.secondary }]}>{t('journal.previous')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.journalNavButton}
+            onPress={() => openAdjacentJournal(1)}
+            disabled={!hasNextJournal}
+          >
+            <Text style={[styles.journalNavText, { color: hasNextJournal ? theme.texts.secondary : theme.texts.disabled }]}>
+              {t('journal.next')}
+            </Text>
+            <Feather name="chevron-right" size={18} color={hasNextJournal ? theme.texts.secondary : theme.texts.disabled} />
+          </TouchableOpacity>
+        </View>
+      )}
       <KeyboardAvoidingView 
         style={{ flex: 1 }}
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
         keyboardVerticalOffset={Platform.OS === 'ios' ? -10 : 0}
       >
-        <FlatList
-          data={blocks}
-          renderItem={renderBlock}
-          keyExtractor={(item) => item.id}
-          style={[styles.flatList, { backgroundColor: theme.backgrounds.primary }]}
-          contentContainerStyle={styles.flatListContent}
-          scrollEnabled={true}
-          keyboardShouldPersistTaps="handled"
-          ListFooterComponent={renderFooterComponent}
-          showsVerticalScrollIndicator={false}
-        />
-        {showKeyboardToolbar && (
-          <KeyboardToolbar
-            textInputRef={getActiveTextInputRef()}
-            currentText={getActiveBlock()?.content || ''}
-            onTextChange={updateActiveBlockText}
-            cursorPosition={getActiveBlock()?.cursorPosition || 0}
-            onAddNewBlock={addNewBlockAfterCurrent}
-            onImageSelect={handleImageSelect}
-            onBlockColorChange={handleBlockColorChange}
-            currentBlockColor={getActiveBlock()?.color}
+        <BlockDragContext.Provider value={dragRange}>
+          <FlatList
+            data={blocks}
+            renderItem={renderDraggableBlock}
+            keyExtractor={(item) => item.id}
+            CellRendererComponent={DraggableCell}
+            style={[styles.flatList, { backgroundColor: theme.backgrounds.primary }]}
+            contentContainerStyle={styles.flatListContent}
+            scrollEnabled={!dragRange}
+            keyboardShouldPersistTaps="handled"
+            ListFooterComponent={renderFooterComponent}
+            showsVerticalScrollIndicator={false}
+          />
+        </BlockDragContext.Provider>
+        {selectedRange ? (
+          <SelectionToolbar
+            count={selectedRange.count}
+            onCopy={handleCopySelection}
+            onCut={handleCutSelection}
+            onDelete={handleDeleteSelection}
+            onColorChange={handleSelectionColorChange}
+            onMove={() => setShowMovePicker(true)}
+            onClose={() => setSelection(null)}
           />
+        ) : showKeyboardToolbar && (
+          <>
+            {wikiLinkSuggestions.length > 0 && (
+              <WikiLinkSuggestions ideas={wikiLinkSuggestions} onSelect={handleWikiLinkSelect} />
+            )}
+            <KeyboardToolbar
+              textInputRef={getActiveTextInputRef()}
+              currentText={getActiveBlock()?.content || ''}
+              onTextChange={updateActiveBlockText}
+              cursorPosition={getActiveBlock()?.cursorPosition || 0}
+              selectionEnd={getActiveBlock()?.type === BlockType.MARKDOWN ? getActiveBlock()?.selectionEnd : undefined}
+              onAddNewBlock={addNewBlockAfterCurrent}
+              onImageSelect={handleImageSelect}
+              onAudioRecord={handleAudioRecord}
+              onChecklistToggle={handleChecklistToggle}
+              onInsertCodeBlock={handleInsertCodeBlock}
+              onInsertTable={handleInsertTable}
+              onInsertBlock={handleInsertBlock}
+              onLinkIdea={() => setLinkPickerBlockId(getActiveBlock()?.id ?? null)}
+              isMarkdown={getActiveBlock()?.type === BlockType.MARKDOWN}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              isChecklist={getActiveBlock()?.type === BlockType.CHECKLIST}
+              onBlockColorChange={handleBlockColorChange}
+              currentBlockColor={getActiveBlock()?.color}
+            />
+          </>
         )}
       </KeyboardAvoidingView>
+      <IdeaPickerModal
+        visible={showMovePicker}
+        title={t('selection.moveTitle')}
+        excludeIdeaId={idea.id}
+        onSelect={handleMoveSelection}
+        onClose={() => setShowMovePicker(false)}
+      />
+      <IdeaPickerModal
+        visible={linkPickerBlockId !== null}
+        title={t('slash.linkTitle')}
+        excludeIdeaId={idea.id}
+        onSelect={handleLinkIdeaSelect}
+        onClose={() => setLinkPickerBlockId(null)}
+      />
+      <TemplateSaveModal
+        visible={showTemplateSave}
+        defaultName={idea.hint}
+        onSave={handleTemplateSave}
+        onClose={() => setShowTemplateSave(false)}
+      />
     </View>
   )
 }
@@ -876,30 +1725,46 @@ export default function Editor({ navigation, route }: EditorProps) {
       fontStyle: 'italic' as const,
       color: theme.texts.primary,
     },
+    link: {
+      color: theme.buttons.primary,
+    },
   });
 
-// 自定义渲染规则来处理颜色语法 [text](color:value)
-const markdownRules = {
-  link: (node: any, children: any, parent: any, styles: any) => {
-    // 检查是否是颜色链接语法
-    if (node.attributes && node.attributes.href && node.attributes.href.startsWith('color:')) {
-      const colorValue = node.attributes.href.substring(6); // 移除 'color:' 前缀
-      console.log('colorValue', colorValue);
+// 把颜色设置到所有内层Text上：粗体、斜体等内层Text自带文字颜色，只设置外层会被覆盖
+const applyTextColor = (children: React.ReactNode, color: string): React.ReactNode =>
+  React.Children.map(children, child => {
+    if (!React.isValidElement<{ style?: any; children?: React.ReactNode }>(child)) {
+      return child;
+    }
+    return React.cloneElement(
+      child,
+      { style: [child.props.style, { color }] },
+      applyTextColor(child.props.children, color)
+    );
+  });
+
+// 自定义渲染规则来处理颜色语法 [text](color:value)，颜色按当前主题调整
+const createMarkdownRules = (isDark: boolean): RenderRules => ({
+  link: (node, children, parent, styles, onLinkPress) => {
+    const color = parseColorHref(node.attributes.href || '');
+    if (color) {
       return (
-        <Text key={node.key} style={{ color: 'red'}}>
-          {children}
+        <Text key={node.key}>
+          {applyTextColor(children, adaptColorForTheme(color, isDark))}
         </Text>
       );
     }
-    
+
     // 普通链接的默认处理
-    return (
-      <Text key={node.key} style={styles.link}>
-        {children}
-      </Text>
-    );
+    return renderRules.link!(node, children, parent, styles, onLinkPress);
   },
-};
+});
+
+// 输入[[时最多显示的补全项数量
+const MAX_WIKI_LINK_SUGGESTIONS = 8;
+
+// 围栏代码块的开头，例如 ``` 或 ```js
+const CODE_FENCE_PATTERN = /^\s*```\s*([\w+#-]*)\s*$/;
 
 const styles = StyleSheet.create({
   container: {
@@ -923,6 +1788,32 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold' as const,
     textAlign: 'center' as const,
+    paddingHorizontal: 56,
+  },
+  headerActions: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+    height: 28,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerActionButton: {
+    marginLeft: 12,
+  },
+  journalNav: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  journalNavButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  journalNavText: {
+    fontSize: 14,
   },
   flatList: {
     flex: 1,
@@ -946,6 +1837,32 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     justifyContent: 'center',
   },
+  backlinks: {
+    marginHorizontal: 16,
+    marginTop: 24,
+    paddingTop: 12,
+    paddingHorizontal: 6,
+    borderTopWidth: 1,
+  },
+  backlinksTitle: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    marginBottom: 4,
+  },
+  backlinkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  backlinkHint: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 6,
+    marginRight: 8,
+  },
+  backlinkDate: {
+    fontSize: 12,
+  },
   footerSpace: {
     width: '100%',
     minHeight: 200,
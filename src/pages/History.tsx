@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Feather from '@react-native-vector-icons/feather';
+import { useTheme } from '../hooks/useTheme';
+import IdeaDatabase, { ideaDB } from '../utils/IdeaDatabase';
+import { diffRevisionBlocks, summarizeDiff, BlockDiff } from '../utils/RevisionDiff';
+import { parseTable, toGfmTable } from '../utils/Table';
+import { BlockType, IdeaRevision, NavigationProps, RevisionBlock } from '../Types';
+
+type HistoryProps = NavigationProps<'History'>;
+
+export default function History({ navigation, route }: HistoryProps) {
+  const { idea } = route.params;
+  const { t, i18n } = useTranslation();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [revisions, setRevisions] = useState<IdeaRevision[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const locale = i18n.language === 'zh' ? 'zh-CN' : 'en-US';
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const result = await ideaDB.getRevisionsByIdeaId(idea.id);
+      setRevisions(result);
+      // 默认选中最新版本，与上一个版本比较
+      setSelectedIds(result.length > 0 ? [result[0].id] : []);
+    } catch (error) {
+      console.error('❌ Failed to load revisions:', error);
+      Alert.alert(t('common.error'), t('errors.cannotLoadHistory'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [idea.id, t]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // 选中一个版本时与它的上一个版本比较，选中两个版本时由旧到新比较
+  const comparison = useMemo(() => {
+    if (selectedIds.length === 0) {
+      return null;
+    }
+
+    const selectedIndexes = selectedIds
+      .map(id => revisions.findIndex(revision => revision.id === id))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b);
+    if (selectedIndexes.length === 0) {
+      return null;
+    }
+
+    const newer = revisions[selectedIndexes[0]];
+    const older = selectedIndexes.length > 1
+      ? revisions[selectedIndexes[1]]
+      : revisions[selectedIndexes[0] + 1];
+
+    return {
+      older,
+      newer,
+      diffs: diffRevisionBlocks(older?.blocks || [], newer.blocks),
+    };
+  }, [revisions, selectedIds]);
+
+  // 切换版本选中状态，最多同时选中两个
+  const toggleRevision = (revisionId: number) => {
+    setSelectedIds(prev => {
+      if (prev.includes(revisionId)) {
+        return prev.filter(id => id !== revisionId);
+      }
+      return [...prev, revisionId].slice(-2);
+    });
+  };
+
+  const handleRestore = (revision: IdeaRevision) => {
+    Alert.alert(
+      t('history.restoreTitle'),
+      t('history.restoreMessage', { time: formatTime(revision.updated_at) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('history.restore'),
+          onPress: async () => {
+            try {
+              await ideaDB.restoreRevision(idea.id, revision.id);
+              navigation.popTo('Editor', { idea, restoredAt: Date.now() });
+            } catch (error) {
+              console.error('❌ Failed to restore revision:', error);
+              Alert.alert(t('common.error'), t('errors.cannotRestoreRevision'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatTime = (timestamp: string) =>
+    IdeaDatabase.formatTimestampForDisplay(timestamp, locale);
+
+  const getKindLabel = (revision: IdeaRevision) => {
+    switch (revision.kind) {
+      case 'initial':
+        return t('history.kindInitial');
+      case 'restore':
+        return t('history.kindRestore');
+      default:
+        return t('history.kindEdit');
+    }
+  };
+
+  const getBlockPreview = (block: RevisionBlock) => {
+    if (block.type === BlockType.IMAGE) {
+      return `🖼️ ${t('history.imageBlock')}`;
+    }
+    if (block.type === BlockType.AUDIO) {
+      return `🎙️ ${t('history.audioBlock')}`;
+    }
+    if (block.type === BlockType.TABLE) {
+      // 显示为markdown表格，便于对比单元格的修改
+      return toGfmTable(parseTable(block.content));
+    }
+    return block.content || t('history.emptyBlock');
+  };
+
+  const getDiffColor = (status: BlockDiff['status']) => {
+    switch (status) {
+      case 'added':
+        return theme.texts.success;
+      case 'removed':
+        return theme.texts.error;
+      case 'modified':
+        return theme.texts.link;
+      default:
+        return theme.borders.secondary;
+    }
+  };
+
+  const renderRevision = (revision: IdeaRevision, index: number) => {
+    const selected = selectedIds.includes(revision.id);
+    const isCurrent = index === 0;
+
+    return (
+      <TouchableOpacity
+        key={revision.id}
+        style={[
+          styles.revisionItem,
+          {
+            backgroundColor: selected ? theme.special.selected : theme.backgrounds.secondary,
+            borderColor: selected ? theme.buttons.primary : theme.borders.secondary,
+          }
+        ]}
+        onPress={() => toggleRevision(revision.id)}
+      >
+        <View style={styles.revisionInfo}>
+          <Text style={[styles.revisionTime, { color: theme.texts.primary }]}>
+            {formatTime(revision.updated_at)}
+            {isCurrent ? `  · ${t('history.current')}` : ''}
+          </Text>
+          <Text style={[styles.revisionMeta, { color: theme.texts.tertiary }]}>
+            {getKindLabel(revision)} · {t('history.blockCount', { count: revision.blocks.length })}
+          </Text>
+        </View>
+        {!isCurrent && (
+          <TouchableOpacity
+            style={[styles.restoreButton, { backgroundColor: theme.backgrounds.tertiary }]}
+            onPress={() => handleRestore(revision)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Feather name="rotate-ccw" size={16} color={theme.buttons.primary} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDiff = (diff: BlockDiff, index: number) => {
+    const color = getDiffColor(diff.status);
+
+    return (
+      <View key={index} style={[styles.diffItem, { borderLeftColor: color }]}>
+        {diff.status === 'modified' && diff.oldBlock && (
+          <Text style={[styles.diffText, styles.diffOldText, { color: theme.texts.tertiary }]}>
+            {getBlockPreview(diff.oldBlock)}
+          </Text>
+        )}
+        <Text
+          style={[
+            styles.diffText,
+            { color: diff.status === 'unchanged' ? theme.texts.secondary : theme.texts.primary },
+            diff.status === 'removed' && styles.diffOldText,
+          ]}
+          numberOfLines={diff.status === 'unchanged' ? 2 : undefined}
+        >
+          {getBlockPreview((diff.newBlock || diff.oldBlock)!)}
+        </Text>
+      </View>
+    );
+  };
+
+  const summary = comparison ? summarizeDiff(comparison.diffs) : null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgrounds.primary }]}>
+      {/* 头部 */}
+      <View style={[
+        styles.header,
+        {
+          backgroundColor: theme.backgrounds.primary,
+          borderBottomColor: theme.borders.primary,
+          paddingTop: insets.top + 20,
+        }
+      ]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Feather name="chevron-left" size={24} color={theme.texts.secondary} />
+        </TouchableOpacity>
+        <View style={styles.headerTitleContainer}>
+          <Text style={[styles.headerTitle, { color: theme.texts.primary }]}>
+            {t('history.title')}
+          </Text>
+          <Text style={[styles.headerSubtitle, { color: theme.texts.tertiary }]} numberOfLines={1}>
+            {idea.hint}
+          </Text>
+        </View>
+        <View style={styles.headerButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <Text style={[styles.placeholderText, { color: theme.texts.secondary }]}>
+            {t('common.loading')}
+          </Text>
+        </View>
+      ) : revisions.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <Text style={[styles.placeholderText, { color: theme.texts.tertiary }]}>
+            {t('history.empty')}
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <Text style={[styles.sectionHint, { color: theme.texts.tertiary }]}>
+            {t('history.selectHint')}
+          </Text>
+          {revisions.map(renderRevision)}
+
+          {comparison && summary && (
+            <View style={styles.diffSection}>
+              <Text style={[styles.sectionTitle, { color: theme.texts.primary }]}>
+                {comparison.older
+                  ? t('history.compareTitle', {
+                    from: formatTime(comparison.older.updated_at),
+                    to: formatTime(comparison.newer.updated_at),
+                  })
+                  : t('history.firstRevision')}
+              </Text>
+              <Text style={[styles.summaryText, { color: theme.texts.secondary }]}>
+                {t('history.summary', summary)}
+              </Text>
+              {comparison.diffs.map(renderDiff)}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  scrollContent: {
+    padding: 24,
+  },
+  sectionHint: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  revisionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionTime: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  restoreButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  diffSection: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  summaryText: {
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  diffItem: {
+    borderLeftWidth: 3,
+    paddingLeft: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  diffText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  diffOldText: {
+    textDecorationLine: 'line-through',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 16,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -17,11 +17,25 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useKeyboardAnimation } from 'react-native-keyboard-controller';
 import Lucide from '@react-native-vector-icons/lucide';
 import FontAwesome from '@react-native-vector-icons/fontawesome';
-import { RootStackParamList, ContentType } from '../Types';
+import { RootStackParamList, ContentType, IdeaTemplate } from '../Types';
 import { ideaDB } from '../utils/IdeaDatabase';
 import SwipeableCalendar from '../components/SwipeableCalendar';
+import { TemplatePickerModal } from '../components/TemplatePickerModal';
 import IdeaList, { IdeaItem } from '../components/IdeaList';
-import { getFinalContentType } from '../utils/ContentTypeUtils';
+import { getFinalContentType, loadCategories, loadCategoryFeedback } from '../utils/ContentTypeUtils';
+import { useCategories } from '../hooks/useCategories';
+import { parseDueDate } from '../utils/DueDateParser';
+import { initializeReminders, syncIdeaReminder } from '../utils/Reminders';
+import {
+  voiceRecognizer,
+  getSpeechToTextProvider,
+  WhisperProvider,
+  discardRecording,
+  saveRecordingAsAttachment,
+} from '../utils/VoiceInput';
+import { exportDay, exportMonth, shareExport, ExportResult } from '../utils/MarkdownExport';
+import { applyCategoryTemplate, applyTemplateToIdea } from '../utils/Templates';
+import { openJournal } from '../utils/Journal';
 import { NewIdea } from '../Types';
 
 type HomeNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
@@ -29,18 +43,29 @@ type HomeNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
 export default function Home() {
   const { t, i18n } = useTranslation();
   const { theme } = useTheme();
+  const categories = useCategories();
   const navigation = useNavigation<HomeNavigationProp>();
   const insets = useSafeAreaInsets();
   const [ideas, setIdeas] = useState<IdeaItem[]>([]);
   const [currentDate, setCurrentDate] = useState('');
   const [currentDateString, setCurrentDateString] = useState('');
   const [showCalendarModal, setShowCalendarModal] = useState(false);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  // 新日记使用的模板，长按日记按钮时选择
+  const [showJournalTemplatePicker, setShowJournalTemplatePicker] = useState(false);
+  const [journalTemplateId, setJournalTemplateId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   
   // 底部输入区域相关状态
   const [inputText, setInputText] = useState('');
   const [inputMode, setInputMode] = useState<'keyboard' | 'voice'>('keyboard');
   const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [modelDownloadProgress, setModelDownloadProgress] = useState<number | null>(null);
+  // 最近一次语音输入的录音，发送时按设置保存为语音附件或删除
+  const [pendingRecording, setPendingRecording] = useState<string | null>(null);
+  const [keepRecording, setKeepRecording] = useState(false);
+  const recordingStartRef = useRef<Promise<void> | null>(null);
 
   // 焦点状态管理
   const [focusedItemIndex, setFocusedItemIndex] = useState<number | null>(null);
@@ -88,6 +113,19 @@ export default function Home() {
     try {
       // 初始化数据库
       await ideaDB.initialize();
+
+      // 加载分类和手动分类记录供分类器学习（失败时使用内置分类，不影响启动）
+      try {
+        await loadCategories();
+        await loadCategoryFeedback();
+      } catch (error) {
+        console.warn('⚠️ Failed to load categories:', error);
+      }
+
+      // 重新预约提醒（不阻塞启动）
+      initializeReminders().catch(error => {
+        console.warn('⚠️ Failed to initialize reminders:', error);
+      });
       
       // 设置当前日期
       const now = new Date();
@@ -115,16 +153,19 @@ export default function Home() {
     }
   };
 
-  const loadTodayIdeas = async (dateString: string) => {
+  const loadTodayIdeas = useCallback(async (dateString: string) => {
     try {
       const dbIdeas = await ideaDB.getIdeasByDate(dateString);
       
-      const formattedIdeas: IdeaItem[] = dbIdeas.map((dbIdea) => ({
+      // 日记通过头部按钮打开，不显示在想法列表中
+      const formattedIdeas: IdeaItem[] = dbIdeas.filter(dbIdea => !dbIdea.is_journal).map((dbIdea) => ({
         id: dbIdea.id.toString(),
         hint: dbIdea.hint,
         dbId: dbIdea.id,
         manualCategory: dbIdea.category || undefined,
         completed: !!dbIdea.completed, // 转换为boolean类型
+        dueAt: dbIdea.due_at || undefined,
+        audioUri: dbIdea.audio_uri || undefined,
       }));
       
       setIdeas(formattedIdeas);
@@ -132,6 +173,51 @@ export default function Home() {
       console.error('❌ Failed to load ideas:', error);
       Alert.alert(t('common.error'), t('errors.cannotLoadIdeas'));
     }
+  }, [t]);
+
+  // 从其他页面返回时（如回收站中恢复了想法），重新加载当前日期的想法
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      if (currentDateString) {
+        loadTodayIdeas(currentDateString);
+      }
+    });
+    return unsubscribe;
+  }, [navigation, currentDateString, loadTodayIdeas]);
+
+  // 导出并分享，失败时提示
+  const runExport = async (doExport: () => Promise<ExportResult>, title: string) => {
+    try {
+      const result = await doExport();
+      if (result.ideaCount === 0) {
+        Alert.alert(t('export.title'), t('export.nothingToExport'));
+        return;
+      }
+      await shareExport(result, title);
+    } catch (error) {
+      console.error('❌ Failed to export ideas:', error);
+      Alert.alert(t('common.error'), t('errors.cannotExport'));
+    }
+  };
+
+  // 长按日期：导出当天或当月的想法
+  const handleExportDate = () => {
+    if (!currentDateString) {
+      return;
+    }
+    const [year, month] = currentDateString.split('-').map(Number);
+
+    Alert.alert(t('export.title'), undefined, [
+      {
+        text: t('export.day'),
+        onPress: () => runExport(() => exportDay(currentDateString), currentDate),
+      },
+      {
+        text: t('export.month'),
+        onPress: () => runExport(() => exportMonth(year, month), `${year}-${String(month).padStart(2, '0')}`),
+      },
+      { text: t('common.cancel'), style: 'cancel' },
+    ]);
   };
 
   // 跳转到指定日期
@@ -163,42 +249,113 @@ export default function Home() {
     }
   };
 
-  // 计算分类统计
+  // 打开指定日期的日记，第一次打开时创建
+  const openJournalForDate = async (dateString: string) => {
+    try {
+      const journal = await openJournal(dateString);
+      navigation.navigate('Editor', { idea: journal });
+    } catch (error) {
+      console.error('❌ Failed to open journal:', error);
+      Alert.alert(t('common.error'), t('errors.cannotOpenJournal'));
+    }
+  };
+
+  // 日历的日记模式中点击日期：关闭日历并打开当天的日记
+  const handleCalendarJournalSelect = (dateString: string) => {
+    setShowCalendarModal(false);
+    openJournalForDate(dateString);
+  };
+
+  // 长按日记按钮：选择新日记使用的模板
+  const openJournalTemplatePicker = async () => {
+    try {
+      setJournalTemplateId(await ideaDB.getJournalTemplateId());
+    } catch (error) {
+      console.warn('⚠️ Failed to load journal template setting:', error);
+    }
+    setShowJournalTemplatePicker(true);
+  };
+
+  const handleJournalTemplateChange = async (templateId: number | null) => {
+    setShowJournalTemplatePicker(false);
+    try {
+      await ideaDB.setJournalTemplateId(templateId);
+      setJournalTemplateId(templateId);
+    } catch (error) {
+      console.warn('⚠️ Failed to save journal template setting:', error);
+    }
+  };
+
+  // 计算分类统计：未归档的分类始终显示，已归档的分类有记录时才显示
   const categoryStats = React.useMemo(() => {
-    const todoItems = ideas.filter(i => getFinalContentType(i.hint, i.manualCategory) === ContentType.TODO);
-    const todoCompleted = todoItems.filter(i => i.completed).length;
-    const todoTotal = todoItems.length;
-    const idea = ideas.filter(i => getFinalContentType(i.hint, i.manualCategory) === ContentType.IDEA).length;
-    const learning = ideas.filter(i => getFinalContentType(i.hint, i.manualCategory) === ContentType.LEARNING).length;
-    const note = ideas.filter(i => getFinalContentType(i.hint, i.manualCategory) === ContentType.NOTE).length;
-    
-    return { todo: todoTotal, todoCompleted, idea, learning, note };
-  }, [ideas]);
+    const counts = new Map<string, { total: number; completed: number }>();
+    for (const idea of ideas) {
+      const category = getFinalContentType(idea.hint, idea.manualCategory);
+      const count = counts.get(category) || { total: 0, completed: 0 };
+      count.total++;
+      if (idea.completed) {
+        count.completed++;
+      }
+      counts.set(category, count);
+    }
+
+    return categories
+      .filter(category => !category.archived || counts.has(category.id))
+      .map(category => {
+        const count = counts.get(category.id) || { total: 0, completed: 0 };
+        return category.id === ContentType.TODO
+          ? `${category.icon}${count.completed}/${count.total}`
+          : `${category.icon}${count.total}`;
+      })
+      .join(' | ');
+  }, [ideas, categories]);
 
   // 发送文本消息
   const handleSendMessage = async () => {
     if (inputText.trim()) {
       try {
         const finalCategory = getFinalContentType(inputText);
+        // 待办事项识别"明天下午3点"、"next Friday"等截止时间，并在截止时提醒
+        const due = finalCategory === ContentType.TODO ? parseDueDate(inputText) : null;
+        const dueAt = due ? due.dueAt.toISOString() : undefined;
+        const audioUri = pendingRecording && keepRecording
+          ? await saveRecordingAsAttachment(pendingRecording)
+          : undefined;
         const newIdea: NewIdea = {
           hint: inputText.trim(),
           detail: '',
           date: currentDateString,
           category: finalCategory,
           completed: false,
+          due_at: dueAt,
+          remind_at: dueAt,
+          audio_uri: audioUri,
         };
         
         const dbId = await ideaDB.addIdea(newIdea);
+        if (dueAt) {
+          syncIdeaReminder(dbId).catch(error => {
+            console.warn('⚠️ Failed to schedule reminder:', error);
+          });
+        }
+        // 分类分配了模板时，新想法的页面使用该模板
+        await applyCategoryTemplate(dbId, finalCategory, currentDateString, newIdea.hint);
         
         const newIdeaItem: IdeaItem = {
           id: Date.now().toString(),
           hint: inputText.trim(),
           dbId: dbId,
           completed: false,
+          dueAt,
+          audioUri,
         };
         
         setIdeas(prev => [...prev, newIdeaItem]);
         setInputText('');
+        if (pendingRecording && !audioUri) {
+          discardRecording(pendingRecording);
+        }
+        setPendingRecording(null);
         
         // 添加想法后滚动到底部，让用户看到新添加的内容
         setTimeout(() => {
@@ -211,29 +368,162 @@ export default function Home() {
     }
   };
 
-  // 切换输入模式
-  const toggleInputMode = () => {
-    setInputMode(prev => prev === 'keyboard' ? 'voice' : 'keyboard');
+  // 用选中的模板新建想法：标题为输入的文字（为空时使用模板名称），创建后直接打开页面
+  const handleTemplateSelect = async (template: IdeaTemplate) => {
+    setShowTemplatePicker(false);
+    const hint = inputText.trim() || template.name;
+    try {
+      const audioUri = pendingRecording && keepRecording
+        ? await saveRecordingAsAttachment(pendingRecording)
+        : undefined;
+      const dbId = await ideaDB.addIdea({
+        hint,
+        detail: '',
+        date: currentDateString,
+        category: getFinalContentType(hint),
+        completed: false,
+        audio_uri: audioUri,
+      });
+      await applyTemplateToIdea(dbId, template, currentDateString, hint);
+
+      setInputText('');
+      if (pendingRecording && !audioUri) {
+        discardRecording(pendingRecording);
+      }
+      setPendingRecording(null);
+      await loadTodayIdeas(currentDateString);
+
+      const idea = await ideaDB.getIdeaById(dbId);
+      if (idea) {
+        navigation.navigate('Editor', { idea });
+      }
+    } catch (error) {
+      console.error('❌ Failed to create idea from template:', error);
+      Alert.alert(t('common.error'), t('errors.cannotCreateIdea'));
+    }
+  };
+
+  // 输入框清空时，之前语音输入的录音不再对应任何内容
+  const handleInputChange = (text: string) => {
+    setInputText(text);
+    if (!text.trim() && pendingRecording) {
+      discardRecording(pendingRecording);
+      setPendingRecording(null);
+    }
+  };
+
+  // 切换是否保留录音，并记住选择
+  const toggleKeepRecording = () => {
+    const keep = !keepRecording;
+    setKeepRecording(keep);
+    ideaDB.setKeepVoiceRecordings(keep).catch(error => {
+      console.warn('⚠️ Failed to save voice recording setting:', error);
+    });
+  };
+
+  // 下载离线语音识别模型，完成后进入语音模式
+  const downloadSpeechModel = async (provider: WhisperProvider) => {
+    setInputMode('voice');
+    setModelDownloadProgress(0);
+    try {
+      await provider.downloadModel(setModelDownloadProgress);
+    } catch (error) {
+      console.error('❌ Failed to download speech model:', error);
+      Alert.alert(t('common.error'), t('errors.cannotDownloadModel'));
+      setInputMode('keyboard');
+    } finally {
+      setModelDownloadProgress(null);
+    }
+  };
+
+  // 切换输入模式（首次使用语音输入时需要下载识别模型）
+  const toggleInputMode = async () => {
+    if (inputMode === 'voice') {
+      setInputMode('keyboard');
+      return;
+    }
+
+    const provider = getSpeechToTextProvider();
+    try {
+      if (!(await provider.isAvailable())) {
+        if (provider instanceof WhisperProvider) {
+          Alert.alert(t('voice.modelTitle'), t('voice.modelMessage'), [
+            { text: t('common.cancel'), style: 'cancel' },
+            { text: t('voice.download'), onPress: () => downloadSpeechModel(provider) },
+          ]);
+        } else {
+          Alert.alert(t('common.error'), t('errors.cannotRecognize'));
+        }
+        return;
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to check speech provider:', error);
+    }
+    setInputMode('voice');
   };
 
   // 开始录音
   const startRecording = () => {
+    if (isTranscribing || modelDownloadProgress !== null) {
+      return;
+    }
     setIsRecording(true);
-    // TODO: 实现录音功能
-    console.log('TODO: 开始录音');
+    recordingStartRef.current = voiceRecognizer.start().catch(error => {
+      console.error('❌ Failed to start recording:', error);
+      setIsRecording(false);
+      Alert.alert(t('common.error'), t('errors.cannotRecord'));
+    });
   };
 
-  // 结束录音
-  const stopRecording = () => {
+  // 结束录音并识别，识别出的文字追加到输入框，切换到键盘模式以便修改后发送
+  const stopRecording = async () => {
+    const starting = recordingStartRef.current;
+    if (!starting) {
+      return;
+    }
+    recordingStartRef.current = null;
+    // 松开时录音可能还没开始
+    await starting;
     setIsRecording(false);
-    // TODO: 实现录音结束和语音识别
-    console.log('TODO: 结束录音并进行语音识别');
-    
-    // 临时示例：模拟语音识别结果
-    // const recognizedText = "这是语音识别的结果";
-    // setInputText(recognizedText);
+    if (!voiceRecognizer.isRecording()) {
+      return;
+    }
+
+    setIsTranscribing(true);
+    try {
+      const result = await voiceRecognizer.stop({ language: i18n.language === 'zh' ? 'zh' : 'en' });
+      if (!result) {
+        return;
+      }
+      if (!result.text) {
+        discardRecording(result.audioPath);
+        Alert.alert(t('voice.noSpeech'));
+        return;
+      }
+
+      setInputText(prev => (prev.trim() ? `${prev.trim()} ${result.text}` : result.text));
+      // 多次语音输入时只保留最后一段录音
+      if (pendingRecording) {
+        discardRecording(pendingRecording);
+      }
+      setPendingRecording(result.audioPath);
+      setKeepRecording(await ideaDB.getKeepVoiceRecordings());
+      setInputMode('keyboard');
+    } catch (error) {
+      console.error('❌ Failed to recognize speech:', error);
+      Alert.alert(t('common.error'), t('errors.cannotRecognize'));
+    } finally {
+      setIsTranscribing(false);
+    }
   };
 
+  // 语音按钮上的提示文字
+  const voiceButtonLabel = modelDownloadProgress !== null
+    ? t('voice.downloading', { progress: Math.round(modelDownloadProgress * 100) })
+    : isTranscribing
+      ? t('voice.transcribing')
+      : isRecording ? t('buttons.recording') : t('buttons.pressToRecord');
+
   if (isLoading) {
     return (
       <View style={[
@@ -286,18 +576,29 @@ export default function Home() {
               <Text style={[styles.calendarIcon, { color: theme.texts.secondary }]}>📅</Text>
             </TouchableOpacity>
             
-            {/* 日期与统计信息的容器 */}
-            <View style={styles.centerContent}>
+            {/* 日期与统计信息的容器（长按导出） */}
+            <Pressable style={styles.centerContent} onLongPress={handleExportDate}>
               <Text style={[styles.dateText, { color: theme.texts.primary }]}>
                 {currentDate}
               </Text>
               <View style={styles.statsContainer}>
-                <Text style={[styles.statsText, { color: theme.texts.secondary }]}>
-                  📝{categoryStats.todoCompleted}/{categoryStats.todo} | 💡{categoryStats.idea} | 📚{categoryStats.learning} | 📄{categoryStats.note}
+                <Text style={[styles.statsText, { color: theme.texts.secondary }]} numberOfLines={1}>
+                  {categoryStats}
                 </Text>
               </View>
-            </View>
+            </Pressable>
             
+            {/* 日记按钮（长按选择日记模板） */}
+            <TouchableOpacity 
+              style={styles.journalButton}
+              onPress={() => openJournalForDate(currentDateString)}
+              onLongPress={openJournalTemplatePicker}
+              accessibilityLabel={t('journal.open')}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 6 }}
+            >
+              <Text style={[styles.searchIcon, { color: theme.texts.secondary }]}>📓</Text>
+            </TouchableOpacity>
+
             {/* 搜索按钮 */}
             <TouchableOpacity 
               style={styles.searchButton}
@@ -367,6 +668,28 @@ export default function Home() {
 
         {/* 输入区域 */}
         <View style={styles.inputAreaContainer}>
+          {inputMode === 'keyboard' && pendingRecording && (
+            <TouchableOpacity
+              style={styles.keepRecordingRow}
+              onPress={toggleKeepRecording}
+              hitSlop={{ top: 4, bottom: 4, left: 4, right: 4 }}
+            >
+              <View style={[
+                styles.keepRecordingBox,
+                {
+                  backgroundColor: keepRecording ? theme.buttons.primary : 'transparent',
+                  borderColor: keepRecording ? theme.buttons.primary : theme.borders.input,
+                }
+              ]}>
+                {keepRecording && (
+                  <Text style={[styles.keepRecordingCheck, { color: theme.buttons.primaryText }]}>✓</Text>
+                )}
+              </View>
+              <Text style={[styles.keepRecordingText, { color: theme.texts.secondary }]}>
+                🎙 {t('voice.keepRecording')}
+              </Text>
+            </TouchableOpacity>
+          )}
           {inputMode === 'keyboard' ? (
             /* 键盘模式 - 文本输入框 */
             <TextInput
@@ -379,7 +702,7 @@ export default function Home() {
                 }
               ]}
               value={inputText}
-              onChangeText={setInputText}
+              onChangeText={handleInputChange}
               placeholder={t('placeholders.recordIdea')}
               placeholderTextColor={theme.texts.tertiary}
               multiline={true}
@@ -406,17 +729,32 @@ export default function Home() {
               onPressIn={startRecording}
               onPressOut={stopRecording}
               delayLongPress={100}
+              disabled={isTranscribing || modelDownloadProgress !== null}
             >
               <Text style={[
                 styles.voiceButtonText,
                 { color: isRecording ? theme.buttons.dangerText : theme.texts.secondary }
               ]}>
-                {isRecording ? t('buttons.recording') : t('buttons.pressToRecord')}
+                {voiceButtonLabel}
               </Text>
             </Pressable>
           )}
         </View>
 
+        {/* 模板按钮 (仅在键盘模式下显示)：用模板新建想法 */}
+        {inputMode === 'keyboard' && (
+          <TouchableOpacity
+            style={[
+              styles.templateButton,
+              { backgroundColor: theme.backgrounds.tertiary }
+            ]}
+            onPress={() => setShowTemplatePicker(true)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Lucide name="layout-template" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
+        )}
+
         {/* 发送按钮 (仅在键盘模式下显示) */}
         {inputMode === 'keyboard' && (
           <TouchableOpacity
@@ -448,6 +786,25 @@ export default function Home() {
         currentDateString={currentDateString}
         onClose={() => setShowCalendarModal(false)}
         onDateSelect={navigateToDate}
+        onJournalSelect={handleCalendarJournalSelect}
+      />
+
+      {/* 模板选择 */}
+      <TemplatePickerModal
+        visible={showTemplatePicker}
+        onSelect={handleTemplateSelect}
+        onClose={() => setShowTemplatePicker(false)}
+      />
+
+      {/* 日记模板选择 */}
+      <TemplatePickerModal
+        visible={showJournalTemplatePicker}
+        title={t('journal.templateTitle')}
+        selectedId={journalTemplateId}
+        onSelect={template => handleJournalTemplateChange(template.id)}
+        onSelectNone={() => handleJournalTemplateChange(null)}
+        noneLabel={t('journal.noTemplate')}
+        onClose={() => setShowJournalTemplatePicker(false)}
       />
     </View>
   );
@@ -516,6 +873,13 @@ const styles = StyleSheet.create({
   searchIcon: {
     fontSize: 28,
   },
+  journalButton: {
+    width: 40,
+    height: 44,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   // 新增样式 - 列表容器
   listContainer: {
     flex: 1,
@@ -564,6 +928,35 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
+  keepRecordingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  keepRecordingBox: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  keepRecordingCheck: {
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  keepRecordingText: {
+    fontSize: 13,
+  },
+  templateButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
   sendButton: {
     paddingHorizontal: 20,
     paddingVertical: 12,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -16,8 +16,10 @@ import Feather from '@react-native-vector-icons/feather';
 import { useTranslation } from 'react-i18next';
 import { ideaDB } from '../utils/IdeaDatabase';
 import IdeaList, { IdeaItem } from '../components/IdeaList';
-import { ContentType, RootStackParamList } from '../Types';
-import { CONTENT_TYPES, getFinalContentType } from '../utils/ContentTypeUtils';
+import { ContentType, IdeaRecord, RootStackParamList, TagRecord } from '../Types';
+import { exportIdeas, shareExport } from '../utils/MarkdownExport';
+import { getCategoryConfig, getFinalContentType } from '../utils/ContentTypeUtils';
+import { useCategories } from '../hooks/useCategories';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Icon from '@react-native-vector-icons/fontawesome';
@@ -29,30 +31,40 @@ type DateFilterType = 'all' | 'recent1month' | 'recent3months' | 'recent6months'
 
 interface FilterCriteria {
   keyword: string;
-  categories: ContentType[];
+  categories: string[];
+  tagIds: number[]; // 选中的标签（满足任一即可）
   dateFilterType: DateFilterType;
   customDateRange: {
     startDate: string;
     endDate: string;
   } | null;
   completedFilter: 'all' | 'completed' | 'incomplete'; // 仅对TODO有效
+  openChecklistOnly: boolean; // 只显示编辑器页面中有未完成清单项的想法
 }
 
 export default function Search() {
   const { t } = useTranslation();
   const { theme, getThemedStyle } = useTheme();
+  const categories = useCategories();
   const navigation = useNavigation<SearchNavigationProp>();
   const [filteredIdeas, setFilteredIdeas] = useState<IdeaItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [availableTags, setAvailableTags] = useState<TagRecord[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // 最近一次搜索结果对应的数据库记录，用于导出
+  const resultRecordsRef = useRef<Map<number, IdeaRecord>>(new Map());
   
   // 筛选条件
   const [filters, setFilters] = useState<FilterCriteria>({
     keyword: '',
     categories: [],
+    tagIds: [],
     dateFilterType: 'all',
     customDateRange: null,
     completedFilter: 'all',
+    openChecklistOnly: false,
   });
 
   // 临时筛选条件（用于模态框中的编辑）
@@ -71,25 +83,35 @@ export default function Search() {
   // 执行搜索的核心逻辑
   const performSearch = async (searchFilters: FilterCriteria) => {
     try {
-      let allIdeas = await ideaDB.getAllIdeas();
+      const keyword = searchFilters.keyword.trim();
+
+      // 分类、标签等条件在下面逐条筛选，有筛选条件时不能只取相关度最高的部分结果
+      const hasFilters = searchFilters.categories.length > 0
+        || searchFilters.tagIds.length > 0
+        || searchFilters.dateFilterType !== 'all'
+        || searchFilters.completedFilter !== 'all'
+        || searchFilters.openChecklistOnly;
+
+      // 有关键词时走全文索引（同时搜索hint和Editor中的内容），结果按相关度排序
+      const searchResults = keyword
+        ? await ideaDB.searchFullText(keyword, hasFilters ? null : undefined)
+        : null;
+      const allIdeas = searchResults
+        ? searchResults.map(result => result.idea)
+        : await ideaDB.getAllIdeas();
       
       // 转换为IdeaItem格式
-      let results: IdeaItem[] = allIdeas.map((dbIdea) => ({
+      let results: IdeaItem[] = allIdeas.map((dbIdea, index) => ({
         id: dbIdea.id.toString(),
         hint: dbIdea.hint,
         dbId: dbIdea.id,
         manualCategory: dbIdea.category || undefined,
         completed: !!dbIdea.completed,
+        dueAt: dbIdea.due_at || undefined,
+        audioUri: dbIdea.audio_uri || undefined,
+        snippet: searchResults ? searchResults[index].snippet : undefined,
       }));
 
-      // 应用关键词筛选
-      if (searchFilters.keyword.trim()) {
-        const keyword = searchFilters.keyword.toLowerCase();
-        results = results.filter(idea => 
-          idea.hint.toLowerCase().includes(keyword)
-        );
-      }
-
       // 应用分类筛选
       if (searchFilters.categories.length > 0) {
         results = results.filter(idea => {
@@ -98,6 +120,12 @@ export default function Search() {
         });
       }
 
+      // 应用标签筛选
+      if (searchFilters.tagIds.length > 0) {
+        const taggedIdeaIds = await ideaDB.getIdeaIdsByTagIds(searchFilters.tagIds);
+        results = results.filter(idea => idea.dbId !== undefined && taggedIdeaIds.has(idea.dbId));
+      }
+
       // 应用日期范围筛选
       if (searchFilters.dateFilterType !== 'all') {
         if (searchFilters.dateFilterType === 'custom') {
@@ -158,14 +186,21 @@ export default function Search() {
         });
       }
 
-      // 按创建时间倒序排列
-      const sortedResults = results.sort((a, b) => {
+      // 应用清单筛选
+      if (searchFilters.openChecklistOnly) {
+        const checklistIdeaIds = await ideaDB.getIdeaIdsWithOpenChecklistItems();
+        results = results.filter(idea => idea.dbId !== undefined && checklistIdeaIds.has(idea.dbId));
+      }
+
+      // 关键词搜索保留相关度顺序，否则按创建时间倒序排列
+      const sortedResults = searchResults ? results : results.sort((a, b) => {
         const aDbIdea = allIdeas.find(db => db.id === a.dbId);
         const bDbIdea = allIdeas.find(db => db.id === b.dbId);
         if (!aDbIdea || !bDbIdea) return 0;
         return new Date(bDbIdea.created_at).getTime() - new Date(aDbIdea.created_at).getTime();
       });
 
+      resultRecordsRef.current = new Map(allIdeas.map(dbIdea => [dbIdea.id, dbIdea]));
       setFilteredIdeas(sortedResults);
     } catch (error) {
       console.error('❌ Failed to search ideas:', error);
@@ -175,6 +210,32 @@ export default function Search() {
     }
   };
 
+  // 将当前搜索结果导出为markdown并分享
+  const handleExportResults = async () => {
+    const records = filteredIdeas
+      .map(item => {
+        const record = item.dbId !== undefined ? resultRecordsRef.current.get(item.dbId) : undefined;
+        // 列表中可能已修改过hint，以列表为准
+        return record ? { ...record, hint: item.hint } : undefined;
+      })
+      .filter((record): record is IdeaRecord => record !== undefined);
+    if (records.length === 0) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const result = await exportIdeas(records, `InspiNote-search-${today}`);
+      await shareExport(result, t('export.searchResultsTitle', { count: result.ideaCount }));
+    } catch (error) {
+      console.error('❌ Failed to export search results:', error);
+      Alert.alert(t('common.error'), t('errors.cannotExport'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // 处理关键词输入并实时搜索
   const handleKeywordChange = (text: string) => {
     setFilters(prev => {
@@ -185,9 +246,14 @@ export default function Search() {
   };
 
   // 打开筛选模态框
-  const openFilterModal = () => {
+  const openFilterModal = async () => {
     setTempFilters({ ...filters });
     setShowFilterModal(true);
+    try {
+      setAvailableTags(await ideaDB.getAllTags());
+    } catch (error) {
+      console.error('❌ Failed to load tags:', error);
+    }
   };
 
   // 应用筛选条件
@@ -205,15 +271,17 @@ export default function Search() {
     const defaultFilters: FilterCriteria = {
       keyword: '',
       categories: [],
+      tagIds: [],
       dateFilterType: 'all',
       customDateRange: null,
       completedFilter: 'all',
+      openChecklistOnly: false,
     };
     setTempFilters(defaultFilters);
   };
 
   // 切换分类选择
-  const toggleCategory = (category: ContentType) => {
+  const toggleCategory = (category: string) => {
     setTempFilters(prev => {
       const newCategories = prev.categories.includes(category)
         ? prev.categories.filter(c => c !== category)
@@ -232,6 +300,16 @@ export default function Search() {
     });
   };
 
+  // 切换标签选择
+  const toggleTag = (tagId: number) => {
+    setTempFilters(prev => ({
+      ...prev,
+      tagIds: prev.tagIds.includes(tagId)
+        ? prev.tagIds.filter(id => id !== tagId)
+        : [...prev.tagIds, tagId],
+    }));
+  };
+
   // 设置日期范围
   const setDateRange = (startDate: string, endDate: string) => {
     setTempFilters(prev => ({
@@ -254,8 +332,14 @@ export default function Search() {
   const getActiveFilterCount = () => {
     let count = 0;
     if (filters.categories.length > 0) count++;
+    if (filters.tagIds.length > 0) {
+      count++;
+    }
     if (filters.dateFilterType !== 'all') count++;
     if (filters.completedFilter !== 'all') count++;
+    if (filters.openChecklistOnly) {
+      count++;
+    }
     return count;
   };
 
@@ -302,19 +386,19 @@ export default function Search() {
             <View style={styles.filterSection}>
               <Text style={styles.filterSectionTitle}>📝 内容类型筛选</Text>
               <View style={styles.categoryGrid}>
-                {Object.entries(CONTENT_TYPES).map(([type, config]) => (
+                {categories.filter(config => !config.archived).map(config => (
                   <TouchableOpacity
-                    key={type}
+                    key={config.id}
                     style={[
                       styles.categoryChip,
-                      tempFilters.categories.includes(type as ContentType) && styles.categoryChipSelected
+                      tempFilters.categories.includes(config.id) && styles.categoryChipSelected
                     ]}
-                    onPress={() => toggleCategory(type as ContentType)}
+                    onPress={() => toggleCategory(config.id)}
                   >
                     <Text style={styles.categoryChipIcon}>{config.icon}</Text>
                     <Text style={[
                       styles.categoryChipText,
-                      tempFilters.categories.includes(type as ContentType) && styles.categoryChipTextSelected
+                      tempFilters.categories.includes(config.id) && styles.categoryChipTextSelected
                     ]}>
                       {config.name}
                     </Text>
@@ -323,6 +407,32 @@ export default function Search() {
               </View>
             </View>
 
+            {/* 标签筛选 */}
+            {availableTags.length > 0 && (
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>🏷️ 标签筛选</Text>
+                <View style={styles.categoryGrid}>
+                  {availableTags.map((tag) => (
+                    <TouchableOpacity
+                      key={tag.id}
+                      style={[
+                        styles.categoryChip,
+                        tempFilters.tagIds.includes(tag.id) && styles.categoryChipSelected
+                      ]}
+                      onPress={() => toggleTag(tag.id)}
+                    >
+                      <Text style={[
+                        styles.categoryChipText,
+                        tempFilters.tagIds.includes(tag.id) && styles.categoryChipTextSelected
+                      ]}>
+                        #{tag.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
             {/* 完成状态筛选（仅当选择了TODO类型时显示） */}
             {tempFilters.categories.includes(ContentType.TODO) && (
               <View style={styles.filterSection}>
@@ -353,6 +463,33 @@ export default function Search() {
               </View>
             )}
 
+            {/* 清单筛选 */}
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>☑️ 清单筛选</Text>
+              <View style={styles.completedFilterGrid}>
+                {[
+                  { key: false, label: '全部' },
+                  { key: true, label: '有未完成项' },
+                ].map((option) => (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[
+                      styles.completedChip,
+                      tempFilters.openChecklistOnly === option.key && styles.completedChipSelected
+                    ]}
+                    onPress={() => setTempFilters(prev => ({ ...prev, openChecklistOnly: option.key }))}
+                  >
+                    <Text style={[
+                      styles.completedChipText,
+                      tempFilters.openChecklistOnly === option.key && styles.completedChipTextSelected
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             {/* 时间筛选 */}
             <View style={styles.filterSection}>
               <Text style={styles.filterSectionTitle}>⏰ 时间范围筛选</Text>
@@ -582,6 +719,45 @@ export default function Search() {
           >
             <Feather name="filter" size={20} color={theme.texts.secondary} />
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.filterButton,
+              styles.headerEntryButton,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+              }
+            ]}
+            onPress={() => navigation.navigate('Trash')}
+          >
+            <Feather name="trash-2" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.filterButton,
+              styles.headerEntryButton,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+              }
+            ]}
+            onPress={() => navigation.navigate('Backup')}
+          >
+            <Feather name="archive" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.filterButton,
+              styles.headerEntryButton,
+              {
+                backgroundColor: theme.backgrounds.secondary,
+                borderColor: theme.borders.input,
+              }
+            ]}
+            onPress={() => navigation.navigate('Categories')}
+          >
+            <Feather name="grid" size={20} color={theme.texts.secondary} />
+          </TouchableOpacity>
         </View>
         
         {/* 当前筛选条件展示 */}
@@ -600,7 +776,7 @@ export default function Search() {
                   styles.activeFilterText,
                   { color: theme.buttons.primary }
                 ]}>
-                  类型: {filters.categories.map(cat => CONTENT_TYPES[cat].name).join(', ')}
+                  类型: {filters.categories.map(cat => getCategoryConfig(cat).name).join(', ')}
                 </Text>
                 <TouchableOpacity
                   onPress={() => {
@@ -623,6 +799,42 @@ export default function Search() {
               </View>
             )}
             
+            {/* 标签筛选 */}
+            {filters.tagIds.length > 0 && (
+              <View style={[
+                styles.activeFilterTag,
+                { backgroundColor: theme.special.highlight }
+              ]}>
+                <Text style={[
+                  styles.activeFilterText,
+                  { color: theme.buttons.primary }
+                ]}>
+                  标签: {availableTags
+                    .filter(tag => filters.tagIds.includes(tag.id))
+                    .map(tag => `#${tag.name}`)
+                    .join(', ')}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => {
+                    const newFilters = { ...filters, tagIds: [] };
+                    setFilters(newFilters);
+                    performSearch(newFilters);
+                  }}
+                  style={[
+                    styles.removeFilterButton,
+                    { backgroundColor: theme.buttons.primary }
+                  ]}
+                >
+                  <Text style={[
+                    styles.removeFilterText,
+                    { color: theme.buttons.primaryText }
+                  ]}>
+                    ×
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            
             {/* 时间筛选 */}
             {filters.dateFilterType !== 'all' && (
               <View style={[
@@ -689,15 +901,50 @@ export default function Search() {
               </View>
             )}
             
+            {/* 清单筛选 */}
+            {filters.openChecklistOnly && (
+              <View style={[
+                styles.activeFilterTag,
+                { backgroundColor: theme.special.highlight }
+              ]}>
+                <Text style={[
+                  styles.activeFilterText,
+                  { color: theme.buttons.primary }
+                ]}>
+                  清单: 有未完成项
+                </Text>
+                <TouchableOpacity
+                  onPress={() => {
+                    const newFilters = { ...filters, openChecklistOnly: false };
+                    setFilters(newFilters);
+                    performSearch(newFilters);
+                  }}
+                  style={[
+                    styles.removeFilterButton,
+                    { backgroundColor: theme.buttons.primary }
+                  ]}
+                >
+                  <Text style={[
+                    styles.removeFilterText,
+                    { color: theme.buttons.primaryText }
+                  ]}>
+                    ×
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            
             {/* 清除所有筛选 */}
             <TouchableOpacity
               onPress={() => {
                 const newFilters = {
                   keyword: filters.keyword, // 保留当前的关键词
                   categories: [],
+                  tagIds: [],
                   dateFilterType: 'all' as const,
                   customDateRange: null,
                   completedFilter: 'all' as const,
+                  openChecklistOnly: false,
                 };
                 setFilters(newFilters);
                 performSearch(newFilters);
@@ -720,6 +967,33 @@ export default function Search() {
 
       </View>
 
+      {/* 结果统计与导出 */}
+      {filteredIdeas.length > 0 && (
+        <View style={[styles.resultsBar, { borderBottomColor: theme.borders.secondary }]}>
+          <Text style={[styles.resultsCountText, { color: theme.texts.tertiary }]}>
+            {t('export.resultCount', { count: filteredIdeas.length })}
+          </Text>
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={handleExportResults}
+            disabled={isExporting}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Feather
+              name="share"
+              size={16}
+              color={isExporting ? theme.texts.disabled : theme.buttons.primary}
+            />
+            <Text style={[
+              styles.exportButtonText,
+              { color: isExporting ? theme.texts.disabled : theme.buttons.primary }
+            ]}>
+              {t('export.share')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* 结果列表 */}
       <IdeaList
         ideas={filteredIdeas}
@@ -774,6 +1048,29 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     position: 'relative',
   },
+  // 筛选按钮右侧的页面入口按钮（回收站、备份、分类设置）
+  headerEntryButton: {
+    marginLeft: 8,
+  },
+  resultsBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  resultsCountText: {
+    fontSize: 13,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
 
   filterBadge: {
     position: 'absolute',
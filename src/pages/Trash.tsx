@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Feather from '@react-native-vector-icons/feather';
+import { useTheme } from '../hooks/useTheme';
+import { ideaDB } from '../utils/IdeaDatabase';
+import { getContentIcon } from '../utils/ContentTypeUtils';
+import { TRASH_RETENTION_OPTIONS } from '../utils/config';
+import { syncIdeaReminder } from '../utils/Reminders';
+import { IdeaRecord, NavigationProps } from '../Types';
+
+type TrashProps = NavigationProps<'Trash'>;
+
+export default function Trash({ navigation }: TrashProps) {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [deletedIdeas, setDeletedIdeas] = useState<IdeaRecord[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const [ideas, days] = await Promise.all([
+        ideaDB.getDeletedIdeas(),
+        ideaDB.getTrashRetentionDays(),
+      ]);
+      setDeletedIdeas(ideas);
+      setRetentionDays(days);
+    } catch (error) {
+      console.error('❌ Failed to load trash:', error);
+      Alert.alert(t('common.error'), t('errors.cannotLoadTrash'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  // 恢复想法
+  const handleRestore = async (idea: IdeaRecord) => {
+    try {
+      await ideaDB.restoreIdea(idea.id);
+      setDeletedIdeas(prev => prev.filter(i => i.id !== idea.id));
+      if (idea.remind_at) {
+        syncIdeaReminder(idea.id).catch(error => {
+          console.warn('⚠️ Failed to reschedule reminder:', error);
+        });
+      }
+    } catch (error) {
+      console.error('❌ Failed to restore idea:', error);
+      Alert.alert(t('common.error'), t('errors.cannotRestoreIdea'));
+    }
+  };
+
+  // 永久删除想法
+  const handlePermanentDelete = (idea: IdeaRecord) => {
+    Alert.alert(
+      t('trash.deleteForeverTitle'),
+      t('trash.deleteForeverMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ideaDB.permanentlyDeleteIdea(idea.id);
+              setDeletedIdeas(prev => prev.filter(i => i.id !== idea.id));
+            } catch (error) {
+              console.error('❌ Failed to permanently delete idea:', error);
+              Alert.alert(t('common.error'), t('errors.cannotDeleteIdea'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // 清空回收站
+  const handleEmptyTrash = () => {
+    if (deletedIdeas.length === 0) {
+      return;
+    }
+    Alert.alert(
+      t('trash.emptyTitle'),
+      t('trash.emptyMessage', { count: deletedIdeas.length }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('trash.empty'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ideaDB.emptyTrash();
+              setDeletedIdeas([]);
+            } catch (error) {
+              console.error('❌ Failed to empty trash:', error);
+              Alert.alert(t('common.error'), t('errors.cannotDeleteIdea'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // 修改保留天数后立即清理过期项
+  const handleRetentionChange = async (days: number) => {
+    try {
+      setRetentionDays(days);
+      await ideaDB.setTrashRetentionDays(days);
+      await ideaDB.purgeExpiredTrash();
+      setDeletedIdeas(await ideaDB.getDeletedIdeas());
+    } catch (error) {
+      console.error('❌ Failed to update trash retention:', error);
+    }
+  };
+
+  const renderItem = ({ item }: { item: IdeaRecord }) => (
+    <View style={[
+      styles.itemContainer,
+      {
+        backgroundColor: theme.backgrounds.secondary,
+        borderColor: theme.borders.secondary,
+      }
+    ]}>
+      <Text style={[styles.itemIcon, { color: theme.texts.secondary }]}>
+        {getContentIcon(item.hint, item.category)}
+      </Text>
+      <View style={styles.itemContent}>
+        <Text style={[styles.itemHint, { color: theme.texts.primary }]} numberOfLines={2}>
+          {item.hint || t('trash.untitled')}
+        </Text>
+        <Text style={[styles.itemMeta, { color: theme.texts.tertiary }]}>
+          {item.date} · {t('trash.deletedAt', { time: item.deleted_at })}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+        onPress={() => handleRestore(item)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Feather name="rotate-ccw" size={16} color={theme.buttons.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.actionButton, { backgroundColor: theme.backgrounds.tertiary }]}
+        onPress={() => handlePermanentDelete(item)}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      >
+        <Feather name="trash-2" size={16} color={theme.buttons.danger} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgrounds.primary }]}>
+      {/* 头部 */}
+      <View style={[
+        styles.header,
+        {
+          backgroundColor: theme.backgrounds.primary,
+          borderBottomColor: theme.borders.primary,
+          paddingTop: insets.top + 20,
+        }
+      ]}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => navigation.goBack()}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Feather name="chevron-left" size={24} color={theme.texts.secondary} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.texts.primary }]}>
+            {t('trash.title')}
+          </Text>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleEmptyTrash}
+            disabled={deletedIdeas.length === 0}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[
+              styles.emptyButtonText,
+              { color: deletedIdeas.length > 0 ? theme.buttons.danger : theme.texts.disabled }
+            ]}>
+              {t('trash.empty')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* 保留期限 */}
+        <View style={styles.retentionRow}>
+          <Text style={[styles.retentionLabel, { color: theme.texts.secondary }]}>
+            {t('trash.retention')}
+          </Text>
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[
+                styles.retentionChip,
+                {
+                  backgroundColor: retentionDays === days ? theme.buttons.primary : theme.backgrounds.secondary,
+                  borderColor: retentionDays === days ? theme.buttons.primary : theme.borders.secondary,
+                }
+              ]}
+              onPress={() => handleRetentionChange(days)}
+            >
+              <Text style={[
+                styles.retentionChipText,
+                { color: retentionDays === days ? theme.buttons.primaryText : theme.texts.primary }
+              ]}>
+                {t('trash.days', { count: days })}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <Text style={[styles.placeholderText, { color: theme.texts.secondary }]}>
+            {t('common.loading')}
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={deletedIdeas}
+          renderItem={renderItem}
+          keyExtractor={item => item.id.toString()}
+          contentContainerStyle={styles.listContent}
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+          ListEmptyComponent={
+            <View style={styles.centerContainer}>
+              <Text style={[styles.placeholderText, { color: theme.texts.tertiary }]}>
+                {t('trash.emptyList')}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerButton: {
+    minWidth: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  emptyButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  retentionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 8,
+  },
+  retentionLabel: {
+    fontSize: 13,
+  },
+  retentionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  retentionChipText: {
+    fontSize: 12,
+  },
+  listContent: {
+    padding: 24,
+    flexGrow: 1,
+  },
+  itemContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  itemIcon: {
+    fontSize: 16,
+    marginRight: 12,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemHint: {
+    fontSize: 16,
+    lineHeight: 20,
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 80,
+  },
+  placeholderText: {
+    fontSize: 16,
+  },
+});
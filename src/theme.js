@@ -63,6 +63,18 @@ export const lightTheme = {
       todayText: '#2196f3',
       markedDot: '#ff5722'
     }
+  },
+
+  // 代码块语法高亮
+  code: {
+    background: '#f6f8fa',   // 代码块背景
+    text: '#24292e',         // 普通代码
+    keyword: '#d73a49',      // 关键字
+    string: '#032f62',       // 字符串
+    comment: '#6a737d',      // 注释
+    number: '#005cc5',       // 数字和常量
+    function: '#6f42c1',     // 函数调用
+    type: '#e36209'          // 类型名（首字母大写的标识符）
   }
 };
 
@@ -131,6 +143,18 @@ export const darkTheme = {
       todayText: '#64b5f6',
       markedDot: '#ff7043'
     }
+  },
+
+  // 代码块语法高亮
+  code: {
+    background: '#252527',   // 代码块背景
+    text: '#e1e4e8',         // 普通代码
+    keyword: '#f97583',      // 关键字
+    string: '#9ecbff',       // 字符串
+    comment: '#8b949e',      // 注释
+    number: '#79b8ff',       // 数字和常量
+    function: '#b392f0',     // 函数调用
+    type: '#ffab70'          // 类型名（首字母大写的标识符）
   }
 };
 
@@ -0,0 +1,390 @@
+import RNFS from 'react-native-fs';
+import IdeaDatabase, { ideaDB } from './IdeaDatabase';
+import { AUDIO_DIR, IMAGES_DIR, uriToPath } from './MediaStorage';
+import { loadCategories, loadCategoryFeedback } from './ContentTypeUtils';
+import { BlockType, RevisionBlock } from '../Types';
+
+// 备份文件存放目录
+export const BACKUPS_DIR = `${RNFS.DocumentDirectoryPath}/backups`;
+
+// 备份文件格式标识与版本（归档结构变化时递增，与数据库schema版本无关）
+// 版本2：加入录音文件
+export const BACKUP_FORMAT = 'inspinote-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+export const BACKUP_FILE_EXTENSION = '.inspinote';
+
+// 恢复备份时使用的临时数据库
+const RESTORE_DATABASE_NAME = 'InspiNote-restore.db';
+
+// 恢复方式：合并到现有数据，或替换全部数据
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupManifest {
+  format: string;
+  formatVersion: number;
+  schemaVersion: number; // 备份时数据库的user_version
+  createdAt: string;
+  counts: {
+    ideas: number;
+    blocks: number;
+    images: number;
+    audio?: number; // 格式版本2起
+  };
+}
+
+// 备份归档：表数据按表名存放，图片和录音以文件名为键、base64内容为值
+export interface BackupArchive {
+  manifest: BackupManifest;
+  data: Record<string, any[]>;
+  images: Record<string, string>;
+  audio: Record<string, string>;
+}
+
+// 归档中的媒体文件种类，与BackupArchive中的字段同名
+type MediaKind = 'images' | 'audio';
+
+// 各类媒体文件在本机的存储目录
+const MEDIA_DIRS: Record<MediaKind, string> = {
+  images: IMAGES_DIR,
+  audio: AUDIO_DIR,
+};
+
+// 内容为媒体文件uri的block类型
+const getBlockMediaKind = (type: string): MediaKind | null => {
+  switch (type) {
+    case BlockType.IMAGE:
+      return 'images';
+    case BlockType.AUDIO:
+      return 'audio';
+    default:
+      return null;
+  }
+};
+
+export interface BackupFileInfo {
+  name: string;
+  path: string;
+  size: number;
+  modifiedAt?: Date;
+}
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  ideas: number; // 恢复（或合并新增）的想法数量
+  skipped: number; // 合并时已存在而跳过的想法数量
+  images: number;
+  audio: number;
+}
+
+// 获取uri中的文件名
+const getFileName = (uri: string) => uriToPath(uri).split('/').pop() || uri;
+
+// 收集数据中引用的所有图片和录音文件名（包括语音输入保留的录音和版本历史中的文件）
+const collectMediaNames = (data: Record<string, any[]>): Record<MediaKind, Set<string>> => {
+  const names: Record<MediaKind, Set<string>> = { images: new Set(), audio: new Set() };
+  const collectBlock = (block: { type: string; content: string }) => {
+    const kind = getBlockMediaKind(block.type);
+    if (kind) {
+      names[kind].add(getFileName(block.content));
+    }
+  };
+
+  for (const idea of data.ideas || []) {
+    if (idea.audio_uri) {
+      names.audio.add(getFileName(idea.audio_uri));
+    }
+  }
+  for (const block of data.blocks || []) {
+    collectBlock(block);
+  }
+  for (const revision of data.idea_revisions || []) {
+    try {
+      (JSON.parse(revision.blocks_json) as RevisionBlock[]).forEach(collectBlock);
+    } catch (error) {
+      console.warn('⚠️ Invalid revision snapshot in backup:', error);
+    }
+  }
+  return names;
+};
+
+// 将媒体block和想法的录音指向本机的媒体目录（备份中的绝对路径在其他设备或重装后会失效）
+const relinkMedia = (data: Record<string, any[]>, media: Record<MediaKind, Record<string, string>>) => {
+  const relink = (kind: MediaKind, uri: string) => {
+    const fileName = getFileName(uri);
+    return media[kind][fileName] !== undefined ? `file://${MEDIA_DIRS[kind]}/${fileName}` : uri;
+  };
+  const relinkBlock = <T extends { type: string; content: string }>(block: T): T => {
+    const kind = getBlockMediaKind(block.type);
+    return kind ? { ...block, content: relink(kind, block.content) } : block;
+  };
+
+  for (const idea of data.ideas || []) {
+    if (idea.audio_uri) {
+      idea.audio_uri = relink('audio', idea.audio_uri);
+    }
+  }
+  for (const block of data.blocks || []) {
+    block.content = relinkBlock(block).content;
+  }
+  for (const revision of data.idea_revisions || []) {
+    try {
+      const blocks = (JSON.parse(revision.blocks_json) as RevisionBlock[]).map(relinkBlock);
+      revision.blocks_json = JSON.stringify(blocks);
+    } catch (error) {
+      console.warn('⚠️ Invalid revision snapshot in backup:', error);
+    }
+  }
+};
+
+// 校验归档中的媒体文件：文件名不能包含路径，内容为base64字符串
+const validateMediaFiles = (files: any, label: string): Record<string, string> => {
+  if (typeof files !== 'object' || files === null || Object.values(files).some(content => typeof content !== 'string')) {
+    throw new Error(`备份文件中的${label}数据无效`);
+  }
+  if (Object.keys(files).some(name => name.includes('/') || name.includes('..'))) {
+    throw new Error(`备份文件中的${label}文件名无效`);
+  }
+  return files;
+};
+
+/**
+ * 校验备份归档的结构，返回类型化的归档
+ * 不支持的格式版本或来自更新版本应用的备份会抛出错误
+ */
+export const validateArchive = (archive: any): BackupArchive => {
+  const manifest = archive?.manifest;
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    throw new Error('不是有效的InspiNote备份文件');
+  }
+  if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error('不支持的备份格式版本');
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion < 1) {
+    throw new Error('备份文件缺少数据库版本');
+  }
+  if (manifest.schemaVersion > IdeaDatabase.currentVersion) {
+    throw new Error('备份来自更新版本的应用，请先升级应用');
+  }
+
+  const data = archive.data;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.ideas)) {
+    throw new Error('备份文件缺少想法数据');
+  }
+  for (const [table, rows] of Object.entries(data)) {
+    if (!IdeaDatabase.BACKUP_TABLES.includes(table) || !Array.isArray(rows)) {
+      throw new Error(`备份文件包含无效的数据表: ${table}`);
+    }
+  }
+  // blocks表在版本5才出现
+  if (manifest.schemaVersion >= 5 && !Array.isArray(data.blocks)) {
+    throw new Error('备份文件缺少Block数据');
+  }
+
+  // 格式版本1的备份没有录音
+  const images = validateMediaFiles(archive.images ?? {}, '图片');
+  const audio = validateMediaFiles(archive.audio ?? {}, '录音');
+
+  return { manifest, data, images, audio };
+};
+
+// 生成备份文件名，例如 InspiNote-20240101-083000.inspinote
+const buildBackupFileName = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `InspiNote-${day}-${time}${BACKUP_FILE_EXTENSION}`;
+};
+
+// 读取引用到的媒体文件内容，已不存在的文件跳过
+const readMediaFiles = async (kind: MediaKind, fileNames: Set<string>): Promise<Record<string, string>> => {
+  const files: Record<string, string> = {};
+  for (const fileName of fileNames) {
+    const path = `${MEDIA_DIRS[kind]}/${fileName}`;
+    if (await RNFS.exists(path)) {
+      files[fileName] = await RNFS.readFile(path, 'base64');
+    } else {
+      console.warn('⚠️ Media file referenced by backup not found:', path);
+    }
+  }
+  return files;
+};
+
+/**
+ * 创建完整备份：所有表数据、清单和引用到的图片、录音写入单个归档文件
+ * @returns 备份文件路径
+ */
+export const createBackup = async (): Promise<string> => {
+  try {
+    const schemaVersion = await ideaDB.getSchemaVersion();
+    const data = await ideaDB.dumpTables();
+
+    const mediaNames = collectMediaNames(data);
+    const images = await readMediaFiles('images', mediaNames.images);
+    const audio = await readMediaFiles('audio', mediaNames.audio);
+
+    const now = new Date();
+    const archive: BackupArchive = {
+      manifest: {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion,
+        createdAt: now.toISOString(),
+        counts: {
+          ideas: data.ideas?.length ?? 0,
+          blocks: data.blocks?.length ?? 0,
+          images: Object.keys(images).length,
+          audio: Object.keys(audio).length,
+        },
+      },
+      data,
+      images,
+      audio,
+    };
+
+    await RNFS.mkdir(BACKUPS_DIR);
+    const backupPath = `${BACKUPS_DIR}/${buildBackupFileName(now)}`;
+    await RNFS.writeFile(backupPath, JSON.stringify(archive), 'utf8');
+    return backupPath;
+  } catch (error) {
+    console.error('❌ Error creating backup:', error);
+    throw new Error('创建备份失败');
+  }
+};
+
+// 列出备份目录中的备份文件（最新的在前）
+export const listBackups = async (): Promise<BackupFileInfo[]> => {
+  if (!(await RNFS.exists(BACKUPS_DIR))) {
+    return [];
+  }
+
+  const items = await RNFS.readDir(BACKUPS_DIR);
+  return items
+    .filter(item => item.isFile() && item.name.endsWith(BACKUP_FILE_EXTENSION))
+    .map(item => ({
+      name: item.name,
+      path: item.path,
+      size: Number(item.size),
+      modifiedAt: item.mtime,
+    }))
+    .sort((a, b) => b.name.localeCompare(a.name));
+};
+
+// 删除备份文件
+export const deleteBackup = async (path: string): Promise<void> => {
+  if (await RNFS.exists(path)) {
+    await RNFS.unlink(path);
+  }
+};
+
+// 读取并校验备份文件
+export const readBackup = async (path: string): Promise<BackupArchive> => {
+  let archive: any;
+  try {
+    archive = JSON.parse(await RNFS.readFile(path, 'utf8'));
+  } catch (error) {
+    console.error('❌ Error reading backup:', error);
+    throw new Error('无法读取备份文件');
+  }
+  return validateArchive(archive);
+};
+
+/**
+ * 将备份数据迁移到当前版本的表结构
+ * 在临时数据库中按备份的schema版本建表、写入数据，再执行IdeaDatabase的迁移
+ */
+const upgradeBackupData = async (archive: BackupArchive): Promise<Record<string, any[]>> => {
+  const restoreDB = new IdeaDatabase(RESTORE_DATABASE_NAME);
+  await restoreDB.destroy(); // 清理上次失败残留的临时数据库
+
+  try {
+    await restoreDB.initialize(archive.manifest.schemaVersion);
+    await restoreDB.loadTables(archive.data);
+    await restoreDB.migrateToLatest();
+    return await restoreDB.dumpTables();
+  } finally {
+    await restoreDB.destroy();
+  }
+};
+
+// 写入备份中的媒体文件，overwrite为false时保留已存在的同名文件
+const writeMediaFiles = async (kind: MediaKind, files: Record<string, string>, overwrite: boolean): Promise<void> => {
+  await RNFS.mkdir(MEDIA_DIRS[kind]);
+  for (const [fileName, content] of Object.entries(files)) {
+    const path = `${MEDIA_DIRS[kind]}/${fileName}`;
+    if (!overwrite && (await RNFS.exists(path))) {
+      continue;
+    }
+    await RNFS.writeFile(path, content, 'base64');
+  }
+};
+
+// 替换数据后删除备份中不再引用的旧媒体文件
+const removeUnreferencedMediaFiles = async (kind: MediaKind, files: Record<string, string>): Promise<void> => {
+  if (!(await RNFS.exists(MEDIA_DIRS[kind]))) {
+    return;
+  }
+
+  for (const item of await RNFS.readDir(MEDIA_DIRS[kind])) {
+    if (item.isFile() && files[item.name] === undefined) {
+      try {
+        await RNFS.unlink(item.path);
+      } catch (error) {
+        console.warn('⚠️ Failed to delete media file:', item.path, error);
+      }
+    }
+  }
+};
+
+// 恢复后重新加载分类和分类记录（失败不影响恢复结果）
+const reloadCategories = async (): Promise<void> => {
+  try {
+    await loadCategories();
+    await loadCategoryFeedback();
+  } catch (error) {
+    console.warn('⚠️ Failed to reload categories after restore:', error);
+  }
+};
+
+/**
+ * 从备份文件恢复数据
+ * @param path 备份文件路径
+ * @param mode merge：合并到现有数据；replace：替换全部现有数据
+ */
+export const restoreBackup = async (path: string, mode: RestoreMode): Promise<RestoreResult> => {
+  const archive = await readBackup(path);
+
+  try {
+    relinkMedia(archive.data, archive);
+    const data = await upgradeBackupData(archive);
+
+    await writeMediaFiles('images', archive.images, mode === 'replace');
+    await writeMediaFiles('audio', archive.audio, mode === 'replace');
+
+    if (mode === 'replace') {
+      await ideaDB.replaceAllData(data);
+      await removeUnreferencedMediaFiles('images', archive.images);
+      await removeUnreferencedMediaFiles('audio', archive.audio);
+      await reloadCategories();
+      return {
+        mode,
+        ideas: data.ideas?.length ?? 0,
+        skipped: 0,
+        images: Object.keys(archive.images).length,
+        audio: Object.keys(archive.audio).length,
+      };
+    }
+
+    const { added, skipped } = await ideaDB.mergeData(data);
+    await reloadCategories();
+    return {
+      mode,
+      ideas: added,
+      skipped,
+      images: Object.keys(archive.images).length,
+      audio: Object.keys(archive.audio).length,
+    };
+  } catch (error) {
+    console.error('❌ Error restoring backup:', error);
+    throw new Error('恢复备份失败');
+  }
+};
@@ -0,0 +1,263 @@
+import { Block, BlockAttrs, BlockType } from '../Types';
+
+// 最多保留的撤销步数
+const MAX_STEPS = 100;
+
+// 同一个block的连续输入间隔不超过该时间时合并为一步
+const TYPING_PAUSE_MS = 1000;
+
+// 撤销/重做关注的block内容，不包括isActive、光标等编辑状态
+export interface BlockSnapshot {
+  id: string;
+  type: BlockType;
+  content: string;
+  color?: string;
+  attrs?: BlockAttrs;
+}
+
+// block级别的操作
+export type BlockCommand =
+  | { kind: 'insert'; block: BlockSnapshot }
+  | { kind: 'delete'; block: BlockSnapshot }
+  | { kind: 'update'; before: BlockSnapshot; after: BlockSnapshot };
+
+// 一步操作的类型（split：修改一个block并插入新block，merge：修改一个block并删除另一个）
+export type HistoryStepKind = 'insert' | 'delete' | 'split' | 'merge' | 'edit' | 'type' | 'color' | 'move';
+
+export interface HistoryStep {
+  kind: HistoryStepKind;
+  commands: BlockCommand[];
+  order: { before: string[]; after: string[] } | null; // blocks的顺序有变化时记录前后的ID顺序
+  time: number;
+}
+
+const toSnapshot = (block: Block): BlockSnapshot => ({
+  id: block.id,
+  type: block.type,
+  content: block.content,
+  color: block.color,
+  attrs: block.attrs,
+});
+
+const isSameAttrs = (a?: BlockAttrs, b?: BlockAttrs) => JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+
+const isSameSnapshot = (a: BlockSnapshot, b: BlockSnapshot) =>
+  a.type === b.type && a.content === b.content && (a.color || '') === (b.color || '') && isSameAttrs(a.attrs, b.attrs);
+
+/**
+ * 对比编辑前后的blocks，得到block级别的操作
+ * 只改变了isActive、光标、isDirty时没有操作
+ */
+export const diffBlocks = (prev: Block[], next: Block[]): Pick<HistoryStep, 'commands' | 'order'> => {
+  const prevById = new Map(prev.map(block => [block.id, block]));
+  const nextIds = new Set(next.map(block => block.id));
+  const commands: BlockCommand[] = [];
+
+  for (const block of prev) {
+    if (!nextIds.has(block.id)) {
+      commands.push({ kind: 'delete', block: toSnapshot(block) });
+    }
+  }
+  for (const block of next) {
+    const previous = prevById.get(block.id);
+    if (!previous) {
+      commands.push({ kind: 'insert', block: toSnapshot(block) });
+    } else if (!isSameSnapshot(toSnapshot(previous), toSnapshot(block))) {
+      commands.push({ kind: 'update', before: toSnapshot(previous), after: toSnapshot(block) });
+    }
+  }
+
+  const before = prev.map(block => block.id);
+  const after = next.map(block => block.id);
+  const order = before.join('\n') === after.join('\n') ? null : { before, after };
+  return { commands, order };
+};
+
+// 根据操作判断这一步的类型
+export const classifyStep = (commands: BlockCommand[], order: HistoryStep['order']): HistoryStepKind => {
+  const count = (kind: BlockCommand['kind']) => commands.filter(command => command.kind === kind).length;
+  const inserts = count('insert');
+  const deletes = count('delete');
+  const updates = commands.filter((command): command is Extract<BlockCommand, { kind: 'update' }> => command.kind === 'update');
+
+  if (commands.length === 0) {
+    return order ? 'move' : 'edit';
+  }
+  if (updates.length === 1 && inserts === 1 && deletes === 0) {
+    return 'split';
+  }
+  if (updates.length === 1 && deletes === 1 && inserts === 0) {
+    return 'merge';
+  }
+  if (updates.length === 0) {
+    if (deletes === 0) {
+      return 'insert';
+    }
+    if (inserts === 0) {
+      return 'delete';
+    }
+    return 'edit';
+  }
+  if (inserts > 0 || deletes > 0) {
+    return 'edit';
+  }
+  if (updates.some(({ before, after }) => before.type !== after.type)) {
+    return 'type';
+  }
+  if (updates.every(({ before, after }) => before.content === after.content && isSameAttrs(before.attrs, after.attrs))) {
+    return 'color';
+  }
+  return 'edit';
+};
+
+/**
+ * Editor的撤销/重做历史
+ * 每次blocks变化时调用record记录一步，连续输入同一个block的内容合并为一步
+ */
+export class BlockHistory {
+  private undoStack: HistoryStep[] = [];
+  private redoStack: HistoryStep[] = [];
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * 从历史中移除指定blocks的操作（blocks已移到其他想法），撤销/重做时不会再把它们恢复回来
+   * 移除后没有任何变化的步骤一并丢弃
+   */
+  forgetBlocks(ids: Set<string>) {
+    const forget = (steps: HistoryStep[]) => steps.flatMap(step => {
+      const commands = step.commands.filter(command =>
+        !ids.has(command.kind === 'update' ? command.after.id : command.block.id));
+      let order = step.order;
+      if (order) {
+        const before = order.before.filter(id => !ids.has(id));
+        const after = order.after.filter(id => !ids.has(id));
+        order = before.join('\n') === after.join('\n') ? null : { before, after };
+      }
+      if (commands.length === 0 && !order) {
+        return [];
+      }
+      return [{ ...step, kind: classifyStep(commands, order), commands, order }];
+    });
+    this.undoStack = forget(this.undoStack);
+    this.redoStack = forget(this.redoStack);
+  }
+
+  /**
+   * 记录一次blocks变化，没有block级别的变化时返回false
+   */
+  record(prev: Block[], next: Block[], time = Date.now()): boolean {
+    const { commands, order } = diffBlocks(prev, next);
+    if (commands.length === 0 && !order) {
+      return false;
+    }
+
+    const step: HistoryStep = { kind: classifyStep(commands, order), commands, order, time };
+    this.redoStack = [];
+
+    if (this.mergeTyping(step)) {
+      return true;
+    }
+
+    this.undoStack.push(step);
+    if (this.undoStack.length > MAX_STEPS) {
+      this.undoStack.shift();
+    }
+    return true;
+  }
+
+  // 与上一步是同一个block的连续输入时合并
+  private mergeTyping(step: HistoryStep): boolean {
+    const last = this.undoStack[this.undoStack.length - 1];
+    const [command] = step.commands;
+    const [lastCommand] = last?.commands ?? [];
+    if (
+      !last || last.kind !== 'edit' || step.kind !== 'edit' || last.order || step.order
+      || step.commands.length !== 1 || last.commands.length !== 1
+      || command.kind !== 'update' || lastCommand.kind !== 'update'
+      || command.after.id !== lastCommand.after.id
+      || step.time - last.time > TYPING_PAUSE_MS
+    ) {
+      return false;
+    }
+
+    if (isSameSnapshot(lastCommand.before, command.after)) {
+      // 输入后又删掉，相当于没有修改
+      this.undoStack.pop();
+    } else {
+      last.commands = [{ kind: 'update', before: lastCommand.before, after: command.after }];
+      last.time = step.time;
+    }
+    return true;
+  }
+
+  /**
+   * 撤销上一步，返回撤销后的blocks，没有可撤销的操作时返回null
+   */
+  undo(blocks: Block[]): Block[] | null {
+    const step = this.undoStack.pop();
+    if (!step) {
+      return null;
+    }
+    this.redoStack.push(step);
+    return applyStep(blocks, step, 'undo');
+  }
+
+  /**
+   * 重做上一步撤销的操作，返回重做后的blocks，没有可重做的操作时返回null
+   */
+  redo(blocks: Block[]): Block[] | null {
+    const step = this.redoStack.pop();
+    if (!step) {
+      return null;
+    }
+    this.undoStack.push(step);
+    return applyStep(blocks, step, 'redo');
+  }
+}
+
+// 正向或反向执行一步操作，变化的blocks标记为dirty以便自动保存
+const applyStep = (blocks: Block[], step: HistoryStep, direction: 'undo' | 'redo'): Block[] => {
+  const isUndo = direction === 'undo';
+  const byId = new Map(blocks.map(block => [block.id, block]));
+
+  const put = (snapshot: BlockSnapshot) => {
+    const existing = byId.get(snapshot.id);
+    byId.set(snapshot.id, {
+      ...snapshot,
+      isActive: existing?.isActive ?? false,
+      cursorPosition: Math.min(existing?.cursorPosition ?? 0, snapshot.content.length),
+      isDirty: true,
+    });
+  };
+
+  const commands = isUndo ? [...step.commands].reverse() : step.commands;
+  for (const command of commands) {
+    if (command.kind === 'update') {
+      put(isUndo ? command.before : command.after);
+    } else if ((command.kind === 'insert') !== isUndo) {
+      put(command.block);
+    } else {
+      byId.delete(command.block.id);
+    }
+  }
+
+  const order = step.order ? (isUndo ? step.order.before : step.order.after) : blocks.map(block => block.id);
+  const orderedIds = [...order.filter(id => byId.has(id)), ...[...byId.keys()].filter(id => !order.includes(id))];
+  return orderedIds.map((id, index) => {
+    const block = byId.get(id)!;
+    // 位置变化的block需要保存新的order_index
+    return blocks[index]?.id === id ? block : { ...block, isDirty: true };
+  });
+};
@@ -0,0 +1,37 @@
+// Editor中拖动排序blocks的纯函数，拖动的可以是一个block或连续选中的多个block
+
+export interface BlockRange {
+  start: number;
+  count: number;
+}
+
+/**
+ * 移动连续的一段元素
+ * target为移动后这一段第一个元素的位置（0 ~ items.length - count）
+ */
+export const moveRange = <T>(items: T[], start: number, count: number, target: number): T[] => {
+  const moving = items.slice(start, start + count);
+  const rest = [...items.slice(0, start), ...items.slice(start + count)];
+  const position = Math.max(0, Math.min(target, rest.length));
+  return [...rest.slice(0, position), ...moving, ...rest.slice(position)];
+};
+
+/**
+ * 根据拖动距离计算放下的位置
+ * heights为按顺序排列的各block高度，被拖动的一段的中心越过其他block原位置的中线就放到它之后
+ */
+export const getDropIndex = (heights: number[], start: number, count: number, offsetY: number): number => {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const center = sum(heights.slice(0, start)) + offsetY + sum(heights.slice(start, start + count)) / 2;
+
+  let top = 0;
+  let target = 0;
+  heights.forEach((height, index) => {
+    const isDragged = index >= start && index < start + count;
+    if (!isDragged && center > top + height / 2) {
+      target++;
+    }
+    top += height;
+  });
+  return target;
+};
@@ -0,0 +1,64 @@
+// 清单block的内容使用markdown任务列表语法保存，每行一项：- [ ] 未完成 / - [x] 已完成
+
+export interface ChecklistItem {
+  checked: boolean;
+  text: string;
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// 保存时使用的前缀
+export const OPEN_ITEM_PREFIX = '- [ ] ';
+export const DONE_ITEM_PREFIX = '- [x] ';
+
+// 一行任务列表项：- [ ] text、* [x] text 等
+const TASK_ITEM_PATTERN = /^\s*[-*+]\s+\[([ xX])\]\s?(.*)$/;
+
+// 在markdown block行首输入任务语法时转换为清单block
+const TASK_PREFIX_PATTERN = /^\s*[-*+]\s+\[([ xX])\]\s/;
+
+/**
+ * 判断markdown文本是否以任务列表语法开头
+ * 用于在编辑时把输入了"- [ ] "的markdown block转换为清单block
+ */
+export const startsWithTaskPrefix = (text: string): boolean => TASK_PREFIX_PATTERN.test(text);
+
+/**
+ * 解析清单内容
+ * 不带任务语法的行视为未完成的项，空行忽略（但保留最后一个空项，便于继续输入）
+ */
+export const parseChecklist = (content: string): ChecklistItem[] => {
+  const lines = content.split('\n');
+  const items: ChecklistItem[] = [];
+  lines.forEach((line, index) => {
+    const match = line.match(TASK_ITEM_PATTERN);
+    if (match) {
+      items.push({ checked: match[1] !== ' ', text: match[2] });
+    } else if (line.trim() || index === lines.length - 1) {
+      items.push({ checked: false, text: line.trim() });
+    }
+  });
+  return items.length > 0 ? items : [{ checked: false, text: '' }];
+};
+
+// 将清单项序列化为block内容
+export const serializeChecklist = (items: ChecklistItem[]): string =>
+  items.map(item => `${item.checked ? DONE_ITEM_PREFIX : OPEN_ITEM_PREFIX}${item.text}`).join('\n');
+
+// 统计清单进度，没有文字的空项不计入
+export const getChecklistProgress = (items: ChecklistItem[]): ChecklistProgress => {
+  const filled = items.filter(item => item.text.trim() !== '');
+  return {
+    done: filled.filter(item => item.checked).length,
+    total: filled.length,
+  };
+};
+
+// 切换指定项的完成状态，返回新的block内容
+export const toggleChecklistItem = (content: string, index: number): string =>
+  serializeChecklist(parseChecklist(content).map((item, i) =>
+    i === index ? { ...item, checked: !item.checked } : item
+  ));
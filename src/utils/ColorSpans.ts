@@ -0,0 +1,230 @@
+import { findMarkedFormatSpans } from './TextFormatting';
+
+// 行内颜色语法 [文字](color:值)，值可以是#rgb、#rrggbb或颜色名
+const COLOR_SPAN_PATTERN = /\[([^\]]*)\]\(color:([^)\s]+)\)/g;
+
+// 颜色语法渲染后的链接地址前缀
+export const COLOR_SCHEME = 'color:';
+
+// 暗色主题下文字颜色的最低亮度（HSL），更暗的颜色在深色背景上看不清
+const MIN_DARK_MODE_LIGHTNESS = 0.55;
+
+// 常用颜色名，调整亮度时需要先换算成RGB
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+  grey: '#808080',
+  red: '#ff0000',
+  orange: '#ffa500',
+  yellow: '#ffff00',
+  green: '#008000',
+  blue: '#0000ff',
+  purple: '#800080',
+  pink: '#ffc0cb',
+  brown: '#a52a2a',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  navy: '#000080',
+  teal: '#008080',
+  maroon: '#800000',
+};
+
+// 一段文字及其颜色；raw*为在原文（含颜色语法）中的位置，plainStart为去掉颜色语法后的位置
+interface ColorRun {
+  text: string;
+  color: string | null;
+  rawStart: number;
+  innerStart: number;
+  rawEnd: number;
+  plainStart: number;
+}
+
+/**
+ * 从渲染后的链接地址中取出颜色值，不是颜色语法时返回null
+ */
+export const parseColorHref = (href: string): string | null => {
+  if (!href.startsWith(COLOR_SCHEME)) {
+    return null;
+  }
+  const color = href.slice(COLOR_SCHEME.length).trim();
+  return color || null;
+};
+
+// 解析#rgb/#rrggbb/颜色名，无法识别时返回null
+const parseColor = (color: string): [number, number, number] | null => {
+  const value = NAMED_COLORS[color.toLowerCase()] ?? color;
+  const match = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) {
+    return null;
+  }
+
+  const hex = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255) as [number, number, number];
+};
+
+const rgbToHsl = ([r, g, b]: [number, number, number]): [number, number, number] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) {
+    return [0, 0, l];
+  }
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === r) {
+    h = (g - b) / d + (g < b ? 6 : 0);
+  } else if (max === g) {
+    h = (b - r) / d + 2;
+  } else {
+    h = (r - g) / d + 4;
+  }
+  return [h / 6, s, l];
+};
+
+const hslToHex = ([h, s, l]: [number, number, number]): string => {
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) {
+      return p + (q - p) * 6 * x;
+    }
+    if (x < 1 / 2) {
+      return q;
+    }
+    if (x < 2 / 3) {
+      return p + (q - p) * (2 / 3 - x) * 6;
+    }
+    return p;
+  };
+  return '#' + [h + 1 / 3, h, h - 1 / 3]
+    .map(t => Math.round((s === 0 ? l : channel(t)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * 调整文字颜色以适应当前主题
+ * 暗色主题下过暗的颜色保持色相、翻转亮度，亮色主题和无法识别的颜色原样返回
+ */
+export const adaptColorForTheme = (color: string, isDark: boolean): string => {
+  if (!isDark) {
+    return color;
+  }
+
+  const rgb = parseColor(color);
+  if (!rgb) {
+    return color;
+  }
+
+  const [h, s, l] = rgbToHsl(rgb);
+  if (l >= MIN_DARK_MODE_LIGHTNESS) {
+    return color;
+  }
+  return hslToHex([h, s, Math.max(1 - l, MIN_DARK_MODE_LIGHTNESS)]);
+};
+
+// 把文本拆成无颜色和有颜色的片段
+const splitColorRuns = (text: string): ColorRun[] => {
+  const runs: ColorRun[] = [];
+  let plainLength = 0;
+  const pushRun = (run: Omit<ColorRun, 'plainStart'>) => {
+    runs.push({ ...run, plainStart: plainLength });
+    plainLength += run.text.length;
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(COLOR_SPAN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      pushRun({ text: text.slice(last, index), color: null, rawStart: last, innerStart: last, rawEnd: index });
+    }
+    pushRun({ text: match[1], color: match[2], rawStart: index, innerStart: index + 1, rawEnd: index + match[0].length });
+    last = index + match[0].length;
+  }
+  if (last < text.length || runs.length === 0) {
+    pushRun({ text: text.slice(last), color: null, rawStart: last, innerStart: last, rawEnd: text.length });
+  }
+  return runs;
+};
+
+// 原文中的位置换算成去掉颜色语法后的位置，位于颜色标记中时取最近的文字边界
+const toPlainOffset = (runs: ColorRun[], position: number): number => {
+  const run = runs.find(item => position <= item.rawEnd) ?? runs[runs.length - 1];
+  const offset = Math.min(Math.max(position - run.innerStart, 0), run.text.length);
+  return run.plainStart + offset;
+};
+
+// 选区与粗体、斜体等片段部分重叠时扩展到整个片段（含标记），避免颜色语法与**、*等标记交叉
+const expandToFormatSpans = (plain: string, from: number, to: number): [number, number] => {
+  const spans: { start: number; end: number }[] = [];
+  let lineStart = 0;
+  for (const line of plain.split('\n')) {
+    for (const span of findMarkedFormatSpans(line)) {
+      spans.push({ start: lineStart + span.start, end: lineStart + span.end });
+    }
+    lineStart += line.length + 1;
+  }
+
+  // 扩展后可能又与其他片段重叠，直到不再变化
+  let changed = from < to;
+  while (changed) {
+    changed = false;
+    for (const span of spans) {
+      if (span.start < to && from < span.end && (span.start < from || to < span.end)) {
+        from = Math.min(from, span.start);
+        to = Math.max(to, span.end);
+        changed = true;
+      }
+    }
+  }
+  return [from, to];
+};
+
+/**
+ * 给选中的文字设置颜色，color为null时去掉颜色
+ * 与已有颜色片段重叠的部分使用新颜色，片段中未选中的部分保留原来的颜色
+ * 只选中粗体、斜体等片段的一部分时整个片段都设置颜色
+ * @param text 原文
+ * @param start 选区开始位置
+ * @param end 选区结束位置
+ * @returns 新的文本和光标位置（选中文字之后）
+ */
+export const applyColorSpan = (
+  text: string,
+  start: number,
+  end: number,
+  color: string | null
+): { text: string; cursor: number } => {
+  const runs = splitColorRuns(text);
+  const plain = runs.map(run => run.text).join('');
+  const colors = runs.flatMap(run => Array.from({ length: run.text.length }, () => run.color));
+
+  const [from, to] = expandToFormatSpans(
+    plain,
+    toPlainOffset(runs, Math.min(start, end)),
+    toPlainOffset(runs, Math.max(start, end))
+  );
+  for (let i = from; i < to; i++) {
+    colors[i] = color;
+  }
+
+  // 相邻的同色文字合并成一个片段
+  let result = '';
+  let cursor = 0;
+  for (let i = 0; i < plain.length;) {
+    let j = i;
+    while (j < plain.length && colors[j] === colors[i]) {
+      j++;
+    }
+    const piece = plain.slice(i, j);
+    result += colors[i] ? `[${piece}](${COLOR_SCHEME}${colors[i]})` : piece;
+    if (to > i && to <= j) {
+      cursor = colors[i] ? result.length : result.length - (j - to);
+    }
+    i = j;
+  }
+  return { text: result, cursor };
+};
@@ -0,0 +1,362 @@
+import { ContentType } from '../Types';
+
+// 分类结果：识别出的分类id、置信度（0~1）以及每个分类的得分
+export interface ClassificationResult {
+  type: string;
+  confidence: number;
+  scores: Record<string, number>;
+}
+
+// 分类器使用的分类信息（按优先级排列）
+export interface ClassifierCategory {
+  id: string;
+  keywords: string[];
+}
+
+/**
+ * 内容分类器接口
+ * classify需要同步返回，列表渲染时会逐条调用
+ * 没有分类得分时归为默认分类（日常记录）
+ */
+export interface ContentClassifier {
+  readonly id: string;
+  // 设置可识别的分类（分类增删改或排序后调用）
+  setCategories(categories: ClassifierCategory[]): void;
+  classify(text: string): ClassificationResult;
+  // 从用户手动修改的分类中学习（可选）
+  learn?(text: string, type: string): void;
+  // 清除已学习的数据（可选）
+  reset?(): void;
+}
+
+export interface WeightedKeyword {
+  keyword: string;
+  weight: number;
+}
+
+export interface PhrasePattern {
+  pattern: RegExp;
+  weight: number;
+}
+
+export interface ScoringRules {
+  keywords: WeightedKeyword[];
+  patterns: PhrasePattern[];
+}
+
+// 默认分类，没有任何分类得分时使用
+const DEFAULT_CATEGORY_ID: string = ContentType.NOTE;
+
+// 为每个分类创建初始为0的得分表（始终包含默认分类）
+const emptyScores = (categoryIds: string[]): Record<string, number> => {
+  const scores: Record<string, number> = { [DEFAULT_CATEGORY_ID]: 0 };
+  for (const id of categoryIds) {
+    scores[id] = 0;
+  }
+  return scores;
+};
+
+const LATIN_WORD_PATTERN = /[a-z][a-z0-9']*/g;
+const CJK_RUN_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff]+/g;
+
+// 英文单词的简单词干化，使 plans/planning/planned 匹配 plan
+const stemWord = (word: string): string => {
+  const base = word.replace(/'s$/, '');
+  if (base.length > 5 && base.endsWith('ing')) {
+    return base.slice(0, -3);
+  }
+  if (base.length > 4 && base.endsWith('ed')) {
+    return base.slice(0, -2);
+  }
+  if (base.length > 3 && base.endsWith('s') && !base.endsWith('ss')) {
+    return base.slice(0, -1);
+  }
+  return base;
+};
+
+const isLatinKeyword = (keyword: string) => /^[a-z0-9' ]+$/i.test(keyword);
+
+/**
+ * 按语言分词：英文按单词（词干化），中文按单字和相邻双字
+ * 中文没有空格分隔，双字组合能覆盖大多数常用词
+ */
+export const tokenize = (text: string): string[] => {
+  const lowercaseText = text.toLowerCase();
+  const tokens: string[] = [];
+
+  for (const word of lowercaseText.match(LATIN_WORD_PATTERN) || []) {
+    tokens.push(stemWord(word));
+  }
+
+  for (const run of lowercaseText.match(CJK_RUN_PATTERN) || []) {
+    const chars = Array.from(run);
+    chars.forEach((char, index) => {
+      tokens.push(char);
+      if (index + 1 < chars.length) {
+        tokens.push(char + chars[index + 1]);
+      }
+    });
+  }
+
+  return tokens;
+};
+
+/**
+ * 关键词分类器：返回第一个包含关键词的分类（原有的识别方式）
+ * 置信度为命中该分类的关键词数占全部命中数的比例，没有命中时为0
+ */
+export class KeywordClassifier implements ContentClassifier {
+  readonly id = 'keyword';
+
+  private categories: ClassifierCategory[];
+
+  constructor(categories: ClassifierCategory[]) {
+    this.categories = categories;
+  }
+
+  setCategories(categories: ClassifierCategory[]): void {
+    this.categories = categories;
+  }
+
+  classify(text: string): ClassificationResult {
+    const scores = emptyScores(this.categories.map(category => category.id));
+    if (!text || !text.trim()) {
+      return { type: DEFAULT_CATEGORY_ID, confidence: 0, scores };
+    }
+
+    const lowercaseText = text.toLowerCase();
+    let type = DEFAULT_CATEGORY_ID;
+
+    // 按优先级检查关键词
+    for (const category of this.categories) {
+      if (category.id === DEFAULT_CATEGORY_ID) {
+        continue; // 跳过默认类型
+      }
+
+      const matched = category.keywords.filter(keyword =>
+        lowercaseText.includes(keyword.toLowerCase())
+      ).length;
+      scores[category.id] = matched;
+      if (matched > 0 && type === DEFAULT_CATEGORY_ID) {
+        type = category.id;
+      }
+    }
+
+    const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+    return { type, confidence: total > 0 ? scores[type] / total : 0, scores };
+  }
+}
+
+// 评分分类器对内置分类在分类关键词之外的规则：带权重的关键词和短语模式
+export const DEFAULT_SCORING_RULES: Record<string, ScoringRules> = {
+  [ContentType.TODO]: {
+    keywords: [
+      { keyword: 'task', weight: 1.5 },
+      { keyword: 'plan', weight: 1 },
+      { keyword: 'finish', weight: 1.5 },
+      { keyword: 'buy', weight: 1.5 },
+      { keyword: 'call', weight: 1 },
+      { keyword: 'submit', weight: 1.5 },
+      { keyword: 'schedule', weight: 1 },
+      { keyword: 'due', weight: 1.5 },
+      { keyword: '待办', weight: 2 },
+      { keyword: '截止', weight: 2 },
+    ],
+    patterns: [
+      { pattern: /^(记得|别忘了?|要|得|该)/, weight: 1.5 },
+      { pattern: /(明天|后天|今晚|下周|周[一二三四五六日天]|星期[一二三四五六日天]|\d{1,2}\s*[点:：]\s*\d{0,2})/, weight: 1.5 },
+      { pattern: /\b(remember to|don't forget|need to|have to|must|should)\b/i, weight: 2 },
+      { pattern: /\b(by|before|on) (tomorrow|tonight|monday|tuesday|wednesday|thursday|friday|saturday|sunday|next week)\b/i, weight: 1.5 },
+      { pattern: /^\s*(\[ \]|-\s*\[ \])/, weight: 2 },
+    ],
+  },
+  [ContentType.IDEA]: {
+    keywords: [
+      { keyword: 'concept', weight: 1.5 },
+      { keyword: 'inspiration', weight: 2 },
+      { keyword: 'brainstorm', weight: 2 },
+      { keyword: 'design', weight: 1 },
+      { keyword: 'invent', weight: 1.5 },
+      { keyword: 'imagine', weight: 1.5 },
+      { keyword: 'app', weight: 0.5 },
+    ],
+    patterns: [
+      { pattern: /(如果.+(会怎样|会如何|就好了)|要是能|不如|能不能做一个|可以做一个)/, weight: 2 },
+      { pattern: /\b(what if|how about|maybe we could|it would be cool|wouldn't it be)\b/i, weight: 2 },
+    ],
+  },
+  [ContentType.LEARNING]: {
+    keywords: [
+      { keyword: '学习', weight: 2 },
+      { keyword: '课程', weight: 1.5 },
+      { keyword: '读书', weight: 1.5 },
+      { keyword: '论文', weight: 1.5 },
+      { keyword: 'learn', weight: 2 },
+      { keyword: 'study', weight: 2 },
+      { keyword: 'lesson', weight: 1.5 },
+      { keyword: 'course', weight: 1.5 },
+      { keyword: 'tutorial', weight: 1.5 },
+      { keyword: 'chapter', weight: 1 },
+      { keyword: 'note', weight: 0.5 },
+    ],
+    patterns: [
+      { pattern: /(原来|学到了?|今天学|才知道)/, weight: 2 },
+      { pattern: /\b(today i learned|til|learned that|turns out|the difference between)\b/i, weight: 2 },
+    ],
+  },
+};
+
+// 日常记录（默认分类）的基础得分，弱信号时仍归为日常记录
+const NOTE_PRIOR = 1;
+// 已学习数据的权重
+const LEARNED_WEIGHT = 4;
+// 与用户修改过的文本完全相同时的额外得分
+const EXACT_MATCH_WEIGHT = 5;
+
+// 学习时比较的规范化文本
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * 评分分类器：为每个分类计算得分，取最高分
+ * - 分类的关键词（权重1）加上内置分类带权重的关键词，英文按词匹配，中文按子串匹配
+ * - 短语模式（时间表达、"what if"、"原来"等）
+ * - 从用户手动修改的分类中学习的词权重
+ * 置信度为各分类得分经softmax后最高分所占的比例
+ */
+export class ScoringClassifier implements ContentClassifier {
+  readonly id = 'scoring';
+
+  private readonly extraRules: Record<string, ScoringRules>;
+  private categoryIds: string[] = [];
+  private rules = new Map<string, ScoringRules>();
+  // 词 -> 各分类中出现的次数
+  private tokenCounts = new Map<string, Record<string, number>>();
+  // 规范化文本 -> 用户最后一次选择的分类
+  private exactMatches = new Map<string, string>();
+
+  constructor(
+    categories: ClassifierCategory[],
+    extraRules: Record<string, ScoringRules> = DEFAULT_SCORING_RULES
+  ) {
+    this.extraRules = extraRules;
+    this.setCategories(categories);
+  }
+
+  setCategories(categories: ClassifierCategory[]): void {
+    this.categoryIds = categories.map(category => category.id);
+    this.rules.clear();
+    for (const category of categories) {
+      const extra = this.extraRules[category.id];
+      this.rules.set(category.id, {
+        keywords: [
+          ...category.keywords.map(keyword => ({ keyword, weight: 1 })),
+          ...(extra?.keywords || []),
+        ],
+        patterns: extra?.patterns || [],
+      });
+    }
+  }
+
+  classify(text: string): ClassificationResult {
+    const scores = emptyScores(this.categoryIds);
+    if (!text || !text.trim()) {
+      return { type: DEFAULT_CATEGORY_ID, confidence: 0, scores };
+    }
+
+    const lowercaseText = text.toLowerCase();
+    const tokenSet = new Set(tokenize(text));
+
+    for (const [type, { keywords, patterns }] of this.rules) {
+      // 同一关键词只计一次，避免重复出现的词主导结果
+      const matchedKeywords = new Map<string, number>();
+      for (const { keyword, weight } of keywords) {
+        const lowercaseKeyword = keyword.toLowerCase();
+        const matched = isLatinKeyword(lowercaseKeyword)
+          ? tokenSet.has(stemWord(lowercaseKeyword))
+          : lowercaseText.includes(lowercaseKeyword);
+        if (matched) {
+          matchedKeywords.set(lowercaseKeyword, Math.max(matchedKeywords.get(lowercaseKeyword) || 0, weight));
+        }
+      }
+      for (const weight of matchedKeywords.values()) {
+        scores[type] += weight;
+      }
+
+      for (const { pattern, weight } of patterns) {
+        if (pattern.test(text)) {
+          scores[type] += weight;
+        }
+      }
+    }
+
+    scores[DEFAULT_CATEGORY_ID] += NOTE_PRIOR;
+    this.addLearnedScores(text, tokenSet, scores);
+
+    return ScoringClassifier.toResult(scores);
+  }
+
+  learn(text: string, type: string): void {
+    const normalized = normalizeText(text);
+    if (!normalized) {
+      return;
+    }
+
+    this.exactMatches.set(normalized, type);
+    for (const token of new Set(tokenize(text))) {
+      const counts = this.tokenCounts.get(token) || {};
+      counts[type] = (counts[type] || 0) + 1;
+      this.tokenCounts.set(token, counts);
+    }
+  }
+
+  reset(): void {
+    this.tokenCounts.clear();
+    this.exactMatches.clear();
+  }
+
+  // 学习得分：已知词在各分类中出现比例的平均值，出现次数越多越可信（只计入当前可识别的分类）
+  private addLearnedScores(text: string, tokenSet: Set<string>, scores: Record<string, number>) {
+    const exactType = this.exactMatches.get(normalizeText(text));
+    if (exactType && scores[exactType] !== undefined) {
+      scores[exactType] += EXACT_MATCH_WEIGHT;
+    }
+
+    const learned: Record<string, number> = {};
+    let knownTokens = 0;
+    for (const token of tokenSet) {
+      const counts = this.tokenCounts.get(token);
+      if (!counts) {
+        continue;
+      }
+
+      const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      const reliability = total / (total + 1);
+      for (const [type, count] of Object.entries(counts)) {
+        learned[type] = (learned[type] || 0) + (count / total) * reliability;
+      }
+      knownTokens++;
+    }
+
+    if (knownTokens === 0) {
+      return;
+    }
+    for (const [type, value] of Object.entries(learned)) {
+      if (scores[type] !== undefined) {
+        scores[type] += (value / knownTokens) * LEARNED_WEIGHT;
+      }
+    }
+  }
+
+  private static toResult(scores: Record<string, number>): ClassificationResult {
+    let type = DEFAULT_CATEGORY_ID;
+    for (const [key, score] of Object.entries(scores)) {
+      if (score > scores[type]) {
+        type = key;
+      }
+    }
+
+    const max = scores[type];
+    const sum = Object.values(scores).reduce((total, score) => total + Math.exp(score - max), 0);
+    return { type, confidence: 1 / sum, scores };
+  }
+}
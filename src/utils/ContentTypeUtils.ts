@@ -1,6 +1,8 @@
-import { ContentType, ContentTypeConfig } from '../Types';
+import { CategoryRecord, ContentType, ContentTypeConfig } from '../Types';
+import { ClassificationResult, ClassifierCategory, ContentClassifier, ScoringClassifier } from './ContentClassifier';
+import { ideaDB } from './IdeaDatabase';
 
-// 内容分类配置
+// 内置分类的默认配置（首次加载时写入数据库，之后以数据库中的分类为准）
 export const CONTENT_TYPES: Record<ContentType, ContentTypeConfig> = {
   [ContentType.TODO]: {
     icon: '📝',
@@ -24,43 +26,140 @@ export const CONTENT_TYPES: Record<ContentType, ContentTypeConfig> = {
   }
 };
 
+// 默认分类：无法识别时使用，不能归档
+export const DEFAULT_CATEGORY_ID: string = ContentType.NOTE;
+
+const BUILTIN_CATEGORIES: CategoryRecord[] = Object.entries(CONTENT_TYPES).map(([id, config], index) => ({
+  id,
+  ...config,
+  order_index: index,
+  archived: false,
+  builtin: true,
+}));
+
+// ========================= 分类存储 =========================
+
+// 当前的分类列表（包括已归档的），数据库加载完成前使用内置分类
+let categories: CategoryRecord[] = BUILTIN_CATEGORIES;
+const categoryListeners = new Set<() => void>();
+
+// 参与自动识别和分类选择的分类
+const toClassifierCategories = (list: CategoryRecord[]): ClassifierCategory[] =>
+  list.filter(category => !category.archived).map(({ id, keywords }) => ({ id, keywords }));
+
+// 获取所有分类（包括已归档的），按排序顺序
+export const getCategories = (): CategoryRecord[] => categories;
+
+// 获取未归档的分类
+export const getActiveCategories = (): CategoryRecord[] =>
+  categories.filter(category => !category.archived);
+
+// 订阅分类变化，返回取消订阅的函数
+export const subscribeCategories = (listener: () => void): (() => void) => {
+  categoryListeners.add(listener);
+  return () => {
+    categoryListeners.delete(listener);
+  };
+};
+
 /**
- * 智能识别内容类型（基于关键词匹配）
- * @param text 文本内容
- * @returns 识别出的内容类型
+ * 获取分类配置，找不到时返回默认分类
+ * 已归档的分类仍然返回，使用该分类的已有记录正常显示
  */
-export const detectContentType = (text: string): ContentType => {
-  if (!text || !text.trim()) return ContentType.NOTE;
-  
-  const lowercaseText = text.toLowerCase();
-  
-  // 按优先级检查关键词
-  const typeEntries = Object.entries(CONTENT_TYPES);
-  
-  for (const [type, config] of typeEntries) {
-    if (type === ContentType.NOTE) continue; // 跳过默认类型
-    
-    const hasKeyword = config.keywords.some(keyword => 
-      lowercaseText.includes(keyword.toLowerCase())
-    );
-    
-    if (hasKeyword) {
-      return type as ContentType;
+export const getCategoryConfig = (id?: string): CategoryRecord =>
+  categories.find(category => category.id === id)
+  || categories.find(category => category.id === DEFAULT_CATEGORY_ID)
+  || BUILTIN_CATEGORIES[BUILTIN_CATEGORIES.length - 1];
+
+/**
+ * 从数据库加载分类（应用启动时以及分类修改后调用）
+ * 缺失的内置分类会先写入数据库
+ */
+export const loadCategories = async (): Promise<CategoryRecord[]> => {
+  await ideaDB.ensureBuiltinCategories(
+    BUILTIN_CATEGORIES.map(({ id, name, icon, keywords }) => ({ id, name, icon, keywords }))
+  );
+  categories = await ideaDB.getCategories();
+  activeClassifier.setCategories(toClassifierCategories(categories));
+  categoryListeners.forEach(listener => listener());
+  return categories;
+};
+
+// ========================= 自动识别 =========================
+
+// 当前使用的分类器，默认使用评分分类器
+let activeClassifier: ContentClassifier = new ScoringClassifier(toClassifierCategories(categories));
+
+// 已加载的手动分类记录，切换分类器时重新学习
+const learnedFeedback: { text: string; category: string }[] = [];
+
+// 获取当前分类器
+export const getContentClassifier = (): ContentClassifier => activeClassifier;
+
+/**
+ * 替换分类器（例如使用KeywordClassifier恢复原有的关键词匹配）
+ * 新分类器支持学习时，使用已加载的手动分类记录进行学习
+ */
+export const setContentClassifier = (classifier: ContentClassifier): void => {
+  activeClassifier = classifier;
+  classifier.setCategories(toClassifierCategories(categories));
+  if (classifier.learn) {
+    classifier.reset?.();
+    for (const { text, category } of learnedFeedback) {
+      classifier.learn(text, category);
     }
   }
-  
-  return ContentType.NOTE; // 默认分类
 };
 
 /**
- * 获取最终的分类类型（优先使用手动分类）
+ * 识别内容类型并返回置信度和各分类得分
+ * @param text 文本内容
+ */
+export const classifyContent = (text: string): ClassificationResult =>
+  activeClassifier.classify(text);
+
+/**
+ * 智能识别内容类型
+ * @param text 文本内容
+ * @returns 识别出的分类id
+ */
+export const detectContentType = (text: string): string =>
+  classifyContent(text).type;
+
+// 从数据库加载手动分类记录供分类器学习（应用启动时调用）
+export const loadCategoryFeedback = async (): Promise<void> => {
+  const records = await ideaDB.getCategoryFeedback();
+  learnedFeedback.length = 0;
+  activeClassifier.reset?.();
+  for (const { text, category } of records) {
+    learnedFeedback.push({ text, category });
+    activeClassifier.learn?.(text, category);
+  }
+};
+
+/**
+ * 记录一次手动分类：保存到数据库，并让分类器立即学习
+ * @param text 文本内容
+ * @param category 用户选择的分类id
+ */
+export const recordCategoryFeedback = async (text: string, category: string): Promise<void> => {
+  if (!text.trim()) {
+    return;
+  }
+  learnedFeedback.push({ text, category });
+  activeClassifier.learn?.(text, category);
+  await ideaDB.addCategoryFeedback(text, category);
+};
+
+/**
+ * 获取最终的分类（优先使用手动分类）
  * @param text 文本内容
  * @param manualCategory 手动选择的分类
- * @returns 最终的内容类型
+ * @returns 最终的分类id
  */
-export const getFinalContentType = (text: string, manualCategory?: string): ContentType => {
-  if (manualCategory && CONTENT_TYPES[manualCategory as ContentType]) {
-    return manualCategory as ContentType;
+export const getFinalContentType = (text: string, manualCategory?: string): string => {
+  if (manualCategory && categories.some(category => category.id === manualCategory)) {
+    return manualCategory;
   }
   return detectContentType(text);
 };
@@ -71,10 +170,8 @@ export const getFinalContentType = (text: string, manualCategory?: string): Cont
  * @param manualCategory 手动选择的分类
  * @returns 对应的图标
  */
-export const getContentIcon = (text: string, manualCategory?: string): string => {
-  const type = getFinalContentType(text, manualCategory);
-  return CONTENT_TYPES[type].icon;
-};
+export const getContentIcon = (text: string, manualCategory?: string): string =>
+  getCategoryConfig(getFinalContentType(text, manualCategory)).icon;
 
 /**
  * 获取内容类型名称
@@ -82,7 +179,5 @@ export const getContentIcon = (text: string, manualCategory?: string): string =>
  * @param manualCategory 手动选择的分类
  * @returns 对应的类型名称
  */
-export const getContentTypeName = (text: string, manualCategory?: string): string => {
-  const type = getFinalContentType(text, manualCategory);
-  return CONTENT_TYPES[type].name;
-}; 
\ No newline at end of file
+export const getContentTypeName = (text: string, manualCategory?: string): string =>
+  getCategoryConfig(getFinalContentType(text, manualCategory)).name;
@@ -0,0 +1,290 @@
+import { DEFAULT_DUE_HOUR } from './config';
+
+export interface ParsedDueDate {
+  dueAt: Date;
+  hasTime: boolean; // 文本中是否包含具体时间（否则使用默认时间）
+  matchedText: string; // 识别出的日期/时间文本
+}
+
+interface DateMatch {
+  day: Date; // 当天0点
+  text: string;
+  defaultHour?: number; // "今晚"、"tonight"等隐含的时间
+}
+
+interface TimeMatch {
+  hour: number;
+  minute: number;
+  text: string;
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+// 解析阿拉伯数字或一到九十九的中文数字
+const parseNumber = (value: string): number => {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const tenIndex = value.indexOf('十');
+  if (tenIndex < 0) {
+    return CHINESE_DIGITS[value] ?? NaN;
+  }
+  const tens = tenIndex === 0 ? 1 : CHINESE_DIGITS[value.substring(0, tenIndex)];
+  const ones = tenIndex === value.length - 1 ? 0 : CHINESE_DIGITS[value.substring(tenIndex + 1)];
+  return tens * 10 + ones;
+};
+
+const NUMBER = '(\\d{1,2}|[零〇一二两三四五六七八九十]{1,3})';
+
+// 周、星期前面是数字时表示时长（"一周一次"、"两周"），不是星期几
+const NOT_AFTER_NUMBER = '(^|[^零〇一二两三四五六七八九十\\d])';
+// 星期几后面跟"次"等量词时表示次数（"一周一次"中的"周一"）
+const NOT_BEFORE_COUNT = '(?![次遍回])';
+
+// 中文星期：日/天为0，与Date.getDay()一致
+const CHINESE_WEEKDAYS: Record<string, number> = {
+  日: 0, 天: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6,
+};
+
+const ENGLISH_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// 完整的星期名称可以单独出现；缩写（sun、sat、wed等）也是常用单词，只在on/by/this/next之后识别
+const ENGLISH_WEEKDAY_PATTERN = `(${ENGLISH_WEEKDAYS.join('|')})`;
+const ENGLISH_WEEKDAY_OR_ABBR_PATTERN = `(${ENGLISH_WEEKDAYS.join('|')}|sun|mon|tues|tue|wed|thurs|thur|thu|fri|sat)`;
+
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const englishWeekday = (value: string) =>
+  ENGLISH_WEEKDAYS.findIndex(day => day.startsWith(value.toLowerCase().substring(0, 3)));
+
+// 本周内尚未过去的星期几（包括今天），已过去则取下周
+const upcomingWeekday = (today: Date, weekday: number) =>
+  addDays(today, (weekday - today.getDay() + 7) % 7);
+
+// 下周（周一开始）的星期几
+const weekdayOfNextWeek = (today: Date, weekday: number) => {
+  const daysToNextMonday = ((8 - today.getDay()) % 7) || 7;
+  return addDays(today, daysToNextMonday + ((weekday + 6) % 7));
+};
+
+// 指定年月日的日期，日期不存在时（如2月30日、0号）返回Invalid Date，而不是顺延到其他月份
+// month可以超出0~11，按Date的规则换算到相邻的年份
+const dateOf = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  return date.getMonth() === new Date(year, month, 1).getMonth() && date.getDate() === day ? date : new Date(NaN);
+};
+
+// 指定月日，已过去或今年没有这一天（2月29日）则取明年，明年也没有或月份超出1~12时返回Invalid Date
+const upcomingMonthDay = (today: Date, month: number, day: number) => {
+  if (month < 0 || month > 11) {
+    return new Date(NaN);
+  }
+  const date = dateOf(today.getFullYear(), month, day);
+  return isNaN(date.getTime()) || date < today ? dateOf(today.getFullYear() + 1, month, day) : date;
+};
+
+type DateRule = (text: string, today: Date) => DateMatch | null;
+
+// 日期规则按顺序匹配，先匹配更具体的写法
+const DATE_RULES: DateRule[] = [
+  // 大后天/后天/明天/今天（以及明早、明晚、今晚）
+  (text, today) => {
+    const match = text.match(/(大后天|后天|明天|明早|明晚|今天|今晚|今早)/);
+    if (!match) {
+      return null;
+    }
+    const offsets: Record<string, number> = { 大后天: 3, 后天: 2, 明天: 1, 明早: 1, 明晚: 1, 今天: 0, 今晚: 0, 今早: 0 };
+    const defaultHour = match[1].endsWith('晚') ? 20 : match[1].endsWith('早') ? 8 : undefined;
+    return { day: addDays(today, offsets[match[1]]), text: match[0], defaultHour };
+  },
+  // 下周五、下个星期一
+  (text, today) => {
+    const match = text.match(new RegExp(`下(?:个)?(?:周|星期|礼拜)([一二三四五六日天])${NOT_BEFORE_COUNT}`));
+    return match ? { day: weekdayOfNextWeek(today, CHINESE_WEEKDAYS[match[1]]), text: match[0] } : null;
+  },
+  // 周五、这周五、本星期三
+  (text, today) => {
+    const match = text.match(new RegExp(`${NOT_AFTER_NUMBER}((?:这|本)?(?:个)?(?:周|星期|礼拜)([一二三四五六日天]))${NOT_BEFORE_COUNT}`));
+    return match ? { day: upcomingWeekday(today, CHINESE_WEEKDAYS[match[3]]), text: match[2] } : null;
+  },
+  // 3天后、三天以后
+  (text, today) => {
+    const match = text.match(new RegExp(`${NUMBER}天(?:以)?后`));
+    return match ? { day: addDays(today, parseNumber(match[1])), text: match[0] } : null;
+  },
+  // 10月25日、10月25号
+  (text, today) => {
+    const match = text.match(new RegExp(`${NUMBER}月${NUMBER}[日号]`));
+    if (!match) {
+      return null;
+    }
+    return { day: upcomingMonthDay(today, parseNumber(match[1]) - 1, parseNumber(match[2])), text: match[0] };
+  },
+  // 25号：本月，已过去或本月没有这一天则取下个月（"一号线"、"3号楼"不是日期）
+  (text, today) => {
+    const match = text.match(new RegExp(`${NUMBER}号(?![线楼])`));
+    if (!match) {
+      return null;
+    }
+    const day = parseNumber(match[1]);
+    const date = dateOf(today.getFullYear(), today.getMonth(), day);
+    const upcoming = isNaN(date.getTime()) || date < today ? dateOf(today.getFullYear(), today.getMonth() + 1, day) : date;
+    return { day: upcoming, text: match[0] };
+  },
+  // day after tomorrow / tomorrow / today / tonight
+  (text, today) => {
+    const match = text.match(/\b(the day after tomorrow|day after tomorrow|tomorrow|today|tonight)\b/i);
+    if (!match) {
+      return null;
+    }
+    const value = match[1].toLowerCase();
+    const offset = value.includes('after') ? 2 : value === 'tomorrow' ? 1 : 0;
+    return { day: addDays(today, offset), text: match[0], defaultHour: value === 'tonight' ? 20 : undefined };
+  },
+  // next Friday、next Fri：下周的星期五
+  (text, today) => {
+    const match = text.match(new RegExp(`\\bnext\\s+${ENGLISH_WEEKDAY_OR_ABBR_PATTERN}\\b`, 'i'));
+    return match ? { day: weekdayOfNextWeek(today, englishWeekday(match[1])), text: match[0] } : null;
+  },
+  // on Friday、by Fri、this Friday、Friday
+  (text, today) => {
+    const match = text.match(new RegExp(`\\b(?:on|by|this)\\s+${ENGLISH_WEEKDAY_OR_ABBR_PATTERN}\\b`, 'i'))
+      || text.match(new RegExp(`\\b${ENGLISH_WEEKDAY_PATTERN}\\b`, 'i'));
+    return match ? { day: upcomingWeekday(today, englishWeekday(match[1])), text: match[0] } : null;
+  },
+  // in 3 days
+  (text, today) => {
+    const match = text.match(/\bin\s+(\d{1,3})\s+days?\b/i);
+    return match ? { day: addDays(today, parseInt(match[1], 10)), text: match[0] } : null;
+  },
+  // Oct 25、October 25th、25 Oct
+  (text, today) => {
+    const monthPattern = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+    let match = text.match(new RegExp(`\\b${monthPattern}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i'));
+    if (match) {
+      const month = ENGLISH_MONTHS.indexOf(match[1].toLowerCase().substring(0, 3));
+      return { day: upcomingMonthDay(today, month, parseInt(match[2], 10)), text: match[0] };
+    }
+    match = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${monthPattern}\\b`, 'i'));
+    if (match) {
+      const month = ENGLISH_MONTHS.indexOf(match[2].toLowerCase().substring(0, 3));
+      return { day: upcomingMonthDay(today, month, parseInt(match[1], 10)), text: match[0] };
+    }
+    return null;
+  },
+];
+
+// 没有上下午标记时，1~6点按下午处理（"3点开会"通常指15点）
+const adjustUnmarkedHour = (hour: number) => (hour >= 1 && hour <= 6 ? hour + 12 : hour);
+
+// 中文的"N点"是否表示时间："一点"、"两点"也常用于"早一点"、"差一点"等说法，
+// 需要上下午等时段、"点钟"、"点半"或"N分"，阿拉伯数字的"3点"本身即可表示时间
+const isChineseTime = (match: RegExpMatchArray) => {
+  const [, period, hourText, suffix, minuteText] = match;
+  if (period || /^\d+$/.test(hourText) || suffix === '钟' || suffix === '半') {
+    return true;
+  }
+  // "三点十五"中的分钟需要带"分"，避免"一点一点"被识别为时间
+  return !!minuteText && (/^\d+$/.test(minuteText) || suffix.endsWith('分'));
+};
+
+const parseTime = (text: string): TimeMatch | null => {
+  // 下午3点、晚上8点半、上午10点15分、3点、三点钟
+  const pattern = new RegExp(`(凌晨|早上|早晨|上午|中午|下午|傍晚|晚上|今晚|明晚)?\\s*${NUMBER}\\s*[点时](钟|半|${NUMBER}分?)?`, 'g');
+  for (const chineseMatch of text.matchAll(pattern)) {
+    if (!isChineseTime(chineseMatch)) {
+      continue;
+    }
+    let hour = parseNumber(chineseMatch[2]);
+    const minute = chineseMatch[3] === '半' ? 30 : chineseMatch[4] ? parseNumber(chineseMatch[4]) : 0;
+    const period = chineseMatch[1];
+    if (!period) {
+      hour = adjustUnmarkedHour(hour);
+    } else if (['下午', '傍晚', '晚上', '今晚', '明晚'].includes(period) && hour < 12) {
+      hour += 12;
+    } else if (period === '中午' && hour < 3) {
+      hour += 12;
+    }
+    return { hour, minute, text: chineseMatch[0] };
+  }
+
+  let match: RegExpMatchArray | null;
+
+  // 3pm、3:30 pm、at 3、at 15:00
+  match = text.match(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i);
+  if (match) {
+    let hour = parseInt(match[1], 10) % 12;
+    if (match[3].toLowerCase() === 'pm') {
+      hour += 12;
+    }
+    return { hour, minute: match[2] ? parseInt(match[2], 10) : 0, text: match[0] };
+  }
+
+  match = text.match(/(?:\bat\s+)?\b(\d{1,2}):(\d{2})\b/i) || text.match(/\bat\s+(\d{1,2})\b/i);
+  if (match) {
+    const hour = match[2] ? parseInt(match[1], 10) : adjustUnmarkedHour(parseInt(match[1], 10));
+    return { hour, minute: match[2] ? parseInt(match[2], 10) : 0, text: match[0] };
+  }
+
+  match = text.match(/\bnoon\b/i);
+  return match ? { hour: 12, minute: 0, text: match[0] } : null;
+};
+
+/**
+ * 从文本中识别截止时间，例如"明天下午3点"、"下周五"、"next Friday at 3pm"
+ * - 只有日期时使用默认时间（DEFAULT_DUE_HOUR），"今晚"等使用其隐含的时间
+ * - 只有时间时取今天，已过去则取明天
+ * @param text 文本内容
+ * @param now 当前时间（用于计算相对日期）
+ * @returns 无法识别时返回null
+ */
+export const parseDueDate = (text: string, now: Date = new Date()): ParsedDueDate | null => {
+  if (!text || !text.trim()) {
+    return null;
+  }
+
+  const today = startOfDay(now);
+  let dateMatch: DateMatch | null = null;
+  for (const rule of DATE_RULES) {
+    dateMatch = rule(text, today);
+    if (dateMatch && !isNaN(dateMatch.day.getTime())) {
+      break;
+    }
+    dateMatch = null;
+  }
+
+  const timeMatch = parseTime(text);
+  const validTime = timeMatch && timeMatch.hour < 24 && timeMatch.minute < 60 ? timeMatch : null;
+  if (!dateMatch && !validTime) {
+    return null;
+  }
+
+  const hour = validTime?.hour ?? dateMatch?.defaultHour ?? DEFAULT_DUE_HOUR;
+  const minute = validTime?.minute ?? 0;
+
+  let day = dateMatch?.day ?? today;
+  let dueAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+  if (!dateMatch && dueAt <= now) {
+    day = addDays(today, 1);
+    dueAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+  }
+
+  const matchedText = [dateMatch?.text, validTime?.text]
+    .filter((part): part is string => !!part)
+    .filter((part, index, parts) => parts.indexOf(part) === index)
+    .join(' ')
+    .trim();
+
+  return {
+    dueAt,
+    hasTime: !!validTime || dateMatch?.defaultHour !== undefined,
+    matchedText,
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * 全文搜索的查询构建（纯函数，便于测试）
+ * 分词器类型从ideas_fts的建表语句读取，null表示没有全文索引（SQLite不支持FTS5）
+ */
+
+export type FullTextTokenizer = 'trigram' | 'unicode61' | null;
+
+// 按空白拆分搜索词，忽略空词
+export const splitSearchTerms = (query: string): string[] =>
+  query.trim().split(/\s+/).filter(term => term.length > 0);
+
+/**
+ * 是否需要降级为LIKE查询
+ * 没有全文索引，或trigram分词器无法匹配少于3个字符的词时返回true
+ */
+export const needsLikeFallback = (terms: string[], tokenizer: FullTextTokenizer): boolean =>
+  tokenizer === null || (tokenizer === 'trigram' && terms.some(term => term.length < 3));
+
+/**
+ * 构建FTS5的MATCH表达式：每个词作为短语加引号（转义其中的引号），词之间为AND
+ * unicode61分词器按前缀匹配，trigram分词器本身就是子串匹配
+ */
+export const buildMatchQuery = (terms: string[], tokenizer: 'trigram' | 'unicode61'): string =>
+  terms
+    .map(term => `"${term.replace(/"/g, '""')}"${tokenizer === 'unicode61' ? '*' : ''}`)
+    .join(' ');
+
+// 文本是否包含任一搜索词，与LIKE一致不区分大小写
+export const containsAnyTerm = (text: string, terms: string[]): boolean => {
+  const lowerText = text.toLowerCase();
+  return terms.some(term => lowerText.includes(term.toLowerCase()));
+};
@@ -1,54 +1,138 @@
 // @ts-ignore
 import SQLite from 'react-native-sqlite-storage';
-import { IdeaRecord, NewIdea, UpdateIdea, BlockRecord, NewBlock, UpdateBlock, BlockType } from '../Types';
+import { IdeaRecord, NewIdea, UpdateIdea, BlockRecord, NewBlock, UpdateBlock, BlockType, FullTextSearchResult, TagRecord, UpdateTag, IdeaTagSource, IdeaRevision, IdeaRevisionKind, RevisionBlock, IdeaTemplate, BlockAttrs, CategoryFeedbackRecord, CategoryRecord, NewCategory, UpdateCategory, RecurrenceRule, RecurrenceSettings } from '../Types';
+import { extractHashtags, normalizeTagName } from './TagUtils';
+import { deleteLocalMediaFiles } from './MediaStorage';
+import { OPEN_ITEM_PREFIX } from './Checklist';
+import { extractWikiLinks } from './WikiLinks';
+import { FullTextTokenizer, splitSearchTerms, needsLikeFallback, buildMatchQuery, containsAnyTerm } from './FullTextQuery';
+import { DEFAULT_TRASH_RETENTION_DAYS, REVISION_COALESCE_WINDOW_MINUTES, MAX_REVISIONS_PER_IDEA, MAX_CATEGORY_FEEDBACK } from './config';
 
 // 启用Promise API
 SQLite.enablePromise(true);
 
+// 内容为文本的block类型，参与全文索引和#hashtag识别
+const TEXT_BLOCK_TYPES_SQL = [BlockType.MARKDOWN, BlockType.CHECKLIST].map(type => `'${type}'`).join(', ');
+
+// 计算某个idea全文索引正文的SQL片段：按顺序拼接其所有文本blocks的内容
+const ftsBodyOf = (ideaIdExpr: string) => `
+  COALESCE((
+    SELECT group_concat(content, char(10)) FROM (
+      SELECT content FROM blocks
+      WHERE idea_id = ${ideaIdExpr} AND type IN (${TEXT_BLOCK_TYPES_SQL})
+      ORDER BY order_index
+    )
+  ), '')
+`;
+
+// 保持全文索引与ideas/blocks表同步的触发器
+const FTS_TRIGGERS = [
+  `CREATE TRIGGER IF NOT EXISTS ideas_fts_ai AFTER INSERT ON ideas BEGIN
+    INSERT INTO ideas_fts (rowid, hint, body) VALUES (new.id, new.hint, ${ftsBodyOf('new.id')});
+  END;`,
+  `CREATE TRIGGER IF NOT EXISTS ideas_fts_au AFTER UPDATE OF hint ON ideas BEGIN
+    UPDATE ideas_fts SET hint = new.hint WHERE rowid = new.id;
+  END;`,
+  `CREATE TRIGGER IF NOT EXISTS ideas_fts_ad AFTER DELETE ON ideas BEGIN
+    DELETE FROM ideas_fts WHERE rowid = old.id;
+  END;`,
+  `CREATE TRIGGER IF NOT EXISTS blocks_fts_ai AFTER INSERT ON blocks BEGIN
+    UPDATE ideas_fts SET body = ${ftsBodyOf('new.idea_id')} WHERE rowid = new.idea_id;
+  END;`,
+  // block可能被移动到其他idea，新旧两个idea的索引都需要刷新
+  `CREATE TRIGGER IF NOT EXISTS blocks_fts_au AFTER UPDATE ON blocks BEGIN
+    UPDATE ideas_fts SET body = ${ftsBodyOf('old.idea_id')} WHERE rowid = old.idea_id;
+    UPDATE ideas_fts SET body = ${ftsBodyOf('new.idea_id')} WHERE rowid = new.idea_id;
+  END;`,
+  `CREATE TRIGGER IF NOT EXISTS blocks_fts_ad AFTER DELETE ON blocks BEGIN
+    UPDATE ideas_fts SET body = ${ftsBodyOf('old.idea_id')} WHERE rowid = old.idea_id;
+  END;`,
+];
+
+// wiki链接按标题（忽略大小写）指向的想法：不在回收站中、不是链接所在想法本身，同名时取最新的
+const linkTargetOf = (hintExpr: string, sourceIdExpr: string) => `
+  (SELECT id FROM ideas
+   WHERE hint = ${hintExpr} COLLATE NOCASE AND id != ${sourceIdExpr} AND deleted_at IS NULL
+   ORDER BY date DESC, created_at DESC LIMIT 1)
+`;
+
+// 内容指向应用内媒体文件的block类型，永久删除想法时一并删除文件
+const MEDIA_BLOCK_TYPES: BlockType[] = [BlockType.IMAGE, BlockType.AUDIO];
 
 class IdeaDatabase {
   private db: any = null;
   private isInitialized = false;
   
+  // 全文索引使用的分词器（首次搜索时从sqlite_master读取），null表示SQLite不支持FTS5、没有全文索引
+  private fullTextTokenizer: FullTextTokenizer | undefined = undefined;
+
   // 当前数据库版本
-  private static readonly CURRENT_VERSION = 6;
+  private static readonly CURRENT_VERSION = 20;
   
   // 数据库名称
   private static readonly DATABASE_NAME = 'InspiNote.db';
 
-  // 初始化数据库
-  async initialize(): Promise<void> {
+  // 本实例打开的数据库文件名（恢复备份时使用临时数据库）
+  private readonly databaseName: string;
+
+  constructor(databaseName: string = IdeaDatabase.DATABASE_NAME) {
+    this.databaseName = databaseName;
+  }
+
+  // 当前代码支持的数据库版本
+  static get currentVersion(): number {
+    return IdeaDatabase.CURRENT_VERSION;
+  }
+
+  /**
+   * 初始化数据库
+   * @param targetVersion 迁移到的目标版本，默认迁移到最新版本（恢复旧版本备份时使用更低的版本）
+   */
+  async initialize(targetVersion: number = IdeaDatabase.CURRENT_VERSION): Promise<void> {
     if (this.isInitialized) return;
 
     try {
       this.db = await SQLite.openDatabase({
-        name: IdeaDatabase.DATABASE_NAME,
+        name: this.databaseName,
         location: 'default',
       });
 
       // 检查并执行数据库迁移
-      await this.checkAndMigrate();
+      await this.checkAndMigrate(targetVersion);
       
       this.isInitialized = true;
     } catch (error) {
       console.error('❌ Database initialization failed:', error);
       throw new Error('数据库初始化失败');
     }
+
+    // 清理回收站中超过保留期限的想法（失败不影响启动，临时数据库不清理）
+    if (this.databaseName !== IdeaDatabase.DATABASE_NAME) {
+      return;
+    }
+    try {
+      await this.purgeExpiredTrash();
+    } catch (error) {
+      console.warn('⚠️ Failed to purge expired trash:', error);
+    }
+  }
+
+  // 将已打开的数据库迁移到最新版本
+  async migrateToLatest(): Promise<void> {
+    await this.ensureInitialized();
+    await this.checkAndMigrate(IdeaDatabase.CURRENT_VERSION);
   }
 
   // 检查数据库版本并执行迁移
-  private async checkAndMigrate(): Promise<void> {
+  private async checkAndMigrate(targetVersion: number = IdeaDatabase.CURRENT_VERSION): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
       // 获取当前数据库版本
       const currentVersion = await this.getDatabaseVersion();
 
-      if (currentVersion < IdeaDatabase.CURRENT_VERSION) {
-        await this.performMigration(currentVersion, IdeaDatabase.CURRENT_VERSION);
-        
-        // 更新数据库版本
-        await this.setDatabaseVersion(IdeaDatabase.CURRENT_VERSION);
+      if (currentVersion < targetVersion) {
+        await this.performMigration(currentVersion, targetVersion);
       }
     } catch (error) {
       console.error('❌ Database migration failed:', error);
@@ -81,9 +165,13 @@ class IdeaDatabase {
 
   // 执行数据库迁移
   private async performMigration(fromVersion: number, toVersion: number): Promise<void> {
-    // 按版本逐步迁移
+    // 按版本逐步迁移，每一步和版本号的更新在同一个事务中完成，
+    // 中途失败时已完成的步骤保留，失败的步骤整体回滚，下次启动从失败的版本继续
     for (let version = fromVersion; version < toVersion; version++) {
-      await this.migrateToVersion(version + 1);
+      await this.runInTransaction(async () => {
+        await this.migrateToVersion(version + 1);
+        await this.setDatabaseVersion(version + 1);
+      });
     }
   }
 
@@ -115,6 +203,62 @@ class IdeaDatabase {
         await this.migrateToVersion6();
         break;
       
+      case 7:
+        await this.migrateToVersion7();
+        break;
+
+      case 8:
+        await this.migrateToVersion8();
+        break;
+
+      case 9:
+        await this.migrateToVersion9();
+        break;
+
+      case 10:
+        await this.migrateToVersion10();
+        break;
+
+      case 11:
+        await this.migrateToVersion11();
+        break;
+
+      case 12:
+        await this.migrateToVersion12();
+        break;
+
+      case 13:
+        await this.migrateToVersion13();
+        break;
+
+      case 14:
+        await this.migrateToVersion14();
+        break;
+
+      case 15:
+        await this.migrateToVersion15();
+        break;
+
+      case 16:
+        await this.migrateToVersion16();
+        break;
+
+      case 17:
+        await this.migrateToVersion17();
+        break;
+
+      case 18:
+        await this.migrateToVersion18();
+        break;
+
+      case 19:
+        await this.migrateToVersion19();
+        break;
+
+      case 20:
+        await this.migrateToVersion20();
+        break;
+
       default:
         console.warn(`⚠️ Unknown migration version: ${version}`);
     }
@@ -259,6 +403,383 @@ class IdeaDatabase {
     }
   }
 
+  // 迁移到版本7：创建FTS5全文索引，覆盖ideas.hint和所有文本blocks的内容
+  // Android系统自带的SQLite没有FTS5，此时不创建索引和触发器，搜索使用LIKE降级查询
+  private async migrateToVersion7(): Promise<void> {
+    const populateIndex = `
+      INSERT INTO ideas_fts (rowid, hint, body)
+      SELECT id, hint, ${ftsBodyOf('ideas.id')} FROM ideas;
+    `;
+
+    try {
+      // 优先使用trigram分词器以支持中文子串匹配，旧版SQLite不支持时回退到unicode61
+      try {
+        await this.db.executeSql("CREATE VIRTUAL TABLE IF NOT EXISTS ideas_fts USING fts5(hint, body, tokenize='trigram');");
+      } catch (tokenizerError) {
+        console.warn('⚠️ trigram tokenizer unavailable, falling back to unicode61:', tokenizerError);
+        try {
+          await this.db.executeSql("CREATE VIRTUAL TABLE IF NOT EXISTS ideas_fts USING fts5(hint, body, tokenize='unicode61');");
+        } catch (fts5Error) {
+          console.warn('⚠️ FTS5 unavailable, full text search falls back to LIKE:', fts5Error);
+          this.fullTextTokenizer = null;
+          return;
+        }
+      }
+
+      await this.db.executeSql(populateIndex);
+      for (const trigger of FTS_TRIGGERS) {
+        await this.db.executeSql(trigger);
+      }
+    } catch (error) {
+      console.error('❌ Error in version 7 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本8：创建tags表和idea_tags关联表
+  private async migrateToVersion8(): Promise<void> {
+    const createTagsTable = `
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        color TEXT DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    // source区分手动添加的标签和从#hashtag自动识别的标签
+    const createIdeaTagsTable = `
+      CREATE TABLE IF NOT EXISTS idea_tags (
+        idea_id INTEGER NOT NULL,
+        tag_id INTEGER NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (idea_id, tag_id),
+        FOREIGN KEY (idea_id) REFERENCES ideas (id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags (id) ON DELETE CASCADE
+      );
+    `;
+
+    const createIdeaTagsTagIdIndex = `
+      CREATE INDEX IF NOT EXISTS idx_idea_tags_tag_id ON idea_tags(tag_id);
+    `;
+
+    // 未开启foreign_keys时级联删除不生效，使用触发器清理关联
+    const createCleanupTriggers = [
+      `CREATE TRIGGER IF NOT EXISTS idea_tags_idea_ad AFTER DELETE ON ideas BEGIN
+        DELETE FROM idea_tags WHERE idea_id = old.id;
+      END;`,
+      `CREATE TRIGGER IF NOT EXISTS idea_tags_tag_ad AFTER DELETE ON tags BEGIN
+        DELETE FROM idea_tags WHERE tag_id = old.id;
+      END;`,
+    ];
+
+    try {
+      await this.db.executeSql(createTagsTable);
+      await this.db.executeSql(createIdeaTagsTable);
+      await this.db.executeSql(createIdeaTagsTagIdIndex);
+      for (const trigger of createCleanupTriggers) {
+        await this.db.executeSql(trigger);
+      }
+    } catch (error) {
+      console.error('❌ Error in version 8 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本9：添加软删除字段和应用设置表
+  private async migrateToVersion9(): Promise<void> {
+    const addDeletedAtColumn = `
+      ALTER TABLE ideas ADD COLUMN deleted_at DATETIME DEFAULT NULL;
+    `;
+
+    const createDeletedAtIndex = `
+      CREATE INDEX IF NOT EXISTS idx_ideas_deleted_at ON ideas(deleted_at);
+    `;
+
+    const createSettingsTable = `
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+    `;
+
+    try {
+      await this.db.executeSql(addDeletedAtColumn);
+      await this.db.executeSql(createDeletedAtIndex);
+      await this.db.executeSql(createSettingsTable);
+    } catch (error) {
+      console.error('❌ Error in version 9 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本10：创建页面版本历史表
+  private async migrateToVersion10(): Promise<void> {
+    // blocks_json保存按顺序排列的完整block列表（RevisionBlock[]）
+    const createRevisionsTable = `
+      CREATE TABLE IF NOT EXISTS idea_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        idea_id INTEGER NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'edit',
+        blocks_json TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (idea_id) REFERENCES ideas (id) ON DELETE CASCADE
+      );
+    `;
+
+    const createRevisionsIndex = `
+      CREATE INDEX IF NOT EXISTS idx_idea_revisions_idea_id ON idea_revisions(idea_id);
+    `;
+
+    try {
+      await this.db.executeSql(createRevisionsTable);
+      await this.db.executeSql(createRevisionsIndex);
+    } catch (error) {
+      console.error('❌ Error in version 10 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本11：创建分类反馈表（记录用户手动修改的分类，供分类器学习）
+  private async migrateToVersion11(): Promise<void> {
+    const createFeedbackTable = `
+      CREATE TABLE IF NOT EXISTS category_feedback (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        text TEXT NOT NULL,
+        category TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    try {
+      await this.db.executeSql(createFeedbackTable);
+    } catch (error) {
+      console.error('❌ Error in version 11 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本12：创建分类表（内置分类在加载分类时写入，见ensureBuiltinCategories）
+  private async migrateToVersion12(): Promise<void> {
+    const createCategoriesTable = `
+      CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        keywords_json TEXT NOT NULL DEFAULT '[]',
+        order_index INTEGER NOT NULL DEFAULT 0,
+        archived INTEGER DEFAULT 0,
+        builtin INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    try {
+      await this.db.executeSql(createCategoriesTable);
+    } catch (error) {
+      console.error('❌ Error in version 12 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本13：添加截止时间和提醒时间字段
+  private async migrateToVersion13(): Promise<void> {
+    const addDueAtColumn = `
+      ALTER TABLE ideas ADD COLUMN due_at DATETIME DEFAULT NULL;
+    `;
+
+    const addRemindAtColumn = `
+      ALTER TABLE ideas ADD COLUMN remind_at DATETIME DEFAULT NULL;
+    `;
+
+    const createRemindAtIndex = `
+      CREATE INDEX IF NOT EXISTS idx_ideas_remind_at ON ideas(remind_at);
+    `;
+
+    try {
+      await this.db.executeSql(addDueAtColumn);
+      await this.db.executeSql(addRemindAtColumn);
+      await this.db.executeSql(createRemindAtIndex);
+    } catch (error) {
+      console.error('❌ Error in version 13 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本14：创建待办重复规则表（每个想法最多一条规则）
+  private async migrateToVersion14(): Promise<void> {
+    const createRecurrencesTable = `
+      CREATE TABLE IF NOT EXISTS idea_recurrences (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        idea_id INTEGER NOT NULL UNIQUE,
+        frequency TEXT NOT NULL,
+        interval_count INTEGER NOT NULL DEFAULT 1,
+        weekdays_json TEXT NOT NULL DEFAULT '[]',
+        month_day INTEGER DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (idea_id) REFERENCES ideas (id) ON DELETE CASCADE
+      );
+    `;
+
+    try {
+      await this.db.executeSql(createRecurrencesTable);
+    } catch (error) {
+      console.error('❌ Error in version 14 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本15：添加语音附件字段（语音输入时保留的录音）
+  private async migrateToVersion15(): Promise<void> {
+    const addAudioUriColumn = `
+      ALTER TABLE ideas ADD COLUMN audio_uri TEXT DEFAULT NULL;
+    `;
+
+    try {
+      await this.db.executeSql(addAudioUriColumn);
+    } catch (error) {
+      console.error('❌ Error in version 15 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本16：为blocks表添加attrs字段（JSON，按block类型保存附加属性，例如录音时长）
+  private async migrateToVersion16(): Promise<void> {
+    const addAttrsColumn = `
+      ALTER TABLE blocks ADD COLUMN attrs TEXT DEFAULT NULL;
+    `;
+
+    try {
+      await this.db.executeSql(addAttrsColumn);
+    } catch (error) {
+      console.error('❌ Error in version 16 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本17：全文索引加入清单blocks，重建引用了正文的触发器并刷新索引
+  private async migrateToVersion17(): Promise<void> {
+    // 没有全文索引（不支持FTS5）时无需处理
+    if (await this.getFullTextTokenizer() === null) {
+      return;
+    }
+
+    const dropTriggers = ['ideas_fts_ai', 'blocks_fts_ai', 'blocks_fts_au', 'blocks_fts_ad']
+      .map(name => `DROP TRIGGER IF EXISTS ${name};`);
+
+    const refreshIndex = `
+      UPDATE ideas_fts SET body = ${ftsBodyOf('ideas_fts.rowid')};
+    `;
+
+    try {
+      for (const statement of dropTriggers) {
+        await this.db.executeSql(statement);
+      }
+      for (const trigger of FTS_TRIGGERS) {
+        await this.db.executeSql(trigger);
+      }
+      await this.db.executeSql(refreshIndex);
+    } catch (error) {
+      console.error('❌ Error in version 17 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本18：创建idea_links表保存想法之间的wiki链接，并从现有blocks中提取
+  // target_hint为链接中写的标题，target_id为按标题解析到的想法（尚不存在时为NULL）
+  private async migrateToVersion18(): Promise<void> {
+    const createIdeaLinksTable = `
+      CREATE TABLE IF NOT EXISTS idea_links (
+        source_id INTEGER NOT NULL,
+        target_hint TEXT NOT NULL COLLATE NOCASE,
+        target_id INTEGER DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (source_id, target_hint),
+        FOREIGN KEY (source_id) REFERENCES ideas (id) ON DELETE CASCADE,
+        FOREIGN KEY (target_id) REFERENCES ideas (id) ON DELETE SET NULL
+      );
+    `;
+
+    const createTargetIdIndex = `
+      CREATE INDEX IF NOT EXISTS idx_idea_links_target_id ON idea_links(target_id);
+    `;
+
+    // 想法标题变化时按标题查找受影响的链接
+    const createTargetHintIndex = `
+      CREATE INDEX IF NOT EXISTS idx_idea_links_target_hint ON idea_links(target_hint);
+    `;
+
+    // 链接按标题（忽略大小写）解析到想法
+    const createHintIndex = `
+      CREATE INDEX IF NOT EXISTS idx_ideas_hint_nocase ON ideas(hint COLLATE NOCASE);
+    `;
+
+    // 未开启foreign_keys时级联删除不生效，使用触发器清理关联
+    const createCleanupTrigger = `
+      CREATE TRIGGER IF NOT EXISTS idea_links_idea_ad AFTER DELETE ON ideas BEGIN
+        DELETE FROM idea_links WHERE source_id = old.id;
+        UPDATE idea_links SET target_id = NULL WHERE target_id = old.id;
+      END;
+    `;
+
+    try {
+      await this.db.executeSql(createIdeaLinksTable);
+      await this.db.executeSql(createTargetIdIndex);
+      await this.db.executeSql(createTargetHintIndex);
+      await this.db.executeSql(createHintIndex);
+      await this.db.executeSql(createCleanupTrigger);
+      await this.rebuildIdeaLinks();
+    } catch (error) {
+      console.error('❌ Error in version 18 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本19：创建页面模板表，blocks_json为按顺序保存的block列表（与版本历史的快照格式相同）
+  private async migrateToVersion19(): Promise<void> {
+    const createTemplatesTable = `
+      CREATE TABLE IF NOT EXISTS templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        blocks_json TEXT NOT NULL DEFAULT '[]',
+        category_id TEXT DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `;
+
+    try {
+      await this.db.executeSql(createTemplatesTable);
+    } catch (error) {
+      console.error('❌ Error in version 19 migration:', error);
+      throw error;
+    }
+  }
+
+  // 迁移到版本20：添加每日日记标记，唯一索引保证每个日期最多一篇日记（回收站中的除外）
+  private async migrateToVersion20(): Promise<void> {
+    const addIsJournalColumn = `
+      ALTER TABLE ideas ADD COLUMN is_journal INTEGER DEFAULT 0;
+    `;
+
+    const createJournalIndex = `
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_ideas_journal_date ON ideas(date)
+      WHERE is_journal = 1 AND deleted_at IS NULL;
+    `;
+
+    try {
+      await this.db.executeSql(addIsJournalColumn);
+      await this.db.executeSql(createJournalIndex);
+    } catch (error) {
+      console.error('❌ Error in version 20 migration:', error);
+      throw error;
+    }
+  }
+
   // 确保数据库已初始化
   private async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
@@ -282,8 +803,8 @@ class IdeaDatabase {
     const formattedDate = IdeaDatabase.formatDateToYYYYMMDD(idea.date);
 
     const insertQuery = `
-      INSERT INTO ideas (hint, detail, date, category, formatted_date, completed)
-      VALUES (?, ?, ?, ?, ?, ?);
+      INSERT INTO ideas (hint, detail, date, category, formatted_date, completed, due_at, remind_at, audio_uri, is_journal)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
     `;
 
     try {
@@ -294,9 +815,15 @@ class IdeaDatabase {
         idea.category || null,
         formattedDate,
         idea.completed ? 1 : 0,
+        idea.due_at || null,
+        idea.remind_at || null,
+        idea.audio_uri || null,
+        idea.is_journal ? 1 : 0,
       ]);
       
       const insertId = result[0].insertId;
+      await this.syncHashtags(insertId);
+      await this.resolveIdeaLinks(insertId);
       return insertId;
     } catch (error) {
       console.error('❌ Error adding idea:', error);
@@ -333,6 +860,18 @@ class IdeaDatabase {
       fields.push('completed = ?');
       values.push(updates.completed ? 1 : 0);
     }
+    if (updates.due_at !== undefined) {
+      fields.push('due_at = ?');
+      values.push(updates.due_at);
+    }
+    if (updates.remind_at !== undefined) {
+      fields.push('remind_at = ?');
+      values.push(updates.remind_at);
+    }
+    if (updates.audio_uri !== undefined) {
+      fields.push('audio_uri = ?');
+      values.push(updates.audio_uri);
+    }
 
     if (fields.length === 0) return;
 
@@ -346,9 +885,16 @@ class IdeaDatabase {
     `;
 
     try {
+      // 改标题时，指向旧标题的链接也需要重新解析
+      const previous = updates.hint !== undefined
+        ? await this.db.executeSql('SELECT hint FROM ideas WHERE id = ?;', [id])
+        : null;
       const result = await this.db.executeSql(updateQuery, values);
       if (result[0].rowsAffected === 0) {
         console.warn('⚠️ No idea found with ID:', id);
+      } else if (updates.hint !== undefined) {
+        await this.syncHashtags(id);
+        await this.resolveIdeaLinks(id, previous[0].rows.length > 0 ? previous[0].rows.item(0).hint : undefined);
       }
     } catch (error) {
       console.error('❌ Error updating idea:', error);
@@ -356,16 +902,22 @@ class IdeaDatabase {
     }
   }
 
-  // 删除想法
+  // 删除想法（移入回收站，blocks保留以便恢复）
   async deleteIdea(id: number): Promise<void> {
     await this.ensureInitialized();
 
-    const deleteQuery = 'DELETE FROM ideas WHERE id = ?;';
+    const deleteQuery = `
+      UPDATE ideas
+      SET deleted_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND deleted_at IS NULL;
+    `;
 
     try {
       const result = await this.db.executeSql(deleteQuery, [id]);
       if (result[0].rowsAffected === 0) {
         console.warn('⚠️ No idea found with ID:', id);
+      } else {
+        await this.resolveIdeaLinks(id);
       }
     } catch (error) {
       console.error('❌ Error deleting idea:', error);
@@ -373,52 +925,249 @@ class IdeaDatabase {
     }
   }
 
-  // 获取指定日期的想法
-  async getIdeasByDate(date: string): Promise<IdeaRecord[]> {
+  // 从回收站恢复想法
+  async restoreIdea(id: number): Promise<void> {
     await this.ensureInitialized();
 
-    const selectQuery = `
-      SELECT * FROM ideas 
-      WHERE date = ? 
-      ORDER BY created_at ASC;
+    // 同一日期已有新的日记时，恢复的日记作为普通想法恢复
+    const demoteCollidingJournal = `
+      UPDATE ideas SET is_journal = 0
+      WHERE id = ? AND is_journal = 1 AND EXISTS (
+        SELECT 1 FROM ideas AS other
+        WHERE other.is_journal = 1 AND other.date = ideas.date AND other.deleted_at IS NULL AND other.id != ideas.id
+      );
     `;
 
     try {
-      const result = await this.db.executeSql(selectQuery, [date]);
-      return this.parseQueryResult(result);
+      await this.db.executeSql(demoteCollidingJournal, [id]);
+      const result = await this.db.executeSql(
+        'UPDATE ideas SET deleted_at = NULL WHERE id = ?;',
+        [id]
+      );
+      if (result[0].rowsAffected === 0) {
+        console.warn('⚠️ No idea found with ID:', id);
+      } else {
+        await this.resolveIdeaLinks(id);
+      }
     } catch (error) {
-      console.error('❌ Error fetching ideas by date:', error);
-      throw new Error('加载想法失败');
+      console.error('❌ Error restoring idea:', error);
+      throw new Error('恢复想法失败');
     }
   }
 
-  // 获取指定月份的所有想法（优化版：使用格式化日期字段）
-  async getIdeasByMonth(year: number, month: number): Promise<IdeaRecord[]> {
+  // 永久删除回收站中的想法
+  async permanentlyDeleteIdea(id: number): Promise<void> {
     await this.ensureInitialized();
 
-    const monthPrefix = `${year}${String(month).padStart(2, '0')}`;
-
-    const selectQuery = `
-      SELECT * FROM ideas 
-      WHERE formatted_date LIKE ? 
-      ORDER BY date ASC, created_at ASC;
-    `;
-
     try {
-      const result = await this.db.executeSql(selectQuery, [`${monthPrefix}%`]);
-      return this.parseQueryResult(result);
+      await this.removeIdeasPermanently('id = ? AND deleted_at IS NOT NULL', [id]);
     } catch (error) {
-      console.error('❌ Error fetching ideas by month:', error);
-      throw new Error('加载月份想法失败');
+      console.error('❌ Error permanently deleting idea:', error);
+      throw new Error('永久删除想法失败');
     }
   }
 
-  // 获取所有想法
-  async getAllIdeas(): Promise<IdeaRecord[]> {
+  // 清空回收站
+  async emptyTrash(): Promise<number> {
     await this.ensureInitialized();
 
-    const selectQuery = `
+    try {
+      return await this.removeIdeasPermanently('deleted_at IS NOT NULL', []);
+    } catch (error) {
+      console.error('❌ Error emptying trash:', error);
+      throw new Error('清空回收站失败');
+    }
+  }
+
+  // 永久删除回收站中超过保留期限的想法
+  async purgeExpiredTrash(): Promise<number> {
+    await this.ensureInitialized();
+
+    const retentionDays = await this.getTrashRetentionDays();
+
+    try {
+      return await this.removeIdeasPermanently(
+        "deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)",
+        [`-${retentionDays} days`]
+      );
+    } catch (error) {
+      console.error('❌ Error purging expired trash:', error);
+      throw new Error('清理回收站失败');
+    }
+  }
+
+  // 获取回收站中的想法（按删除时间倒序）
+  async getDeletedIdeas(): Promise<IdeaRecord[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT * FROM ideas
+      WHERE deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery);
+      return this.parseQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching deleted ideas:', error);
+      throw new Error('加载回收站失败');
+    }
+  }
+
+  // 按条件永久删除想法及其blocks，并清理图片和录音文件
+  private async removeIdeasPermanently(whereClause: string, params: any[]): Promise<number> {
+    const idResult = await this.db.executeSql(`SELECT id FROM ideas WHERE ${whereClause};`, params);
+    const ideaIds: number[] = [];
+    for (let i = 0; i < idResult[0].rows.length; i++) {
+      ideaIds.push(idResult[0].rows.item(i).id);
+    }
+    if (ideaIds.length === 0) {
+      return 0;
+    }
+
+    const placeholders = ideaIds.map(() => '?').join(', ');
+    const typePlaceholders = MEDIA_BLOCK_TYPES.map(() => '?').join(', ');
+    const mediaResult = await this.db.executeSql(
+      `SELECT content FROM blocks WHERE idea_id IN (${placeholders}) AND type IN (${typePlaceholders});`,
+      [...ideaIds, ...MEDIA_BLOCK_TYPES]
+    );
+    const mediaUris: string[] = [];
+    for (let i = 0; i < mediaResult[0].rows.length; i++) {
+      mediaUris.push(mediaResult[0].rows.item(i).content);
+    }
+
+    // 语音附件
+    const audioResult = await this.db.executeSql(
+      `SELECT audio_uri FROM ideas WHERE id IN (${placeholders}) AND audio_uri IS NOT NULL;`,
+      ideaIds
+    );
+    for (let i = 0; i < audioResult[0].rows.length; i++) {
+      mediaUris.push(audioResult[0].rows.item(i).audio_uri);
+    }
+
+    // 历史版本中可能引用了已从当前页面移除的图片和录音
+    const revisionResult = await this.db.executeSql(
+      `SELECT blocks_json FROM idea_revisions WHERE idea_id IN (${placeholders});`,
+      ideaIds
+    );
+    for (let i = 0; i < revisionResult[0].rows.length; i++) {
+      for (const block of IdeaDatabase.parseRevisionBlocks(revisionResult[0].rows.item(i).blocks_json)) {
+        if (MEDIA_BLOCK_TYPES.includes(block.type) && !mediaUris.includes(block.content)) {
+          mediaUris.push(block.content);
+        }
+      }
+    }
+
+    try {
+      await this.db.executeSql('BEGIN TRANSACTION;');
+      // 未开启foreign_keys时级联删除不生效，手动删除blocks
+      await this.db.executeSql(`DELETE FROM blocks WHERE idea_id IN (${placeholders});`, ideaIds);
+      await this.db.executeSql(`DELETE FROM idea_revisions WHERE idea_id IN (${placeholders});`, ideaIds);
+      await this.db.executeSql(`DELETE FROM idea_recurrences WHERE idea_id IN (${placeholders});`, ideaIds);
+      await this.db.executeSql(`DELETE FROM ideas WHERE id IN (${placeholders});`, ideaIds);
+      await this.db.executeSql('COMMIT;');
+    } catch (error) {
+      try {
+        await this.db.executeSql('ROLLBACK;');
+      } catch (rollbackError) {
+        console.error('❌ Error rolling back transaction:', rollbackError);
+      }
+      throw error;
+    }
+
+    await deleteLocalMediaFiles(await this.filterUnreferencedMedia(mediaUris));
+    return ideaIds.length;
+  }
+
+  // 过滤掉仍被其他想法的blocks或历史版本引用的图片和录音（如移动到其他想法的blocks）
+  // 查询失败时保留所有文件
+  private async filterUnreferencedMedia(uris: string[]): Promise<string[]> {
+    const unreferenced: string[] = [];
+    try {
+      for (const uri of uris) {
+        const result = await this.db.executeSql(
+          `SELECT
+             (SELECT COUNT(*) FROM blocks WHERE content = ?) +
+             (SELECT COUNT(*) FROM idea_revisions WHERE instr(blocks_json, ?) > 0) AS count;`,
+          [uri, JSON.stringify(uri)]
+        );
+        if (result[0].rows.item(0).count === 0) {
+          unreferenced.push(uri);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to check media references:', error);
+      return [];
+    }
+    return unreferenced;
+  }
+
+  // 获取指定日期的想法
+  async getIdeasByDate(date: string): Promise<IdeaRecord[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT * FROM ideas 
+      WHERE date = ? AND deleted_at IS NULL
+      ORDER BY created_at ASC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, [date]);
+      return this.parseQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching ideas by date:', error);
+      throw new Error('加载想法失败');
+    }
+  }
+
+  // 获取指定日期的日记（不在回收站中），没有时返回null
+  async getJournalByDate(date: string): Promise<IdeaRecord | null> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT * FROM ideas
+      WHERE is_journal = 1 AND date = ? AND deleted_at IS NULL;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, [date]);
+      return this.parseQueryResult(result)[0] ?? null;
+    } catch (error) {
+      console.error('❌ Error fetching journal:', error);
+      throw new Error('加载日记失败');
+    }
+  }
+
+  // 获取指定月份的所有想法（优化版：使用格式化日期字段）
+  async getIdeasByMonth(year: number, month: number): Promise<IdeaRecord[]> {
+    await this.ensureInitialized();
+
+    const monthPrefix = `${year}${String(month).padStart(2, '0')}`;
+
+    const selectQuery = `
+      SELECT * FROM ideas 
+      WHERE formatted_date LIKE ? AND deleted_at IS NULL
+      ORDER BY date ASC, created_at ASC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, [`${monthPrefix}%`]);
+      return this.parseQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching ideas by month:', error);
+      throw new Error('加载月份想法失败');
+    }
+  }
+
+  // 获取所有想法
+  async getAllIdeas(): Promise<IdeaRecord[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
       SELECT * FROM ideas 
+      WHERE deleted_at IS NULL
       ORDER BY date DESC, created_at DESC;
     `;
 
@@ -431,13 +1180,81 @@ class IdeaDatabase {
     }
   }
 
+  // 获取有待提醒的想法（未删除、未完成且设置了提醒时间），用于启动时重新预约提醒
+  async getIdeasWithPendingReminders(): Promise<IdeaRecord[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT * FROM ideas
+      WHERE deleted_at IS NULL AND completed = 0 AND remind_at IS NOT NULL
+      ORDER BY remind_at ASC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery);
+      return this.parseQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching ideas with reminders:', error);
+      throw new Error('加载提醒失败');
+    }
+  }
+
+  // 根据ID获取想法（包括回收站中的）
+  async getIdeaById(id: number): Promise<IdeaRecord | null> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql('SELECT * FROM ideas WHERE id = ?;', [id]);
+      return this.parseQueryResult(result)[0] || null;
+    } catch (error) {
+      console.error('❌ Error fetching idea:', id, error);
+      throw new Error('加载想法失败');
+    }
+  }
+
+  // 按标题查找wiki链接指向的想法（忽略大小写，不包括回收站中的和excludeId本身）
+  async findIdeaByHint(hint: string, excludeId: number = 0): Promise<IdeaRecord | null> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql(
+        `SELECT * FROM ideas WHERE id = ${linkTargetOf('?', '?')};`,
+        [hint.trim(), excludeId]
+      );
+      return this.parseQueryResult(result)[0] || null;
+    } catch (error) {
+      console.error('❌ Error finding idea by hint:', hint, error);
+      throw new Error('加载想法失败');
+    }
+  }
+
+  // 获取通过wiki链接指向该想法的其他想法（反向链接）
+  async getBacklinks(ideaId: number): Promise<IdeaRecord[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT DISTINCT ideas.* FROM idea_links
+      JOIN ideas ON ideas.id = idea_links.source_id
+      WHERE idea_links.target_id = ? AND ideas.deleted_at IS NULL
+      ORDER BY ideas.date DESC, ideas.created_at DESC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, [ideaId]);
+      return this.parseQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching backlinks:', ideaId, error);
+      throw new Error('加载反向链接失败');
+    }
+  }
+
   // 搜索想法
   async searchIdeas(keyword: string): Promise<IdeaRecord[]> {
     await this.ensureInitialized();
 
     const searchQuery = `
       SELECT * FROM ideas 
-      WHERE hint LIKE ? OR detail LIKE ?
+      WHERE (hint LIKE ? OR detail LIKE ?) AND deleted_at IS NULL
       ORDER BY created_at DESC;
     `;
 
@@ -452,6 +1269,111 @@ class IdeaDatabase {
     }
   }
 
+  // 全文搜索（基于FTS5索引，搜索hint和所有markdown blocks，按相关度排序并返回高亮片段）
+  // limit为null时返回全部结果，供结果还要在JS中继续筛选的场景使用
+  async searchFullText(query: string, limit: number | null = 100): Promise<FullTextSearchResult[]> {
+    await this.ensureInitialized();
+
+    const terms = splitSearchTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    try {
+      const tokenizer = await this.getFullTextTokenizer();
+
+      // 没有全文索引，或trigram分词器无法匹配少于3个字符的词时，交给降级查询处理
+      if (tokenizer === null || needsLikeFallback(terms, tokenizer)) {
+        return this.searchFullTextFallback(terms, limit);
+      }
+
+      const matchQuery = buildMatchQuery(terms, tokenizer);
+
+      const searchQuery = `
+        SELECT ideas.*,
+          snippet(ideas_fts, -1, ?, ?, '…', 16) AS snippet,
+          bm25(ideas_fts, 2.0, 1.0) AS rank
+        FROM ideas_fts
+        JOIN ideas ON ideas.id = ideas_fts.rowid
+        WHERE ideas_fts MATCH ? AND ideas.deleted_at IS NULL
+        ORDER BY rank ASC, ideas.created_at DESC
+        LIMIT ?;
+      `;
+
+      const result = await this.db.executeSql(searchQuery, [
+        IdeaDatabase.SNIPPET_MARK_START,
+        IdeaDatabase.SNIPPET_MARK_END,
+        matchQuery,
+        limit ?? -1,
+      ]);
+
+      const matches: FullTextSearchResult[] = [];
+      for (let i = 0; i < result[0].rows.length; i++) {
+        const { snippet, rank, ...idea } = result[0].rows.item(i);
+        matches.push({ idea, snippet, rank });
+      }
+      return matches;
+    } catch (error) {
+      console.error('❌ Error in full text search:', error);
+
+      // 降级到LIKE查询（兼容性）
+      return this.searchFullTextFallback(terms, limit);
+    }
+  }
+
+  // 全文搜索的降级查询：逐词LIKE匹配hint或文本blocks，在JS中生成高亮片段
+  private async searchFullTextFallback(terms: string[], limit: number | null): Promise<FullTextSearchResult[]> {
+    const conditions = terms.map(() => `(
+      hint LIKE ? OR EXISTS (
+        SELECT 1 FROM blocks
+        WHERE blocks.idea_id = ideas.id AND blocks.type IN (${TEXT_BLOCK_TYPES_SQL}) AND blocks.content LIKE ?
+      )
+    )`);
+    const values: (string | number)[] = [];
+    terms.forEach(term => values.push(`%${term}%`, `%${term}%`));
+    values.push(limit ?? -1); // SQLite中LIMIT -1表示不限制
+
+    const searchQuery = `
+      SELECT ideas.*, ${ftsBodyOf('ideas.id')} AS body
+      FROM ideas
+      WHERE ${conditions.join(' AND ')} AND deleted_at IS NULL
+      ORDER BY created_at DESC
+      LIMIT ?;
+    `;
+
+    try {
+      const result = await this.db.executeSql(searchQuery, values);
+      const matches: FullTextSearchResult[] = [];
+      for (let i = 0; i < result[0].rows.length; i++) {
+        const { body, ...idea } = result[0].rows.item(i);
+        const source = containsAnyTerm(idea.hint, terms) ? idea.hint : body;
+        matches.push({ idea, snippet: IdeaDatabase.buildSnippet(source, terms), rank: 0 });
+      }
+      return matches;
+    } catch (error) {
+      console.error('❌ Error in fallback full text search:', error);
+      throw new Error('搜索想法失败');
+    }
+  }
+
+  // 读取全文索引的分词器类型，没有全文索引时返回null
+  private async getFullTextTokenizer(): Promise<FullTextTokenizer> {
+    if (this.fullTextTokenizer !== undefined) {
+      return this.fullTextTokenizer;
+    }
+
+    const result = await this.db.executeSql(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'ideas_fts'"
+    );
+    if (result[0].rows.length === 0) {
+      this.fullTextTokenizer = null;
+      return null;
+    }
+    const createSql: string = result[0].rows.item(0).sql;
+    this.fullTextTokenizer = createSql.includes('trigram') ? 'trigram' : 'unicode61';
+    return this.fullTextTokenizer;
+  }
+
   // 获取想法统计信息
   async getStats(): Promise<{ total: number; today: number; thisWeek: number }> {
     await this.ensureInitialized();
@@ -463,15 +1385,15 @@ class IdeaDatabase {
 
     try {
       // 总数
-      const totalResult = await this.db.executeSql('SELECT COUNT(*) as count FROM ideas');
+      const totalResult = await this.db.executeSql('SELECT COUNT(*) as count FROM ideas WHERE deleted_at IS NULL');
       const total = totalResult[0].rows.item(0).count;
 
       // 今天
-      const todayResult = await this.db.executeSql('SELECT COUNT(*) as count FROM ideas WHERE date = ?', [today]);
+      const todayResult = await this.db.executeSql('SELECT COUNT(*) as count FROM ideas WHERE date = ? AND deleted_at IS NULL', [today]);
       const todayCount = todayResult[0].rows.item(0).count;
 
       // 本周
-      const weekResult = await this.db.executeSql('SELECT COUNT(*) as count FROM ideas WHERE date >= ?', [weekAgoStr]);
+      const weekResult = await this.db.executeSql('SELECT COUNT(*) as count FROM ideas WHERE date >= ? AND deleted_at IS NULL', [weekAgoStr]);
       const weekCount = weekResult[0].rows.item(0).count;
 
       const stats = { total, today: todayCount, thisWeek: weekCount };
@@ -487,7 +1409,7 @@ class IdeaDatabase {
     await this.ensureInitialized();
 
     try {
-      const result = await this.db.executeSql('SELECT DISTINCT date FROM ideas ORDER BY date DESC');
+      const result = await this.db.executeSql('SELECT DISTINCT date FROM ideas WHERE deleted_at IS NULL ORDER BY date DESC');
       const dates: string[] = [];
       
       for (let i = 0; i < result[0].rows.length; i++) {
@@ -510,7 +1432,7 @@ class IdeaDatabase {
     try {
       // 使用格式化日期字段进行快速查询
       const result = await this.db.executeSql(
-        'SELECT DISTINCT date FROM ideas WHERE formatted_date LIKE ? ORDER BY date ASC',
+        'SELECT DISTINCT date FROM ideas WHERE formatted_date LIKE ? AND deleted_at IS NULL ORDER BY date ASC',
         [`${monthPrefix}%`]
       );
       const dates: string[] = [];
@@ -535,7 +1457,7 @@ class IdeaDatabase {
 
     try {
       const result = await this.db.executeSql(
-        'SELECT DISTINCT date FROM ideas WHERE date >= ? AND date <= ? ORDER BY date ASC',
+        'SELECT DISTINCT date FROM ideas WHERE date >= ? AND date <= ? AND deleted_at IS NULL ORDER BY date ASC',
         [startDate, endDate]
       );
       const dates: string[] = [];
@@ -551,11 +1473,11 @@ class IdeaDatabase {
     }
   }
 
-  // 批量删除空想法
+  // 批量删除空想法（移入回收站）
   async cleanupEmptyIdeas(): Promise<number> {
     await this.ensureInitialized();
 
-    const deleteQuery = "DELETE FROM ideas WHERE hint = '' OR hint IS NULL";
+    const deleteQuery = "UPDATE ideas SET deleted_at = CURRENT_TIMESTAMP WHERE (hint = '' OR hint IS NULL) AND deleted_at IS NULL";
 
     try {
       const result = await this.db.executeSql(deleteQuery);
@@ -598,6 +1520,7 @@ class IdeaDatabase {
         await this.db.close();
         this.db = null;
         this.isInitialized = false;
+        this.fullTextTokenizer = undefined;
       } catch (error) {
         console.error('❌ Error closing database:', error);
         throw new Error('关闭数据库失败');
@@ -605,6 +1528,21 @@ class IdeaDatabase {
     }
   }
 
+  // 关闭并删除本实例的数据库文件（仅用于恢复备份时的临时数据库）
+  async destroy(): Promise<void> {
+    if (this.databaseName === IdeaDatabase.DATABASE_NAME) {
+      throw new Error('不能删除主数据库');
+    }
+
+    await this.close();
+    try {
+      await SQLite.deleteDatabase({ name: this.databaseName, location: 'default' });
+    } catch (error) {
+      // 数据库文件不存在时也会失败，忽略
+      console.warn('⚠️ Failed to delete database:', this.databaseName, error);
+    }
+  }
+
   // 获取当前日期字符串 (YYYY-MM-DD)
   static getCurrentDateString(): string {
     return new Date().toISOString().split('T')[0];
@@ -622,22 +1560,81 @@ class IdeaDatabase {
     return date.toLocaleDateString('zh-CN', options);
   }
 
+  // 将SQLite的CURRENT_TIMESTAMP（UTC，YYYY-MM-DD HH:MM:SS）格式化为本地时间
+  static formatTimestampForDisplay(timestamp: string, locale = 'zh-CN'): string {
+    const date = new Date(`${timestamp.replace(' ', 'T')}Z`);
+    if (isNaN(date.getTime())) {
+      return timestamp;
+    }
+    return date.toLocaleString(locale, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
   // 生成格式化日期 (YYYYMMDD)
   static formatDateToYYYYMMDD(dateString: string): string {
     return dateString.replace(/-/g, '');
   }
 
+  // 搜索片段中高亮区域的起止标记
+  static readonly SNIPPET_MARK_START = '\u0002';
+  static readonly SNIPPET_MARK_END = '\u0003';
+
+  // 在文本中截取第一个命中词附近的片段，并用高亮标记包裹所有命中词
+  static buildSnippet(text: string, terms: string[], radius = 24): string {
+    const lowerText = text.toLowerCase();
+    const firstHit = terms
+      .map(term => lowerText.indexOf(term.toLowerCase()))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)[0] ?? 0;
+
+    const start = Math.max(0, firstHit - radius);
+    const end = Math.min(text.length, firstHit + radius * 2);
+    let snippet = text.substring(start, end);
+
+    const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    snippet = snippet.replace(
+      new RegExp(`(${escaped.join('|')})`, 'gi'),
+      `${IdeaDatabase.SNIPPET_MARK_START}$1${IdeaDatabase.SNIPPET_MARK_END}`
+    );
+
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+  }
+
   // ========================= Block 操作方法 =========================
 
   // 解析Block查询结果的辅助方法
   private parseBlockQueryResult(result: any): BlockRecord[] {
     const blocks: BlockRecord[] = [];
     for (let i = 0; i < result[0].rows.length; i++) {
-      blocks.push(result[0].rows.item(i));
+      const row = result[0].rows.item(i);
+      blocks.push({ ...row, attrs: IdeaDatabase.parseBlockAttrs(row.attrs) });
     }
     return blocks;
   }
 
+  // 解析blocks表的attrs字段（JSON），为空或无效时返回undefined
+  private static parseBlockAttrs(attrsJson: string | null): BlockAttrs | undefined {
+    if (!attrsJson) {
+      return undefined;
+    }
+    try {
+      const attrs = JSON.parse(attrsJson);
+      return attrs && typeof attrs === 'object' ? attrs : undefined;
+    } catch (error) {
+      console.warn('⚠️ Invalid block attrs:', error);
+      return undefined;
+    }
+  }
+
+  // 将block的附加属性序列化后写入attrs字段，没有属性时写入NULL
+  private static serializeBlockAttrs(attrs?: BlockAttrs): string | null {
+    return attrs && Object.keys(attrs).length > 0 ? JSON.stringify(attrs) : null;
+  }
+
   // 获取指定idea的所有blocks
   async getBlocksByIdeaId(ideaId: number): Promise<BlockRecord[]> {
     await this.ensureInitialized();
@@ -663,8 +1660,8 @@ class IdeaDatabase {
     await this.ensureInitialized();
 
     const insertQuery = `
-      INSERT INTO blocks (idea_id, block_id, type, content, order_index, color)
-      VALUES (?, ?, ?, ?, ?, ?);
+      INSERT INTO blocks (idea_id, block_id, type, content, order_index, color, attrs)
+      VALUES (?, ?, ?, ?, ?, ?, ?);
     `;
 
     try {
@@ -675,6 +1672,7 @@ class IdeaDatabase {
         block.content,
         block.order_index,
         block.color || null,
+        IdeaDatabase.serializeBlockAttrs(block.attrs),
       ]);
       
       const insertId = result[0].insertId;
@@ -708,6 +1706,10 @@ class IdeaDatabase {
       fields.push('color = ?');
       values.push(updates.color);
     }
+    if (updates.attrs !== undefined) {
+      fields.push('attrs = ?');
+      values.push(IdeaDatabase.serializeBlockAttrs(updates.attrs));
+    }
 
     if (fields.length === 0) return;
 
@@ -741,6 +1743,9 @@ class IdeaDatabase {
       const result = await this.db.executeSql(deleteQuery, [ideaId, blockId]);
       if (result[0].rowsAffected === 0) {
         console.warn('⚠️ No block found with idea_id:', ideaId, 'block_id:', blockId);
+      } else {
+        await this.syncHashtags(ideaId);
+        await this.syncIdeaLinks(ideaId);
       }
     } catch (error) {
       console.error('❌ Error deleting block:', error);
@@ -748,11 +1753,15 @@ class IdeaDatabase {
     }
   }
 
-  // 批量保存blocks（用于自动保存）
-  async saveDirtyBlocks(ideaId: number, blocks: { blockId: string; type: BlockType; content: string; orderIndex: number; color?: string }[]): Promise<void> {
+  // 批量保存blocks（用于自动保存），deletedBlockIds中的blocks在同一个事务中删除
+  async saveDirtyBlocks(
+    ideaId: number,
+    blocks: { blockId: string; type: BlockType; content: string; orderIndex: number; color?: string; attrs?: BlockAttrs }[],
+    deletedBlockIds: string[] = []
+  ): Promise<void> {
     await this.ensureInitialized();
 
-    if (blocks.length === 0) {
+    if (blocks.length === 0 && deletedBlockIds.length === 0) {
       return;
     }
 
@@ -760,11 +1769,15 @@ class IdeaDatabase {
       // 开始事务
       await this.db.executeSql('BEGIN TRANSACTION;');
 
+      for (const blockId of deletedBlockIds) {
+        await this.db.executeSql('DELETE FROM blocks WHERE idea_id = ? AND block_id = ?;', [ideaId, blockId]);
+      }
+
       for (const block of blocks) {
         // 先尝试更新，如果不存在则插入
         const updateQuery = `
           UPDATE blocks 
-          SET type = ?, content = ?, order_index = ?, color = ?, updated_at = CURRENT_TIMESTAMP
+          SET type = ?, content = ?, order_index = ?, color = ?, attrs = ?, updated_at = CURRENT_TIMESTAMP
           WHERE idea_id = ? AND block_id = ?;
         `;
 
@@ -773,6 +1786,7 @@ class IdeaDatabase {
           block.content,
           block.orderIndex,
           block.color || null,
+          IdeaDatabase.serializeBlockAttrs(block.attrs),
           ideaId,
           block.blockId,
         ]);
@@ -780,8 +1794,8 @@ class IdeaDatabase {
         // 如果更新没有影响任何行，说明记录不存在，需要插入
         if (updateResult[0].rowsAffected === 0) {
           const insertQuery = `
-            INSERT INTO blocks (idea_id, block_id, type, content, order_index, color)
-            VALUES (?, ?, ?, ?, ?, ?);
+            INSERT INTO blocks (idea_id, block_id, type, content, order_index, color, attrs)
+            VALUES (?, ?, ?, ?, ?, ?, ?);
           `;
 
           await this.db.executeSql(insertQuery, [
@@ -791,12 +1805,15 @@ class IdeaDatabase {
             block.content,
             block.orderIndex,
             block.color || null,
+            IdeaDatabase.serializeBlockAttrs(block.attrs),
           ]);
         }
       }
 
       // 提交事务
       await this.db.executeSql('COMMIT;');
+      await this.syncHashtags(ideaId);
+      await this.syncIdeaLinks(ideaId);
     } catch (error) {
       // 回滚事务
       try {
@@ -810,6 +1827,35 @@ class IdeaDatabase {
     }
   }
 
+  // 获取包含未完成清单项的想法ID（不含回收站中的想法）
+  async getIdeaIdsWithOpenChecklistItems(): Promise<Set<number>> {
+    await this.ensureInitialized();
+
+    // 清单内容每行一项，未完成的项以OPEN_ITEM_PREFIX开头
+    const selectQuery = `
+      SELECT DISTINCT blocks.idea_id FROM blocks
+      JOIN ideas ON ideas.id = blocks.idea_id
+      WHERE blocks.type = ? AND ideas.deleted_at IS NULL
+        AND (blocks.content LIKE ? OR blocks.content LIKE ?);
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, [
+        BlockType.CHECKLIST,
+        `${OPEN_ITEM_PREFIX}%`,
+        `%\n${OPEN_ITEM_PREFIX}%`,
+      ]);
+      const ideaIds = new Set<number>();
+      for (let i = 0; i < result[0].rows.length; i++) {
+        ideaIds.add(result[0].rows.item(i).idea_id);
+      }
+      return ideaIds;
+    } catch (error) {
+      console.error('❌ Error fetching ideas with open checklist items:', error);
+      throw new Error('加载清单失败');
+    }
+  }
+
   // 删除指定idea的所有blocks
   async deleteBlocksByIdeaId(ideaId: number): Promise<number> {
     await this.ensureInitialized();
@@ -819,16 +1865,1411 @@ class IdeaDatabase {
     try {
       const result = await this.db.executeSql(deleteQuery, [ideaId]);
       const deletedCount = result[0].rowsAffected;
+      if (deletedCount > 0) {
+        await this.syncHashtags(ideaId);
+        await this.syncIdeaLinks(ideaId);
+      }
       return deletedCount;
     } catch (error) {
       console.error('❌ Error deleting blocks by idea ID:', error);
       throw new Error('删除idea的所有Block失败');
     }
   }
+
+  /**
+   * 将blocks移动到另一个idea，按原顺序追加到目标idea末尾，在一个事务中完成
+   * 与目标idea中已有block_id重复的block使用新的block_id
+   */
+  async moveBlocksToIdea(fromIdeaId: number, toIdeaId: number, blockIds: string[]): Promise<void> {
+    await this.ensureInitialized();
+
+    if (blockIds.length === 0 || fromIdeaId === toIdeaId) {
+      return;
+    }
+
+    try {
+      await this.db.executeSql('BEGIN TRANSACTION;');
+
+      const targetResult = await this.db.executeSql(
+        'SELECT block_id, order_index FROM blocks WHERE idea_id = ?;',
+        [toIdeaId]
+      );
+      const targetBlockIds = new Set<string>();
+      let nextOrderIndex = 0;
+      for (let i = 0; i < targetResult[0].rows.length; i++) {
+        const row = targetResult[0].rows.item(i);
+        targetBlockIds.add(row.block_id);
+        nextOrderIndex = Math.max(nextOrderIndex, row.order_index + 1);
+      }
+
+      const placeholders = blockIds.map(() => '?').join(', ');
+      const sourceResult = await this.db.executeSql(
+        `SELECT block_id FROM blocks WHERE idea_id = ? AND block_id IN (${placeholders}) ORDER BY order_index ASC;`,
+        [fromIdeaId, ...blockIds]
+      );
+
+      const baseId = Date.now();
+      for (let i = 0; i < sourceResult[0].rows.length; i++) {
+        const blockId: string = sourceResult[0].rows.item(i).block_id;
+        const newBlockId = targetBlockIds.has(blockId) ? `${baseId}_${i}` : blockId;
+        await this.db.executeSql(
+          `UPDATE blocks SET idea_id = ?, block_id = ?, order_index = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE idea_id = ? AND block_id = ?;`,
+          [toIdeaId, newBlockId, nextOrderIndex + i, fromIdeaId, blockId]
+        );
+      }
+
+      await this.db.executeSql('COMMIT;');
+      await this.syncHashtags(fromIdeaId);
+      await this.syncHashtags(toIdeaId);
+      await this.syncIdeaLinks(fromIdeaId);
+      await this.syncIdeaLinks(toIdeaId);
+    } catch (error) {
+      try {
+        await this.db.executeSql('ROLLBACK;');
+      } catch (rollbackError) {
+        console.error('❌ Error rolling back transaction:', rollbackError);
+      }
+
+      console.error('❌ Error moving blocks:', error);
+      throw new Error('移动Block失败');
+    }
+  }
+
+  // ========================= 版本历史操作方法 =========================
+
+  // 解析版本快照JSON，格式异常时返回空列表
+  private static parseRevisionBlocks(blocksJson: string): RevisionBlock[] {
+    try {
+      const blocks = JSON.parse(blocksJson);
+      return Array.isArray(blocks) ? blocks : [];
+    } catch (error) {
+      console.warn('⚠️ Invalid revision snapshot:', error);
+      return [];
+    }
+  }
+
+  // 解析版本查询结果的辅助方法
+  private parseRevisionQueryResult(result: any): IdeaRevision[] {
+    const revisions: IdeaRevision[] = [];
+    for (let i = 0; i < result[0].rows.length; i++) {
+      const row = result[0].rows.item(i);
+      revisions.push({
+        id: row.id,
+        idea_id: row.idea_id,
+        kind: row.kind,
+        blocks: IdeaDatabase.parseRevisionBlocks(row.blocks_json),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+      });
+    }
+    return revisions;
+  }
+
+  // 读取想法当前的blocks作为版本快照
+  private async getCurrentRevisionBlocks(ideaId: number): Promise<RevisionBlock[]> {
+    const result = await this.db.executeSql(
+      `SELECT block_id, type, content, color, attrs FROM blocks
+       WHERE idea_id = ?
+       ORDER BY order_index ASC, created_at ASC;`,
+      [ideaId]
+    );
+    const blocks: RevisionBlock[] = [];
+    for (let i = 0; i < result[0].rows.length; i++) {
+      const row = result[0].rows.item(i);
+      blocks.push({
+        block_id: row.block_id,
+        type: row.type,
+        content: row.content,
+        ...(row.color ? { color: row.color } : {}),
+        ...(row.attrs ? { attrs: IdeaDatabase.parseBlockAttrs(row.attrs) } : {}),
+      });
+    }
+    return blocks;
+  }
+
+  /**
+   * 为想法当前的blocks保存一个版本快照
+   * - 与最新版本内容相同时不重复保存
+   * - 最新版本同为编辑版本且创建于合并时间窗口内时，覆盖该版本而不新建
+   * @returns 快照对应的版本ID，没有可保存内容时返回null
+   */
+  async saveRevision(ideaId: number, kind: IdeaRevisionKind = 'edit'): Promise<number | null> {
+    await this.ensureInitialized();
+
+    try {
+      const blocks = await this.getCurrentRevisionBlocks(ideaId);
+      const blocksJson = JSON.stringify(blocks);
+
+      const latestResult = await this.db.executeSql(
+        `SELECT id, kind, blocks_json,
+           (julianday('now') - julianday(created_at)) * 1440 AS age_minutes
+         FROM idea_revisions
+         WHERE idea_id = ?
+         ORDER BY id DESC
+         LIMIT 1;`,
+        [ideaId]
+      );
+      const latest = latestResult[0].rows.length > 0 ? latestResult[0].rows.item(0) : null;
+
+      if (!latest && blocks.length === 0) {
+        return null;
+      }
+      if (latest && latest.blocks_json === blocksJson) {
+        return latest.id;
+      }
+
+      if (
+        latest &&
+        kind === 'edit' &&
+        latest.kind === 'edit' &&
+        latest.age_minutes < REVISION_COALESCE_WINDOW_MINUTES
+      ) {
+        await this.db.executeSql(
+          'UPDATE idea_revisions SET blocks_json = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?;',
+          [blocksJson, latest.id]
+        );
+        return latest.id;
+      }
+
+      const insertResult = await this.db.executeSql(
+        'INSERT INTO idea_revisions (idea_id, kind, blocks_json) VALUES (?, ?, ?);',
+        [ideaId, kind, blocksJson]
+      );
+
+      // 只保留最近的若干个版本
+      await this.db.executeSql(
+        `DELETE FROM idea_revisions
+         WHERE idea_id = ? AND id NOT IN (
+           SELECT id FROM idea_revisions WHERE idea_id = ? ORDER BY id DESC LIMIT ?
+         );`,
+        [ideaId, ideaId, MAX_REVISIONS_PER_IDEA]
+      );
+
+      return insertResult[0].insertId;
+    } catch (error) {
+      console.error('❌ Error saving revision:', error);
+      throw new Error('保存版本历史失败');
+    }
+  }
+
+  // 获取想法的所有历史版本（最新的在前）
+  async getRevisionsByIdeaId(ideaId: number): Promise<IdeaRevision[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT * FROM idea_revisions
+      WHERE idea_id = ?
+      ORDER BY id DESC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, [ideaId]);
+      return this.parseRevisionQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching revisions:', error);
+      throw new Error('加载版本历史失败');
+    }
+  }
+
+  // 将想法的blocks恢复为指定历史版本的内容
+  async restoreRevision(ideaId: number, revisionId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    let revision: IdeaRevision | undefined;
+    try {
+      const result = await this.db.executeSql(
+        'SELECT * FROM idea_revisions WHERE id = ? AND idea_id = ?;',
+        [revisionId, ideaId]
+      );
+      revision = this.parseRevisionQueryResult(result)[0];
+    } catch (error) {
+      console.error('❌ Error fetching revision:', error);
+      throw new Error('加载版本历史失败');
+    }
+    if (!revision) {
+      throw new Error('版本不存在');
+    }
+
+    // 恢复前先记录当前内容，确保恢复操作本身可以撤回
+    await this.saveRevision(ideaId);
+
+    try {
+      await this.db.executeSql('BEGIN TRANSACTION;');
+      await this.db.executeSql('DELETE FROM blocks WHERE idea_id = ?;', [ideaId]);
+      for (let index = 0; index < revision.blocks.length; index++) {
+        const block = revision.blocks[index];
+        await this.db.executeSql(
+          `INSERT INTO blocks (idea_id, block_id, type, content, order_index, color, attrs)
+           VALUES (?, ?, ?, ?, ?, ?, ?);`,
+          [ideaId, block.block_id, block.type, block.content, index, block.color || null, IdeaDatabase.serializeBlockAttrs(block.attrs)]
+        );
+      }
+      await this.db.executeSql('COMMIT;');
+    } catch (error) {
+      try {
+        await this.db.executeSql('ROLLBACK;');
+      } catch (rollbackError) {
+        console.error('❌ Error rolling back transaction:', rollbackError);
+      }
+
+      console.error('❌ Error restoring revision:', error);
+      throw new Error('恢复版本失败');
+    }
+
+    await this.syncHashtags(ideaId);
+    await this.syncIdeaLinks(ideaId);
+    await this.saveRevision(ideaId, 'restore');
+  }
+
+  // ========================= 模板操作方法 =========================
+
+  // 解析模板查询结果的辅助方法
+  private parseTemplateQueryResult(result: any): IdeaTemplate[] {
+    const templates: IdeaTemplate[] = [];
+    for (let i = 0; i < result[0].rows.length; i++) {
+      const row = result[0].rows.item(i);
+      templates.push({
+        id: row.id,
+        name: row.name,
+        blocks: IdeaDatabase.parseRevisionBlocks(row.blocks_json),
+        category_id: row.category_id || null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+      });
+    }
+    return templates;
+  }
+
+  // 获取所有模板，按名称排序
+  async getTemplates(): Promise<IdeaTemplate[]> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql('SELECT * FROM templates ORDER BY name COLLATE NOCASE ASC;');
+      return this.parseTemplateQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error getting templates:', error);
+      throw new Error('获取模板失败');
+    }
+  }
+
+  // 获取分类自动使用的模板，没有时返回null
+  async getTemplateByCategory(categoryId: string): Promise<IdeaTemplate | null> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql(
+        'SELECT * FROM templates WHERE category_id = ? ORDER BY updated_at DESC LIMIT 1;',
+        [categoryId]
+      );
+      return this.parseTemplateQueryResult(result)[0] ?? null;
+    } catch (error) {
+      console.error('❌ Error getting template by category:', error);
+      throw new Error('获取模板失败');
+    }
+  }
+
+  /**
+   * 将想法当前的blocks（图片和录音除外）保存为模板，同名的模板（忽略大小写）会被覆盖
+   * @param categoryId 自动使用此模板的分类，该分类原来的模板不再自动使用；为null时不分配分类
+   * @returns 模板ID
+   */
+  async saveIdeaAsTemplate(ideaId: number, name: string, categoryId: string | null = null): Promise<number> {
+    await this.ensureInitialized();
+
+    try {
+      // 图片和录音文件属于原想法，永久删除原想法时会被删除，不放入模板
+      const blocks = (await this.getCurrentRevisionBlocks(ideaId)).filter(block => !MEDIA_BLOCK_TYPES.includes(block.type));
+      const blocksJson = JSON.stringify(blocks);
+      return await this.runInTransaction(async () => {
+        if (categoryId) {
+          await this.db.executeSql(
+            'UPDATE templates SET category_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE category_id = ?;',
+            [categoryId]
+          );
+        }
+
+        const existing = await this.db.executeSql(
+          'SELECT id FROM templates WHERE name = ? COLLATE NOCASE LIMIT 1;',
+          [name.trim()]
+        );
+        if (existing[0].rows.length > 0) {
+          const id = existing[0].rows.item(0).id;
+          await this.db.executeSql(
+            'UPDATE templates SET name = ?, blocks_json = ?, category_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?;',
+            [name.trim(), blocksJson, categoryId, id]
+          );
+          return id;
+        }
+
+        const result = await this.db.executeSql(
+          'INSERT INTO templates (name, blocks_json, category_id) VALUES (?, ?, ?);',
+          [name.trim(), blocksJson, categoryId]
+        );
+        return result[0].insertId;
+      });
+    } catch (error) {
+      console.error('❌ Error saving template:', error);
+      throw new Error('保存模板失败');
+    }
+  }
+
+  // 按ID获取模板，不存在时返回null
+  async getTemplateById(id: number): Promise<IdeaTemplate | null> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql('SELECT * FROM templates WHERE id = ?;', [id]);
+      return this.parseTemplateQueryResult(result)[0] ?? null;
+    } catch (error) {
+      console.error('❌ Error getting template:', error);
+      throw new Error('获取模板失败');
+    }
+  }
+
+  // 删除模板（已用模板创建的想法不受影响）
+  async deleteTemplate(id: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.db.executeSql('DELETE FROM templates WHERE id = ?;', [id]);
+    } catch (error) {
+      console.error('❌ Error deleting template:', error);
+      throw new Error('删除模板失败');
+    }
+  }
+
+  /**
+   * 用模板生成的blocks填充想法（见utils/TemplateRules的instantiateTemplate）
+   * 想法已有blocks时不覆盖
+   * @returns 是否写入了blocks
+   */
+  async applyTemplateBlocks(ideaId: number, blocks: RevisionBlock[]): Promise<boolean> {
+    await this.ensureInitialized();
+    if (blocks.length === 0) {
+      return false;
+    }
+
+    try {
+      const applied = await this.runInTransaction(async () => {
+        const existing = await this.db.executeSql('SELECT COUNT(*) AS count FROM blocks WHERE idea_id = ?;', [ideaId]);
+        if (existing[0].rows.item(0).count > 0) {
+          return false;
+        }
+
+        for (let index = 0; index < blocks.length; index++) {
+          const block = blocks[index];
+          await this.db.executeSql(
+            `INSERT INTO blocks (idea_id, block_id, type, content, order_index, color, attrs)
+             VALUES (?, ?, ?, ?, ?, ?, ?);`,
+            [ideaId, block.block_id, block.type, block.content, index, block.color || null, IdeaDatabase.serializeBlockAttrs(block.attrs)]
+          );
+        }
+        return true;
+      });
+      if (!applied) {
+        return false;
+      }
+    } catch (error) {
+      console.error('❌ Error applying template:', error);
+      throw new Error('应用模板失败');
+    }
+
+    await this.syncHashtags(ideaId);
+    await this.syncIdeaLinks(ideaId);
+    return true;
+  }
+
+  // ========================= 备份与恢复方法 =========================
+
+  // 备份包含的表，按恢复时的插入顺序排列
+  static readonly BACKUP_TABLES = ['ideas', 'blocks', 'tags', 'idea_tags', 'idea_revisions', 'app_settings', 'category_feedback', 'categories', 'idea_recurrences', 'templates'];
+
+  // 读取数据库的schema版本（PRAGMA user_version）
+  async getSchemaVersion(): Promise<number> {
+    await this.ensureInitialized();
+    return this.getDatabaseVersion();
+  }
+
+  // 获取表的所有列名，表不存在时返回null
+  private async getTableColumns(table: string): Promise<Set<string> | null> {
+    const result = await this.db.executeSql(`PRAGMA table_info(${table});`);
+    if (result[0].rows.length === 0) {
+      return null;
+    }
+
+    const columns = new Set<string>();
+    for (let i = 0; i < result[0].rows.length; i++) {
+      columns.add(result[0].rows.item(i).name);
+    }
+    return columns;
+  }
+
+  // 插入一行数据，只写入表中存在的列（列名来自备份文件，需要校验）
+  private async insertRow(
+    table: string,
+    columns: Set<string>,
+    row: Record<string, any>,
+    conflict: '' | 'OR IGNORE' = ''
+  ): Promise<number | undefined> {
+    const keys = Object.keys(row).filter(key => columns.has(key));
+    if (keys.length === 0) {
+      return undefined;
+    }
+
+    const result = await this.db.executeSql(
+      `INSERT ${conflict} INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')});`,
+      keys.map(key => row[key])
+    );
+    return result[0].rowsAffected > 0 ? result[0].insertId : undefined;
+  }
+
+  // 导出所有备份表的数据（当前版本中不存在的表会被跳过）
+  async dumpTables(): Promise<Record<string, any[]>> {
+    await this.ensureInitialized();
+
+    try {
+      const tables: Record<string, any[]> = {};
+      for (const table of IdeaDatabase.BACKUP_TABLES) {
+        if (!(await this.getTableColumns(table))) {
+          continue;
+        }
+
+        const result = await this.db.executeSql(`SELECT * FROM ${table};`);
+        const rows: any[] = [];
+        for (let i = 0; i < result[0].rows.length; i++) {
+          rows.push(result[0].rows.item(i));
+        }
+        tables[table] = rows;
+      }
+      return tables;
+    } catch (error) {
+      console.error('❌ Error dumping tables:', error);
+      throw new Error('导出数据失败');
+    }
+  }
+
+  // 在事务中执行一组数据库操作，失败时回滚
+  private async runInTransaction<T>(operation: () => Promise<T>): Promise<T> {
+    await this.db.executeSql('BEGIN TRANSACTION;');
+    try {
+      const result = await operation();
+      await this.db.executeSql('COMMIT;');
+      return result;
+    } catch (error) {
+      try {
+        await this.db.executeSql('ROLLBACK;');
+      } catch (rollbackError) {
+        console.error('❌ Error rolling back transaction:', rollbackError);
+      }
+      throw error;
+    }
+  }
+
+  // 按原样写入所有行（保留原有ID）
+  private async insertTables(tables: Record<string, any[]>): Promise<void> {
+    for (const table of IdeaDatabase.BACKUP_TABLES) {
+      const rows = tables[table];
+      if (!rows || rows.length === 0) {
+        continue;
+      }
+
+      const columns = await this.getTableColumns(table);
+      if (!columns) {
+        continue;
+      }
+
+      for (const row of rows) {
+        await this.insertRow(table, columns, row);
+      }
+    }
+  }
+
+  /**
+   * 用备份数据替换所有现有数据（保留备份中的ID）
+   * 数据需已迁移到当前版本的表结构
+   */
+  async replaceAllData(tables: Record<string, any[]>): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.runInTransaction(async () => {
+        for (const table of [...IdeaDatabase.BACKUP_TABLES].reverse()) {
+          if (await this.getTableColumns(table)) {
+            await this.db.executeSql(`DELETE FROM ${table};`);
+          }
+        }
+        await this.insertTables(tables);
+      });
+      await this.rebuildIdeaLinks();
+    } catch (error) {
+      console.error('❌ Error replacing data:', error);
+      throw new Error('恢复数据失败');
+    }
+  }
+
+  /**
+   * 将备份数据合并到现有数据中
+   * - 日期、内容和创建时间都相同的想法视为已存在，跳过它及其blocks
+   * - 同一日期已有日记时跳过备份中的日记（每个日期最多一篇日记）
+   * - 新想法重新分配ID，blocks、标签关联、版本历史和重复规则随之映射
+   * - 标签按名称合并，设置项保留现有值
+   * - 模板按名称和创建时间去重
+   * @returns 新增和跳过的想法数量
+   */
+  async mergeData(tables: Record<string, any[]>): Promise<{ added: number; skipped: number }> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.runInTransaction(async () => {
+        const ideaIdMap = new Map<number, number>();
+        let skipped = 0;
+
+        const ideaColumns = await this.getTableColumns('ideas');
+        ideaColumns?.delete('id');
+        for (const idea of tables.ideas || []) {
+          const existing = await this.db.executeSql(
+            'SELECT id FROM ideas WHERE date = ? AND hint = ? AND created_at = ? LIMIT 1;',
+            [idea.date, idea.hint, idea.created_at]
+          );
+          if (existing[0].rows.length > 0) {
+            skipped++;
+            continue;
+          }
+          if (idea.is_journal && !idea.deleted_at) {
+            const journal = await this.db.executeSql(
+              'SELECT id FROM ideas WHERE is_journal = 1 AND date = ? AND deleted_at IS NULL LIMIT 1;',
+              [idea.date]
+            );
+            if (journal[0].rows.length > 0) {
+              skipped++;
+              continue;
+            }
+          }
+          const newId = await this.insertRow('ideas', ideaColumns!, idea);
+          if (newId !== undefined) {
+            ideaIdMap.set(idea.id, newId);
+          }
+        }
+
+        // 仅合并新增想法的关联数据
+        const mapIdeaRows = async (table: string, rows: any[] = [], conflict: '' | 'OR IGNORE' = '') => {
+          const columns = await this.getTableColumns(table);
+          if (!columns) {
+            return;
+          }
+          columns.delete('id');
+          for (const row of rows) {
+            const ideaId = ideaIdMap.get(row.idea_id);
+            if (ideaId !== undefined) {
+              await this.insertRow(table, columns, { ...row, idea_id: ideaId }, conflict);
+            }
+          }
+        };
+        await mapIdeaRows('blocks', tables.blocks, 'OR IGNORE');
+        await mapIdeaRows('idea_revisions', tables.idea_revisions);
+        await mapIdeaRows('idea_recurrences', tables.idea_recurrences, 'OR IGNORE');
+
+        // 标签按名称合并
+        const tagColumns = await this.getTableColumns('tags');
+        const tagIdMap = new Map<number, number>();
+        if (tagColumns) {
+          tagColumns.delete('id');
+          for (const tag of tables.tags || []) {
+            await this.insertRow('tags', tagColumns, tag, 'OR IGNORE');
+            const tagRow = await this.db.executeSql('SELECT id FROM tags WHERE name = ?;', [tag.name]);
+            if (tagRow[0].rows.length > 0) {
+              tagIdMap.set(tag.id, tagRow[0].rows.item(0).id);
+            }
+          }
+        }
+
+        const ideaTagColumns = await this.getTableColumns('idea_tags');
+        if (ideaTagColumns) {
+          for (const ideaTag of tables.idea_tags || []) {
+            const ideaId = ideaIdMap.get(ideaTag.idea_id);
+            const tagId = tagIdMap.get(ideaTag.tag_id);
+            if (ideaId !== undefined && tagId !== undefined) {
+              await this.insertRow('idea_tags', ideaTagColumns, { ...ideaTag, idea_id: ideaId, tag_id: tagId }, 'OR IGNORE');
+            }
+          }
+        }
+
+        const settingColumns = await this.getTableColumns('app_settings');
+        if (settingColumns) {
+          for (const setting of tables.app_settings || []) {
+            await this.insertRow('app_settings', settingColumns, setting, 'OR IGNORE');
+          }
+        }
+
+        // 分类按id合并，保留现有的名称、图标和关键词
+        const categoryColumns = await this.getTableColumns('categories');
+        if (categoryColumns) {
+          for (const category of tables.categories || []) {
+            await this.insertRow('categories', categoryColumns, category, 'OR IGNORE');
+          }
+        }
+
+        // 分类反馈与想法无关联，全部追加
+        const feedbackColumns = await this.getTableColumns('category_feedback');
+        if (feedbackColumns) {
+          feedbackColumns.delete('id');
+          for (const feedback of tables.category_feedback || []) {
+            await this.insertRow('category_feedback', feedbackColumns, feedback);
+          }
+        }
+
+        // 模板与想法无关联：名称和创建时间都相同的视为已存在，分类已有模板时不再分配
+        const templateColumns = await this.getTableColumns('templates');
+        if (templateColumns) {
+          templateColumns.delete('id');
+          for (const template of tables.templates || []) {
+            const existing = await this.db.executeSql(
+              'SELECT id FROM templates WHERE name = ? AND created_at = ? LIMIT 1;',
+              [template.name, template.created_at]
+            );
+            if (existing[0].rows.length > 0) {
+              continue;
+            }
+
+            let categoryId = template.category_id || null;
+            if (categoryId) {
+              const assigned = await this.db.executeSql('SELECT id FROM templates WHERE category_id = ? LIMIT 1;', [categoryId]);
+              if (assigned[0].rows.length > 0) {
+                categoryId = null;
+              }
+            }
+            await this.insertRow('templates', templateColumns, { ...template, category_id: categoryId });
+          }
+        }
+
+        return { added: ideaIdMap.size, skipped };
+      });
+      // 新想法的链接以及指向新想法的链接都需要更新
+      await this.rebuildIdeaLinks();
+      return result;
+    } catch (error) {
+      console.error('❌ Error merging data:', error);
+      throw new Error('合并数据失败');
+    }
+  }
+
+  /**
+   * 将备份数据原样写入空数据库（恢复时的临时数据库）
+   * 写入前数据库应已迁移到备份对应的版本
+   */
+  async loadTables(tables: Record<string, any[]>): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.runInTransaction(() => this.insertTables(tables));
+    } catch (error) {
+      console.error('❌ Error loading tables:', error);
+      throw new Error('载入备份数据失败');
+    }
+  }
+
+  // ========================= 设置操作方法 =========================
+
+  // 读取设置项
+  async getSetting(key: string): Promise<string | null> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql('SELECT value FROM app_settings WHERE key = ?;', [key]);
+      return result[0].rows.length > 0 ? result[0].rows.item(0).value : null;
+    } catch (error) {
+      console.error('❌ Error reading setting:', key, error);
+      throw new Error('读取设置失败');
+    }
+  }
+
+  // 写入设置项
+  async setSetting(key: string, value: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.db.executeSql(
+        'INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?);',
+        [key, value]
+      );
+    } catch (error) {
+      console.error('❌ Error writing setting:', key, error);
+      throw new Error('保存设置失败');
+    }
+  }
+
+  // 获取回收站保留天数
+  async getTrashRetentionDays(): Promise<number> {
+    const value = await this.getSetting('trash_retention_days');
+    const days = value ? parseInt(value, 10) : NaN;
+    return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  // 设置回收站保留天数
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await this.setSetting('trash_retention_days', String(days));
+  }
+
+  // 获取新日记使用的模板，未设置时返回null
+  async getJournalTemplateId(): Promise<number | null> {
+    const value = await this.getSetting('journal_template_id');
+    const id = value ? parseInt(value, 10) : NaN;
+    return id > 0 ? id : null;
+  }
+
+  // 设置新日记使用的模板，传入null时不使用模板
+  async setJournalTemplateId(id: number | null): Promise<void> {
+    await this.setSetting('journal_template_id', id ? String(id) : '');
+  }
+
+  // 获取是否保留语音输入的录音（默认不保留）
+  async getKeepVoiceRecordings(): Promise<boolean> {
+    return (await this.getSetting('keep_voice_recordings')) === 'true';
+  }
+
+  // 设置是否保留语音输入的录音
+  async setKeepVoiceRecordings(keep: boolean): Promise<void> {
+    await this.setSetting('keep_voice_recordings', keep ? 'true' : 'false');
+  }
+
+  // ========================= 分类操作方法 =========================
+
+  // 解析分类查询结果的辅助方法
+  private parseCategoryQueryResult(result: any): CategoryRecord[] {
+    const categories: CategoryRecord[] = [];
+    for (let i = 0; i < result[0].rows.length; i++) {
+      const row = result[0].rows.item(i);
+      let keywords: string[] = [];
+      try {
+        keywords = JSON.parse(row.keywords_json);
+      } catch (error) {
+        console.warn('⚠️ Invalid category keywords:', row.id, error);
+      }
+      categories.push({
+        id: row.id,
+        name: row.name,
+        icon: row.icon,
+        keywords: Array.isArray(keywords) ? keywords : [],
+        order_index: row.order_index,
+        archived: !!row.archived,
+        builtin: !!row.builtin,
+      });
+    }
+    return categories;
+  }
+
+  /**
+   * 写入缺失的内置分类（已存在的不覆盖，保留用户的修改）
+   * @param builtins 内置分类的默认配置，id与ContentType的值相同
+   */
+  async ensureBuiltinCategories(builtins: (NewCategory & { id: string })[]): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      for (let i = 0; i < builtins.length; i++) {
+        const { id, name, icon, keywords = [] } = builtins[i];
+        await this.db.executeSql(
+          `INSERT OR IGNORE INTO categories (id, name, icon, keywords_json, order_index, builtin)
+           VALUES (?, ?, ?, ?, ?, 1);`,
+          [id, name, icon, JSON.stringify(keywords), i]
+        );
+      }
+    } catch (error) {
+      console.error('❌ Error ensuring builtin categories:', error);
+      throw new Error('初始化分类失败');
+    }
+  }
+
+  // 获取所有分类（包括已归档的），按排序顺序
+  async getCategories(): Promise<CategoryRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql(
+        'SELECT * FROM categories ORDER BY order_index ASC, created_at ASC;'
+      );
+      return this.parseCategoryQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error getting categories:', error);
+      throw new Error('获取分类失败');
+    }
+  }
+
+  // 新建自定义分类，排在最后
+  async addCategory(category: NewCategory): Promise<string> {
+    await this.ensureInitialized();
+
+    const id = `custom_${Date.now()}`;
+    try {
+      const result = await this.db.executeSql('SELECT COALESCE(MAX(order_index), -1) AS max_order FROM categories;');
+      const orderIndex = result[0].rows.item(0).max_order + 1;
+      await this.db.executeSql(
+        'INSERT INTO categories (id, name, icon, keywords_json, order_index) VALUES (?, ?, ?, ?, ?);',
+        [id, category.name.trim(), category.icon, JSON.stringify(category.keywords || []), orderIndex]
+      );
+      return id;
+    } catch (error) {
+      console.error('❌ Error adding category:', error);
+      throw new Error('添加分类失败');
+    }
+  }
+
+  // 更新分类（重命名、更换图标、编辑关键词、归档/取消归档）
+  async updateCategory(id: string, updates: UpdateCategory): Promise<void> {
+    await this.ensureInitialized();
+
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name.trim());
+    }
+    if (updates.icon !== undefined) {
+      fields.push('icon = ?');
+      values.push(updates.icon);
+    }
+    if (updates.keywords !== undefined) {
+      fields.push('keywords_json = ?');
+      values.push(JSON.stringify(updates.keywords));
+    }
+    if (updates.archived !== undefined) {
+      fields.push('archived = ?');
+      values.push(updates.archived ? 1 : 0);
+    }
+
+    if (fields.length === 0) {
+      return;
+    }
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    try {
+      await this.db.executeSql(`UPDATE categories SET ${fields.join(', ')} WHERE id = ?;`, values);
+    } catch (error) {
+      console.error('❌ Error updating category:', error);
+      throw new Error('更新分类失败');
+    }
+  }
+
+  // 按给定的id顺序重新排列分类
+  async reorderCategories(orderedIds: string[]): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.runInTransaction(async () => {
+        for (let i = 0; i < orderedIds.length; i++) {
+          await this.db.executeSql(
+            'UPDATE categories SET order_index = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?;',
+            [i, orderedIds[i]]
+          );
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error reordering categories:', error);
+      throw new Error('调整分类顺序失败');
+    }
+  }
+
+  // ========================= 分类反馈操作方法 =========================
+
+  // 记录一次手动分类，超出数量上限时删除最旧的记录
+  async addCategoryFeedback(text: string, category: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.db.executeSql(
+        'INSERT INTO category_feedback (text, category) VALUES (?, ?);',
+        [text, category]
+      );
+      await this.db.executeSql(
+        `DELETE FROM category_feedback WHERE id NOT IN (
+          SELECT id FROM category_feedback ORDER BY id DESC LIMIT ?
+        );`,
+        [MAX_CATEGORY_FEEDBACK]
+      );
+    } catch (error) {
+      console.error('❌ Error adding category feedback:', error);
+      throw new Error('保存分类记录失败');
+    }
+  }
+
+  // 获取所有手动分类记录（最旧的在前，按顺序学习时后面的记录覆盖前面的）
+  async getCategoryFeedback(): Promise<CategoryFeedbackRecord[]> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql(
+        'SELECT id, text, category, created_at FROM category_feedback ORDER BY id ASC;'
+      );
+      const records: CategoryFeedbackRecord[] = [];
+      for (let i = 0; i < result[0].rows.length; i++) {
+        records.push(result[0].rows.item(i));
+      }
+      return records;
+    } catch (error) {
+      console.error('❌ Error getting category feedback:', error);
+      throw new Error('获取分类记录失败');
+    }
+  }
+
+  // ========================= 重复规则操作方法 =========================
+
+  // 解析重复规则查询结果的辅助方法
+  private parseRecurrenceQueryResult(result: any): RecurrenceRule[] {
+    const rules: RecurrenceRule[] = [];
+    for (let i = 0; i < result[0].rows.length; i++) {
+      const row = result[0].rows.item(i);
+      let weekdays: number[] = [];
+      try {
+        weekdays = JSON.parse(row.weekdays_json);
+      } catch (error) {
+        console.warn('⚠️ Invalid recurrence weekdays:', row.id, error);
+      }
+      rules.push({
+        id: row.id,
+        idea_id: row.idea_id,
+        frequency: row.frequency,
+        interval: row.interval_count,
+        weekdays: Array.isArray(weekdays) ? weekdays : [],
+        month_day: row.month_day,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+      });
+    }
+    return rules;
+  }
+
+  // 获取想法的重复规则
+  async getRecurrence(ideaId: number): Promise<RecurrenceRule | null> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql('SELECT * FROM idea_recurrences WHERE idea_id = ?;', [ideaId]);
+      return this.parseRecurrenceQueryResult(result)[0] || null;
+    } catch (error) {
+      console.error('❌ Error getting recurrence:', error);
+      throw new Error('获取重复设置失败');
+    }
+  }
+
+  // 批量获取多个想法的重复规则，返回 ideaId -> 规则 的映射
+  async getRecurrencesByIdeaIds(ideaIds: number[]): Promise<Record<number, RecurrenceRule>> {
+    await this.ensureInitialized();
+
+    const rulesByIdea: Record<number, RecurrenceRule> = {};
+    if (ideaIds.length === 0) {
+      return rulesByIdea;
+    }
+
+    try {
+      const placeholders = ideaIds.map(() => '?').join(', ');
+      const result = await this.db.executeSql(
+        `SELECT * FROM idea_recurrences WHERE idea_id IN (${placeholders});`,
+        ideaIds
+      );
+      for (const rule of this.parseRecurrenceQueryResult(result)) {
+        rulesByIdea[rule.idea_id] = rule;
+      }
+      return rulesByIdea;
+    } catch (error) {
+      console.error('❌ Error getting recurrences by idea ids:', error);
+      throw new Error('获取重复设置失败');
+    }
+  }
+
+  // 获取未删除想法上的所有重复规则及想法的日期（用于在日历上标记以后的重复日期）
+  async getActiveRecurrences(): Promise<(RecurrenceRule & { date: string })[]> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql(`
+        SELECT r.*, i.date AS idea_date FROM idea_recurrences r
+        INNER JOIN ideas i ON i.id = r.idea_id
+        WHERE i.deleted_at IS NULL;
+      `);
+      const rules = this.parseRecurrenceQueryResult(result);
+      return rules.map((rule, i) => ({ ...rule, date: result[0].rows.item(i).idea_date }));
+    } catch (error) {
+      console.error('❌ Error getting active recurrences:', error);
+      throw new Error('获取重复设置失败');
+    }
+  }
+
+  // 设置想法的重复规则（已有规则时覆盖）
+  async setRecurrence(ideaId: number, settings: RecurrenceSettings): Promise<void> {
+    await this.ensureInitialized();
+
+    const values = [
+      settings.frequency,
+      settings.interval,
+      JSON.stringify(settings.weekdays),
+      settings.month_day,
+      ideaId,
+    ];
+
+    try {
+      const result = await this.db.executeSql(
+        `UPDATE idea_recurrences
+         SET frequency = ?, interval_count = ?, weekdays_json = ?, month_day = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE idea_id = ?;`,
+        values
+      );
+      if (result[0].rowsAffected === 0) {
+        await this.db.executeSql(
+          `INSERT INTO idea_recurrences (frequency, interval_count, weekdays_json, month_day, idea_id)
+           VALUES (?, ?, ?, ?, ?);`,
+          values
+        );
+      }
+    } catch (error) {
+      console.error('❌ Error setting recurrence:', error);
+      throw new Error('保存重复设置失败');
+    }
+  }
+
+  // 取消想法的重复
+  async deleteRecurrence(ideaId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.db.executeSql('DELETE FROM idea_recurrences WHERE idea_id = ?;', [ideaId]);
+    } catch (error) {
+      console.error('❌ Error deleting recurrence:', error);
+      throw new Error('删除重复设置失败');
+    }
+  }
+
+  /**
+   * 生成重复待办的下一次：新建想法，复制手动添加的标签，并把重复规则移到新想法上
+   * 规则移走后，原想法再次完成不会重复生成
+   * @param ideaId 刚完成的想法
+   * @param next 下一次的想法内容
+   * @returns 新想法的ID
+   */
+  async createNextOccurrence(ideaId: number, next: NewIdea): Promise<number> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.runInTransaction(async () => {
+        const newId = await this.addIdea(next);
+        await this.db.executeSql(
+          `INSERT OR IGNORE INTO idea_tags (idea_id, tag_id, source)
+           SELECT ?, tag_id, source FROM idea_tags WHERE idea_id = ? AND source = 'manual';`,
+          [newId, ideaId]
+        );
+        await this.db.executeSql(
+          'UPDATE idea_recurrences SET idea_id = ?, updated_at = CURRENT_TIMESTAMP WHERE idea_id = ?;',
+          [newId, ideaId]
+        );
+        return newId;
+      });
+    } catch (error) {
+      console.error('❌ Error creating next occurrence:', error);
+      throw new Error('生成下一次待办失败');
+    }
+  }
+
+  // ========================= Tag 操作方法 =========================
+
+  // 解析Tag查询结果的辅助方法
+  private parseTagQueryResult(result: any): TagRecord[] {
+    const tags: TagRecord[] = [];
+    for (let i = 0; i < result[0].rows.length; i++) {
+      tags.push(result[0].rows.item(i));
+    }
+    return tags;
+  }
+
+  // 获取所有标签（包含使用次数）
+  async getAllTags(): Promise<TagRecord[]> {
+    await this.ensureInitialized();
+
+    const selectQuery = `
+      SELECT tags.*, COUNT(ideas.id) AS usage_count
+      FROM tags
+      LEFT JOIN idea_tags ON idea_tags.tag_id = tags.id
+      LEFT JOIN ideas ON ideas.id = idea_tags.idea_id AND ideas.deleted_at IS NULL
+      GROUP BY tags.id
+      ORDER BY usage_count DESC, tags.name COLLATE NOCASE ASC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery);
+      return this.parseTagQueryResult(result);
+    } catch (error) {
+      console.error('❌ Error fetching tags:', error);
+      throw new Error('加载标签失败');
+    }
+  }
+
+  // 按名称获取标签，不存在时创建（名称不区分大小写）
+  async getOrCreateTag(name: string, color?: string): Promise<TagRecord> {
+    await this.ensureInitialized();
+
+    const tagName = normalizeTagName(name);
+    if (!tagName) {
+      throw new Error('标签名不能为空');
+    }
+
+    try {
+      await this.db.executeSql(
+        'INSERT OR IGNORE INTO tags (name, color) VALUES (?, ?);',
+        [tagName, color || null]
+      );
+      const result = await this.db.executeSql('SELECT * FROM tags WHERE name = ?;', [tagName]);
+      return result[0].rows.item(0);
+    } catch (error) {
+      console.error('❌ Error creating tag:', error);
+      throw new Error('创建标签失败');
+    }
+  }
+
+  // 更新标签（重命名或修改颜色）
+  async updateTag(id: number, updates: UpdateTag): Promise<void> {
+    await this.ensureInitialized();
+
+    const fields = [];
+    const values = [];
+
+    if (updates.name !== undefined) {
+      const tagName = normalizeTagName(updates.name);
+      if (!tagName) {
+        throw new Error('标签名不能为空');
+      }
+      fields.push('name = ?');
+      values.push(tagName);
+    }
+    if (updates.color !== undefined) {
+      fields.push('color = ?');
+      values.push(updates.color);
+    }
+
+    if (fields.length === 0) {
+      return;
+    }
+
+    values.push(id);
+
+    try {
+      const result = await this.db.executeSql(
+        `UPDATE tags SET ${fields.join(', ')} WHERE id = ?;`,
+        values
+      );
+      if (result[0].rowsAffected === 0) {
+        console.warn('⚠️ No tag found with ID:', id);
+      }
+    } catch (error) {
+      console.error('❌ Error updating tag:', error);
+      throw new Error('更新标签失败');
+    }
+  }
+
+  // 删除标签（同时移除所有关联）
+  async deleteTag(id: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      const result = await this.db.executeSql('DELETE FROM tags WHERE id = ?;', [id]);
+      if (result[0].rowsAffected === 0) {
+        console.warn('⚠️ No tag found with ID:', id);
+      }
+    } catch (error) {
+      console.error('❌ Error deleting tag:', error);
+      throw new Error('删除标签失败');
+    }
+  }
+
+  // 获取指定idea的所有标签
+  async getTagsByIdeaId(ideaId: number): Promise<TagRecord[]> {
+    const tagsByIdea = await this.getTagsByIdeaIds([ideaId]);
+    return tagsByIdea[ideaId] || [];
+  }
+
+  // 批量获取多个idea的标签（用于列表展示）
+  async getTagsByIdeaIds(ideaIds: number[]): Promise<Record<number, TagRecord[]>> {
+    await this.ensureInitialized();
+
+    const tagsByIdea: Record<number, TagRecord[]> = {};
+    if (ideaIds.length === 0) {
+      return tagsByIdea;
+    }
+
+    const selectQuery = `
+      SELECT idea_tags.idea_id, tags.*
+      FROM idea_tags
+      JOIN tags ON tags.id = idea_tags.tag_id
+      WHERE idea_tags.idea_id IN (${ideaIds.map(() => '?').join(', ')})
+      ORDER BY idea_tags.created_at ASC;
+    `;
+
+    try {
+      const result = await this.db.executeSql(selectQuery, ideaIds);
+      for (let i = 0; i < result[0].rows.length; i++) {
+        const { idea_id, ...tag } = result[0].rows.item(i);
+        (tagsByIdea[idea_id] = tagsByIdea[idea_id] || []).push(tag);
+      }
+      return tagsByIdea;
+    } catch (error) {
+      console.error('❌ Error fetching tags by idea IDs:', error);
+      throw new Error('加载标签失败');
+    }
+  }
+
+  // 获取带有任一指定标签的idea ID
+  async getIdeaIdsByTagIds(tagIds: number[]): Promise<Set<number>> {
+    await this.ensureInitialized();
+
+    if (tagIds.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const result = await this.db.executeSql(
+        `SELECT DISTINCT idea_id FROM idea_tags WHERE tag_id IN (${tagIds.map(() => '?').join(', ')});`,
+        tagIds
+      );
+      const ideaIds = new Set<number>();
+      for (let i = 0; i < result[0].rows.length; i++) {
+        ideaIds.add(result[0].rows.item(i).idea_id);
+      }
+      return ideaIds;
+    } catch (error) {
+      console.error('❌ Error fetching ideas by tag IDs:', error);
+      throw new Error('按标签加载想法失败');
+    }
+  }
+
+  // 为idea添加标签（已存在的关联保持原来源不变）
+  async addTagToIdea(ideaId: number, tagId: number, source: IdeaTagSource = 'manual'): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.db.executeSql(
+        'INSERT OR IGNORE INTO idea_tags (idea_id, tag_id, source) VALUES (?, ?, ?);',
+        [ideaId, tagId, source]
+      );
+    } catch (error) {
+      console.error('❌ Error adding tag to idea:', error);
+      throw new Error('添加标签失败');
+    }
+  }
+
+  // 移除idea的标签
+  async removeTagFromIdea(ideaId: number, tagId: number): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      await this.db.executeSql(
+        'DELETE FROM idea_tags WHERE idea_id = ? AND tag_id = ?;',
+        [ideaId, tagId]
+      );
+    } catch (error) {
+      console.error('❌ Error removing tag from idea:', error);
+      throw new Error('移除标签失败');
+    }
+  }
+
+  // 根据hint和markdown blocks中的#hashtag同步自动标签
+  // 自动标签随文本增删，手动添加的标签不受影响；同步失败不影响主流程
+  private async syncHashtags(ideaId: number): Promise<void> {
+    try {
+      const ideaResult = await this.db.executeSql('SELECT hint FROM ideas WHERE id = ?;', [ideaId]);
+      if (ideaResult[0].rows.length === 0) {
+        return;
+      }
+
+      const blocksResult = await this.db.executeSql(
+        `SELECT content FROM blocks WHERE idea_id = ? AND type IN (${TEXT_BLOCK_TYPES_SQL});`,
+        [ideaId]
+      );
+      const texts = [ideaResult[0].rows.item(0).hint];
+      for (let i = 0; i < blocksResult[0].rows.length; i++) {
+        texts.push(blocksResult[0].rows.item(i).content);
+      }
+      const names = extractHashtags(texts.join('\n'));
+
+      const tagIds: number[] = [];
+      for (const name of names) {
+        const tag = await this.getOrCreateTag(name);
+        tagIds.push(tag.id);
+        await this.addTagToIdea(ideaId, tag.id, 'auto');
+      }
+
+      await this.db.executeSql(
+        `DELETE FROM idea_tags WHERE idea_id = ? AND source = 'auto'${
+          tagIds.length > 0 ? ` AND tag_id NOT IN (${tagIds.map(() => '?').join(', ')})` : ''
+        };`,
+        [ideaId, ...tagIds]
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to sync hashtags for idea:', ideaId, error);
+    }
+  }
+
+  // 根据markdown blocks中的[[标题]]同步该想法的wiki链接；同步失败不影响主流程
+  private async syncIdeaLinks(ideaId: number): Promise<void> {
+    try {
+      const blocksResult = await this.db.executeSql(
+        `SELECT content FROM blocks WHERE idea_id = ? AND type IN (${TEXT_BLOCK_TYPES_SQL}) ORDER BY order_index;`,
+        [ideaId]
+      );
+      const texts: string[] = [];
+      for (let i = 0; i < blocksResult[0].rows.length; i++) {
+        texts.push(blocksResult[0].rows.item(i).content);
+      }
+      const hints = extractWikiLinks(texts.join('\n'));
+
+      await this.db.executeSql(
+        `DELETE FROM idea_links WHERE source_id = ?${
+          hints.length > 0 ? ` AND target_hint NOT IN (${hints.map(() => '?').join(', ')})` : ''
+        };`,
+        [ideaId, ...hints]
+      );
+      for (const hint of hints) {
+        await this.db.executeSql(
+          'INSERT OR IGNORE INTO idea_links (source_id, target_hint) VALUES (?, ?);',
+          [ideaId, hint]
+        );
+      }
+      await this.db.executeSql(
+        `UPDATE idea_links SET target_id = ${linkTargetOf('idea_links.target_hint', 'idea_links.source_id')} WHERE source_id = ?;`,
+        [ideaId]
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to sync idea links for idea:', ideaId, error);
+    }
+  }
+
+  // 想法的标题或回收站状态变化后，重新解析可能受影响的wiki链接：
+  // 指向该想法的链接，以及标题与它的当前标题或旧标题相同的链接
+  private async resolveIdeaLinks(ideaId: number, previousHint?: string): Promise<void> {
+    try {
+      await this.db.executeSql(
+        `UPDATE idea_links SET target_id = ${linkTargetOf('idea_links.target_hint', 'idea_links.source_id')}
+         WHERE target_id = ? OR target_hint IN (SELECT hint FROM ideas WHERE id = ?) OR target_hint = ?;`,
+        [ideaId, ideaId, previousHint ?? null]
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to resolve idea links:', error);
+    }
+  }
+
+  // 从所有想法的blocks重建wiki链接（迁移和恢复备份后使用）
+  private async rebuildIdeaLinks(): Promise<void> {
+    await this.db.executeSql('DELETE FROM idea_links;');
+    const result = await this.db.executeSql('SELECT id FROM ideas;');
+    for (let i = 0; i < result[0].rows.length; i++) {
+      await this.syncIdeaLinks(result[0].rows.item(i).id);
+    }
+  }
 }
 
 // 导出单例实例
 export const ideaDB = new IdeaDatabase();
 
 // 导出类本身，以便需要时创建新实例
-export default IdeaDatabase; 
\ No newline at end of file
+export default IdeaDatabase;
@@ -0,0 +1,52 @@
+import i18n from '../i18n';
+import { IdeaRecord } from '../Types';
+import { ideaDB } from './IdeaDatabase';
+import { getFinalContentType } from './ContentTypeUtils';
+import { applyTemplateToIdea } from './Templates';
+
+/**
+ * 打开指定日期的日记，第一次打开时创建
+ * 设置了日记模板时用模板填充新日记，模板失败时不影响日记本身
+ */
+export const openJournal = async (date: string): Promise<IdeaRecord> => {
+  const existing = await ideaDB.getJournalByDate(date);
+  if (existing) {
+    return existing;
+  }
+
+  const hint = i18n.t('journal.title', { date });
+  let ideaId: number;
+  try {
+    ideaId = await ideaDB.addIdea({
+      hint,
+      detail: '',
+      date,
+      category: getFinalContentType(hint),
+      completed: false,
+      is_journal: true,
+    });
+  } catch (error) {
+    // 同时打开两次时，另一次已经创建了日记（唯一索引拒绝了这次插入）
+    const created = await ideaDB.getJournalByDate(date);
+    if (created) {
+      return created;
+    }
+    throw error;
+  }
+
+  try {
+    const templateId = await ideaDB.getJournalTemplateId();
+    const template = templateId ? await ideaDB.getTemplateById(templateId) : null;
+    if (template) {
+      await applyTemplateToIdea(ideaId, template, date, hint);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to apply journal template:', error);
+  }
+
+  const journal = await ideaDB.getIdeaById(ideaId);
+  if (!journal) {
+    throw new Error('创建日记失败');
+  }
+  return journal;
+};
@@ -0,0 +1,12 @@
+/**
+ * 每日日记的日期计算（纯函数，便于测试）
+ * 日期均为YYYY-MM-DD格式，按UTC计算，与Home中的日期字符串一致
+ */
+
+/**
+ * 日期字符串加减天数，用于日记页面跳到前一天或后一天
+ */
+export const shiftDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
@@ -0,0 +1,234 @@
+import RNFS from 'react-native-fs';
+import { Platform, Share } from 'react-native';
+import { ideaDB } from './IdeaDatabase';
+import { isLocalMediaUri, uriToPath } from './MediaStorage';
+import { parseTable, toGfmTable } from './Table';
+import { BlockRecord, BlockType, IdeaRecord } from '../Types';
+
+// 导出文件的根目录
+export const EXPORTS_DIR = `${RNFS.DocumentDirectoryPath}/exports`;
+
+// 导出目录中存放图片的子目录（markdown中使用相对路径引用）
+const EXPORT_IMAGES_DIRNAME = 'images';
+
+export interface ExportResult {
+  path: string; // 导出目录
+  files: string[]; // 生成的.md文件路径
+  markdown: string; // 所有.md文件内容的拼接，用于不支持分享文件的平台
+  ideaCount: number;
+}
+
+// 文件名中不允许出现的字符
+const sanitizeFileName = (name: string) =>
+  name
+    .replace(/[\\/:*?"<>|#\n\r\t]/g, '_')
+    .trim()
+    .substring(0, 40) || 'untitled';
+
+// 获取uri中的文件名
+const getFileName = (uri: string) => uriToPath(uri).split('/').pop() || uri;
+
+// markdown行首的块级语法（标题、列表、引用），加颜色时保留在颜色语法外
+const BLOCK_PREFIX_PATTERN = /^(\s*(?:#{1,6}\s+|[-*+]\s+|\d+\.\s+|>\s*)?)(.*)$/;
+
+/**
+ * 为markdown内容添加颜色，使用编辑器中已有的[text](color:value)语法
+ * 逐行处理，保留行首的标题/列表/引用标记
+ */
+export const applyColorSyntax = (content: string, color?: string): string => {
+  if (!color) {
+    return content;
+  }
+  return content
+    .split('\n')
+    .map(line => {
+      const [, prefix, text] = line.match(BLOCK_PREFIX_PATTERN) || ['', '', line];
+      return text.trim() ? `${prefix}[${text}](color:${color})` : line;
+    })
+    .join('\n');
+};
+
+/**
+ * 将一个block转换为markdown文本
+ * @param resolveImage 将图片block的uri转换为markdown中引用的路径
+ */
+export const blockToMarkdown = (
+  block: Pick<BlockRecord, 'type' | 'content' | 'color' | 'attrs'>,
+  resolveImage: (uri: string) => string = uri => uri
+): string => {
+  if (block.type === BlockType.IMAGE) {
+    return `![](${resolveImage(block.content)})`;
+  }
+  if (block.type === BlockType.CODE) {
+    return `\`\`\`${block.attrs?.language || ''}\n${block.content}\n\`\`\``;
+  }
+  if (block.type === BlockType.TABLE) {
+    return toGfmTable(parseTable(block.content));
+  }
+  if (block.type === BlockType.AUDIO) {
+    // markdown没有音频语法，导出为指向录音文件的链接
+    return `[🎙️ ${getFileName(block.content)}](${block.content})`;
+  }
+  return applyColorSyntax(block.content, block.color);
+};
+
+/**
+ * 将想法及其blocks转换为markdown文本
+ * @param resolveImage 将图片block的uri转换为markdown中引用的路径
+ */
+export const ideaToMarkdown = (
+  idea: IdeaRecord,
+  blocks: BlockRecord[],
+  resolveImage: (uri: string) => string = uri => uri
+): string => {
+  // 头部元数据，便于之后重新导入
+  const frontMatter = [
+    '---',
+    `date: ${idea.date}`,
+    ...(idea.category ? [`category: ${idea.category}`] : []),
+    ...(idea.completed ? ['completed: true'] : []),
+    `created_at: ${idea.created_at}`,
+    '---',
+  ].join('\n');
+
+  const body = blocks
+    .map(block => blockToMarkdown(block, resolveImage))
+    .filter(content => content.trim() !== '');
+
+  return [frontMatter, `# ${idea.hint}`, ...body].join('\n\n') + '\n';
+};
+
+// 创建（或清空后重新创建）导出目录
+const prepareExportDir = async (dirName: string): Promise<string> => {
+  const dir = `${EXPORTS_DIR}/${sanitizeFileName(dirName)}`;
+  if (await RNFS.exists(dir)) {
+    await RNFS.unlink(dir);
+  }
+  await RNFS.mkdir(`${dir}/${EXPORT_IMAGES_DIRNAME}`);
+  return dir;
+};
+
+// 将应用内图片复制到导出目录，返回markdown中使用的相对路径
+const copyImageForExport = async (uri: string, dir: string): Promise<string> => {
+  if (!isLocalMediaUri(uri)) {
+    return uri;
+  }
+
+  const fileName = getFileName(uri);
+  const destPath = `${dir}/${EXPORT_IMAGES_DIRNAME}/${fileName}`;
+  try {
+    if (!(await RNFS.exists(destPath))) {
+      await RNFS.copyFile(uriToPath(uri), destPath);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to copy image for export:', uri, error);
+  }
+  return `${EXPORT_IMAGES_DIRNAME}/${fileName}`;
+};
+
+/**
+ * 将一组想法导出到同一个目录，每个想法一个.md文件，图片统一复制到images子目录
+ * @param ideas 要导出的想法
+ * @param dirName 导出目录名
+ */
+export const exportIdeas = async (ideas: IdeaRecord[], dirName: string): Promise<ExportResult> => {
+  try {
+    const dir = await prepareExportDir(dirName);
+    const files: string[] = [];
+    const contents: string[] = [];
+    const usedNames = new Set<string>();
+
+    for (const idea of ideas) {
+      const blocks = await ideaDB.getBlocksByIdeaId(idea.id);
+
+      const imagePaths = new Map<string, string>();
+      for (const block of blocks) {
+        if (block.type === BlockType.IMAGE && !imagePaths.has(block.content)) {
+          imagePaths.set(block.content, await copyImageForExport(block.content, dir));
+        }
+      }
+
+      const markdown = ideaToMarkdown(idea, blocks, uri => imagePaths.get(uri) || uri);
+
+      // 同名文件追加序号
+      const baseName = `${idea.date}-${sanitizeFileName(idea.hint)}`;
+      let fileName = baseName;
+      for (let suffix = 2; usedNames.has(fileName); suffix++) {
+        fileName = `${baseName}-${suffix}`;
+      }
+      usedNames.add(fileName);
+
+      const filePath = `${dir}/${fileName}.md`;
+      await RNFS.writeFile(filePath, markdown, 'utf8');
+      files.push(filePath);
+      contents.push(markdown);
+    }
+
+    return {
+      path: dir,
+      files,
+      markdown: contents.join('\n\n'),
+      ideaCount: ideas.length,
+    };
+  } catch (error) {
+    console.error('❌ Error exporting ideas:', error);
+    throw new Error('导出失败');
+  }
+};
+
+// 导出单个想法
+export const exportIdea = (idea: IdeaRecord): Promise<ExportResult> =>
+  exportIdeas([idea], `${idea.date}-${idea.hint}`);
+
+/**
+ * 导出日期范围内的所有想法（包含起止日期）
+ * @param startDate YYYY-MM-DD
+ * @param endDate YYYY-MM-DD
+ */
+export const exportDateRange = async (
+  startDate: string,
+  endDate: string,
+  dirName = `InspiNote-${startDate}_${endDate}`
+): Promise<ExportResult> => {
+  const ideas: IdeaRecord[] = [];
+
+  // 按月份逐个查询
+  let [year, month] = startDate.split('-').map(Number);
+  const [endYear, endMonth] = endDate.split('-').map(Number);
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    const monthIdeas = await ideaDB.getIdeasByMonth(year, month);
+    ideas.push(...monthIdeas.filter(idea => idea.date >= startDate && idea.date <= endDate));
+
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return exportIdeas(ideas, dirName);
+};
+
+// 导出某一天的想法
+export const exportDay = (date: string): Promise<ExportResult> =>
+  exportDateRange(date, date, `InspiNote-${date}`);
+
+// 导出某个月份的想法
+export const exportMonth = (year: number, month: number): Promise<ExportResult> => {
+  const monthString = `${year}-${String(month).padStart(2, '0')}`;
+  return exportDateRange(`${monthString}-01`, `${monthString}-31`, `InspiNote-${monthString}`);
+};
+
+/**
+ * 通过系统分享面板分享导出结果
+ * iOS分享导出文件（单个文件）或导出目录；Android的Share只支持文本，分享markdown内容
+ */
+export const shareExport = async (result: ExportResult, title: string): Promise<void> => {
+  if (Platform.OS === 'ios') {
+    const hasImages = (await RNFS.readDir(`${result.path}/${EXPORT_IMAGES_DIRNAME}`)).length > 0;
+    const sharePath = result.files.length === 1 && !hasImages ? result.files[0] : result.path;
+    await Share.share({ url: `file://${sharePath}`, title });
+  } else {
+    await Share.share({ title, message: result.markdown });
+  }
+};
@@ -0,0 +1,355 @@
+import RNFS from 'react-native-fs';
+import { ideaDB } from './IdeaDatabase';
+import { IMAGES_DIR, uriToPath } from './MediaStorage';
+import { getCategories } from './ContentTypeUtils';
+import { parseChecklist, serializeChecklist, startsWithTaskPrefix } from './Checklist';
+import { normalizeLanguage } from './SyntaxHighlighter';
+import { TableData, parseGfmTable, serializeTable } from './Table';
+import { BlockAttrs, BlockType } from '../Types';
+
+// 存放待导入文件夹的目录（iOS可通过“文件”App放入）
+export const IMPORTS_DIR = `${RNFS.DocumentDirectoryPath}/import`;
+
+// 支持导入的文件类型
+const IMPORTABLE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+// 解析后的block：图片保留文件中书写的原始路径，导入时再解析和复制
+export type ParsedNoteBlock =
+  | { type: BlockType.MARKDOWN; content: string; color?: string }
+  | { type: BlockType.CHECKLIST; content: string }
+  | { type: BlockType.CODE; content: string; language: string }
+  | { type: BlockType.TABLE; table: TableData }
+  | { type: BlockType.IMAGE; src: string };
+
+export interface ParsedNote {
+  hint: string;
+  date?: string; // 来自front-matter，YYYY-MM-DD
+  category?: string;
+  completed?: boolean;
+  blocks: ParsedNoteBlock[];
+}
+
+export interface ImportResult {
+  imported: number;
+  ideaIds: number[];
+  failed: { file: string; error: string }[];
+}
+
+// ![alt](path "title") 或 ![alt](<path with spaces>)
+const IMAGE_PATTERN = /!\[[^\]]*\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+["'][^"']*["'])?\s*\)/g;
+// Obsidian风格的 ![[image.png]] 或 ![[image.png|300]]
+const WIKI_IMAGE_PATTERN = /!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+// 导出时使用的整行颜色语法：前缀[text](color:value)
+const COLOR_LINE_PATTERN = /^(\s*(?:#{1,6}\s+|[-*+]\s+|\d+\.\s+|>\s*)?)\[(.*)\]\(color:([^)\s]+)\)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+// 围栏代码块的开始和结束行
+const CODE_FENCE_OPEN_PATTERN = /^\s*```\s*([\w+#-]*)\s*$/;
+const CODE_FENCE_CLOSE_PATTERN = /^\s*```\s*$/;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// 解析front-matter中的 key: value 行
+const parseFrontMatter = (raw: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const line of raw.split(/\r?\n/)) {
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (match) {
+      values[match[1].toLowerCase()] = match[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return values;
+};
+
+// 将各种日期写法统一为YYYY-MM-DD，无法识别时返回undefined
+export const normalizeDate = (value?: string): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString().split('T')[0];
+};
+
+// 是否为本地图片引用（远程图片保留为markdown文本）
+const isLocalImageRef = (src: string) => !/^(https?:|data:)/i.test(src);
+
+// 将一行拆分为文本和图片block
+const splitLine = (line: string): ParsedNoteBlock[] => {
+  const blocks: ParsedNoteBlock[] = [];
+  const pattern = new RegExp(`${IMAGE_PATTERN.source}|${WIKI_IMAGE_PATTERN.source}`, 'g');
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    const src = match[1] || match[2] || match[3];
+    if (!isLocalImageRef(src)) {
+      continue;
+    }
+
+    const before = line.substring(lastIndex, match.index);
+    if (before.trim()) {
+      blocks.push({ type: BlockType.MARKDOWN, content: before.trim() });
+    }
+    blocks.push({ type: BlockType.IMAGE, src: src.trim() });
+    lastIndex = match.index + match[0].length;
+  }
+
+  const rest = line.substring(lastIndex);
+  if (rest.trim()) {
+    const content = lastIndex > 0 ? rest.trim() : rest.trimEnd();
+    const colorMatch = content.match(COLOR_LINE_PATTERN);
+    blocks.push(colorMatch
+      ? { type: BlockType.MARKDOWN, content: `${colorMatch[1]}${colorMatch[2]}`, color: colorMatch[3] }
+      : { type: BlockType.MARKDOWN, content });
+  }
+
+  return blocks;
+};
+
+// 将连续的任务列表行（- [ ] / - [x]）合并为一个清单block
+const mergeChecklistLines = (blocks: ParsedNoteBlock[]): ParsedNoteBlock[] => {
+  const merged: ParsedNoteBlock[] = [];
+  for (const block of blocks) {
+    if (block.type !== BlockType.MARKDOWN || block.color || !startsWithTaskPrefix(block.content)) {
+      merged.push(block);
+      continue;
+    }
+    const previous = merged[merged.length - 1];
+    if (previous?.type === BlockType.CHECKLIST) {
+      previous.content = `${previous.content}\n${block.content}`;
+    } else {
+      merged.push({ type: BlockType.CHECKLIST, content: block.content });
+    }
+  }
+  return merged.map(block =>
+    block.type === BlockType.CHECKLIST
+      ? { ...block, content: serializeChecklist(parseChecklist(block.content)) }
+      : block
+  );
+};
+
+// 标记每一行是否属于围栏代码块（包括围栏行本身）
+const markFencedLines = (lines: string[]): boolean[] => {
+  const fenced: boolean[] = [];
+  let inFence = false;
+  for (const line of lines) {
+    if (inFence) {
+      fenced.push(true);
+      inFence = !CODE_FENCE_CLOSE_PATTERN.test(line);
+    } else {
+      inFence = CODE_FENCE_OPEN_PATTERN.test(line);
+      fenced.push(inFence);
+    }
+  }
+  return fenced;
+};
+
+// 将正文拆分为blocks：围栏代码块和GFM表格整体作为一个block，其他行按行拆分
+const splitBody = (lines: string[]): ParsedNoteBlock[] => {
+  const blocks: ParsedNoteBlock[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const tableMatch = parseGfmTable(lines, index);
+    if (tableMatch) {
+      blocks.push({ type: BlockType.TABLE, table: tableMatch.table });
+      index += tableMatch.lineCount - 1;
+      continue;
+    }
+
+    const fenceMatch = lines[index].match(CODE_FENCE_OPEN_PATTERN);
+    if (!fenceMatch) {
+      blocks.push(...splitLine(lines[index]));
+      continue;
+    }
+
+    const codeLines: string[] = [];
+    index++;
+    while (index < lines.length && !CODE_FENCE_CLOSE_PATTERN.test(lines[index])) {
+      codeLines.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: BlockType.CODE, content: codeLines.join('\n'), language: normalizeLanguage(fenceMatch[1]) });
+  }
+  return blocks;
+};
+
+/**
+ * 解析一个markdown/纯文本笔记
+ * - hint取第一个标题，没有标题时取文件名
+ * - 正文按行拆分为markdown block（与Editor一行一个block的模型一致），空行忽略
+ * - 本地图片引用拆分为单独的图片block
+ * - 连续的任务列表行合并为一个清单block
+ * - 围栏代码块保留为一个多行的代码block
+ * - GFM表格转换为一个表格block
+ */
+export const parseMarkdownNote = (text: string, fileName: string): ParsedNote => {
+  let body = text.replace(/^\uFEFF/, '');
+  let frontMatter: Record<string, string> = {};
+
+  const frontMatterMatch = body.match(FRONT_MATTER_PATTERN);
+  if (frontMatterMatch) {
+    frontMatter = parseFrontMatter(frontMatterMatch[1]);
+    body = body.substring(frontMatterMatch[0].length);
+  }
+
+  const lines = body.split(/\r?\n/);
+  // 代码块中的#注释不作为标题
+  const fenced = markFencedLines(lines);
+  const headingIndex = lines.findIndex((line, index) => !fenced[index] && HEADING_PATTERN.test(line));
+  let hint = fileName.replace(/\.[^.]+$/, '');
+  if (headingIndex >= 0) {
+    hint = lines[headingIndex].match(HEADING_PATTERN)![1];
+    lines.splice(headingIndex, 1);
+  }
+
+  const category = frontMatter.category?.toLowerCase();
+
+  return {
+    hint: hint.trim(),
+    date: normalizeDate(frontMatter.date),
+    category: getCategories().some(config => config.id === category) ? category : undefined,
+    completed: frontMatter.completed === 'true',
+    blocks: mergeChecklistLines(splitBody(lines)),
+  };
+};
+
+// 解析图片路径：相对于笔记所在目录，找不到时再相对于导入根目录查找
+const resolveImagePath = async (src: string, noteDir: string, rootDir: string): Promise<string | null> => {
+  let decoded = src;
+  try {
+    decoded = decodeURI(src);
+  } catch {
+    // 保留原始路径
+  }
+
+  const candidates = decoded.startsWith('/') || decoded.startsWith('file://')
+    ? [uriToPath(decoded)]
+    : [`${noteDir}/${decoded}`, `${rootDir}/${decoded}`];
+
+  for (const candidate of candidates) {
+    // 处理路径中的 . 和 ..
+    const segments: string[] = [];
+    for (const segment of candidate.split('/')) {
+      if (segment === '..') {
+        segments.pop();
+      } else if (segment !== '.') {
+        segments.push(segment);
+      }
+    }
+    const path = segments.join('/');
+    if (await RNFS.exists(path)) {
+      return path;
+    }
+  }
+  return null;
+};
+
+// 递归收集目录中可导入的文件
+const collectFiles = async (dir: string): Promise<RNFS.ReadDirItem[]> => {
+  const files: RNFS.ReadDirItem[] = [];
+  for (const item of await RNFS.readDir(dir)) {
+    if (item.name.startsWith('.')) {
+      continue;
+    }
+    if (item.isDirectory()) {
+      files.push(...await collectFiles(item.path));
+    } else if (IMPORTABLE_EXTENSIONS.some(ext => item.name.toLowerCase().endsWith(ext))) {
+      files.push(item);
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// 导入单个文件，返回新想法的ID
+const importFile = async (file: RNFS.ReadDirItem, rootDir: string): Promise<number> => {
+  const note = parseMarkdownNote(await RNFS.readFile(file.path, 'utf8'), file.name);
+  const noteDir = file.path.substring(0, file.path.lastIndexOf('/'));
+
+  // 没有front-matter日期时使用文件修改时间
+  const date = note.date
+    || (file.mtime ? new Date(file.mtime).toISOString().split('T')[0] : new Date().toISOString().split('T')[0]);
+
+  const blocks: { blockId: string; type: BlockType; content: string; orderIndex: number; color?: string; attrs?: BlockAttrs }[] = [];
+  const baseId = Date.now();
+  for (const block of note.blocks) {
+    const blockId = (baseId + blocks.length).toString();
+    if (block.type === BlockType.MARKDOWN) {
+      blocks.push({ blockId, type: block.type, content: block.content, orderIndex: blocks.length, color: block.color });
+      continue;
+    }
+    if (block.type === BlockType.CHECKLIST) {
+      blocks.push({ blockId, type: block.type, content: block.content, orderIndex: blocks.length });
+      continue;
+    }
+    if (block.type === BlockType.CODE) {
+      blocks.push({ blockId, type: block.type, content: block.content, orderIndex: blocks.length, attrs: { language: block.language } });
+      continue;
+    }
+    if (block.type === BlockType.TABLE) {
+      blocks.push({ blockId, type: block.type, content: serializeTable(block.table), orderIndex: blocks.length });
+      continue;
+    }
+
+    // 复制本地图片到应用图片目录，找不到的图片保留为markdown文本
+    const sourcePath = await resolveImagePath(block.src, noteDir, rootDir);
+    if (!sourcePath) {
+      console.warn('⚠️ Image not found for import:', block.src);
+      blocks.push({ blockId, type: BlockType.MARKDOWN, content: `![](${block.src})`, orderIndex: blocks.length });
+      continue;
+    }
+    const extension = sourcePath.match(/\.(\w+)$/)?.[1]?.toLowerCase() || 'jpg';
+    const destPath = `${IMAGES_DIR}/image_${baseId}_${blocks.length}.${extension}`;
+    await RNFS.copyFile(sourcePath, destPath);
+    blocks.push({ blockId, type: BlockType.IMAGE, content: `file://${destPath}`, orderIndex: blocks.length });
+  }
+
+  const ideaId = await ideaDB.addIdea({
+    hint: note.hint || file.name,
+    date,
+    category: note.category,
+    completed: note.completed,
+  });
+  if (blocks.length > 0) {
+    await ideaDB.saveDirtyBlocks(ideaId, blocks);
+  }
+  return ideaId;
+};
+
+/**
+ * 导入目录（含子目录）中的所有.md/.markdown/.txt文件，每个文件创建一个想法
+ * 单个文件失败不影响其他文件，失败信息记录在结果中
+ */
+export const importMarkdownFolder = async (dir: string): Promise<ImportResult> => {
+  const result: ImportResult = { imported: 0, ideaIds: [], failed: [] };
+
+  let files: RNFS.ReadDirItem[];
+  try {
+    files = await collectFiles(dir);
+    await RNFS.mkdir(IMAGES_DIR);
+  } catch (error) {
+    console.error('❌ Error reading import folder:', error);
+    throw new Error('读取导入目录失败');
+  }
+
+  for (const file of files) {
+    try {
+      result.ideaIds.push(await importFile(file, dir));
+      result.imported++;
+    } catch (error) {
+      console.error('❌ Error importing file:', file.path, error);
+      result.failed.push({ file: file.name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+};
+
+// 列出导入目录下的文件夹（每个文件夹作为一个导入来源）
+export const listImportFolders = async (): Promise<RNFS.ReadDirItem[]> => {
+  await RNFS.mkdir(IMPORTS_DIR);
+  const items = await RNFS.readDir(IMPORTS_DIR);
+  return items
+    .filter(item => item.isDirectory() && !item.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
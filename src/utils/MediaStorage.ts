@@ -0,0 +1,34 @@
+import RNFS from 'react-native-fs';
+
+// 应用内图片的存储目录
+export const IMAGES_DIR = `${RNFS.DocumentDirectoryPath}/images`;
+
+// 应用内录音的存储目录
+export const AUDIO_DIR = `${RNFS.DocumentDirectoryPath}/audio`;
+
+// 将file://形式的uri转换为本地路径
+export const uriToPath = (uri: string): string => uri.replace(/^file:\/\//, '');
+
+// 判断uri是否指向应用文档目录内的文件
+export const isLocalMediaUri = (uri: string): boolean =>
+  uriToPath(uri).startsWith(RNFS.DocumentDirectoryPath);
+
+/**
+ * 删除应用目录内的媒体文件（忽略外部文件和已不存在的文件）
+ * @param uris 媒体文件uri列表
+ */
+export const deleteLocalMediaFiles = async (uris: string[]): Promise<void> => {
+  for (const uri of uris) {
+    if (!isLocalMediaUri(uri)) {
+      continue;
+    }
+    try {
+      const path = uriToPath(uri);
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to delete media file:', uri, error);
+    }
+  }
+};
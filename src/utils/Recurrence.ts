@@ -0,0 +1,39 @@
+import { IdeaRecord } from '../Types';
+import { ideaDB } from './IdeaDatabase';
+import { getNextOccurrenceFrom, shiftDateTime } from './RecurrenceRules';
+import { syncIdeaReminder } from './Reminders';
+
+// 今天的日期（与Home中想法的日期格式一致）
+const todayString = () => new Date().toISOString().split('T')[0];
+
+/**
+ * 重复待办完成后生成下一次：日期按重复规则计算，截止和提醒时间平移到新日期
+ * @param ideaId 刚完成的想法
+ * @returns 新生成的想法；没有重复规则时返回null
+ */
+export const createNextRecurringIdea = async (ideaId: number): Promise<IdeaRecord | null> => {
+  const [rule, idea] = await Promise.all([
+    ideaDB.getRecurrence(ideaId),
+    ideaDB.getIdeaById(ideaId),
+  ]);
+  if (!rule || !idea) {
+    return null;
+  }
+
+  const nextDate = getNextOccurrenceFrom(rule, idea.date, todayString());
+  const newId = await ideaDB.createNextOccurrence(ideaId, {
+    hint: idea.hint,
+    detail: idea.detail,
+    date: nextDate,
+    category: idea.category,
+    due_at: idea.due_at ? shiftDateTime(idea.due_at, idea.date, nextDate) : null,
+    remind_at: idea.remind_at ? shiftDateTime(idea.remind_at, idea.date, nextDate) : null,
+  });
+
+  if (idea.remind_at) {
+    syncIdeaReminder(newId).catch(error => {
+      console.warn('⚠️ Failed to schedule reminder for next occurrence:', error);
+    });
+  }
+  return ideaDB.getIdeaById(newId);
+};
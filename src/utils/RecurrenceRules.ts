@@ -0,0 +1,160 @@
+import { RecurrenceFrequency, RecurrenceSettings } from '../Types';
+import { MAX_RECURRENCE_INTERVAL } from './config';
+
+// 重复频率的显示顺序
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly', 'interval'];
+
+// 计算日历日期时的迭代上限，防止异常规则导致死循环
+const MAX_OCCURRENCE_STEPS = 1000;
+
+// 日期字符串（YYYY-MM-DD）按UTC解析，避免时区影响日期计算
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: Date, days: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// 指定月份中的某一天，超过当月天数时取月末
+const monthDayOf = (year: number, month: number, day: number) => {
+  const normalizedYear = year + Math.floor(month / 12);
+  const normalizedMonth = ((month % 12) + 12) % 12;
+  return new Date(Date.UTC(
+    normalizedYear,
+    normalizedMonth,
+    Math.min(day, daysInMonth(normalizedYear, normalizedMonth))
+  ));
+};
+
+/**
+ * 补全重复设置：间隔限制在有效范围内，每周重复缺少星期几时使用起始日期的星期，
+ * 每月重复缺少日期时使用起始日期的日
+ * @param settings 用户选择的设置
+ * @param startDate 起始日期（YYYY-MM-DD）
+ */
+export const normalizeRecurrence = (
+  settings: Partial<RecurrenceSettings> & { frequency: RecurrenceFrequency },
+  startDate: string
+): RecurrenceSettings => {
+  const start = parseDate(startDate);
+  const interval = Math.min(Math.max(Math.floor(settings.interval || 1), 1), MAX_RECURRENCE_INTERVAL);
+  const weekdays = Array.from(new Set((settings.weekdays || []).filter(day => day >= 0 && day <= 6))).sort((a, b) => a - b);
+  const monthDay = settings.month_day && settings.month_day >= 1 && settings.month_day <= 31
+    ? Math.floor(settings.month_day)
+    : start.getUTCDate();
+
+  return {
+    frequency: settings.frequency,
+    interval: ['weekly', 'monthly', 'interval'].includes(settings.frequency) ? interval : 1,
+    weekdays: settings.frequency === 'weekly'
+      ? (weekdays.length > 0 ? weekdays : [start.getUTCDay()])
+      : [],
+    month_day: settings.frequency === 'monthly' ? monthDay : null,
+  };
+};
+
+/**
+ * 计算下一次重复的日期
+ * - weekly：本周（周日开始）之后的日子中有选中的星期几则取它，否则取N周后那一周的第一个选中日
+ * - monthly：本月的重复日期还没到则取它，否则取N个月后
+ * @param settings 重复设置（需经过normalizeRecurrence）
+ * @param fromDate 当前这次的日期（YYYY-MM-DD）
+ * @returns 严格晚于fromDate的日期（YYYY-MM-DD）
+ */
+export const getNextOccurrence = (settings: RecurrenceSettings, fromDate: string): string => {
+  const from = parseDate(fromDate);
+
+  switch (settings.frequency) {
+    case 'daily':
+      return formatDate(addDays(from, 1));
+
+    case 'weekdays': {
+      // 周五之后跳到下周一
+      const weekday = from.getUTCDay();
+      const offset = weekday === 5 ? 3 : weekday === 6 ? 2 : 1;
+      return formatDate(addDays(from, offset));
+    }
+
+    case 'weekly': {
+      const weekday = from.getUTCDay();
+      const weekdays = settings.weekdays.length > 0 ? settings.weekdays : [weekday];
+      const laterThisWeek = weekdays.find(day => day > weekday);
+      if (laterThisWeek !== undefined) {
+        return formatDate(addDays(from, laterThisWeek - weekday));
+      }
+      const nextWeekStart = addDays(from, 7 * settings.interval - weekday);
+      return formatDate(addDays(nextWeekStart, Math.min(...weekdays)));
+    }
+
+    case 'monthly': {
+      const day = settings.month_day ?? from.getUTCDate();
+      const thisMonth = monthDayOf(from.getUTCFullYear(), from.getUTCMonth(), day);
+      if (thisMonth > from) {
+        return formatDate(thisMonth);
+      }
+      return formatDate(monthDayOf(from.getUTCFullYear(), from.getUTCMonth() + settings.interval, day));
+    }
+
+    case 'interval':
+      return formatDate(addDays(from, settings.interval));
+
+    default:
+      return formatDate(addDays(from, 1));
+  }
+};
+
+/**
+ * 计算完成后应生成的下一次日期：跳过已经过去的日期（逾期完成时不补生成过去的待办）
+ * @param settings 重复设置
+ * @param fromDate 当前这次的日期
+ * @param today 今天（YYYY-MM-DD）
+ */
+export const getNextOccurrenceFrom = (settings: RecurrenceSettings, fromDate: string, today: string): string => {
+  let next = getNextOccurrence(settings, fromDate);
+  for (let step = 0; next < today && step < MAX_OCCURRENCE_STEPS; step++) {
+    next = getNextOccurrence(settings, next);
+  }
+  return next;
+};
+
+/**
+ * 列出某段日期范围内的所有重复日期（不包括fromDate本身）
+ * @param settings 重复设置
+ * @param fromDate 当前这次的日期
+ * @param rangeStart 范围起点（含）
+ * @param rangeEnd 范围终点（含）
+ */
+export const getOccurrencesInRange = (
+  settings: RecurrenceSettings,
+  fromDate: string,
+  rangeStart: string,
+  rangeEnd: string
+): string[] => {
+  const dates: string[] = [];
+  let next = getNextOccurrence(settings, fromDate);
+  for (let step = 0; next <= rangeEnd && step < MAX_OCCURRENCE_STEPS; step++) {
+    if (next >= rangeStart) {
+      dates.push(next);
+    }
+    next = getNextOccurrence(settings, next);
+  }
+  return dates;
+};
+
+/**
+ * 把截止时间平移到新日期（保留时刻），用于生成下一次待办
+ * @param dueAt 原截止时间（ISO 8601）
+ * @param fromDate 原待办的日期
+ * @param toDate 新待办的日期
+ */
+export const shiftDateTime = (dueAt: string, fromDate: string, toDate: string): string => {
+  const days = Math.round((parseDate(toDate).getTime() - parseDate(fromDate).getTime()) / (24 * 60 * 60 * 1000));
+  const shifted = new Date(dueAt);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted.toISOString();
+};
@@ -0,0 +1,145 @@
+import { IdeaRecord } from '../Types';
+
+// 时钟接口：测试中可替换为手动推进的假时钟
+export interface ReminderClock {
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: ReminderClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface Reminder {
+  ideaId: number;
+  title: string;
+  fireAt: number; // 毫秒时间戳
+}
+
+/**
+ * 通知驱动：负责把提醒交给系统（应用未运行时也能弹出）
+ * 应用中使用notifee实现，测试中可替换为记录调用的假驱动
+ */
+export interface NotificationDriver {
+  schedule(reminder: Reminder): Promise<void>;
+  cancel(ideaId: number): Promise<void>;
+  cancelAll(): Promise<void>;
+}
+
+// setTimeout的最大延迟（约24.8天），更远的提醒分段等待
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * 提醒调度服务
+ * - 通过NotificationDriver预约系统通知
+ * - 同时在应用内按时钟计时，到期时通知监听者（用于刷新到期标记）
+ * 已过去的提醒不再预约
+ */
+export class ReminderScheduler {
+  private timers = new Map<number, unknown>();
+  private reminders = new Map<number, Reminder>();
+  private listeners = new Set<(reminder: Reminder) => void>();
+
+  constructor(
+    private readonly driver: NotificationDriver,
+    private readonly clock: ReminderClock = systemClock
+  ) {}
+
+  /**
+   * 预约提醒（同一想法已有的提醒会被替换）
+   * @returns 是否已预约（提醒时间已过时返回false）
+   */
+  async schedule(reminder: Reminder): Promise<boolean> {
+    await this.cancel(reminder.ideaId);
+    if (reminder.fireAt <= this.clock.now()) {
+      return false;
+    }
+
+    await this.driver.schedule(reminder);
+    this.reminders.set(reminder.ideaId, reminder);
+    this.startTimer(reminder);
+    return true;
+  }
+
+  // 取消想法的提醒（系统中可能还有上次运行时预约的通知，始终通知驱动取消）
+  async cancel(ideaId: number): Promise<void> {
+    this.stopTimer(ideaId);
+    this.reminders.delete(ideaId);
+    await this.driver.cancel(ideaId);
+  }
+
+  /**
+   * 根据想法的当前状态预约或取消提醒
+   * 已完成、已删除或没有提醒时间的想法取消提醒
+   */
+  async syncIdea(idea: IdeaRecord): Promise<boolean> {
+    if (!idea.remind_at || idea.completed || idea.deleted_at) {
+      await this.cancel(idea.id);
+      return false;
+    }
+    return this.schedule({
+      ideaId: idea.id,
+      title: idea.hint,
+      fireAt: new Date(idea.remind_at).getTime(),
+    });
+  }
+
+  /**
+   * 重新预约所有提醒（应用启动时调用，与系统中已预约的通知保持一致）
+   * @param ideas 有待提醒的想法
+   * @returns 已预约的提醒数量
+   */
+  async syncAll(ideas: IdeaRecord[]): Promise<number> {
+    this.timers.forEach(handle => this.clock.clearTimeout(handle));
+    this.timers.clear();
+    this.reminders.clear();
+    await this.driver.cancelAll();
+
+    let scheduled = 0;
+    for (const idea of ideas) {
+      if (await this.syncIdea(idea)) {
+        scheduled++;
+      }
+    }
+    return scheduled;
+  }
+
+  // 获取已预约的提醒
+  getScheduled(): Reminder[] {
+    return Array.from(this.reminders.values()).sort((a, b) => a.fireAt - b.fireAt);
+  }
+
+  // 订阅提醒到期事件，返回取消订阅的函数
+  onReminderDue(listener: (reminder: Reminder) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private startTimer(reminder: Reminder) {
+    const delay = reminder.fireAt - this.clock.now();
+    const handle = this.clock.setTimeout(() => {
+      // 超过最大延迟时分段等待
+      if (reminder.fireAt > this.clock.now()) {
+        this.startTimer(reminder);
+        return;
+      }
+      this.timers.delete(reminder.ideaId);
+      this.reminders.delete(reminder.ideaId);
+      this.listeners.forEach(listener => listener(reminder));
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+    this.timers.set(reminder.ideaId, handle);
+  }
+
+  private stopTimer(ideaId: number) {
+    const handle = this.timers.get(ideaId);
+    if (handle !== undefined) {
+      this.clock.clearTimeout(handle);
+      this.timers.delete(ideaId);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import notifee, { AndroidImportance, TriggerType } from '@notifee/react-native';
+import i18n from '../i18n';
+import { ideaDB } from './IdeaDatabase';
+import { NotificationDriver, Reminder, ReminderScheduler } from './ReminderScheduler';
+
+// Android通知渠道
+const REMINDER_CHANNEL_ID = 'reminders';
+
+// 提醒通知的ID前缀，用于区分应用中其他通知
+const REMINDER_ID_PREFIX = 'reminder-';
+
+const notificationId = (ideaId: number) => `${REMINDER_ID_PREFIX}${ideaId}`;
+
+let channelCreated = false;
+
+// 创建Android通知渠道（iOS上为空操作）
+const ensureChannel = async (): Promise<void> => {
+  if (channelCreated) {
+    return;
+  }
+  await notifee.createChannel({
+    id: REMINDER_CHANNEL_ID,
+    name: i18n.t('reminders.channelName'),
+    importance: AndroidImportance.HIGH,
+  });
+  channelCreated = true;
+};
+
+// 使用notifee的定时通知实现通知驱动
+export const notifeeDriver: NotificationDriver = {
+  async schedule(reminder: Reminder) {
+    await ensureChannel();
+    await notifee.createTriggerNotification(
+      {
+        id: notificationId(reminder.ideaId),
+        title: reminder.title,
+        body: i18n.t('reminders.body'),
+        data: { ideaId: String(reminder.ideaId) },
+        android: {
+          channelId: REMINDER_CHANNEL_ID,
+          pressAction: { id: 'default' },
+        },
+      },
+      {
+        type: TriggerType.TIMESTAMP,
+        timestamp: reminder.fireAt,
+        alarmManager: { allowWhileIdle: true },
+      }
+    );
+  },
+
+  async cancel(ideaId: number) {
+    await notifee.cancelTriggerNotification(notificationId(ideaId));
+  },
+
+  async cancelAll() {
+    const ids = await notifee.getTriggerNotificationIds();
+    const reminderIds = ids.filter(id => id.startsWith(REMINDER_ID_PREFIX));
+    if (reminderIds.length > 0) {
+      await notifee.cancelTriggerNotifications(reminderIds);
+    }
+  },
+};
+
+// 应用使用的提醒调度服务
+export const reminderScheduler = new ReminderScheduler(notifeeDriver);
+
+/**
+ * 初始化提醒：请求通知权限，并按数据库重新预约所有提醒
+ * @returns 已预约的提醒数量
+ */
+export const initializeReminders = async (): Promise<number> => {
+  await notifee.requestPermission();
+  const ideas = await ideaDB.getIdeasWithPendingReminders();
+  return reminderScheduler.syncAll(ideas);
+};
+
+// 想法的完成状态、提醒时间或删除状态变化后调用，从数据库读取最新状态并预约或取消提醒
+export const syncIdeaReminder = async (ideaId: number): Promise<void> => {
+  const idea = await ideaDB.getIdeaById(ideaId);
+  if (idea) {
+    await reminderScheduler.syncIdea(idea);
+  } else {
+    await reminderScheduler.cancel(ideaId);
+  }
+};
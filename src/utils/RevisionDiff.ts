@@ -0,0 +1,70 @@
+import { RevisionBlock } from '../Types';
+
+// 单个block在两个版本之间的变化
+export type BlockDiffStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface BlockDiff {
+  status: BlockDiffStatus;
+  oldBlock?: RevisionBlock; // added时为空
+  newBlock?: RevisionBlock; // removed时为空
+}
+
+// 判断同一个block在两个版本中的内容是否一致
+const isSameBlock = (a: RevisionBlock, b: RevisionBlock) =>
+  a.type === b.type && a.content === b.content && (a.color || '') === (b.color || '');
+
+/**
+ * 按block逐个比较两个版本
+ * 以block_id的最长公共子序列对齐两个版本，对齐的block比较内容，
+ * 其余block标记为新增或删除；被移动位置的block表现为一次删除加一次新增
+ */
+export const diffRevisionBlocks = (oldBlocks: RevisionBlock[], newBlocks: RevisionBlock[]): BlockDiff[] => {
+  const m = oldBlocks.length;
+  const n = newBlocks.length;
+
+  // lcs[i][j]：oldBlocks[i..]与newBlocks[j..]的最长公共子序列长度
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = oldBlocks[i].block_id === newBlocks[j].block_id
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diffs: BlockDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (oldBlocks[i].block_id === newBlocks[j].block_id) {
+      diffs.push({
+        status: isSameBlock(oldBlocks[i], newBlocks[j]) ? 'unchanged' : 'modified',
+        oldBlock: oldBlocks[i],
+        newBlock: newBlocks[j],
+      });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diffs.push({ status: 'removed', oldBlock: oldBlocks[i] });
+      i++;
+    } else {
+      diffs.push({ status: 'added', newBlock: newBlocks[j] });
+      j++;
+    }
+  }
+  for (; i < m; i++) {
+    diffs.push({ status: 'removed', oldBlock: oldBlocks[i] });
+  }
+  for (; j < n; j++) {
+    diffs.push({ status: 'added', newBlock: newBlocks[j] });
+  }
+
+  return diffs;
+};
+
+// 统计各类变化的数量
+export const summarizeDiff = (diffs: BlockDiff[]) => ({
+  added: diffs.filter(diff => diff.status === 'added').length,
+  removed: diffs.filter(diff => diff.status === 'removed').length,
+  modified: diffs.filter(diff => diff.status === 'modified').length,
+});
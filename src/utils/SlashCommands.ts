@@ -0,0 +1,164 @@
+import { Block } from '../Types';
+import { toggleHeading, toggleList, toggleQuote } from './TextFormatting';
+
+// 斜杠命令可以插入的新block
+export type SlashBlock = Pick<Block, 'type' | 'content' | 'attrs'>;
+
+/**
+ * 命令执行时可用的编辑操作，由KeyboardToolbar提供，与工具栏按钮走同样的逻辑
+ * 执行命令前已清空当前block中输入的/命令
+ */
+export interface SlashCommandContext {
+  setText: (text: string, cursor?: number) => void; // 替换当前block的文本，光标默认在末尾
+  addBlock: () => void; // 在当前block后添加新的文本block
+  insertBlock: (block: SlashBlock) => void; // 替换当前的空block，或插入到其后
+  toggleChecklist: () => void;
+  pickImage: () => void;
+  openColorPanel: () => void;
+  linkIdea: () => void; // 选择一个想法并插入[[标题]]链接
+}
+
+export interface SlashCommand {
+  id: string; // 唯一ID，也可以直接输入ID筛选
+  titleKey: string; // 菜单中显示的标题（i18n key）
+  icon: string; // Feather图标名
+  keywords?: string[]; // 额外的筛选关键词
+  run: (context: SlashCommandContext) => void;
+}
+
+// 按注册顺序保存的命令，ID相同时后注册的替换先注册的
+const registry = new Map<string, SlashCommand>();
+
+/**
+ * 注册斜杠命令，新的block类型可以在自己的模块中注册插入命令
+ */
+export const registerSlashCommand = (command: SlashCommand): void => {
+  registry.set(command.id, command);
+};
+
+export const getSlashCommands = (): SlashCommand[] => Array.from(registry.values());
+
+/**
+ * 当前block的内容是/加上命令关键词且光标在末尾时，返回输入的关键词
+ * @returns 关键词（可以为空），不是斜杠命令时返回null
+ */
+export const getSlashQuery = (text: string, cursor: number): string | null => {
+  const match = text.match(/^\/([^\s/]*)$/);
+  if (!match || cursor !== text.length) {
+    return null;
+  }
+  return match[1];
+};
+
+/**
+ * 按关键词筛选命令：ID、关键词或显示的标题包含关键词即可，开头匹配的排在前面
+ * @param translate 把titleKey翻译成显示的标题
+ */
+export const filterSlashCommands = (
+  commands: SlashCommand[],
+  query: string,
+  translate: (key: string) => string
+): SlashCommand[] => {
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) {
+    return commands;
+  }
+
+  const ranked: { command: SlashCommand; rank: number }[] = [];
+  for (const command of commands) {
+    const names = [command.id, translate(command.titleKey), ...(command.keywords ?? [])].map(name => name.toLowerCase());
+    if (names.some(name => name.startsWith(keyword))) {
+      ranked.push({ command, rank: 0 });
+    } else if (names.some(name => name.includes(keyword))) {
+      ranked.push({ command, rank: 1 });
+    }
+  }
+  // sort是稳定的，同一档内保持注册顺序
+  return ranked.sort((a, b) => a.rank - b.rank).map(item => item.command);
+};
+
+/**
+ * 本地日期 YYYY-MM-DD
+ */
+export const formatLocalDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  ...[1, 2, 3].map(level => ({
+    id: `h${level}`,
+    titleKey: `slash.heading${level}`,
+    icon: 'type',
+    keywords: ['heading', '标题'],
+    run: (context: SlashCommandContext) => context.setText(toggleHeading('', 0, 0, level).text),
+  })),
+  {
+    id: 'bullet',
+    titleKey: 'slash.bulletList',
+    icon: 'list',
+    keywords: ['list', 'ul', '列表'],
+    run: context => context.setText(toggleList('', 0, 0, 'bullet').text),
+  },
+  {
+    id: 'numbered',
+    titleKey: 'slash.numberedList',
+    icon: 'hash',
+    keywords: ['list', 'ol', '列表'],
+    run: context => context.setText(toggleList('', 0, 0, 'ordered').text),
+  },
+  {
+    id: 'todo',
+    titleKey: 'slash.taskList',
+    icon: 'check-square',
+    keywords: ['task', 'checklist', '清单', '待办'],
+    run: context => context.toggleChecklist(),
+  },
+  {
+    id: 'quote',
+    titleKey: 'slash.quote',
+    icon: 'message-square',
+    keywords: ['blockquote', '引用'],
+    run: context => context.setText(toggleQuote('', 0, 0).text),
+  },
+  {
+    id: 'divider',
+    titleKey: 'slash.divider',
+    icon: 'minus',
+    keywords: ['hr', 'line', '分隔线'],
+    run: context => {
+      context.setText('---');
+      context.addBlock();
+    },
+  },
+  {
+    id: 'image',
+    titleKey: 'slash.image',
+    icon: 'image',
+    keywords: ['picture', 'photo', '图片'],
+    run: context => context.pickImage(),
+  },
+  {
+    id: 'date',
+    titleKey: 'slash.date',
+    icon: 'calendar',
+    keywords: ['today', '日期'],
+    run: context => context.setText(formatLocalDate(new Date())),
+  },
+  {
+    id: 'color',
+    titleKey: 'slash.color',
+    icon: 'droplet',
+    keywords: ['colour', '颜色'],
+    run: context => context.openColorPanel(),
+  },
+  {
+    id: 'link',
+    titleKey: 'slash.link',
+    icon: 'link',
+    keywords: ['wiki', 'idea', '链接'],
+    run: context => context.linkIdea(),
+  },
+];
+
+BUILT_IN_COMMANDS.forEach(registerSlashCommand);
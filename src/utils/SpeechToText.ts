@@ -0,0 +1,111 @@
+import { MIN_RECORDING_MS } from './config';
+
+export interface TranscribeOptions {
+  language?: string; // 识别语言，例如'zh'、'en'，不传时自动检测
+}
+
+/**
+ * 语音识别服务接口
+ * 应用中默认使用离线的whisper引擎，测试中可替换为StubSpeechToTextProvider
+ */
+export interface SpeechToTextProvider {
+  id: string;
+  // 是否可以立即使用（例如离线模型是否已下载）
+  isAvailable(): Promise<boolean>;
+  // 识别音频文件（16kHz单声道WAV）中的文字
+  transcribe(audioPath: string, options?: TranscribeOptions): Promise<string>;
+  // 释放引擎占用的资源
+  release?(): Promise<void>;
+}
+
+// 录音接口：应用中使用react-native-audio-record实现，测试中可替换为假录音
+export interface AudioRecorder {
+  start(): Promise<void>;
+  // 结束录音，返回录音文件路径
+  stop(): Promise<string>;
+  // 删除不再需要的录音文件
+  discard(audioPath: string): Promise<void>;
+}
+
+export interface VoiceRecognitionResult {
+  text: string;
+  audioPath: string;
+  durationMs: number;
+}
+
+// 测试用的语音识别服务：按顺序返回预设的识别结果，并记录每次请求
+export class StubSpeechToTextProvider implements SpeechToTextProvider {
+  readonly id = 'stub';
+  readonly requests: { audioPath: string; options?: TranscribeOptions }[] = [];
+
+  constructor(
+    private readonly transcripts: string[] = [],
+    private readonly available = true
+  ) {}
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async transcribe(audioPath: string, options?: TranscribeOptions): Promise<string> {
+    this.requests.push({ audioPath, options });
+    return this.transcripts.shift() ?? '';
+  }
+}
+
+// 清理识别结果：去掉[BLANK_AUDIO]等非语音标记，合并多余的空白
+export const cleanTranscript = (text: string): string =>
+  text.replace(/\[[^\]]*\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * 语音识别流程：录音 → 交给语音识别服务 → 返回文字和录音文件
+ * 录音过短时视为误触，不进行识别
+ */
+export class VoiceRecognizer {
+  private startedAt: number | null = null;
+
+  constructor(
+    private readonly recorder: AudioRecorder,
+    private readonly getProvider: () => SpeechToTextProvider,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  isRecording(): boolean {
+    return this.startedAt !== null;
+  }
+
+  async start(): Promise<void> {
+    if (this.startedAt !== null) {
+      return;
+    }
+    await this.recorder.start();
+    this.startedAt = this.now();
+  }
+
+  /**
+   * 结束录音并识别
+   * @returns 识别结果；没有在录音或录音过短时返回null（过短的录音会被删除）
+   */
+  async stop(options?: TranscribeOptions): Promise<VoiceRecognitionResult | null> {
+    if (this.startedAt === null) {
+      return null;
+    }
+
+    const durationMs = this.now() - this.startedAt;
+    this.startedAt = null;
+    const audioPath = await this.recorder.stop();
+    if (durationMs < MIN_RECORDING_MS) {
+      await this.recorder.discard(audioPath);
+      return null;
+    }
+
+    try {
+      const text = cleanTranscript(await this.getProvider().transcribe(audioPath, options));
+      return { text, audioPath, durationMs };
+    } catch (error) {
+      // 识别失败时录音没有用处，删除后再抛出
+      await this.recorder.discard(audioPath);
+      throw error;
+    }
+  }
+}
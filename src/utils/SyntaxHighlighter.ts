@@ -0,0 +1,340 @@
+// 离线的轻量语法高亮：按语言的关键字、注释和字符串规则把代码切分为着色片段
+
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'function' | 'type';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  id: string;
+  name: string;
+  aliases: string[];
+  keywords: string[];
+  constants: string[]; // 与数字同色显示，例如true/false/null
+  lineComments: string[];
+  blockComment?: [string, string];
+  strings: string[]; // 字符串定界符，较长的放在前面（例如python的三引号）
+  caseInsensitive?: boolean;
+}
+
+const C_FAMILY_KEYWORDS = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'goto', 'struct', 'union', 'enum', 'typedef', 'sizeof', 'static', 'const', 'extern', 'volatile',
+  'void', 'int', 'char', 'short', 'long', 'float', 'double', 'signed', 'unsigned', 'bool',
+];
+
+const JS_KEYWORDS = [
+  'var', 'let', 'const', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case',
+  'default', 'break', 'continue', 'new', 'delete', 'typeof', 'instanceof', 'in', 'of', 'class',
+  'extends', 'super', 'this', 'import', 'export', 'from', 'as', 'async', 'await', 'yield', 'try',
+  'catch', 'finally', 'throw', 'void', 'static', 'get', 'set',
+];
+
+const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    aliases: ['js', 'jsx', 'mjs', 'node'],
+    keywords: JS_KEYWORDS,
+    constants: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['`', '"', "'"],
+  },
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    aliases: ['ts', 'tsx'],
+    keywords: [
+      ...JS_KEYWORDS, 'interface', 'type', 'enum', 'implements', 'namespace', 'declare', 'readonly',
+      'private', 'protected', 'public', 'abstract', 'keyof', 'is', 'string', 'number', 'boolean', 'any',
+      'unknown', 'never',
+    ],
+    constants: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['`', '"', "'"],
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    aliases: ['py', 'python3'],
+    keywords: [
+      'def', 'class', 'return', 'if', 'elif', 'else', 'for', 'while', 'break', 'continue', 'pass',
+      'import', 'from', 'as', 'try', 'except', 'finally', 'raise', 'with', 'lambda', 'yield', 'global',
+      'nonlocal', 'assert', 'del', 'in', 'is', 'not', 'and', 'or', 'async', 'await', 'self',
+    ],
+    constants: ['True', 'False', 'None'],
+    lineComments: ['#'],
+    strings: ['"""', "'''", '"', "'"],
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    aliases: [],
+    keywords: [
+      'public', 'private', 'protected', 'class', 'interface', 'enum', 'extends', 'implements', 'static',
+      'final', 'abstract', 'void', 'new', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case',
+      'default', 'break', 'continue', 'try', 'catch', 'finally', 'throw', 'throws', 'import', 'package',
+      'this', 'super', 'int', 'long', 'short', 'byte', 'char', 'float', 'double', 'boolean', 'var',
+      'synchronized', 'instanceof',
+    ],
+    constants: ['true', 'false', 'null'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"],
+  },
+  {
+    id: 'kotlin',
+    name: 'Kotlin',
+    aliases: ['kt'],
+    keywords: [
+      'fun', 'val', 'var', 'class', 'object', 'interface', 'data', 'sealed', 'open', 'override',
+      'private', 'public', 'internal', 'protected', 'return', 'if', 'else', 'when', 'for', 'while', 'do',
+      'break', 'continue', 'try', 'catch', 'finally', 'throw', 'import', 'package', 'this', 'super',
+      'is', 'as', 'in', 'suspend', 'companion', 'lateinit',
+    ],
+    constants: ['true', 'false', 'null'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"""', '"', "'"],
+  },
+  {
+    id: 'swift',
+    name: 'Swift',
+    aliases: [],
+    keywords: [
+      'func', 'let', 'var', 'class', 'struct', 'enum', 'protocol', 'extension', 'return', 'if', 'else',
+      'guard', 'switch', 'case', 'default', 'for', 'in', 'while', 'repeat', 'break', 'continue', 'import',
+      'init', 'self', 'super', 'private', 'public', 'internal', 'fileprivate', 'static', 'throws', 'try',
+      'catch', 'do', 'async', 'await', 'some', 'inout',
+    ],
+    constants: ['true', 'false', 'nil'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"""', '"'],
+  },
+  {
+    id: 'c',
+    name: 'C',
+    aliases: ['h'],
+    keywords: C_FAMILY_KEYWORDS,
+    constants: ['NULL', 'true', 'false'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"],
+  },
+  {
+    id: 'cpp',
+    name: 'C++',
+    aliases: ['c++', 'cc', 'hpp'],
+    keywords: [
+      ...C_FAMILY_KEYWORDS, 'class', 'public', 'private', 'protected', 'virtual', 'override', 'template',
+      'typename', 'namespace', 'using', 'new', 'delete', 'this', 'auto', 'try', 'catch', 'throw',
+      'constexpr', 'nullptr', 'operator',
+    ],
+    constants: ['NULL', 'nullptr', 'true', 'false'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"],
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    aliases: ['golang'],
+    keywords: [
+      'func', 'var', 'const', 'type', 'struct', 'interface', 'map', 'chan', 'package', 'import', 'return',
+      'if', 'else', 'for', 'range', 'switch', 'case', 'default', 'break', 'continue', 'go', 'defer',
+      'select', 'fallthrough', 'goto',
+    ],
+    constants: ['true', 'false', 'nil', 'iota'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['`', '"', "'"],
+  },
+  {
+    id: 'rust',
+    name: 'Rust',
+    aliases: ['rs'],
+    keywords: [
+      'fn', 'let', 'mut', 'const', 'static', 'struct', 'enum', 'trait', 'impl', 'for', 'in', 'while',
+      'loop', 'if', 'else', 'match', 'return', 'break', 'continue', 'use', 'mod', 'pub', 'crate', 'self',
+      'Self', 'super', 'where', 'as', 'ref', 'move', 'async', 'await', 'dyn', 'unsafe', 'type',
+    ],
+    constants: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"'],
+  },
+  {
+    id: 'sql',
+    name: 'SQL',
+    aliases: ['sqlite', 'mysql', 'postgres'],
+    keywords: [
+      'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set',
+      'delete', 'create', 'table', 'index', 'drop', 'alter', 'add', 'column', 'join', 'left', 'right',
+      'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'offset', 'as', 'distinct',
+      'union', 'all', 'in', 'is', 'like', 'between', 'exists', 'case', 'when', 'then', 'else', 'end',
+      'primary', 'key', 'foreign', 'references', 'default', 'asc', 'desc', 'begin', 'commit', 'rollback',
+    ],
+    constants: ['null', 'true', 'false'],
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    strings: ["'", '"'],
+    caseInsensitive: true,
+  },
+  {
+    id: 'bash',
+    name: 'Shell',
+    aliases: ['sh', 'shell', 'zsh', 'console'],
+    keywords: [
+      'if', 'then', 'else', 'elif', 'fi', 'for', 'in', 'do', 'done', 'while', 'until', 'case', 'esac',
+      'function', 'return', 'local', 'export', 'echo', 'cd', 'exit', 'source',
+    ],
+    constants: ['true', 'false'],
+    lineComments: ['#'],
+    strings: ['"', "'"],
+  },
+  {
+    id: 'json',
+    name: 'JSON',
+    aliases: ['jsonc'],
+    keywords: [],
+    constants: ['true', 'false', 'null'],
+    lineComments: [],
+    strings: ['"'],
+  },
+];
+
+// 可选的代码语言（用于语言选择）
+export const CODE_LANGUAGES: { id: string; name: string }[] = LANGUAGES.map(({ id, name }) => ({ id, name }));
+
+const findLanguage = (language?: string): LanguageDefinition | undefined => {
+  const key = language?.trim().toLowerCase();
+  if (!key) {
+    return undefined;
+  }
+  return LANGUAGES.find(def => def.id === key || def.aliases.includes(key));
+};
+
+/**
+ * 将语言名或别名（例如围栏代码块中的js、py）统一为支持的语言ID
+ * @returns 语言ID，不支持的语言返回空字符串（按纯文本显示）
+ */
+export const normalizeLanguage = (language?: string): string => findLanguage(language)?.id || '';
+
+// 获取语言的显示名称
+export const getLanguageName = (language?: string): string => findLanguage(language)?.name || '';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*/;
+const NUMBER_PATTERN = /^(?:0[xX][0-9a-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)[a-zA-Z]*/;
+
+// 从start开始找到字符串的结束位置（包含结束定界符），单字符定界符的字符串不跨行（反引号除外）
+const findStringEnd = (code: string, start: number, delimiter: string): number => {
+  const multiline = delimiter.length > 1 || delimiter === '`';
+  let index = start + delimiter.length;
+  while (index < code.length) {
+    if (code[index] === '\\') {
+      index += 2;
+    } else if (code.startsWith(delimiter, index)) {
+      return index + delimiter.length;
+    } else if (!multiline && code[index] === '\n') {
+      return index;
+    } else {
+      index++;
+    }
+  }
+  return code.length;
+};
+
+/**
+ * 把代码切分为着色片段，相邻的同类片段会被合并
+ * 不支持的语言整体作为一个plain片段返回
+ */
+export const highlightCode = (code: string, language?: string): CodeToken[] => {
+  const def = findLanguage(language);
+  if (!def || code === '') {
+    return code === '' ? [] : [{ type: 'plain', text: code }];
+  }
+
+  const normalize = (word: string) => (def.caseInsensitive ? word.toLowerCase() : word);
+  const keywords = new Set(def.keywords.map(normalize));
+  const constants = new Set(def.constants.map(normalize));
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    // 块注释
+    if (def.blockComment && code.startsWith(def.blockComment[0], index)) {
+      const close = code.indexOf(def.blockComment[1], index + def.blockComment[0].length);
+      const end = close < 0 ? code.length : close + def.blockComment[1].length;
+      push('comment', code.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    // 行注释
+    if (def.lineComments.some(marker => code.startsWith(marker, index))) {
+      const lineEnd = code.indexOf('\n', index);
+      const end = lineEnd < 0 ? code.length : lineEnd;
+      push('comment', code.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    // 字符串
+    const delimiter = def.strings.find(marker => code.startsWith(marker, index));
+    if (delimiter) {
+      const end = findStringEnd(code, index, delimiter);
+      push('string', code.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    const rest = code.slice(index);
+    const previous = index > 0 ? code[index - 1] : '';
+
+    // 数字（不处理标识符中间的数字，例如x1）
+    const numberMatch = /[\w$]/.test(previous) ? null : rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      push('number', numberMatch[0]);
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    // 标识符：关键字、常量、函数调用或类型名
+    const identifierMatch = rest.match(IDENTIFIER_PATTERN);
+    if (identifierMatch) {
+      const word = identifierMatch[0];
+      const after = code.slice(index + word.length).match(/^\s*(\S)?/)?.[1];
+      if (keywords.has(normalize(word))) {
+        push('keyword', word);
+      } else if (constants.has(normalize(word))) {
+        push('number', word);
+      } else if (after === '(') {
+        push('function', word);
+      } else if (/^[A-Z][a-z]/.test(word)) {
+        push('type', word);
+      } else {
+        push('plain', word);
+      }
+      index += word.length;
+      continue;
+    }
+
+    push('plain', code[index]);
+    index++;
+  }
+
+  return tokens;
+};
@@ -0,0 +1,170 @@
+// 表格block的内容使用JSON保存：{"columns":["表头1","表头2"],"rows":[["a","b"]]}
+// 单元格为单行markdown，导出/导入时与GFM表格互相转换
+
+export interface TableData {
+  columns: string[]; // 表头
+  rows: string[][]; // 每行的单元格数量与表头一致
+}
+
+// 表头所在的行号，用于和数据行统一处理单元格
+export const HEADER_ROW = -1;
+
+// GFM表格的分隔行：| --- | :---: | ---: |
+const DELIMITER_CELL_PATTERN = /^:?-+:?$/;
+
+/**
+ * 创建空表格（默认两列，一行数据）
+ */
+export const createTable = (columnCount = 2, rowCount = 1): TableData => ({
+  columns: Array(columnCount).fill(''),
+  rows: Array.from({ length: rowCount }, () => Array(columnCount).fill('')),
+});
+
+// 补齐或截断一行的单元格
+const fitRow = (row: unknown[], columnCount: number): string[] =>
+  Array.from({ length: columnCount }, (_, index) => (typeof row[index] === 'string' ? row[index] as string : ''));
+
+/**
+ * 解析表格block的内容
+ * 内容损坏时返回空表格，保证编辑器仍可渲染
+ */
+export const parseTable = (content: string): TableData => {
+  try {
+    const data = JSON.parse(content);
+    if (!data || !Array.isArray(data.columns) || data.columns.length === 0) {
+      return createTable();
+    }
+    const columns = fitRow(data.columns, data.columns.length);
+    const rows = Array.isArray(data.rows)
+      ? data.rows.filter(Array.isArray).map((row: unknown[]) => fitRow(row, columns.length))
+      : [];
+    return { columns, rows };
+  } catch (error) {
+    console.warn('⚠️ 表格内容解析失败:', error);
+    return createTable();
+  }
+};
+
+export const serializeTable = (data: TableData): string => JSON.stringify(data);
+
+/**
+ * 修改单元格，row为HEADER_ROW时修改表头
+ * 单元格只有一行，换行替换为空格
+ */
+export const updateTableCell = (data: TableData, row: number, column: number, text: string): TableData => {
+  const value = text.replace(/\r?\n/g, ' ');
+  if (row === HEADER_ROW) {
+    return { ...data, columns: data.columns.map((cell, index) => (index === column ? value : cell)) };
+  }
+  return {
+    ...data,
+    rows: data.rows.map((cells, rowIndex) =>
+      rowIndex === row ? cells.map((cell, index) => (index === column ? value : cell)) : cells
+    ),
+  };
+};
+
+// 在index位置插入空行（HEADER_ROW表示插入到第一行）
+export const insertTableRow = (data: TableData, index: number): TableData => {
+  const rows = [...data.rows];
+  rows.splice(Math.max(0, Math.min(index, rows.length)), 0, Array(data.columns.length).fill(''));
+  return { ...data, rows };
+};
+
+// 删除数据行，表头不可删除
+export const removeTableRow = (data: TableData, index: number): TableData => {
+  if (index === HEADER_ROW) {
+    return data;
+  }
+  return { ...data, rows: data.rows.filter((_, rowIndex) => rowIndex !== index) };
+};
+
+export const insertTableColumn = (data: TableData, index: number): TableData => {
+  const position = Math.max(0, Math.min(index, data.columns.length));
+  const insert = (cells: string[]) => [...cells.slice(0, position), '', ...cells.slice(position)];
+  return { columns: insert(data.columns), rows: data.rows.map(insert) };
+};
+
+// 删除列，至少保留一列
+export const removeTableColumn = (data: TableData, index: number): TableData => {
+  if (data.columns.length <= 1) {
+    return data;
+  }
+  const remove = (cells: string[]) => cells.filter((_, columnIndex) => columnIndex !== index);
+  return { columns: remove(data.columns), rows: data.rows.map(remove) };
+};
+
+// 表格是否没有任何内容
+export const isTableEmpty = (data: TableData): boolean =>
+  [data.columns, ...data.rows].every(cells => cells.every(cell => cell.trim() === ''));
+
+const escapeGfmCell = (cell: string) => cell.replace(/\|/g, '\\|').trim();
+
+/**
+ * 转换为GFM表格
+ */
+export const toGfmTable = (data: TableData): string => {
+  const formatRow = (cells: string[]) => `| ${cells.map(escapeGfmCell).join(' | ')} |`;
+  return [
+    formatRow(data.columns),
+    `| ${data.columns.map(() => '---').join(' | ')} |`,
+    ...data.rows.map(formatRow),
+  ].join('\n');
+};
+
+// 拆分GFM表格行，\| 为单元格内的竖线
+const splitGfmRow = (line: string): string[] => {
+  let text = line.trim();
+  if (text.startsWith('|')) {
+    text = text.substring(1);
+  }
+  if (text.endsWith('|') && !text.endsWith('\\|')) {
+    text = text.substring(0, text.length - 1);
+  }
+
+  const cells: string[] = [];
+  let current = '';
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\\' && text[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (text[index] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += text[index];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isGfmDelimiterRow = (line: string): boolean =>
+  line.includes('-') && splitGfmRow(line).every(cell => DELIMITER_CELL_PATTERN.test(cell));
+
+/**
+ * 从start行开始解析GFM表格
+ * 需要含有竖线的表头行和列数相同的分隔行，之后的非空且含竖线的行为数据行
+ * 不是表格时返回null
+ */
+export const parseGfmTable = (lines: string[], start: number): { table: TableData; lineCount: number } | null => {
+  const header = lines[start];
+  const delimiter = lines[start + 1];
+  if (!header?.includes('|') || delimiter === undefined || !isGfmDelimiterRow(delimiter)) {
+    return null;
+  }
+
+  const columns = splitGfmRow(header);
+  if (splitGfmRow(delimiter).length !== columns.length) {
+    return null;
+  }
+
+  const rows: string[][] = [];
+  let index = start + 2;
+  while (index < lines.length && lines[index].trim() !== '' && lines[index].includes('|')) {
+    rows.push(fitRow(splitGfmRow(lines[index]), columns.length));
+    index++;
+  }
+
+  return { table: { columns, rows }, lineCount: index - start };
+};
@@ -0,0 +1,39 @@
+// 标签名末尾需要去掉的标点（中英文）
+const TRAILING_PUNCTUATION = /[.,;:!?，。；：！？、)）\]】"'”’]+$/u;
+
+/**
+ * 从文本中提取#hashtag标签
+ * 只识别位于行首或空白之后、且#后紧跟非空白字符的标记，
+ * 因此markdown标题（"# 标题"）和颜色语法（"(color:#ff4444)"）不会被误识别
+ * @param text 文本内容
+ * @returns 去重后的标签名列表（保持出现顺序）
+ */
+export const extractHashtags = (text: string): string[] => {
+  if (!text) {
+    return [];
+  }
+
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  const pattern = /(^|\s)#([^\s#]+)/gu;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const name = normalizeTagName(match[2]);
+    if (name && !seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      tags.push(name);
+    }
+  }
+
+  return tags;
+};
+
+/**
+ * 规范化标签名（去掉开头的#、末尾标点和首尾空白）
+ * @param name 原始标签名
+ * @returns 规范化后的标签名，无效时返回空字符串
+ */
+export const normalizeTagName = (name: string): string => {
+  return name.trim().replace(/^#+/, '').replace(TRAILING_PUNCTUATION, '').trim();
+};
@@ -0,0 +1,69 @@
+import { BlockType, RevisionBlock } from '../Types';
+
+// 模板中的占位变量，例如 {{date}}、{{ weekday }}
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// 支持的变量名，见getTemplateVariables
+export const TEMPLATE_VARIABLE_NAMES = ['date', 'weekday', 'title', 'time'];
+
+// 内容中可以替换变量的block类型（表格的内容为JSON，替换时需要转义）
+const TEXT_TEMPLATE_BLOCK_TYPES: BlockType[] = [BlockType.MARKDOWN, BlockType.CHECKLIST, BlockType.CODE];
+
+/**
+ * 生成模板变量的值
+ * @param date 想法的日期（YYYY-MM-DD）
+ * @param title 想法的标题
+ * @param locale 星期的显示语言，例如 zh-CN
+ * @param now 当前时间，用于 {{time}}
+ */
+export const getTemplateVariables = (
+  date: string,
+  title: string,
+  locale: string,
+  now: Date = new Date()
+): Record<string, string> => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    date,
+    // 按本地时间解析，避免日期字符串被当作UTC导致星期错位
+    weekday: new Date(`${date}T00:00:00`).toLocaleDateString(locale, { weekday: 'long' }),
+    title,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+  };
+};
+
+/**
+ * 替换文本中的模板变量，未知的变量保持原样
+ */
+export const fillTemplateText = (text: string, variables: Record<string, string>): string => {
+  return text.replace(TEMPLATE_VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+};
+
+/**
+ * 用模板的blocks生成想法的blocks：替换变量并分配新的block ID
+ * @param blocks 模板中按顺序保存的blocks
+ * @param variables 变量的值，见getTemplateVariables
+ * @param idPrefix 新block ID的前缀，通常为当前时间戳
+ */
+export const instantiateTemplate = (
+  blocks: RevisionBlock[],
+  variables: Record<string, string>,
+  idPrefix: string = Date.now().toString()
+): RevisionBlock[] => {
+  // 写入表格JSON的值需要转义引号和换行
+  const tableVariables = Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [name, JSON.stringify(value).slice(1, -1)])
+  );
+
+  return blocks.map((block, index) => {
+    let content = block.content;
+    if (TEXT_TEMPLATE_BLOCK_TYPES.includes(block.type)) {
+      content = fillTemplateText(content, variables);
+    } else if (block.type === BlockType.TABLE) {
+      content = fillTemplateText(content, tableVariables);
+    }
+    return { ...block, block_id: `${idPrefix}_${index}`, content };
+  });
+};
@@ -0,0 +1,40 @@
+import i18n from '../i18n';
+import { IdeaTemplate } from '../Types';
+import { ideaDB } from './IdeaDatabase';
+import { getTemplateVariables, instantiateTemplate } from './TemplateRules';
+
+// 模板变量中星期的显示语言，与Home的日期标题一致
+const templateLocale = () => (i18n.language === 'zh' ? 'zh-CN' : 'en-US');
+
+/**
+ * 用模板填充想法的页面，按想法的日期和标题替换变量
+ * @returns 是否写入了blocks（想法已有内容时不覆盖）
+ */
+export const applyTemplateToIdea = async (
+  ideaId: number,
+  template: IdeaTemplate,
+  date: string,
+  hint: string
+): Promise<boolean> => {
+  const blocks = instantiateTemplate(template.blocks, getTemplateVariables(date, hint, templateLocale()));
+  return ideaDB.applyTemplateBlocks(ideaId, blocks);
+};
+
+/**
+ * 新想法所属的分类分配了模板时自动使用该模板，失败时不影响想法本身
+ * @returns 是否应用了模板
+ */
+export const applyCategoryTemplate = async (
+  ideaId: number,
+  category: string,
+  date: string,
+  hint: string
+): Promise<boolean> => {
+  try {
+    const template = await ideaDB.getTemplateByCategory(category);
+    return template ? await applyTemplateToIdea(ideaId, template, date, hint) : false;
+  } catch (error) {
+    console.warn('⚠️ Failed to apply category template:', error);
+    return false;
+  }
+};
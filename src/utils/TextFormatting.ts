@@ -0,0 +1,321 @@
+// 行内格式
+export type InlineFormat = 'bold' | 'italic' | 'strikethrough' | 'code' | 'link';
+
+export type ListType = 'bullet' | 'ordered';
+
+// 格式化后的文本及新的选区
+export interface FormattedText {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// 选区所在位置已有的格式，用于在工具栏上高亮按钮
+export interface ActiveFormats {
+  inline: Set<InlineFormat>;
+  headingLevel: number | null;
+  list: ListType | null;
+}
+
+// 行内格式在原文中的位置：start-innerStart为开始标记，innerEnd-end为结束标记
+export interface InlineSpan {
+  start: number;
+  innerStart: number;
+  innerEnd: number;
+  end: number;
+}
+
+// 用标记包裹的行内格式（链接单独处理）
+const INLINE_MARKERS: Record<Exclude<InlineFormat, 'link'>, string> = {
+  bold: '**',
+  italic: '*',
+  strikethrough: '~~',
+  code: '`',
+};
+
+// [文字](地址)，地址为color:时是颜色语法，不算链接
+const LINK_PATTERN = /\[([^\]]*)\]\(([^)\s]*)\)/g;
+
+// 行首的标题、列表或引用标记（•为旧版本工具栏插入的列表符号）
+const LINE_PREFIX_PATTERN = /^(?:(#{1,6})|([-*+•])|(\d+)[.)]|(>))[ \t]+/;
+
+// 行首标记的类型
+type LinePrefix = { kind: 'heading'; level: number } | { kind: ListType | 'quote' } | null;
+
+// 连续的相同字符，例如 ** 或 ~~
+const findRuns = (line: string, char: string): { index: number; length: number }[] => {
+  const runs: { index: number; length: number }[] = [];
+  for (let i = 0; i < line.length;) {
+    if (line[i] !== char) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < line.length && line[j] === char) {
+      j++;
+    }
+    runs.push({ index: i, length: j - i });
+    i = j;
+  }
+  return runs;
+};
+
+/**
+ * 找出一行中用标记包裹的片段，按出现顺序两两配对
+ * 星号连续三个时同时是粗体和斜体：粗体标记在外侧，斜体标记在内侧
+ */
+const findMarkedSpans = (line: string, format: Exclude<InlineFormat, 'link'>): InlineSpan[] => {
+  const marker = INLINE_MARKERS[format];
+  const isAsterisk = marker[0] === '*';
+  const runs = findRuns(line, marker[0]).filter(run => {
+    if (!isAsterisk) {
+      return run.length === marker.length;
+    }
+    return format === 'bold' ? run.length === 2 || run.length === 3 : run.length === 1 || run.length === 3;
+  });
+
+  const spans: InlineSpan[] = [];
+  for (let i = 0; i + 1 < runs.length; i += 2) {
+    const open = runs[i];
+    const close = runs[i + 1];
+    // 三个星号时粗体取外侧两个，斜体取内侧一个
+    const openStart = format === 'italic' ? open.index + open.length - 1 : open.index;
+    const closeStart = format === 'bold' && close.length === 3 ? close.index + 1 : close.index;
+    spans.push({
+      start: openStart,
+      innerStart: openStart + marker.length,
+      innerEnd: closeStart,
+      end: closeStart + marker.length,
+    });
+  }
+  return spans;
+};
+
+/**
+ * 一行中所有用标记包裹的片段（粗体、斜体、删除线、行内代码）
+ */
+export const findMarkedFormatSpans = (line: string): InlineSpan[] =>
+  (Object.keys(INLINE_MARKERS) as Exclude<InlineFormat, 'link'>[]).flatMap(format => findMarkedSpans(line, format));
+
+const findLinkSpans = (line: string): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  for (const match of line.matchAll(LINK_PATTERN)) {
+    if (match[2].startsWith('color:')) {
+      continue;
+    }
+    const start = match.index ?? 0;
+    spans.push({
+      start,
+      innerStart: start + 1,
+      innerEnd: start + 1 + match[1].length,
+      end: start + match[0].length,
+    });
+  }
+  return spans;
+};
+
+// 包含position位置的行的范围
+const getLineBounds = (text: string, position: number): { start: number; end: number } => {
+  const start = text.lastIndexOf('\n', position - 1) + 1;
+  const newline = text.indexOf('\n', position);
+  return { start, end: newline < 0 ? text.length : newline };
+};
+
+// 完整包含选区的行内片段（不跨行），选区正好是整个片段（含标记）时也算
+const findEnclosingSpan = (text: string, start: number, end: number, format: InlineFormat): InlineSpan | null => {
+  const line = getLineBounds(text, start);
+  if (end > line.end) {
+    return null;
+  }
+
+  const lineText = text.slice(line.start, line.end);
+  const spans = format === 'link' ? findLinkSpans(lineText) : findMarkedSpans(lineText, format);
+  const from = start - line.start;
+  const to = end - line.start;
+  const span = spans.find(item =>
+    (item.innerStart <= from && to <= item.innerEnd) || (item.start === from && item.end === to)
+  );
+  return span ? {
+    start: span.start + line.start,
+    innerStart: span.innerStart + line.start,
+    innerEnd: span.innerEnd + line.start,
+    end: span.end + line.start,
+  } : null;
+};
+
+const parseLinePrefix = (line: string): { prefix: LinePrefix; length: number } => {
+  const match = line.match(LINE_PREFIX_PATTERN);
+  if (!match) {
+    return { prefix: null, length: 0 };
+  }
+  if (match[1]) {
+    return { prefix: { kind: 'heading', level: match[1].length }, length: match[0].length };
+  }
+  if (match[4]) {
+    return { prefix: { kind: 'quote' }, length: match[0].length };
+  }
+  return { prefix: { kind: match[2] ? 'bullet' : 'ordered' }, length: match[0].length };
+};
+
+/**
+ * 获取选区位置已有的格式
+ * @param text 文本内容
+ * @param start 选区开始位置
+ * @param end 选区结束位置（未选中文字时与start相同）
+ */
+export const getActiveFormats = (text: string, start: number, end: number = start): ActiveFormats => {
+  const from = Math.min(start, end);
+  const to = Math.max(start, end);
+  const inline = new Set<InlineFormat>();
+  for (const format of ['bold', 'italic', 'strikethrough', 'code', 'link'] as InlineFormat[]) {
+    if (findEnclosingSpan(text, from, to, format)) {
+      inline.add(format);
+    }
+  }
+
+  const line = getLineBounds(text, from);
+  const { prefix } = parseLinePrefix(text.slice(line.start, line.end));
+  return {
+    inline,
+    headingLevel: prefix?.kind === 'heading' ? prefix.level : null,
+    list: prefix?.kind === 'bullet' || prefix?.kind === 'ordered' ? prefix.kind : null,
+  };
+};
+
+/**
+ * 切换选中文字的行内格式
+ * - 选区位于该格式的片段中时去掉格式，否则用标记包裹选中的文字
+ * - 未选中文字时插入一对空标记，光标位于两个标记之间；再次点击去掉空标记
+ * - 链接包裹为[文字]()，光标位于括号中以便输入地址
+ */
+export const toggleInlineFormat = (text: string, start: number, end: number, format: InlineFormat): FormattedText => {
+  let from = Math.min(start, end);
+  let to = Math.max(start, end);
+
+  const span = findEnclosingSpan(text, from, to, format);
+  if (span) {
+    const openLength = span.innerStart - span.start;
+    // 位于标记中的位置移到文字边界
+    const mapPosition = (position: number) =>
+      Math.min(Math.max(position, span.innerStart), span.innerEnd) - openLength;
+    return {
+      text: text.slice(0, span.start) + text.slice(span.innerStart, span.innerEnd) + text.slice(span.end),
+      start: mapPosition(from),
+      end: mapPosition(to),
+    };
+  }
+
+  if (format === 'link') {
+    const label = text.slice(from, to);
+    // 没有选中文字时光标位于[]中，否则位于()中
+    const cursor = from + 1 + (label ? label.length + 2 : 0);
+    return { text: `${text.slice(0, from)}[${label}]()${text.slice(to)}`, start: cursor, end: cursor };
+  }
+
+  const marker = INLINE_MARKERS[format];
+  if (from === to && text.slice(from - marker.length, from) === marker && text.slice(from, from + marker.length) === marker) {
+    return {
+      text: text.slice(0, from - marker.length) + text.slice(from + marker.length),
+      start: from - marker.length,
+      end: from - marker.length,
+    };
+  }
+
+  // 标记紧贴文字才能生效，选区首尾的空白留在标记外
+  while (from < to && /\s/.test(text[from])) {
+    from++;
+  }
+  while (to > from && /\s/.test(text[to - 1])) {
+    to--;
+  }
+
+  return {
+    text: text.slice(0, from) + marker + text.slice(from, to) + marker + text.slice(to),
+    start: from + marker.length,
+    end: to + marker.length,
+  };
+};
+
+// 替换选区所在各行的行首标记，并换算新的选区
+const replaceLinePrefixes = (
+  text: string,
+  start: number,
+  end: number,
+  getPrefix: (current: LinePrefix, index: number) => string
+): FormattedText => {
+  const from = Math.min(start, end);
+  const to = Math.max(start, end);
+  const lines = text.split('\n');
+
+  let offset = 0;
+  let lineIndex = 0;
+  const edits: { lineStart: number; oldLength: number; newLength: number }[] = [];
+  const result = lines.map(line => {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (lineStart + line.length < from || lineStart > to) {
+      return line;
+    }
+
+    const { prefix, length } = parseLinePrefix(line);
+    const newPrefix = getPrefix(prefix, lineIndex++);
+    edits.push({ lineStart, oldLength: length, newLength: newPrefix.length });
+    return newPrefix + line.slice(length);
+  });
+
+  // 原文中的位置换算到新文本，位于被替换的标记中时移到新标记之后
+  const mapPosition = (position: number) => {
+    let delta = 0;
+    for (const edit of edits) {
+      if (position < edit.lineStart) {
+        break;
+      }
+      if (position < edit.lineStart + edit.oldLength) {
+        return edit.lineStart + delta + edit.newLength;
+      }
+      delta += edit.newLength - edit.oldLength;
+    }
+    return position + delta;
+  };
+
+  return { text: result.join('\n'), start: mapPosition(from), end: mapPosition(to) };
+};
+
+// 选区所在的各行是否都已有指定的行首标记
+const allLinesHavePrefix = (text: string, start: number, end: number, matches: (prefix: LinePrefix) => boolean) => {
+  let all = true;
+  replaceLinePrefixes(text, start, end, prefix => {
+    all = all && matches(prefix);
+    return '';
+  });
+  return all;
+};
+
+/**
+ * 切换选区所在各行的标题级别：都已是该级别时去掉标题，否则设为该级别（替换原有的列表标记）
+ */
+export const toggleHeading = (text: string, start: number, end: number, level: number): FormattedText => {
+  const isSameLevel = allLinesHavePrefix(text, start, end, prefix => prefix?.kind === 'heading' && prefix.level === level);
+  return replaceLinePrefixes(text, start, end, () => (isSameLevel ? '' : `${'#'.repeat(level)} `));
+};
+
+/**
+ * 切换选区所在各行的列表类型：都已是该类型时去掉列表，否则设为该类型（有序列表重新编号）
+ */
+export const toggleList = (text: string, start: number, end: number, type: ListType): FormattedText => {
+  const isSameType = allLinesHavePrefix(text, start, end, prefix => prefix?.kind === type);
+  return replaceLinePrefixes(text, start, end, (_prefix, index) => {
+    if (isSameType) {
+      return '';
+    }
+    return type === 'bullet' ? '- ' : `${index + 1}. `;
+  });
+};
+
+/**
+ * 切换选区所在各行的引用：都已是引用时取消，否则设为引用（替换原有的标题或列表标记）
+ */
+export const toggleQuote = (text: string, start: number, end: number): FormattedText => {
+  const isQuote = allLinesHavePrefix(text, start, end, prefix => prefix?.kind === 'quote');
+  return replaceLinePrefixes(text, start, end, () => (isQuote ? '' : '> '));
+};
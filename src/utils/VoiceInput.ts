@@ -0,0 +1,177 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+import AudioRecord from 'react-native-audio-record';
+import { initWhisper, WhisperContext } from 'whisper.rn';
+import { AUDIO_DIR, uriToPath } from './MediaStorage';
+import { AudioRecorder, SpeechToTextProvider, TranscribeOptions, VoiceRecognizer } from './SpeechToText';
+import { VOICE_SAMPLE_RATE, WHISPER_MODEL_FILE, WHISPER_MODEL_URL } from './config';
+
+// 离线识别模型的存储目录
+const MODELS_DIR = `${RNFS.DocumentDirectoryPath}/models`;
+
+// 中文识别时的提示语，让whisper输出简体中文和标点
+const CHINESE_PROMPT = '以下是普通话的句子。';
+
+// 请求麦克风权限（iOS在首次录音时由系统弹窗询问）
+const requestMicrophonePermission = async (): Promise<boolean> => {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+  const granted = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.RECORD_AUDIO);
+  return granted === PermissionsAndroid.RESULTS.GRANTED;
+};
+
+// 使用react-native-audio-record录制16kHz单声道WAV
+export const wavRecorder: AudioRecorder = {
+  async start() {
+    if (!(await requestMicrophonePermission())) {
+      throw new Error('没有麦克风权限');
+    }
+    AudioRecord.init({
+      sampleRate: VOICE_SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      wavFile: `voice_${Date.now()}.wav`,
+    });
+    AudioRecord.start();
+  },
+
+  async stop() {
+    return AudioRecord.stop();
+  },
+
+  async discard(audioPath: string) {
+    await discardRecording(audioPath);
+  },
+};
+
+/**
+ * 基于whisper.cpp的离线语音识别
+ * 模型文件首次使用前需要下载（downloadModel），之后完全在设备上识别
+ */
+export class WhisperProvider implements SpeechToTextProvider {
+  readonly id = 'whisper';
+  private context: Promise<WhisperContext> | null = null;
+
+  constructor(private readonly modelPath: string = `${MODELS_DIR}/${WHISPER_MODEL_FILE}`) {}
+
+  async isAvailable(): Promise<boolean> {
+    return RNFS.exists(this.modelPath);
+  }
+
+  /**
+   * 下载识别模型
+   * @param onProgress 下载进度（0~1）
+   */
+  async downloadModel(onProgress?: (progress: number) => void): Promise<void> {
+    await RNFS.mkdir(MODELS_DIR);
+    const tempPath = `${this.modelPath}.download`;
+    const { promise } = RNFS.downloadFile({
+      fromUrl: WHISPER_MODEL_URL,
+      toFile: tempPath,
+      progressInterval: 500,
+      progress: ({ bytesWritten, contentLength }) => {
+        if (contentLength > 0) {
+          onProgress?.(bytesWritten / contentLength);
+        }
+      },
+    });
+
+    try {
+      const result = await promise;
+      if (result.statusCode !== 200) {
+        throw new Error(`HTTP ${result.statusCode}`);
+      }
+      await RNFS.moveFile(tempPath, this.modelPath);
+    } catch (error) {
+      if (await RNFS.exists(tempPath)) {
+        await RNFS.unlink(tempPath);
+      }
+      console.error('❌ Error downloading speech model:', error);
+      throw new Error('下载语音识别模型失败');
+    }
+  }
+
+  async transcribe(audioPath: string, options?: TranscribeOptions): Promise<string> {
+    if (!this.context) {
+      this.context = initWhisper({ filePath: this.modelPath });
+      // 加载失败时允许下次重试
+      this.context.catch(() => {
+        this.context = null;
+      });
+    }
+
+    try {
+      const context = await this.context;
+      const { promise } = context.transcribe(uriToPath(audioPath), {
+        language: options?.language || 'auto',
+        prompt: options?.language === 'zh' ? CHINESE_PROMPT : undefined,
+      });
+      const { result } = await promise;
+      return result;
+    } catch (error) {
+      console.error('❌ Error transcribing audio:', error);
+      throw new Error('语音识别失败');
+    }
+  }
+
+  async release(): Promise<void> {
+    const context = this.context;
+    this.context = null;
+    if (context) {
+      await (await context).release();
+    }
+  }
+}
+
+// 默认的离线识别引擎
+export const whisperProvider = new WhisperProvider();
+
+let speechToTextProvider: SpeechToTextProvider = whisperProvider;
+
+// 获取当前使用的语音识别服务
+export const getSpeechToTextProvider = (): SpeechToTextProvider => speechToTextProvider;
+
+// 替换语音识别服务（例如接入云端识别），旧服务的资源会被释放
+export const setSpeechToTextProvider = (provider: SpeechToTextProvider): void => {
+  if (provider === speechToTextProvider) {
+    return;
+  }
+  const previous = speechToTextProvider;
+  speechToTextProvider = provider;
+  previous.release?.().catch(error => {
+    console.warn('⚠️ Failed to release speech provider:', error);
+  });
+};
+
+// 应用使用的语音识别流程
+export const voiceRecognizer = new VoiceRecognizer(wavRecorder, getSpeechToTextProvider);
+
+// 删除录音文件（识别后不需要保留时）
+export const discardRecording = async (audioPath: string): Promise<void> => {
+  try {
+    const path = uriToPath(audioPath);
+    if (await RNFS.exists(path)) {
+      await RNFS.unlink(path);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to delete recording:', audioPath, error);
+  }
+};
+
+/**
+ * 把录音移到应用的录音目录，作为想法的语音附件或编辑器中的录音block保存
+ * @returns 录音文件的uri（file://）
+ */
+export const saveRecordingAsAttachment = async (audioPath: string): Promise<string> => {
+  try {
+    await RNFS.mkdir(AUDIO_DIR);
+    const sourcePath = uriToPath(audioPath);
+    const destPath = `${AUDIO_DIR}/${sourcePath.split('/').pop()}`;
+    await RNFS.moveFile(sourcePath, destPath);
+    return `file://${destPath}`;
+  } catch (error) {
+    console.error('❌ Error keeping recording:', error);
+    throw new Error('保存录音失败');
+  }
+};
@@ -0,0 +1,88 @@
+// [[标题]] 或 [[标题|显示文字]]，前面是!时为Obsidian风格的图片嵌入，不算链接
+const WIKI_LINK_PATTERN = /(!?)\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+// 渲染时wiki链接转换成的markdown链接地址前缀
+export const WIKI_LINK_SCHEME = 'wiki:';
+
+/**
+ * 从文本中提取wiki链接指向的想法标题
+ * @param text 文本内容
+ * @returns 去重后的标题列表（忽略大小写，保持出现顺序）
+ */
+export const extractWikiLinks = (text: string): string[] => {
+  if (!text) {
+    return [];
+  }
+
+  const targets: string[] = [];
+  const seen = new Set<string>();
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const target = match[2].trim();
+    if (!match[1] && target && !seen.has(target.toLowerCase())) {
+      seen.add(target.toLowerCase());
+      targets.push(target);
+    }
+  }
+  return targets;
+};
+
+/**
+ * 光标位于未闭合的[[之后时返回正在输入的标题，用于自动补全
+ * @param text 文本内容
+ * @param cursor 光标位置
+ * @returns [[的位置和已输入的内容，不在链接中时返回null
+ */
+export const getWikiLinkQuery = (text: string, cursor: number): { start: number; query: string } | null => {
+  const before = text.slice(0, cursor);
+  const start = before.lastIndexOf('[[');
+  if (start < 0 || before[start - 1] === '!') {
+    return null;
+  }
+
+  const query = before.slice(start + 2);
+  if (/[[\]|\n]/.test(query)) {
+    return null;
+  }
+  return { start, query };
+};
+
+/**
+ * 用选中的标题补全正在输入的链接
+ * @returns 补全后的文本和光标位置（链接之后）
+ */
+export const completeWikiLink = (text: string, start: number, cursor: number, title: string): { text: string; cursor: number } => {
+  // 输入法可能已自动补上]]
+  const after = text.slice(cursor).replace(/^\]\]/, '');
+  const link = `[[${title}]]`;
+  return {
+    text: text.slice(0, start) + link + after,
+    cursor: start + link.length,
+  };
+};
+
+/**
+ * 将wiki链接转换成markdown链接以便渲染，例如 [[标题]] → [标题](wiki:标题)
+ */
+export const wikiLinksToMarkdown = (text: string): string => {
+  return text.replace(WIKI_LINK_PATTERN, (match, embed: string, target: string, label?: string) => {
+    if (embed) {
+      return match;
+    }
+    return `[${(label ?? target).trim()}](${WIKI_LINK_SCHEME}${encodeURIComponent(target.trim())})`;
+  });
+};
+
+/**
+ * 从渲染后的链接地址中取出标题，不是wiki链接时返回null
+ */
+export const parseWikiLinkHref = (href: string): string | null => {
+  if (!href.startsWith(WIKI_LINK_SCHEME)) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(href.slice(WIKI_LINK_SCHEME.length));
+  } catch (error) {
+    console.warn('⚠️ Invalid wiki link:', href, error);
+    return null;
+  }
+};
@@ -1 +1,36 @@
- 
\ No newline at end of file
+// 回收站中的想法默认保留天数，超过后自动永久删除
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 回收站保留天数的可选项
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+// 版本历史：此时间窗口（分钟）内的连续保存合并为同一个版本
+export const REVISION_COALESCE_WINDOW_MINUTES = 10;
+
+// 版本历史：每个想法最多保留的版本数量，超出后删除最旧的版本
+export const MAX_REVISIONS_PER_IDEA = 50;
+
+// 分类器学习：最多保留的手动分类记录数量，超出后删除最旧的记录
+export const MAX_CATEGORY_FEEDBACK = 500;
+
+// 分类设置中可选的图标
+export const CATEGORY_ICON_OPTIONS = ['📝', '💡', '📚', '📄', '💼', '🏠', '❤️', '🎯', '💰', '🏃', '🍳', '✈️', '🎵', '🎬', '🛒', '🔧', '🌱', '⭐'];
+
+// 截止时间：只识别出日期时使用的默认时间（小时）
+export const DEFAULT_DUE_HOUR = 9;
+
+// 截止时间在此小时数内的待办显示"即将到期"标记
+export const DUE_SOON_HOURS = 24;
+
+// 重复待办：自定义间隔的最大天数
+export const MAX_RECURRENCE_INTERVAL = 365;
+
+// 语音输入：录音采样率（离线识别引擎需要16kHz单声道WAV）
+export const VOICE_SAMPLE_RATE = 16000;
+
+// 语音输入：短于此时长（毫秒）的录音视为误触，不进行识别
+export const MIN_RECORDING_MS = 500;
+
+// 离线语音识别模型（whisper.cpp格式），首次使用时下载到应用目录
+export const WHISPER_MODEL_FILE = 'ggml-base.bin';
+export const WHISPER_MODEL_URL = 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-base.bin';